@@ -9,6 +9,8 @@ import Workshops from "@/pages/workshops";
 import AdminLogin from "@/pages/admin-login";
 import AdminDashboard from "@/pages/admin";
 import ConfirmationPage from "@/pages/confirmation";
+import MyRegistrationPage from "@/pages/my-registration";
+import RosterPage from "@/pages/roster";
 
 function Router() {
   return (
@@ -19,6 +21,8 @@ function Router() {
       <Route path="/admin-login" component={AdminLogin} />
       <Route path="/admin" component={AdminDashboard} />
       <Route path="/confirmation" component={ConfirmationPage} />
+      <Route path="/my-registration" component={MyRegistrationPage} />
+      <Route path="/roster" component={RosterPage} />
       <Route component={NotFound} />
     </Switch>
   );
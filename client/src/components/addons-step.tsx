@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { ArrowLeft, ArrowRight, Plus, Minus } from "lucide-react";
 import { RegistrationData } from "@/pages/registration";
 import { Addon } from "@shared/schema";
+import { useCurrency } from "@/hooks/useCurrency";
 
 interface AddonsStepProps {
   data: RegistrationData;
@@ -32,6 +33,7 @@ export function AddonsStep({ data, onUpdate, onNext, onPrev }: AddonsStepProps)
   const { data: addons, isLoading } = useQuery<Addon[]>({
     queryKey: ['/api/addons'],
   });
+  const { format } = useCurrency();
 
   const [addonSelections, setAddonSelections] = useState<AddonSelection[]>([]);
   
@@ -250,7 +252,7 @@ export function AddonsStep({ data, onUpdate, onNext, onPrev }: AddonsStepProps)
                     <div className="p-6">
                       <h3 className="text-xl font-semibold text-gray-900 mb-3">{addon.name}</h3>
                       <p className="text-gray-600 mb-4">{addon.description}</p>
-                      <div className="text-2xl font-bold text-primary mb-6">AED {addon.price}</div>
+                      <div className="text-2xl font-bold text-primary mb-6">{format(addon.price)}</div>
                       
                       {/* Size Selection */}
                       <div className="mb-6">
@@ -321,7 +323,7 @@ export function AddonsStep({ data, onUpdate, onNext, onPrev }: AddonsStepProps)
                                 </div>
                               </div>
                               <div className="text-right">
-                                <p className="text-sm text-gray-600">AED {(parseFloat(addon.price) * selection.quantity).toFixed(2)}</p>
+                                <p className="text-sm text-gray-600">{format(parseFloat(addon.price) * selection.quantity)}</p>
                                 <Button
                                   variant="destructive"
                                   size="sm"
@@ -335,7 +337,7 @@ export function AddonsStep({ data, onUpdate, onNext, onPrev }: AddonsStepProps)
                           ))}
                           <div className="pt-2 border-t">
                             <p className="text-sm font-medium text-gray-900">
-                              Total: AED {addonSelections.reduce((total, sel) => total + (parseFloat(addon.price) * sel.quantity), 0).toFixed(2)}
+                              Total: {format(addonSelections.reduce((total, sel) => total + (parseFloat(addon.price) * sel.quantity), 0))}
                             </p>
                           </div>
                         </div>
@@ -359,7 +361,7 @@ export function AddonsStep({ data, onUpdate, onNext, onPrev }: AddonsStepProps)
                         <div className="flex-1 mr-4">
                           <h3 className="text-lg font-semibold text-gray-900 mb-2">{addon.name}</h3>
                           <p className="text-gray-600 text-sm mb-3">{addon.description}</p>
-                          <div className="text-xl font-bold text-primary">AED {addon.price}</div>
+                          <div className="text-xl font-bold text-primary">{format(addon.price)}</div>
                         </div>
                         <div className="flex items-center space-x-3">
                           <Checkbox
@@ -404,7 +406,7 @@ export function AddonsStep({ data, onUpdate, onNext, onPrev }: AddonsStepProps)
                   <div className="flex-1">
                     <h3 className="text-lg font-semibold text-gray-900 mb-2">{addon.name}</h3>
                     <p className="text-gray-600 text-sm mb-4">{addon.description}</p>
-                    <div className="text-xl font-bold text-primary mb-4">AED {addon.price}</div>
+                    <div className="text-xl font-bold text-primary mb-4">{format(addon.price)}</div>
                     
                     <div className="mb-4">
                       <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
@@ -464,7 +466,7 @@ export function AddonsStep({ data, onUpdate, onNext, onPrev }: AddonsStepProps)
                         {addon.name} {optionsText && `(${optionsText})`} x{selection.quantity}
                       </span>
                       <span className="font-medium">
-                        AED {(parseFloat(addon.price) * selection.quantity).toFixed(0)}
+                        {format(parseFloat(addon.price) * selection.quantity)}
                       </span>
                     </div>
                   );
@@ -473,7 +475,7 @@ export function AddonsStep({ data, onUpdate, onNext, onPrev }: AddonsStepProps)
             <div className="border-t border-gray-200 mt-2 pt-2">
               <div className="flex justify-between items-center font-semibold">
                 <span>Add-ons Subtotal:</span>
-                <span>AED {calculateAddonsTotal().toFixed(0)}</span>
+                <span>{format(calculateAddonsTotal())}</span>
               </div>
             </div>
           </div>
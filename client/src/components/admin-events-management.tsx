@@ -8,9 +8,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import { Plus, Edit, Trash2, Calendar, MapPin, Loader2, Star } from "lucide-react";
+import { Plus, Edit, Trash2, Calendar, MapPin, Loader2, Star, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { Event, InsertEvent } from "@shared/schema";
+import type { RefundPolicy, RefundPolicyRule } from "@shared/refundPolicy";
+import { DEFAULT_BASE_CURRENCY, type ExchangeRate } from "@shared/currency";
 
 interface AdminEventsManagementProps {
   adminToken: string;
@@ -63,6 +65,16 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
     premiumAccommodation3NightsEarlyBirdSinglePrice: 0,
     premiumAccommodation3NightsEarlyBirdDoublePrice: 0,
     premiumAccommodation3NightsEarlyBirdEndDate: "",
+    // Cancellation refund deadlines
+    refundPolicy: [] as RefundPolicy,
+    // Currencies
+    baseCurrency: DEFAULT_BASE_CURRENCY,
+    currencies: [] as ExchangeRate[],
+    // Tax invoices
+    vatRate: 0,
+    taxRegistrationNumber: "",
+    invoiceIssuer: "",
+    invoicePrefix: "",
   });
 
   const { data: events = [], isLoading: eventsLoading } = useQuery<Event[]>({
@@ -194,6 +206,48 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
     },
   });
 
+  // Issues any missing invoices and credit notes, then downloads them all
+  const regenerateInvoicesMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const issueResponse = await fetch(`/api/admin/events/${id}/invoices/issue`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${adminToken}`,
+        },
+      });
+      if (!issueResponse.ok) throw new Error("Failed to issue invoices");
+      const result = await issueResponse.json();
+
+      const pdfResponse = await fetch(`/api/admin/events/${id}/invoices/pdf`, {
+        headers: {
+          "Authorization": `Bearer ${adminToken}`,
+        },
+      });
+      if (!pdfResponse.ok) throw new Error((await pdfResponse.json()).message || "Failed to generate invoices");
+      const url = URL.createObjectURL(await pdfResponse.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `invoices-${id}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      return result as { invoices: number; creditNotes: number; failed: string[] };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Invoices Regenerated",
+        description: `${result.invoices} new invoice(s) and ${result.creditNotes} new credit note(s) issued.` +
+          (result.failed.length > 0 ? ` ${result.failed.length} registration(s) failed; see the logs.` : ""),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Invoices Not Generated",
+        description: error.message || "Failed to generate invoices. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const resetForm = () => {
     setFormData({
       name: "",
@@ -232,6 +286,16 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
       premiumAccommodation3NightsEarlyBirdSinglePrice: 0,
       premiumAccommodation3NightsEarlyBirdDoublePrice: 0,
       premiumAccommodation3NightsEarlyBirdEndDate: "",
+      // Cancellation refund deadlines
+      refundPolicy: [],
+      // Currencies
+      baseCurrency: DEFAULT_BASE_CURRENCY,
+      currencies: [],
+      // Tax invoices
+      vatRate: 0,
+      taxRegistrationNumber: "",
+      invoiceIssuer: "",
+      invoicePrefix: "",
     });
   };
 
@@ -292,6 +356,30 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
       premiumAccommodation3NightsEarlyBirdSinglePrice: (event as any).premiumAccommodation3NightsEarlyBirdSinglePrice || 0,
       premiumAccommodation3NightsEarlyBirdDoublePrice: (event as any).premiumAccommodation3NightsEarlyBirdDoublePrice || 0,
       premiumAccommodation3NightsEarlyBirdEndDate: (event as any).premiumAccommodation3NightsEarlyBirdEndDate ? new Date((event as any).premiumAccommodation3NightsEarlyBirdEndDate).toISOString().split('T')[0] : "",
+      // Cancellation refund deadlines
+      refundPolicy: (event.refundPolicy || []).map(rule => ({ ...rule, before: rule.before.split('T')[0] })),
+      // Currencies
+      baseCurrency: event.baseCurrency || DEFAULT_BASE_CURRENCY,
+      currencies: event.currencies || [],
+      // Tax invoices
+      vatRate: Number(event.vatRate) || 0,
+      taxRegistrationNumber: event.taxRegistrationNumber || "",
+      invoiceIssuer: event.invoiceIssuer || "",
+      invoicePrefix: event.invoicePrefix || "",
+    });
+  };
+
+  const updateRefundRule = (index: number, changes: Partial<RefundPolicyRule>) => {
+    setFormData({
+      ...formData,
+      refundPolicy: formData.refundPolicy.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const updateCurrency = (index: number, changes: Partial<ExchangeRate>) => {
+    setFormData({
+      ...formData,
+      currencies: formData.currencies.map((rate, i) => (i === index ? { ...rate, ...changes } : rate)),
     });
   };
 
@@ -385,6 +473,18 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                         Set as Current
                       </Button>
                     )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => regenerateInvoicesMutation.mutate(event.id)}
+                      disabled={regenerateInvoicesMutation.isPending}
+                    >
+                      {regenerateInvoicesMutation.isPending && regenerateInvoicesMutation.variables === event.id
+                        ? <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                        : <FileText className="h-3 w-3 mr-2" />}
+                      Invoices (PDF)
+                    </Button>
                   </div>
                 </CardContent>
               </Card>
@@ -521,7 +621,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                 
                 <div className="grid grid-cols-2 md:grid-cols-6 gap-3 bg-blue-50 p-3 rounded-lg">
                   <div>
-                    <Label htmlFor="fullPackageStandardPrice" className="text-sm">Standard Price (AED)</Label>
+                    <Label htmlFor="fullPackageStandardPrice" className="text-sm">Standard Price ({formData.baseCurrency})</Label>
                     <Input
                       id="fullPackageStandardPrice"
                       type="number"
@@ -535,7 +635,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="fullPackageEarlyBirdPrice" className="text-sm">Early Bird Price (AED)</Label>
+                    <Label htmlFor="fullPackageEarlyBirdPrice" className="text-sm">Early Bird Price ({formData.baseCurrency})</Label>
                     <Input
                       id="fullPackageEarlyBirdPrice"
                       type="number"
@@ -560,7 +660,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="fullPackage24HourPrice" className="text-sm">24-Hour Deal (AED)</Label>
+                    <Label htmlFor="fullPackage24HourPrice" className="text-sm">24-Hour Deal ({formData.baseCurrency})</Label>
                     <Input
                       id="fullPackage24HourPrice"
                       type="number"
@@ -606,7 +706,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                 
                 <div className="grid grid-cols-2 md:grid-cols-6 gap-3 bg-purple-50 p-3 rounded-lg">
                   <div>
-                    <Label htmlFor="eveningPackageStandardPrice" className="text-sm">Standard Price (AED)</Label>
+                    <Label htmlFor="eveningPackageStandardPrice" className="text-sm">Standard Price ({formData.baseCurrency})</Label>
                     <Input
                       id="eveningPackageStandardPrice"
                       type="number"
@@ -620,7 +720,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="eveningPackageEarlyBirdPrice" className="text-sm">Early Bird Price (AED)</Label>
+                    <Label htmlFor="eveningPackageEarlyBirdPrice" className="text-sm">Early Bird Price ({formData.baseCurrency})</Label>
                     <Input
                       id="eveningPackageEarlyBirdPrice"
                       type="number"
@@ -645,7 +745,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="eveningPackage24HourPrice" className="text-sm">24-Hour Deal (AED)</Label>
+                    <Label htmlFor="eveningPackage24HourPrice" className="text-sm">24-Hour Deal ({formData.baseCurrency})</Label>
                     <Input
                       id="eveningPackage24HourPrice"
                       type="number"
@@ -687,7 +787,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                 <h3 className="text-lg font-semibold mb-4 text-purple-600">Premium + 4 Nights Accommodation</h3>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label htmlFor="premiumAccommodation4NightsSinglePrice" className="text-sm">Single Occupancy Price (AED)</Label>
+                    <Label htmlFor="premiumAccommodation4NightsSinglePrice" className="text-sm">Single Occupancy Price ({formData.baseCurrency})</Label>
                     <Input
                       id="premiumAccommodation4NightsSinglePrice"
                       type="number"
@@ -701,7 +801,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="premiumAccommodation4NightsDoublePrice" className="text-sm">Double Occupancy Price (AED)</Label>
+                    <Label htmlFor="premiumAccommodation4NightsDoublePrice" className="text-sm">Double Occupancy Price ({formData.baseCurrency})</Label>
                     <Input
                       id="premiumAccommodation4NightsDoublePrice"
                       type="number"
@@ -715,7 +815,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="premiumAccommodation4NightsEarlyBirdSinglePrice" className="text-sm">Early Bird Single (AED)</Label>
+                    <Label htmlFor="premiumAccommodation4NightsEarlyBirdSinglePrice" className="text-sm">Early Bird Single ({formData.baseCurrency})</Label>
                     <Input
                       id="premiumAccommodation4NightsEarlyBirdSinglePrice"
                       type="number"
@@ -729,7 +829,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="premiumAccommodation4NightsEarlyBirdDoublePrice" className="text-sm">Early Bird Double (AED)</Label>
+                    <Label htmlFor="premiumAccommodation4NightsEarlyBirdDoublePrice" className="text-sm">Early Bird Double ({formData.baseCurrency})</Label>
                     <Input
                       id="premiumAccommodation4NightsEarlyBirdDoublePrice"
                       type="number"
@@ -760,7 +860,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                 <h3 className="text-lg font-semibold mb-4 text-purple-600">Premium + 3 Nights Accommodation</h3>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label htmlFor="premiumAccommodation3NightsSinglePrice" className="text-sm">Single Occupancy Price (AED)</Label>
+                    <Label htmlFor="premiumAccommodation3NightsSinglePrice" className="text-sm">Single Occupancy Price ({formData.baseCurrency})</Label>
                     <Input
                       id="premiumAccommodation3NightsSinglePrice"
                       type="number"
@@ -774,7 +874,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="premiumAccommodation3NightsDoublePrice" className="text-sm">Double Occupancy Price (AED)</Label>
+                    <Label htmlFor="premiumAccommodation3NightsDoublePrice" className="text-sm">Double Occupancy Price ({formData.baseCurrency})</Label>
                     <Input
                       id="premiumAccommodation3NightsDoublePrice"
                       type="number"
@@ -788,7 +888,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="premiumAccommodation3NightsEarlyBirdSinglePrice" className="text-sm">Early Bird Single (AED)</Label>
+                    <Label htmlFor="premiumAccommodation3NightsEarlyBirdSinglePrice" className="text-sm">Early Bird Single ({formData.baseCurrency})</Label>
                     <Input
                       id="premiumAccommodation3NightsEarlyBirdSinglePrice"
                       type="number"
@@ -802,7 +902,7 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
                   </div>
                   
                   <div>
-                    <Label htmlFor="premiumAccommodation3NightsEarlyBirdDoublePrice" className="text-sm">Early Bird Double (AED)</Label>
+                    <Label htmlFor="premiumAccommodation3NightsEarlyBirdDoublePrice" className="text-sm">Early Bird Double ({formData.baseCurrency})</Label>
                     <Input
                       id="premiumAccommodation3NightsEarlyBirdDoublePrice"
                       type="number"
@@ -840,6 +940,199 @@ export function AdminEventsManagement({ adminToken }: AdminEventsManagementProps
               </div>
             </div>
             
+            {/* Currencies */}
+            <div className="space-y-3 border-t pt-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold">Currencies</h3>
+                  <p className="text-xs text-gray-600">
+                    Prices are set in the base currency. Visitors can view them in the other currencies at these rates; settlement currencies can also be charged in, otherwise card payments are taken in the base currency.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setFormData({ ...formData, currencies: [...formData.currencies, { code: "", rate: 1, settlement: false }] })}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Currency
+                </Button>
+              </div>
+              <div className="w-32">
+                <Label htmlFor="baseCurrency" className="text-sm">Base Currency</Label>
+                <Input
+                  id="baseCurrency"
+                  value={formData.baseCurrency}
+                  onChange={(e) => setFormData({ ...formData, baseCurrency: e.target.value.toUpperCase() })}
+                  maxLength={3}
+                  pattern="[A-Za-z]{3}"
+                  required
+                  className="text-sm"
+                />
+              </div>
+              {formData.currencies.map((rate, index) => (
+                <div key={index} className="flex items-end gap-3">
+                  <div className="w-32">
+                    <Label htmlFor={`currencyCode-${index}`} className="text-sm">Currency</Label>
+                    <Input
+                      id={`currencyCode-${index}`}
+                      value={rate.code}
+                      onChange={(e) => updateCurrency(index, { code: e.target.value.toUpperCase() })}
+                      maxLength={3}
+                      pattern="[A-Za-z]{3}"
+                      placeholder="EUR"
+                      required
+                      className="text-sm"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <Label htmlFor={`currencyRate-${index}`} className="text-sm">
+                      {rate.code || "Units"} per 1 {formData.baseCurrency}
+                    </Label>
+                    <Input
+                      id={`currencyRate-${index}`}
+                      type="number"
+                      min="0.000001"
+                      step="any"
+                      value={rate.rate}
+                      onChange={(e) => updateCurrency(index, { rate: parseFloat(e.target.value) || 0 })}
+                      required
+                      className="text-sm"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2 pb-2">
+                    <input
+                      type="checkbox"
+                      id={`currencySettlement-${index}`}
+                      checked={rate.settlement}
+                      onChange={(e) => updateCurrency(index, { settlement: e.target.checked })}
+                    />
+                    <Label htmlFor={`currencySettlement-${index}`} className="text-sm">Charge in this currency</Label>
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setFormData({ ...formData, currencies: formData.currencies.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {/* Tax Invoices */}
+            <div className="space-y-3 border-t pt-4">
+              <div>
+                <h3 className="text-lg font-semibold">Tax Invoices</h3>
+                <p className="text-xs text-gray-600">
+                  Prices include VAT at this rate. Invoices issued already keep the details they were issued with.
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="vatRate" className="text-sm">VAT Rate (%)</Label>
+                  <Input
+                    id="vatRate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.vatRate}
+                    onChange={(e) => setFormData({ ...formData, vatRate: parseFloat(e.target.value) || 0 })}
+                    className="text-sm"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="taxRegistrationNumber" className="text-sm">TRN</Label>
+                  <Input
+                    id="taxRegistrationNumber"
+                    value={formData.taxRegistrationNumber}
+                    onChange={(e) => setFormData({ ...formData, taxRegistrationNumber: e.target.value })}
+                    className="text-sm"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="invoicePrefix" className="text-sm">Invoice Number Prefix</Label>
+                  <Input
+                    id="invoicePrefix"
+                    value={formData.invoicePrefix}
+                    onChange={(e) => setFormData({ ...formData, invoicePrefix: e.target.value })}
+                    placeholder={String(formData.year)}
+                    className="text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="invoiceIssuer" className="text-sm">Seller Name and Address</Label>
+                <Textarea
+                  id="invoiceIssuer"
+                  value={formData.invoiceIssuer}
+                  onChange={(e) => setFormData({ ...formData, invoiceIssuer: e.target.value })}
+                  placeholder={"Company legal name\nStreet address\nDubai, United Arab Emirates"}
+                  rows={3}
+                  className="text-sm"
+                />
+              </div>
+            </div>
+
+            {/* Refund Policy */}
+            <div className="space-y-3 border-t pt-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold">Refund Policy</h3>
+                  <p className="text-xs text-gray-600">
+                    Share of the amount paid refunded on cancellation before each date. Nothing is refunded after the last date; with no dates, cancellations are refunded in full.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setFormData({ ...formData, refundPolicy: [...formData.refundPolicy, { before: "", percent: 100 }] })}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Deadline
+                </Button>
+              </div>
+              {formData.refundPolicy.map((rule, index) => (
+                <div key={index} className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <Label htmlFor={`refundBefore-${index}`} className="text-sm">Cancelled Before</Label>
+                    <Input
+                      id={`refundBefore-${index}`}
+                      type="date"
+                      value={rule.before}
+                      onChange={(e) => updateRefundRule(index, { before: e.target.value })}
+                      required
+                      className="text-sm"
+                    />
+                  </div>
+                  <div className="w-32">
+                    <Label htmlFor={`refundPercent-${index}`} className="text-sm">Refund (%)</Label>
+                    <Input
+                      id={`refundPercent-${index}`}
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={rule.percent}
+                      onChange={(e) => updateRefundRule(index, { percent: Math.min(100, parseFloat(e.target.value) || 0) })}
+                      className="text-sm"
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setFormData({ ...formData, refundPolicy: formData.refundPolicy.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            
             <div className="flex items-center space-x-4">
               <div className="flex items-center space-x-2">
                 <input
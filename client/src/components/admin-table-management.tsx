@@ -9,7 +9,9 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { Plus, Edit, Trash2, Users, Crown, Loader2, Minus } from "lucide-react";
 import { ObjectUploader } from "@/components/ObjectUploader";
+import { RosterDialog } from "@/components/roster-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminPermissions } from "@/hooks/useAdminPermissions";
 import type { UploadResult } from "@uppy/core";
 
 interface Table {
@@ -35,6 +37,7 @@ interface AdminTableManagementProps {
 
 export function AdminTableManagement({ adminToken }: AdminTableManagementProps) {
   const { toast } = useToast();
+  const { can } = useAdminPermissions();
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingTable, setEditingTable] = useState<Table | null>(null);
   const [formData, setFormData] = useState({
@@ -319,6 +322,7 @@ export function AdminTableManagement({ adminToken }: AdminTableManagementProps)
                       {table.isVip && <Crown className="h-4 w-4 text-yellow-500" />}
                     </div>
                     <div className="flex gap-1">
+                      {can("registrations.read") && <RosterDialog type="table" id={table.id} />}
                       <Button
                         size="sm"
                         variant="outline"
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Edit, UserX, Loader2, ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AdminUser } from "@shared/schema";
+import {
+  ADMIN_PERMISSIONS,
+  ADMIN_ROLES,
+  PERMISSION_LABELS,
+  ROLE_DEFAULT_PERMISSIONS,
+  resolvePermissions,
+  type AdminPermission,
+  type AdminRole,
+  type PermissionOverrides,
+} from "@shared/permissions";
+
+type SafeAdminUser = Omit<AdminUser, "password">;
+
+interface AdminUserForm {
+  username: string;
+  email: string;
+  password: string;
+  role: AdminRole;
+  permissions: PermissionOverrides;
+}
+
+const emptyForm: AdminUserForm = {
+  username: "",
+  email: "",
+  password: "",
+  role: "staff",
+  permissions: {},
+};
+
+interface AdminUsersManagementProps {
+  currentAdminId?: number;
+}
+
+export function AdminUsersManagement({ currentAdminId }: AdminUsersManagementProps) {
+  const { toast } = useToast();
+  const [editingUser, setEditingUser] = useState<SafeAdminUser | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [formData, setFormData] = useState<AdminUserForm>(emptyForm);
+
+  const { data: adminUsers = [], isLoading } = useQuery<SafeAdminUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const saveUserMutation = useMutation({
+    mutationFn: async (data: AdminUserForm) => {
+      if (editingUser) {
+        const { password, ...updates } = data;
+        const response = await apiRequest("PUT", `/api/admin/users/${editingUser.id}`, updates);
+        return response.json();
+      }
+      const response = await apiRequest("POST", "/api/admin/users", { ...data, isActive: true });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/verify"] });
+      toast({
+        title: editingUser ? "Admin Updated" : "Admin Created",
+        description: editingUser ? "Role and permissions saved." : "The new admin can now sign in.",
+      });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save admin user. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/admin/users/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Admin Deactivated",
+        description: "The admin can no longer access the dashboard.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Deactivation Failed",
+        description: error.message || "Failed to deactivate admin user.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingUser(null);
+    setFormData(emptyForm);
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (user: SafeAdminUser) => {
+    setEditingUser(user);
+    setFormData({
+      username: user.username,
+      email: user.email,
+      password: "",
+      role: (ADMIN_ROLES as readonly string[]).includes(user.role) ? (user.role as AdminRole) : "staff",
+      permissions: (user.permissions as PermissionOverrides) || {},
+    });
+    setShowDialog(true);
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    setEditingUser(null);
+    setFormData(emptyForm);
+  };
+
+  // Store only the differences from the role defaults so that changing a
+  // role's defaults later still applies to users who were never customised.
+  const togglePermission = (permission: AdminPermission, allowed: boolean) => {
+    setFormData(prev => {
+      const permissions = { ...prev.permissions };
+      if (ROLE_DEFAULT_PERMISSIONS[prev.role].includes(permission) === allowed) {
+        delete permissions[permission];
+      } else {
+        permissions[permission] = allowed;
+      }
+      return { ...prev, permissions };
+    });
+  };
+
+  const effectivePermissions = resolvePermissions(formData.role, formData.permissions);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveUserMutation.mutate(formData);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Admin Users</h2>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Admin
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active Admins ({adminUsers.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead>Last Login</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {adminUsers.map((user) => {
+                  const overrides = Object.keys((user.permissions as PermissionOverrides) || {}).length;
+                  return (
+                    <TableRow key={user.id}>
+                      <TableCell>{user.username}</TableCell>
+                      <TableCell>{user.email}</TableCell>
+                      <TableCell>
+                        <Badge variant={user.role === "admin" ? "default" : "outline"}>{user.role}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {resolvePermissions(user.role, user.permissions).length} granted
+                        {overrides > 0 && (
+                          <span className="ml-2 text-xs text-amber-600">({overrides} custom)</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : "Never"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => openEditDialog(user)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {user.id !== currentAdminId && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button size="sm" variant="outline">
+                                  <UserX className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Deactivate {user.username}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    They will lose access to the admin dashboard immediately.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => deactivateUserMutation.mutate(user.id)}>
+                                    Deactivate
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {adminUsers.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500">
+                      No admin users found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={(open) => (open ? setShowDialog(true) : closeDialog())}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingUser ? `Edit ${editingUser.username}` : "Add Admin"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="admin-username">Username</Label>
+                <Input
+                  id="admin-username"
+                  value={formData.username}
+                  onChange={(e) => setFormData(prev => ({ ...prev, username: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="admin-email">Email</Label>
+                <Input
+                  id="admin-email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                  required
+                />
+              </div>
+              {!editingUser && (
+                <div>
+                  <Label htmlFor="admin-password">Password</Label>
+                  <Input
+                    id="admin-password"
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                    required
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="admin-role">Role</Label>
+                <select
+                  id="admin-role"
+                  value={formData.role}
+                  onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as AdminRole, permissions: {} }))}
+                  className="mt-1 w-full h-10 px-3 py-2 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                >
+                  {ADMIN_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role.charAt(0).toUpperCase() + role.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <ShieldCheck className="h-4 w-4" />
+                <span className="text-sm font-medium">Permissions</span>
+                <span className="text-xs text-gray-500">Changing the role resets to its defaults</span>
+              </div>
+              <div className="space-y-2 border rounded-md p-3">
+                {ADMIN_PERMISSIONS.map((permission) => {
+                  const isCustom = formData.permissions[permission] !== undefined;
+                  return (
+                    <div key={permission} className="flex items-start space-x-3">
+                      <Checkbox
+                        id={`permission-${permission}`}
+                        checked={effectivePermissions.includes(permission)}
+                        onCheckedChange={(checked) => togglePermission(permission, !!checked)}
+                      />
+                      <div className="grid gap-0.5">
+                        <Label htmlFor={`permission-${permission}`} className="text-sm">
+                          {PERMISSION_LABELS[permission].label}
+                          {isCustom && <Badge variant="outline" className="ml-2 text-xs">custom</Badge>}
+                        </Label>
+                        <p className="text-xs text-gray-500">{PERMISSION_LABELS[permission].description}</p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveUserMutation.isPending}>
+                {saveUserMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingUser ? "Save Changes" : "Create Admin"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Loader2 } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@shared/currency";
+import type { Event } from "@shared/schema";
+import {
+  ANALYTICS_INTERVALS,
+  ANALYTICS_INTERVAL_LABELS,
+  type AddonSale,
+  type AnalyticsInterval,
+  type AnalyticsOverview,
+  type EventComparison,
+  type TimelinePoint,
+  type WorkshopFill,
+} from "@shared/analytics";
+
+const COLORS = ["#dc2626", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#db2777", "#0891b2", "#65a30d"];
+
+const registrationsConfig = {
+  registrations: { label: "Registrations", color: "#dc2626" },
+} satisfies ChartConfig;
+
+const revenueConfig = {
+  revenue: { label: "Revenue", color: "#2563eb" },
+  cumulativeRevenue: { label: "Running total", color: "#16a34a" },
+} satisfies ChartConfig;
+
+const roleConfig = {
+  leaders: { label: "Leaders", color: "#2563eb" },
+  followers: { label: "Followers", color: "#db2777" },
+} satisfies ChartConfig;
+
+const bucketConfig = {
+  registrations: { label: "Registrations", color: "#dc2626" },
+} satisfies ChartConfig;
+
+const countryConfig = {
+  dancers: { label: "Dancers", color: "#7c3aed" },
+} satisfies ChartConfig;
+
+// Fetch an analytics endpoint for the selected event (the current one when none is chosen)
+function useAnalytics<T>(path: string, eventId: string, params: Record<string, string> = {}) {
+  const search = new URLSearchParams({ ...(eventId ? { eventId } : {}), ...params }).toString();
+  return useQuery<T>({
+    queryKey: [`/api/admin/analytics/${path}`, search],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/analytics/${path}${search ? `?${search}` : ""}`);
+      return response.json();
+    },
+  });
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6">
+        <p className="text-xs sm:text-sm font-medium text-gray-600">{label}</p>
+        <p className="text-xl sm:text-2xl font-bold text-gray-900">{value}</p>
+        {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+const formatPeriod = (period: string, interval: AnalyticsInterval) =>
+  new Date(`${period}T00:00:00`).toLocaleDateString("en-GB", interval === "month"
+    ? { month: "short", year: "numeric" }
+    : { day: "numeric", month: "short" });
+
+/**
+ * Registration and revenue analytics for an event: sales over time, what
+ * dancers bought, who they are, how full the workshops are and how the event
+ * compares with earlier years. All figures come aggregated from the server.
+ */
+export function AnalyticsDashboard() {
+  const [eventId, setEventId] = useState("");
+  const [interval, setTimelineInterval] = useState<AnalyticsInterval>("day");
+
+  const { data: events = [] } = useQuery<Event[]>({ queryKey: ["/api/events"] });
+  const { data: overview, isLoading, error } = useAnalytics<AnalyticsOverview>("overview", eventId);
+  const { data: timeline = [] } = useAnalytics<TimelinePoint[]>("timeline", eventId, { interval });
+  const { data: addonSales = [] } = useAnalytics<AddonSale[]>("addons", eventId);
+  const { data: workshopFill = [] } = useAnalytics<WorkshopFill[]>("workshops", eventId);
+  const { data: comparison = [] } = useAnalytics<EventComparison[]>("events", "");
+
+  const currency = overview?.baseCurrency;
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  // One row per week before the start, with a column per year
+  const yearsConfig: ChartConfig = Object.fromEntries(comparison.map((event, index) => [
+    `y${event.year}`,
+    { label: String(event.year), color: COLORS[index % COLORS.length] },
+  ]));
+  const firstWeek = Math.max(0, ...comparison.flatMap((event) => event.weeklyCumulative.map((point) => point.weeksBefore)));
+  const yearOverYear = Array.from({ length: firstWeek + 1 }, (_, index) => {
+    const weeksBefore = firstWeek - index;
+    return {
+      weeksBefore,
+      ...Object.fromEntries(comparison.map((event) => [
+        `y${event.year}`,
+        event.weeklyCumulative.find((point) => point.weeksBefore === weeksBefore)?.registrations ?? 0,
+      ])),
+    };
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading analytics...
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return <p className="text-sm text-red-600">{apiErrorMessage(error, "No event to show analytics for")}</p>;
+  }
+
+  const { totals } = overview;
+  const roleBalance = [
+    { role: "leaders", dancers: totals.leaders, fill: "var(--color-leaders)" },
+    { role: "followers", dancers: totals.followers, fill: "var(--color-followers)" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Analytics</h2>
+        <Select value={eventId || overview.eventId} onValueChange={setEventId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Select an event" />
+          </SelectTrigger>
+          <SelectContent>
+            {events.map((event) => (
+              <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+        <StatCard label="Registrations" value={totals.registrations} detail={`${totals.cancelled} cancelled or expired`} />
+        <StatCard label="Dancers" value={totals.dancers} detail={`${totals.leaders} leaders, ${totals.followers} followers`} />
+        <StatCard label="Booked revenue" value={money(totals.bookedRevenue)} detail="After refunds" />
+        <StatCard label="Received" value={money(totals.receivedRevenue)} detail={`${money(totals.refunded)} refunded`} />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Registrations and revenue over time</CardTitle>
+          <Select value={interval} onValueChange={(value) => setTimelineInterval(value as AnalyticsInterval)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_INTERVALS.map((option) => (
+                <SelectItem key={option} value={option}>{ANALYTICS_INTERVAL_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {timeline.length === 0 ? (
+            <p className="text-sm text-gray-500">No registrations yet.</p>
+          ) : (
+            <>
+              <ChartContainer config={registrationsConfig} className="h-64 w-full">
+                <BarChart data={timeline}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickFormatter={(period) => formatPeriod(period, interval)} tickLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(period) => formatPeriod(period, interval)} />} />
+                  <Bar dataKey="registrations" fill="var(--color-registrations)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+              <ChartContainer config={revenueConfig} className="h-64 w-full">
+                <LineChart data={timeline}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickFormatter={(period) => formatPeriod(period, interval)} tickLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={56} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(period) => formatPeriod(period, interval)} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="revenue" stroke="var(--color-revenue)" strokeWidth={2} dot={false} />
+                  <Line dataKey="cumulativeRevenue" stroke="var(--color-cumulativeRevenue)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Packages</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={bucketConfig} className="h-64 w-full">
+              <BarChart data={overview.packages} layout="vertical" margin={{ left: 16 }}>
+                <XAxis type="number" allowDecimals={false} hide />
+                <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={160} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="registrations" fill="var(--color-registrations)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+            <div className="mt-2 space-y-1 text-sm">
+              {overview.packages.map((bucket) => (
+                <div key={bucket.key} className="flex justify-between">
+                  <span>{bucket.label}</span>
+                  <span className="text-gray-600">{money(bucket.revenue)}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Role balance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={roleConfig} className="h-64 w-full">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="role" hideLabel />} />
+                <Pie data={roleBalance} dataKey="dancers" nameKey="role" innerRadius={50} />
+                <ChartLegend content={<ChartLegendContent nameKey="role" />} />
+              </PieChart>
+            </ChartContainer>
+            <div className="mt-2 flex flex-wrap gap-2 text-sm">
+              {overview.roles.map((bucket) => (
+                <Badge key={bucket.key} variant="outline">{bucket.label}: {bucket.registrations}</Badge>
+              ))}
+              <Badge variant="secondary">
+                {totals.leaders === totals.followers
+                  ? "Balanced"
+                  : `${Math.abs(totals.leaders - totals.followers)} more ${totals.leaders > totals.followers ? "leaders" : "followers"}`}
+              </Badge>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Countries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {overview.countries.length === 0 ? (
+              <p className="text-sm text-gray-500">No registrations yet.</p>
+            ) : (
+              <ChartContainer config={countryConfig} className="h-72 w-full">
+                <BarChart data={overview.countries.slice(0, 12)} layout="vertical" margin={{ left: 16 }}>
+                  <XAxis type="number" allowDecimals={false} hide />
+                  <YAxis type="category" dataKey="country" tickLine={false} axisLine={false} width={110} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="dancers" fill="var(--color-dancers)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+            {overview.countries.length > 12 && (
+              <p className="text-xs text-gray-500 mt-2">
+                And {overview.countries.length - 12} more countries.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Pricing tier uptake</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tier</TableHead>
+                  <TableHead className="text-right">Registrations</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.tiers.map((bucket) => (
+                  <TableRow key={bucket.key}>
+                    <TableCell>{bucket.label}</TableCell>
+                    <TableCell className="text-right">{bucket.registrations}</TableCell>
+                    <TableCell className="text-right">
+                      {totals.registrations > 0 ? Math.round(bucket.registrations / totals.registrations * 100) : 0}%
+                    </TableCell>
+                    <TableCell className="text-right">{money(bucket.revenue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add-on sales</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {addonSales.length === 0 ? (
+            <p className="text-sm text-gray-500">No add-ons sold yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Add-on</TableHead>
+                  <TableHead>Options</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {addonSales.map((sale) => (
+                  <TableRow key={`${sale.addonId}-${sale.option}`}>
+                    <TableCell className="font-medium">{sale.name}</TableCell>
+                    <TableCell className="text-gray-600">{sale.option || "-"}</TableCell>
+                    <TableCell className="text-right">{sale.quantity}</TableCell>
+                    <TableCell className="text-right">{money(sale.revenue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Workshop fill rates</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {workshopFill.length === 0 && <p className="text-sm text-gray-500">No workshops for this event.</p>}
+          {workshopFill.map((workshop) => (
+            <div key={workshop.workshopId} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{workshop.title}</span>
+                <span className="text-gray-600">
+                  {workshop.enrolled}/{workshop.capacity} ({workshop.fillRate}%)
+                </span>
+              </div>
+              <Progress value={Math.min(workshop.fillRate, 100)} />
+              <p className="text-xs text-gray-500">
+                {new Date(workshop.date).toLocaleDateString()} · Leaders {workshop.leaders}/{workshop.leaderCapacity},
+                followers {workshop.followers}/{workshop.followerCapacity}
+              </p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Year over year</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {comparison.length > 0 && (
+            <ChartContainer config={yearsConfig} className="h-64 w-full">
+              <LineChart data={yearOverYear}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="weeksBefore" tickFormatter={(weeks) => `${weeks}w`} tickLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload?.weeksBefore} weeks before the start`} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {comparison.map((event) => (
+                  <Line
+                    key={event.eventId}
+                    dataKey={`y${event.year}`}
+                    stroke={`var(--color-y${event.year})`}
+                    strokeWidth={event.isCurrent ? 3 : 2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead className="text-right">Registrations</TableHead>
+                <TableHead className="text-right">Dancers</TableHead>
+                <TableHead className="text-right">Booked</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.map((event) => (
+                <TableRow key={event.eventId}>
+                  <TableCell>
+                    {event.name}
+                    {event.isCurrent && <Badge variant="default" className="ml-2 text-xs">CURRENT</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{event.registrations}</TableCell>
+                  <TableCell className="text-right">{event.dancers}</TableCell>
+                  <TableCell className="text-right">{formatMoney(event.bookedRevenue, event.baseCurrency)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(event.receivedRevenue, event.baseCurrency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
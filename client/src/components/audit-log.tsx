@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { AuditLogEntry } from "@shared/schema";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_ENTITY_TYPES,
+  AUDIT_LOG_PAGE_SIZE,
+  type AuditChanges,
+  type AuditLogPage,
+} from "@shared/audit";
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const formatTime = (value: string | Date) => new Date(value).toLocaleString();
+
+/** The fields an entry changed, each with its value before and after. */
+function AuditChangesList({ changes }: { changes: AuditChanges }) {
+  const fields = Object.keys(changes);
+  if (fields.length === 0) {
+    return <span className="text-gray-500">No field changes</span>;
+  }
+  return (
+    <div className="space-y-1">
+      {fields.map((field) => (
+        <div key={field} className="text-xs break-all">
+          <span className="font-medium">{field}:</span>{" "}
+          <span className="text-red-700 line-through">{formatValue(changes[field].before)}</span>{" "}
+          → <span className="text-green-700">{formatValue(changes[field].after)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** The changes admins have made to one registration, newest first. */
+export function AuditHistory({ registrationId }: { registrationId: string }) {
+  const { data: entries = [], isLoading, error } = useQuery<AuditLogEntry[]>({
+    queryKey: [`/api/registrations/${registrationId}`, "history"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{apiErrorMessage(error, "Could not load history")}</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No admin has changed this registration.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => (
+        <div key={entry.id} className="text-sm border-b pb-2">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <Badge variant="outline">{AUDIT_ACTION_LABELS[entry.action as keyof typeof AUDIT_ACTION_LABELS] || entry.action}</Badge>
+            <span>{entry.actorEmail}</span>
+            <span className="text-gray-500">{formatTime(entry.createdAt)}</span>
+          </div>
+          <AuditChangesList changes={entry.changes} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AuditLogFilters {
+  entityType: string;
+  entityId: string;
+  action: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditLogFilters = { entityType: "all", entityId: "", action: "all", actor: "", from: "", to: "" };
+
+/** Every change admins have made, newest first, with filters. */
+export function AuditLogViewer() {
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+
+  // A new search starts from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [filters]);
+
+  const setFilter = (field: keyof AuditLogFilters, value: string) => setFilters((prev) => ({ ...prev, [field]: value }));
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(AUDIT_LOG_PAGE_SIZE) });
+  if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+  if (filters.action !== "all") params.set("action", filters.action);
+  for (const field of ["entityId", "actor", "from", "to"] as const) {
+    if (filters[field].trim()) params.set(field, filters[field].trim());
+  }
+  const search = params.toString();
+
+  const { data, isLoading, isFetching, error } = useQuery<AuditLogPage<AuditLogEntry>>({
+    queryKey: ["/api/admin/audit-log", search],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/audit-log?${search}`);
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Audit Log</h2>
+        <Button variant="outline" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+          Clear filters
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={filters.entityType} onValueChange={(value) => setFilter("entityType", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {AUDIT_ENTITY_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Action</Label>
+              <Select value={filters.action} onValueChange={(value) => setFilter("action", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {AUDIT_ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-entity-id">ID</Label>
+              <Input
+                id="audit-entity-id"
+                value={filters.entityId}
+                onChange={(e) => setFilter("entityId", e.target.value)}
+                placeholder="Registration, workshop... ID"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-actor">Admin</Label>
+              <Input
+                id="audit-actor"
+                value={filters.actor}
+                onChange={(e) => setFilter("actor", e.target.value)}
+                placeholder="Email"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading audit log...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{apiErrorMessage(error, "Could not load the audit log")}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Admin</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">{formatTime(entry.createdAt)}</TableCell>
+                    <TableCell className="text-sm">{entry.actorEmail}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{AUDIT_ACTION_LABELS[entry.action as keyof typeof AUDIT_ACTION_LABELS] || entry.action}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{AUDIT_ENTITY_LABELS[entry.entityType as keyof typeof AUDIT_ENTITY_LABELS] || entry.entityType}</div>
+                      <div className="font-mono text-xs text-gray-500 break-all">{entry.entityId}</div>
+                    </TableCell>
+                    <TableCell className="max-w-md">
+                      <AuditChangesList changes={entry.changes} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex items-center justify-end gap-2 mt-4 text-sm">
+            <span>
+              {total === 0
+                ? "0 entries"
+                : `${(page - 1) * AUDIT_LOG_PAGE_SIZE + 1}–${Math.min(page * AUDIT_LOG_PAGE_SIZE, total)} of ${total}`}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || isFetching}
+              title="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= (data?.pageCount ?? 1) || isFetching}
+              title="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Eye, Loader2, Megaphone, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Broadcast, Milonga, Table as GalaTable, Workshop } from "@shared/schema";
+import {
+  EMPTY_AUDIENCE,
+  PAYMENT_STATUSES,
+  PAYMENT_STATUS_LABELS,
+  type BroadcastAudience,
+  type BroadcastDelivery,
+} from "@shared/broadcasts";
+import { MERGE_FIELDS, SAMPLE_MERGE_FIELDS, renderTemplate, type EmailOutboxStatus } from "@shared/notifications";
+import { PACKAGE_LABELS } from "@shared/pricing";
+
+type BroadcastWithDelivery = Broadcast & { delivery: BroadcastDelivery };
+
+interface AudiencePreview {
+  recipientCount: number;
+  registrationCount: number;
+  sample: Array<{ name: string; email: string }>;
+}
+
+interface BroadcastRecipientStatus {
+  id: string;
+  registrationId: string | null;
+  recipient: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  sentAt: string | null;
+}
+
+interface FilterOption {
+  value: string | number;
+  label: string;
+}
+
+const ROLE_OPTIONS: FilterOption[] = ["leader", "follower", "couple"].map((role) => ({ value: role, label: role }));
+
+const STATUS_BADGES: Record<EmailOutboxStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const formatDay = (date: string | Date) =>
+  new Date(date).toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short" });
+
+export function BroadcastsManagement() {
+  const { toast } = useToast();
+  const [audience, setAudience] = useState<BroadcastAudience>(EMPTY_AUDIENCE);
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [confirming, setConfirming] = useState(false);
+  const [viewingBroadcast, setViewingBroadcast] = useState<BroadcastWithDelivery | null>(null);
+
+  const { data: workshops = [] } = useQuery<Workshop[]>({ queryKey: ["/api/workshops"] });
+  const { data: milongas = [] } = useQuery<Milonga[]>({ queryKey: ["/api/milongas"] });
+  const { data: tables = [] } = useQuery<GalaTable[]>({ queryKey: ["/api/tables"] });
+  const { data: options } = useQuery<{ countries: string[] }>({ queryKey: ["/api/admin/broadcasts/options"] });
+  const { data: broadcasts = [], isLoading: broadcastsLoading } = useQuery<BroadcastWithDelivery[]>({
+    queryKey: ["/api/admin/broadcasts"],
+  });
+  const { data: preview, isFetching: previewLoading } = useQuery<AudiencePreview>({
+    queryKey: ["/api/admin/broadcasts/preview", audience],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/broadcasts/preview", { audience });
+      return response.json();
+    },
+  });
+  const { data: recipients = [], isLoading: recipientsLoading } = useQuery<BroadcastRecipientStatus[]>({
+    queryKey: ["/api/admin/broadcasts", viewingBroadcast?.id, "recipients"],
+    enabled: !!viewingBroadcast,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/broadcasts", { subject, body, audience });
+      return response.json() as Promise<Broadcast>;
+    },
+    onSuccess: (broadcast) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/broadcasts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-outbox"] });
+      toast({
+        title: "Broadcast Queued",
+        description: `${broadcast.recipientCount} ${broadcast.recipientCount === 1 ? "email is" : "emails are"} on the way.`,
+      });
+      setSubject("");
+      setBody("");
+      setAudience(EMPTY_AUDIENCE);
+      setConfirming(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Broadcast Failed",
+        description: error.message || "Failed to send the broadcast.",
+        variant: "destructive",
+      });
+      setConfirming(false);
+    },
+  });
+
+  const toggleFilter = (field: keyof BroadcastAudience, value: string | number, checked: boolean) => {
+    setAudience(prev => {
+      const values = prev[field] as Array<string | number>;
+      return { ...prev, [field]: checked ? [...values, value] : values.filter(item => item !== value) };
+    });
+  };
+
+  const filterGroups: Array<{ field: keyof BroadcastAudience; label: string; options: FilterOption[] }> = [
+    {
+      field: "packageTypes",
+      label: "Packages",
+      options: Object.entries(PACKAGE_LABELS).map(([value, label]) => ({ value, label })),
+    },
+    { field: "roles", label: "Roles", options: ROLE_OPTIONS },
+    {
+      field: "workshopIds",
+      label: "Workshops",
+      options: workshops.map((workshop) => ({
+        value: workshop.id,
+        label: `${workshop.title} (${formatDay(workshop.date)} ${workshop.time})`,
+      })),
+    },
+    {
+      field: "milongaIds",
+      label: "Milongas",
+      options: milongas.map((milonga) => ({ value: milonga.id, label: `${milonga.name} (${milonga.date})` })),
+    },
+    {
+      field: "tableNumbers",
+      label: "Gala Tables",
+      options: [...tables]
+        .sort((a, b) => a.tableNumber - b.tableNumber)
+        .map((table) => ({ value: table.tableNumber, label: `Table ${table.tableNumber}` })),
+    },
+    {
+      field: "paymentStatuses",
+      label: "Payment Status",
+      options: PAYMENT_STATUSES.map((status) => ({ value: status, label: PAYMENT_STATUS_LABELS[status] })),
+    },
+    {
+      field: "countries",
+      label: "Countries",
+      options: (options?.countries ?? []).map((country) => ({ value: country, label: country })),
+    },
+  ];
+
+  const recipientCount = preview?.recipientCount ?? 0;
+  const canSend = subject.trim() !== "" && body.trim() !== "" && recipientCount > 0;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold">Broadcasts</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Broadcast</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div>
+                <span className="text-sm font-medium">Audience</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  Attendees must match every filter ticked; leave a filter unticked to include everyone.
+                  Without a payment status, cancelled and expired registrations are left out.
+                </span>
+              </div>
+              {filterGroups.filter((group) => group.options.length > 0).map((group) => (
+                <div key={group.field}>
+                  <span className="text-sm font-medium">{group.label}</span>
+                  <div className="grid grid-cols-2 gap-2 border rounded-md p-3 mt-2 max-h-40 overflow-y-auto">
+                    {group.options.map((option) => (
+                      <div key={option.value} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`broadcast-${group.field}-${option.value}`}
+                          checked={(audience[group.field] as Array<string | number>).includes(option.value)}
+                          onCheckedChange={(checked) => toggleFilter(group.field, option.value, !!checked)}
+                        />
+                        <Label htmlFor={`broadcast-${group.field}-${option.value}`} className="text-sm capitalize">
+                          {option.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              <div className="rounded-md border bg-gray-50 p-3 text-sm">
+                {previewLoading && !preview ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+                ) : (
+                  <>
+                    <p className="font-medium">
+                      {recipientCount} {recipientCount === 1 ? "recipient" : "recipients"}
+                      {preview && preview.registrationCount > 0 && (
+                        <span className="font-normal text-gray-500">
+                          {" "}from {preview.registrationCount} {preview.registrationCount === 1 ? "registration" : "registrations"}
+                        </span>
+                      )}
+                    </p>
+                    {preview && preview.sample.length > 0 && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        {preview.sample.map((person) => person.name || person.email).join(", ")}
+                        {recipientCount > preview.sample.length && ` and ${recipientCount - preview.sample.length} more`}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="broadcast-subject">Subject</Label>
+                <Input
+                  id="broadcast-subject"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  maxLength={200}
+                />
+              </div>
+              <div>
+                <Label htmlFor="broadcast-body">Message</Label>
+                <Textarea
+                  id="broadcast-body"
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={10}
+                  className="font-mono text-sm"
+                  placeholder={"Dear {{firstName}},\n\n..."}
+                />
+              </div>
+              {(subject || body) && (
+                <div>
+                  <Label>Preview</Label>
+                  <div className="mt-1 rounded-md border bg-gray-50 p-3 text-sm">
+                    <p className="font-medium">{renderTemplate(subject, SAMPLE_MERGE_FIELDS)}</p>
+                    <p className="mt-2 whitespace-pre-wrap">{renderTemplate(body, SAMPLE_MERGE_FIELDS)}</p>
+                  </div>
+                </div>
+              )}
+              <div>
+                <Label>Merge Fields</Label>
+                <div className="mt-1 max-h-40 overflow-y-auto rounded-md border p-2 text-xs space-y-1">
+                  {MERGE_FIELDS.map(({ field, description }) => (
+                    <div key={field}>
+                      <code className="font-mono text-red-700">{`{{${field}}}`}</code>{" "}
+                      <span className="text-gray-600">{description}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={() => setConfirming(true)} disabled={!canSend || sendMutation.isPending}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Send to {recipientCount} {recipientCount === 1 ? "Recipient" : "Recipients"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sent Broadcasts</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {broadcastsLoading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : broadcasts.length === 0 ? (
+            <div className="flex flex-col items-center py-10 text-gray-500">
+              <Megaphone className="h-10 w-10 mb-3" />
+              <p>No broadcasts yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Recipients</TableHead>
+                  <TableHead>Delivery</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {broadcasts.map((broadcast) => (
+                  <TableRow key={broadcast.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {broadcast.createdAt ? new Date(broadcast.createdAt).toLocaleString() : ""}
+                      <div className="text-xs text-gray-500">{broadcast.createdBy}</div>
+                    </TableCell>
+                    <TableCell className="text-sm font-medium">{broadcast.subject}</TableCell>
+                    <TableCell className="text-sm">{broadcast.recipientCount}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(["sent", "pending", "failed"] as const)
+                          .filter((status) => broadcast.delivery[status] > 0)
+                          .map((status) => (
+                            <Badge key={status} className={STATUS_BADGES[status]}>
+                              {broadcast.delivery[status]} {status}
+                            </Badge>
+                          ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => setViewingBroadcast(broadcast)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send this broadcast?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{subject}" will be emailed to {recipientCount} {recipientCount === 1 ? "recipient" : "recipients"}.
+              This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                sendMutation.mutate();
+              }}
+              disabled={sendMutation.isPending}
+            >
+              {sendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!viewingBroadcast} onOpenChange={(open) => !open && setViewingBroadcast(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewingBroadcast?.subject}</DialogTitle>
+          </DialogHeader>
+          {viewingBroadcast && (
+            <div className="rounded-md border bg-gray-50 p-3 text-sm whitespace-pre-wrap">{viewingBroadcast.body}</div>
+          )}
+          {recipientsLoading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>To</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recipients.map((recipient) => (
+                  <TableRow key={recipient.id}>
+                    <TableCell className="text-sm">{recipient.recipient}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGES[recipient.status]}>{recipient.status}</Badge>
+                      {recipient.status === "sent" && recipient.sentAt && (
+                        <div className="text-xs text-gray-500">{new Date(recipient.sentAt).toLocaleString()}</div>
+                      )}
+                      {recipient.status !== "sent" && recipient.lastError && (
+                        <div className="text-xs text-red-600">
+                          {recipient.lastError} ({recipient.attempts} {recipient.attempts === 1 ? "attempt" : "attempts"})
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Ban, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Registration } from "@shared/schema";
+import type { RefundCalculation } from "@shared/refundPolicy";
+
+interface CancelRegistrationDialogProps {
+  registration: Registration;
+}
+
+const formatDeadline = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+/**
+ * Cancel a registration with a refund. The event's refund policy suggests
+ * the amount; the admin can refund a different amount instead.
+ */
+export function CancelRegistrationDialog({ registration }: CancelRegistrationDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [refundOverride, setRefundOverride] = useState("");
+
+  const { data: preview, isLoading: previewLoading } = useQuery<RefundCalculation>({
+    queryKey: ["/api/registrations", registration.id, "refund-preview"],
+    enabled: open,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/registrations/${registration.id}/cancel`, {
+        reason: reason.trim() || null,
+        ...(refundOverride !== "" ? { refundAmount: parseFloat(refundOverride) || 0 } : {}),
+      });
+      return response.json() as Promise<{ refund: RefundCalculation; waitlistOffers: number }>;
+    },
+    onSuccess: ({ refund, waitlistOffers }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workshops"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/milongas"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/waitlist"] });
+      toast({
+        title: "Registration Cancelled",
+        description: `Refunded AED ${refund.amount.toLocaleString()}.` +
+          (waitlistOffers > 0 ? ` ${waitlistOffers} waitlist offer(s) sent.` : ""),
+      });
+      setOpen(false);
+      setReason("");
+      setRefundOverride("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancellation Failed",
+        description: error.message || "Failed to cancel registration. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isCard = registration.paymentMethod === "stripe";
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="text-amber-700" title="Cancel and refund">
+          <Ban className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel Registration</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            The registration is kept with its payment record. Its workshop, milonga and table places are
+            released and offered to the waitlist.
+          </p>
+
+          {previewLoading || !preview ? (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Calculating refund...
+            </div>
+          ) : (
+            <div className="p-3 bg-gray-50 rounded-lg space-y-1 text-sm">
+              <p><strong>Amount paid:</strong> AED {preview.amountPaid.toLocaleString()}</p>
+              <p>
+                <strong>Policy refund:</strong> AED {preview.amount.toLocaleString()} ({preview.percent}%)
+              </p>
+              <p className="text-xs text-gray-500">
+                {preview.rule
+                  ? `Cancelling before ${formatDeadline(preview.rule.before)}.`
+                  : preview.amountPaid === 0
+                    ? "Nothing has been paid."
+                    : "No refund deadline applies."}
+              </p>
+            </div>
+          )}
+
+          {!!preview && preview.amountPaid > 0 && (
+            <div>
+              <Label htmlFor="refundOverride">Refund amount (AED)</Label>
+              <Input
+                id="refundOverride"
+                type="number"
+                min="0"
+                max={preview.amountPaid}
+                step="0.01"
+                value={refundOverride}
+                onChange={(e) => setRefundOverride(e.target.value)}
+                placeholder={`${preview.amount} (policy)`}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {isCard
+                  ? "Refunded to the card through Stripe."
+                  : "Offline payment: pay this amount back by bank transfer."}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="cancellationReason">Reason</Label>
+            <Textarea
+              id="cancellationReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Keep Registration
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => cancelMutation.mutate()}
+              disabled={!preview || cancelMutation.isPending}
+            >
+              {cancelMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Registration
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
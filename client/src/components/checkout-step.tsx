@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
@@ -7,17 +7,33 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ArrowLeft, Lock, CreditCard, University } from "lucide-react";
+import { ArrowLeft, Lock, CreditCard, University, TicketPercent, X, CalendarClock } from "lucide-react";
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
 import { RegistrationData } from "@/pages/registration";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Workshop, Seat, Addon, Milonga, Table } from "@shared/schema";
+import { Workshop, Seat, Milonga, Table, PackageConfiguration } from "@shared/schema";
 import { useCurrentEvent } from "@/hooks/useCurrentEvent";
+import { usePriceQuote } from "@/hooks/usePriceQuote";
+import { useCurrency } from "@/hooks/useCurrency";
+import { PACKAGE_LABELS, type QuoteLineItem, type QuoteLineKind } from "@shared/pricing";
+import { buildInstalmentSchedule, isPaymentPlanAvailable } from "@shared/paymentPlans";
+import { convertAmount, formatMoney } from "@shared/currency";
+import { CountdownTimer } from "./countdown-timer";
 
 const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY || '');
 
+// The catalog data prices are quoted from, refetched when the server reports a price change
+const PRICING_QUERY_KEYS = [["/api/events"], ["/api/workshops"], ["/api/milongas"], ["/api/tables"], ["/api/addons"]];
+
+interface AppliedPromo {
+  code: string;
+  subtotal: number;
+  discount: number;
+  total: number;
+}
+
 interface CheckoutStepProps {
   data: RegistrationData;
   onUpdate: (updates: Partial<RegistrationData>) => void;
@@ -55,27 +71,16 @@ function CheckoutForm({ data, onComplete }: { data: RegistrationData; onComplete
           variant: "destructive",
         });
       } else {
-        // Mark stripe payment as completed on backend
-        const urlParams = new URLSearchParams(window.location.search);
-        const registrationId = urlParams.get('registrationId') || localStorage.getItem('currentRegistrationId');
-        
-        if (registrationId) {
-          try {
-            await apiRequest("PUT", `/api/registrations/${registrationId}/payment`, {
-              paymentStatus: 'completed'
-            });
-          } catch (error) {
-            console.error('Failed to update payment status:', error);
-          }
-        }
+        // Payment status is set server-side by the Stripe webhook
+        const accessToken = localStorage.getItem('currentRegistrationToken');
         
         toast({
           title: "Payment Successful",
           description: "Your registration has been completed!",
         });
         
-        if (registrationId) {
-          window.location.href = `/confirmation?id=${registrationId}`;
+        if (accessToken) {
+          window.location.href = `/confirmation?token=${encodeURIComponent(accessToken)}`;
         } else {
           onComplete();
         }
@@ -121,18 +126,25 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
   const [paymentMethod, setPaymentMethod] = useState<'stripe' | 'offline'>('stripe');
   const [agreedToTerms, setAgreedToTerms] = useState(data.agreedToTerms ?? false);
   const [clientSecret, setClientSecret] = useState<string>("");
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null);
+  const [holdExpired, setHoldExpired] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [usePaymentPlan, setUsePaymentPlan] = useState(false);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { currentEvent } = useCurrentEvent();
 
   const { data: workshops } = useQuery<Workshop[]>({ queryKey: ['/api/workshops'] });
   const { data: seats } = useQuery<Seat[]>({ queryKey: ['/api/seats'] });
-  const { data: addons } = useQuery<Addon[]>({ queryKey: ['/api/addons'] });
   const { data: milongas } = useQuery<Milonga[]>({ queryKey: ['/api/milongas'] });
   const { data: tables } = useQuery<Table[]>({ queryKey: ['/api/tables'] });
-  const formatCurrency = (value: number) =>
-    `AED ${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const { data: packageConfigs = [] } = useQuery<PackageConfiguration[]>({
+    queryKey: ['/api/events', currentEvent?.id, 'package-configurations'],
+    enabled: !!currentEvent?.id,
+  });
+  const { format: formatCurrency, currency, baseCurrency, settlement } = useCurrency();
 
   useEffect(() => {
     setAgreedToTerms(data.agreedToTerms ?? false);
@@ -143,124 +155,75 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
     onUpdate({ agreedToTerms: checked });
   };
 
-  const isGalaIncluded = data.packageType === 'full' || 
-    data.packageType === 'premium-accommodation-4nights' || 
-    data.packageType === 'premium-accommodation-3nights' ||
-    data.packageType === 'evening';
-
-  const getTablePricingDetails = () => {
-    if (!data.selectedTableNumber) return null;
-    const table = tables?.find(t => t.tableNumber === data.selectedTableNumber);
-    if (!table) return { included: isGalaIncluded, amount: 0, isEarlyBird: false };
-    const earlyBirdPrice = table.earlyBirdPrice ? parseFloat(table.earlyBirdPrice) : 0;
-    const earlyBirdActive = table.earlyBirdEndDate ? new Date(table.earlyBirdEndDate) >= new Date() : false;
-    const basePrice = parseFloat(table.price || "0");
-    const perSeat = earlyBirdActive && earlyBirdPrice > 0 ? earlyBirdPrice : basePrice;
-    const multiplier = data.role === 'couple' ? 2 : 1;
+  // Display prices come from the same engine the server enforces
+  const quote = usePriceQuote(data);
+  const linesOf = (kind: QuoteLineKind) => quote.lineItems.filter(line => line.kind === kind);
+  const sumOf = (lines: QuoteLineItem[]) => lines.reduce((sum, line) => sum + line.amount, 0);
+
+  const packagePrice = linesOf('package')[0]?.amount ?? 0;
+  const workshopLines = linesOf('workshop');
+  const includedWorkshopCount = workshopLines.filter(line => line.included).length;
+  const additionalWorkshopLines = workshopLines.filter(line => !line.included);
+  const additionalWorkshopsTotal = sumOf(additionalWorkshopLines);
+  const milongaLines = linesOf('milonga');
+  const addonLines = linesOf('addon');
+
+  const galaLine = linesOf('gala_seat')[0];
+  const galaTable = tables?.find(t => t.tableNumber === data.selectedTableNumber);
+  const galaIsEarlyBird = !!galaTable?.earlyBirdEndDate &&
+    new Date(galaTable.earlyBirdEndDate) >= new Date() &&
+    parseFloat(galaTable.earlyBirdPrice || "0") > 0;
+
+  // Packages with a payment plan can be paid as a deposit now and the rest
+  // in instalments, by card only
+  const paymentPlan = packageConfigs.find(
+    config => config.packageType === data.packageType && config.isActive !== false,
+  )?.paymentPlan;
+  const payableTotal = appliedPromo ? appliedPromo.total : quote.total;
+  const planAvailable = paymentMethod === 'stripe' && payableTotal > 0 && isPaymentPlanAvailable(paymentPlan);
+  const instalmentPreview = planAvailable && paymentPlan
+    ? buildInstalmentSchedule(paymentPlan, payableTotal, new Date())
+    : [];
+
+  // The registration as the server will price it
+  const buildRegistrationPayload = (promoCode?: string) => {
+    const { workshopSelections, ...safeData } = data;
     return {
-      included: isGalaIncluded,
-      amount: perSeat * multiplier,
-      isEarlyBird: earlyBirdActive && earlyBirdPrice > 0
+      ...safeData,
+      eventId: currentEvent?.id,
+      paymentMethod,
+      currency,
+      totalAmount: data.totalAmount,
+      workshopIds: data.workshopIds || [],
+      seatIds: data.seatIds || [],
+      milongaIds: data.milongaIds || [],
+      addons: data.addons || [],
+      ...(promoCode ? { promoCode } : {}),
     };
   };
 
-  const tablePricing = getTablePricingDetails();
-
-  const workshopEntries = (data.workshopIds || []).map((workshopId) => {
-    const selection = data.workshopSelections?.find(item => item.id === workshopId);
-    const workshop = workshops?.find(w => w.id === workshopId);
-    const price = selection?.price ?? (workshop ? parseFloat(workshop.price) : 0);
-    return { id: workshopId, price };
+  const applyPromoMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/promo-codes/validate", buildRegistrationPayload(code));
+      return response.json() as Promise<AppliedPromo>;
+    },
+    onSuccess: (promo) => {
+      setAppliedPromo(promo);
+      setPromoInput("");
+      toast({
+        title: "Promo Code Applied",
+        description: `${promo.code} takes ${formatCurrency(promo.discount)} off your registration.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Promo Code Not Applied",
+        description: error.message || "Please check the code and try again.",
+        variant: "destructive",
+      });
+    },
   });
 
-  const workshopMultiplier = data.role === 'couple' ? 2 : 1;
-  const WORKSHOPS_INCLUDED_LIMIT = 6;
-  const workshopAllowancePackages = new Set(['full', 'premium-accommodation-4nights', 'premium-accommodation-3nights']);
-  const hasWorkshopAllowance = data.packageType ? workshopAllowancePackages.has(data.packageType) : false;
-  const additionalWorkshopEntries = hasWorkshopAllowance ? workshopEntries.slice(WORKSHOPS_INCLUDED_LIMIT) : workshopEntries;
-  const additionalWorkshopsTotal = additionalWorkshopEntries.reduce((sum, entry) => sum + entry.price * workshopMultiplier, 0);
-  const totalWorkshopCharge = workshopEntries.reduce((sum, entry) => sum + entry.price * workshopMultiplier, 0);
-
-
-  // Helper function to get package price for display
-  const getPackagePriceDisplay = () => {
-    if (!currentEvent || data.packageType === 'custom') return null;
-    
-    const multiplier = data.role === 'couple' ? 2 : 1;
-    const isSingleOccupancy = data.role !== 'couple';
-    const now = new Date();
-    
-    if (data.packageType === 'full') {
-      // Check 24-hour deal first
-      if (currentEvent.fullPackage24HourStartDate && 
-          currentEvent.fullPackage24HourEndDate && 
-          currentEvent.fullPackage24HourPrice > 0) {
-        const startDate = new Date(currentEvent.fullPackage24HourStartDate);
-        const endDate = new Date(currentEvent.fullPackage24HourEndDate);
-        if (now >= startDate && now <= endDate) {
-          return Number(currentEvent.fullPackage24HourPrice) * multiplier;
-        }
-      }
-      
-      // Check early bird
-      if (currentEvent.fullPackageEarlyBirdEndDate && 
-          currentEvent.fullPackageEarlyBirdPrice > 0 && 
-          new Date(currentEvent.fullPackageEarlyBirdEndDate) > now) {
-        return Number(currentEvent.fullPackageEarlyBirdPrice) * multiplier;
-      }
-      
-      // Standard price
-      return Number(currentEvent.fullPackageStandardPrice || 0) * multiplier;
-    } else if (data.packageType === 'evening') {
-      // Check 24-hour deal first
-      if (currentEvent.eveningPackage24HourStartDate && 
-          currentEvent.eveningPackage24HourEndDate && 
-          currentEvent.eveningPackage24HourPrice > 0) {
-        const startDate = new Date(currentEvent.eveningPackage24HourStartDate);
-        const endDate = new Date(currentEvent.eveningPackage24HourEndDate);
-        if (now >= startDate && now <= endDate) {
-          return Number(currentEvent.eveningPackage24HourPrice) * multiplier;
-        }
-      }
-      
-      // Check early bird
-      if (currentEvent.eveningPackageEarlyBirdEndDate && 
-          currentEvent.eveningPackageEarlyBirdPrice > 0 && 
-          new Date(currentEvent.eveningPackageEarlyBirdEndDate) > now) {
-        return Number(currentEvent.eveningPackageEarlyBirdPrice) * multiplier;
-      }
-      
-      // Standard price
-      return Number(currentEvent.eveningPackageStandardPrice || 0) * multiplier;
-    } else if (data.packageType === 'premium-accommodation-4nights') {
-      const isEarlyBird = currentEvent.premiumAccommodation4NightsEarlyBirdEndDate && 
-                          new Date(currentEvent.premiumAccommodation4NightsEarlyBirdEndDate) > now;
-      
-      if (isEarlyBird) {
-        return isSingleOccupancy
-          ? Number(currentEvent.premiumAccommodation4NightsEarlyBirdSinglePrice || 0)
-          : Number(currentEvent.premiumAccommodation4NightsEarlyBirdDoublePrice || 0);
-      }
-      return isSingleOccupancy
-        ? Number(currentEvent.premiumAccommodation4NightsSinglePrice || 0)
-        : Number(currentEvent.premiumAccommodation4NightsDoublePrice || 0);
-    } else if (data.packageType === 'premium-accommodation-3nights') {
-      const isEarlyBird = currentEvent.premiumAccommodation3NightsEarlyBirdEndDate && 
-                          new Date(currentEvent.premiumAccommodation3NightsEarlyBirdEndDate) > now;
-      
-      if (isEarlyBird) {
-        return isSingleOccupancy
-          ? Number(currentEvent.premiumAccommodation3NightsEarlyBirdSinglePrice || 0)
-          : Number(currentEvent.premiumAccommodation3NightsEarlyBirdDoublePrice || 0);
-      }
-      return isSingleOccupancy
-        ? Number(currentEvent.premiumAccommodation3NightsSinglePrice || 0)
-        : Number(currentEvent.premiumAccommodation3NightsDoublePrice || 0);
-    }
-    
-    return null;
-  };
-
   const createRegistrationMutation = useMutation({
     mutationFn: async (registrationData: any) => {
       const response = await apiRequest("POST", "/api/registrations", registrationData);
@@ -301,23 +264,28 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
     
     try {
       // Create registration with event ID
-      const { workshopSelections, ...safeData } = data;
       const registrationData = {
-        ...safeData,
-        eventId: currentEvent.id,
-        paymentMethod,
-        totalAmount: data.totalAmount,
-        workshopIds: data.workshopIds || [],
-        seatIds: data.seatIds || [],
-        milongaIds: data.milongaIds || [],
-        addons: data.addons || [],
+        ...buildRegistrationPayload(appliedPromo?.code),
+        // The total the dancer is agreeing to; the server refuses the
+        // registration if its own price differs
+        quotedTotal: payableTotal,
+        usePaymentPlan: planAvailable && usePaymentPlan,
       };
 
       const registration = await createRegistrationMutation.mutateAsync(registrationData);
 
-      if (paymentMethod === 'stripe') {
-        // Store registration ID for redirect after payment
-        localStorage.setItem('currentRegistrationId', registration.id);
+      if (registration.paymentStatus === 'completed') {
+        // The promo code covered everything, so there is nothing to pay
+        toast({
+          title: "Registration Complete",
+          description: "Your promo code covers the full amount - no payment is needed.",
+        });
+        setLocation(`/confirmation?token=${encodeURIComponent(registration.accessToken)}`);
+      } else if (paymentMethod === 'stripe') {
+        // Store the confirmation link's token for the redirect after payment
+        localStorage.setItem('currentRegistrationToken', registration.accessToken);
+        setHoldExpiresAt(registration.holdExpiresAt);
+        setHoldExpired(false);
         // Create payment intent
         await createPaymentIntentMutation.mutateAsync({
           registrationId: registration.id,
@@ -331,12 +299,24 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
         
         // Add a small delay to show loading state before redirect
         setTimeout(() => {
-          console.log('Redirecting to confirmation with ID:', registration.id);
-          setLocation(`/confirmation?id=${registration.id}`);
+          setLocation(`/confirmation?token=${encodeURIComponent(registration.accessToken)}`);
         }, 1500);
       }
     } catch (error: any) {
       setIsSubmitting(false);
+      if (error.message?.includes("Prices have changed")) {
+        // Reload the catalog so the breakdown shows the current prices
+        PRICING_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+        if (appliedPromo) {
+          applyPromoMutation.mutate(appliedPromo.code);
+        }
+        toast({
+          title: "Prices Updated",
+          description: "Prices have changed since your quote. Please review the updated total before continuing.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Registration Error",
         description: error.message,
@@ -345,6 +325,20 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
     }
   };
 
+  // The server releases the places once the hold runs out, so the payment
+  // form is withdrawn and the dancer has to start checkout again.
+  const handleHoldExpired = useCallback(() => {
+    setHoldExpired(true);
+    setClientSecret("");
+    setHoldExpiresAt(null);
+    setIsSubmitting(false);
+    toast({
+      title: "Reservation Expired",
+      description: "Your places were released because payment wasn't completed in time.",
+      variant: "destructive",
+    });
+  }, [toast]);
+
   const handlePaymentComplete = () => {
     toast({
       title: "Registration Complete",
@@ -403,11 +397,7 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
                 <div className="text-sm space-y-1">
                   <div className="flex justify-between">
                     <span>
-                      {data.packageType === 'full' ? 'Premium Package' : 
-                       data.packageType === 'premium-accommodation-4nights' ? 'Premium Package + 4 Nights Accommodation' :
-                       data.packageType === 'premium-accommodation-3nights' ? 'Premium Package + 3 Nights Accommodation' :
-                       data.packageType === 'evening' ? 'Evening Package' : 
-                       'Create Your Own Package'}
+                      {linesOf('package')[0]?.label ?? PACKAGE_LABELS[data.packageType ?? 'custom']}
                       {data.packageType === 'premium-accommodation-4nights' || data.packageType === 'premium-accommodation-3nights' ? (
                         <span className="text-gray-600 ml-2">
                           ({data.role === 'couple' ? 'Double Occupancy' : 'Single Occupancy'})
@@ -417,13 +407,10 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
                       )}
                     </span>
                     <span>
-                      {data.packageType === 'custom' ? (
+                      {data.packageType === 'custom' && packagePrice === 0 ? (
                         'Pay as you choose'
                       ) : (
-                        (() => {
-                          const packagePrice = getPackagePriceDisplay();
-                          return packagePrice !== null ? `AED ${packagePrice.toLocaleString()}` : 'AED 0';
-                        })()
+                        formatCurrency(packagePrice)
                       )}
                     </span>
                   </div>
@@ -447,28 +434,18 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
                     {(data.packageType === 'full' || data.packageType === 'premium-accommodation-4nights' || data.packageType === 'premium-accommodation-3nights') ? 'Workshop Details' : 'Workshops'}
                   </h4>
                   <div className="text-sm space-y-1">
-                    {(data.packageType === 'full' || data.packageType === 'premium-accommodation-4nights' || data.packageType === 'premium-accommodation-3nights') && data.workshopIds.length <= 6 && (
+                    {includedWorkshopCount > 0 && (
                       <div className="flex justify-between text-green-600">
-                        <span>{data.workshopIds.length} workshops covered by package</span>
-                        <span>AED 0</span>
+                        <span>{includedWorkshopCount} workshops covered by package</span>
+                        <span>{formatCurrency(0)}</span>
                       </div>
                     )}
-                    {(data.packageType === 'full' || data.packageType === 'premium-accommodation-4nights' || data.packageType === 'premium-accommodation-3nights') && data.workshopIds.length > WORKSHOPS_INCLUDED_LIMIT && (
-                      <>
-                        <div className="flex justify-between text-green-600">
-                          <span>{WORKSHOPS_INCLUDED_LIMIT} workshops covered by package</span>
-                          <span>AED 0</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>{data.workshopIds.length - WORKSHOPS_INCLUDED_LIMIT} additional workshops {data.role === 'couple' && '(x2)'}</span>
-                          <span>{formatCurrency(additionalWorkshopsTotal)}</span>
-                        </div>
-                      </>
-                    )}
-                    {(data.packageType === 'evening' || data.packageType === 'custom') && (
+                    {additionalWorkshopLines.length > 0 && (
                       <div className="flex justify-between">
-                        <span>{data.workshopIds.length} workshops {data.role === 'couple' && '(x2)'}</span>
-                        <span>{formatCurrency(totalWorkshopCharge)}</span>
+                        <span>
+                          {additionalWorkshopLines.length} {includedWorkshopCount > 0 ? 'additional ' : ''}workshops {data.role === 'couple' && '(x2)'}
+                        </span>
+                        <span>{formatCurrency(additionalWorkshopsTotal)}</span>
                       </div>
                     )}
                   </div>
@@ -499,37 +476,15 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
                 <div className="mb-6">
                   <h4 className="font-medium text-gray-900 mb-2">Milonga Events</h4>
                   <div className="text-sm space-y-1">
-                    {data.milongaIds.map((milongaId) => {
-                      const milonga = milongas?.find((m: any) => m.id === milongaId);
-                      const multiplier = data.role === 'couple' ? 2 : 1;
-                      
-                      // Calculate price with early bird logic
-                      let pricePerPerson = milonga ? parseFloat(milonga.price) : 0;
-                      if (milonga) {
-                        const now = new Date();
-                        const earlyBirdPrice = milonga.earlyBirdPrice ? parseFloat(milonga.earlyBirdPrice) : 0;
-                        const earlyBirdEndDate = milonga.earlyBirdEndDate;
-                        
-                        if (earlyBirdPrice > 0 && earlyBirdEndDate) {
-                          const endDate = new Date(earlyBirdEndDate);
-                          if (endDate >= now) {
-                            pricePerPerson = earlyBirdPrice;
-                          }
-                        }
-                      }
-                      
-                      const price = pricePerPerson * multiplier;
-                      
-                      return (
-                        <div key={milongaId} className="flex justify-between">
-                          <span>
-                            {milonga ? milonga.name : 'Milonga Event'} 
-                            {data.role === 'couple' && ' (x2)'}
-                          </span>
-                          <span>AED {price.toLocaleString()}</span>
-                        </div>
-                      );
-                    })}
+                    {milongaLines.map((line) => (
+                      <div key={line.itemId} className="flex justify-between">
+                        <span>
+                          {line.label}
+                          {data.role === 'couple' && ' (x2)'}
+                        </span>
+                        <span>{formatCurrency(line.amount)}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -563,13 +518,13 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
                       <span>
                         Table {data.selectedTableNumber} ({data.role === 'couple' ? '2 seats' : '1 seat'})
                       </span>
-                      <span className={tablePricing?.included ? 'text-green-600' : 'text-gray-900'}>
-                        {tablePricing?.included ? (
+                      <span className={galaLine?.included ? 'text-green-600' : 'text-gray-900'}>
+                        {galaLine?.included ? (
                           'Covered by package'
-                        ) : tablePricing ? (
+                        ) : galaLine ? (
                           <>
-                            {formatCurrency(tablePricing.amount)}
-                            {tablePricing.isEarlyBird && (
+                            {formatCurrency(galaLine.amount)}
+                            {galaIsEarlyBird && (
                               <span className="ml-1 text-xs text-green-600">Early Bird</span>
                             )}
                           </>
@@ -587,22 +542,18 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
                 <div className="mb-6">
                   <h4 className="font-medium text-gray-900 mb-2">Add-ons</h4>
                   <div className="text-sm space-y-1">
-                    {data.addons.map((addonSelection) => {
-                      const addon = addons?.find(a => a.id === addonSelection.id);
-                      if (!addon) return null;
-                      
-                      const price = parseFloat(addon.price) * addonSelection.quantity;
-                      const optionsText = Object.entries(addonSelection.options || {})
+                    {addonLines.map((line, index) => {
+                      const optionsText = Object.entries(line.options || {})
                         .filter(([key, value]) => key !== 'allowImageUpload' && value)
                         .map(([key, value]) => `${key}: ${value}`)
                         .join(', ');
-                      
+
                       return (
-                        <div key={addonSelection.id} className="flex justify-between">
+                        <div key={`${line.itemId}-${index}`} className="flex justify-between">
                           <span>
-                            {addon.name} {optionsText && `(${optionsText})`} x{addonSelection.quantity}
+                            {line.label} {optionsText && `(${optionsText})`} x{line.quantity}
                           </span>
-                          <span>AED {price.toFixed(2)}</span>
+                          <span>{formatCurrency(line.amount)}</span>
                         </div>
                       );
                     })}
@@ -640,38 +591,97 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
                   <div className="text-sm space-y-2">
                     <div className="flex justify-between">
                       <span>Package Price:</span>
-                      <span>{(() => {
-                        const packagePrice = getPackagePriceDisplay();
-                        return packagePrice !== null ? `AED ${packagePrice.toLocaleString()}` : 'AED 0';
-                      })()}</span>
+                      <span>{formatCurrency(packagePrice)}</span>
                     </div>
                     {(data.packageType === 'premium-accommodation-4nights' || data.packageType === 'premium-accommodation-3nights') && (
                       <div className="text-xs text-gray-600 pl-2">
                         ({data.role === 'couple' ? 'Double' : 'Single'} Occupancy)
                       </div>
                     )}
-                    {hasWorkshopAllowance && additionalWorkshopEntries.length > 0 && (
+                    {includedWorkshopCount > 0 && additionalWorkshopLines.length > 0 && (
                       <div className="flex justify-between">
-                        <span>Additional Workshops ({additionalWorkshopEntries.length}{data.role === 'couple' ? ' × 2' : ''}):</span>
+                        <span>Additional Workshops ({additionalWorkshopLines.length}{data.role === 'couple' ? ' × 2' : ''}):</span>
                         <span>{formatCurrency(additionalWorkshopsTotal)}</span>
                       </div>
                     )}
                     {data.addons.length > 0 && (
                       <div className="flex justify-between">
                         <span>Add-ons:</span>
-                        <span>AED {data.addons.reduce((total, addon) => total + (parseFloat(addon.price || '0') * addon.quantity), 0).toFixed(2)}</span>
+                        <span>{formatCurrency(sumOf(addonLines))}</span>
                       </div>
                     )}
                   </div>
                 </div>
               )}
 
+              {/* Pricing Tier */}
+              {quote.tierDiscount > 0 && (
+                <div className="flex justify-between text-sm text-green-700 mb-4">
+                  <span>{quote.tierName}</span>
+                  <span>−{formatCurrency(quote.tierDiscount)}</span>
+                </div>
+              )}
+
+              {/* Promo Code */}
+              <div className="border-t border-gray-200 pt-4 mb-4">
+                {appliedPromo ? (
+                  <div className="flex justify-between items-center text-sm text-green-700">
+                    <span className="flex items-center">
+                      <TicketPercent className="h-4 w-4 mr-2" />
+                      Promo code {appliedPromo.code}
+                      {!clientSecret && (
+                        <button
+                          type="button"
+                          onClick={() => setAppliedPromo(null)}
+                          className="ml-2 text-gray-400 hover:text-gray-600"
+                          aria-label="Remove promo code"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </span>
+                    <span>−{formatCurrency(appliedPromo.discount)}</span>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                      placeholder="Promo code"
+                      className="font-mono"
+                      disabled={!!clientSecret}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => applyPromoMutation.mutate(promoInput.trim())}
+                      disabled={!promoInput.trim() || !currentEvent?.id || applyPromoMutation.isPending || !!clientSecret}
+                    >
+                      {applyPromoMutation.isPending ? 'Checking...' : 'Apply'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+
               {/* Total */}
               <div className="border-t border-gray-200 pt-4">
                 <div className="flex justify-between text-lg font-semibold">
                   <span>Total Amount:</span>
-                  <span>AED {data.totalAmount.toLocaleString()}</span>
+                  <span>
+                    {formatCurrency(appliedPromo ? appliedPromo.total : data.totalAmount)}
+                  </span>
                 </div>
+                {paymentMethod === 'stripe' && settlement.currency !== currency && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Card payments are charged in {settlement.currency}:{' '}
+                    {formatMoney(convertAmount(payableTotal, settlement.rate), settlement.currency)}
+                  </p>
+                )}
+                {paymentMethod === 'offline' && baseCurrency !== currency && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Bank transfers are paid in {baseCurrency}: {formatMoney(payableTotal, baseCurrency)}
+                  </p>
+                )}
                 <div className="flex justify-between text-sm text-gray-600 mt-1">
                   <span>Registration Code:</span>
                   <span>{data.packageType?.toUpperCase().substring(0, 3) || 'REG'}-XXXXXX</span>
@@ -710,6 +720,62 @@ export function CheckoutStep({ data, onUpdate, onPrev }: CheckoutStepProps) {
                 </div>
               </RadioGroup>
 
+              {/* Payment Plan */}
+              {planAvailable && (
+                <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                  <div className="flex items-start space-x-3">
+                    <Checkbox
+                      id="usePaymentPlan"
+                      checked={usePaymentPlan}
+                      onCheckedChange={(checked) => setUsePaymentPlan(!!checked)}
+                      disabled={!!clientSecret}
+                      className="mt-0.5"
+                    />
+                    <Label htmlFor="usePaymentPlan" className="cursor-pointer">
+                      <div className="flex items-center font-medium text-gray-900">
+                        <CalendarClock className="h-4 w-4 text-gray-400 mr-2" />
+                        Pay in instalments
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        Pay a deposit now; the rest is charged to the same card on these dates
+                      </div>
+                    </Label>
+                  </div>
+                  {usePaymentPlan && (
+                    <div className="text-sm space-y-1 mt-3 pl-7">
+                      {instalmentPreview.map(instalment => (
+                        <div key={instalment.sequence} className="flex justify-between">
+                          <span>
+                            {instalment.sequence === 0 ? 'Deposit today' : new Date(instalment.dueDate).toLocaleDateString()}
+                          </span>
+                          <span>{formatCurrency(instalment.amount)}</span>
+                        </div>
+                      ))}
+                      {paymentPlan?.autoCancelAfterDays != null && (
+                        <p className="text-xs text-gray-500 pt-1">
+                          Registrations still unpaid {paymentPlan.autoCancelAfterDays} days after the final instalment is due are cancelled.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Checkout Hold */}
+              {paymentMethod === 'stripe' && clientSecret && holdExpiresAt && (
+                <div className="flex items-center justify-between gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+                  <p className="text-sm text-amber-800">Your places are held while you pay</p>
+                  <CountdownTimer endDate={holdExpiresAt} onExpired={handleHoldExpired} />
+                </div>
+              )}
+              {paymentMethod === 'stripe' && holdExpired && !clientSecret && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                  <p className="text-sm text-red-800">
+                    Your reservation expired and the places were released. Proceed to payment again to re-check availability.
+                  </p>
+                </div>
+              )}
+
               {/* Stripe Payment Form */}
               {paymentMethod === 'stripe' && clientSecret && (
                 <div className="w-full">
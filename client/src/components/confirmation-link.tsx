@@ -0,0 +1,107 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminPermissions } from "@/hooks/useAdminPermissions";
+
+interface ConfirmationLinkProps {
+  registrationId: string;
+}
+
+interface AccessTokenResponse {
+  accessToken: string;
+  confirmationUrl: string;
+}
+
+/**
+ * A registration's confirmation link, to copy and send to the dancer, and
+ * for admins who can edit registrations, a way to replace it when the old
+ * link or QR code has been shared where it shouldn't be.
+ */
+export function ConfirmationLink({ registrationId }: ConfirmationLinkProps) {
+  const { toast } = useToast();
+  const { can } = useAdminPermissions();
+  const queryKey = ["/api/admin/registrations", registrationId, "access-token"];
+
+  const { data, isLoading } = useQuery<AccessTokenResponse>({ queryKey });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/registrations/${registrationId}/access-token`);
+      return response.json() as Promise<AccessTokenResponse>;
+    },
+    onSuccess: (rotated) => {
+      queryClient.setQueryData(queryKey, rotated);
+      toast({
+        title: "Link Replaced",
+        description: "The old confirmation link and QR code no longer work.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to replace the confirmation link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copy = async () => {
+    if (!data) return;
+    await navigator.clipboard.writeText(data.confirmationUrl);
+    toast({ title: "Copied", description: "Confirmation link copied to the clipboard." });
+  };
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading confirmation link...
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input value={data.confirmationUrl} readOnly className="font-mono text-xs" />
+      <Button size="sm" variant="outline" onClick={copy} title="Copy link">
+        <Copy className="h-4 w-4" />
+      </Button>
+      {can("registrations.write") && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="outline" title="Replace link" disabled={rotateMutation.isPending}>
+              {rotateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Replace confirmation link?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The current link and QR code will stop working, including any the dancer has printed or saved. Send
+                them the new link afterwards.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => rotateMutation.mutate()}>Replace link</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+}
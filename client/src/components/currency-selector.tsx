@@ -0,0 +1,27 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/useCurrency";
+
+/**
+ * Lets visitors see prices in another of the event's currencies. Hidden
+ * when the event is only priced in its base currency.
+ */
+export function CurrencySelector() {
+  const { options, currency, setCurrency } = useCurrency();
+
+  if (options.length < 2) return null;
+
+  return (
+    <Select value={currency} onValueChange={setCurrency}>
+      <SelectTrigger className="w-24 h-8 text-sm" aria-label="Currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.code} value={option.code}>
+            {option.code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,460 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangle, Camera, CameraOff, CheckCircle2, Loader2, ScanLine, Search, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { CheckIn } from "@shared/schema";
+import { CHECK_IN_SESSION_LABELS, type AdmissionStatus, type CheckInSession } from "@shared/checkIn";
+import { PACKAGE_LABELS } from "@shared/pricing";
+import { formatMoney } from "@shared/currency";
+
+type SessionWithCounts = CheckInSession & { booked: number; checkedIn: number };
+
+interface DancerCheckIn {
+  registrationId: string;
+  code: string;
+  names: string[];
+  packageType: string;
+  role: string;
+  tableNumber: number | null;
+  addons: Array<{ name: string; quantity: number }>;
+  admission: { status: AdmissionStatus; label: string };
+  totalAmount: string;
+  amountReceived: string | null;
+  currency: string | null;
+  sessions: Array<CheckInSession & { checkIn: CheckIn | null }>;
+}
+
+interface SearchResult {
+  registrationId: string;
+  code: string;
+  names: string[];
+  email: string;
+  packageType: string;
+  admission: { status: AdmissionStatus; label: string };
+}
+
+interface CheckInResult {
+  checkIn: CheckIn;
+  duplicate: boolean;
+  dancer: DancerCheckIn;
+}
+
+// What happened at the door for the last scan or button press
+interface Outcome {
+  kind: "checked-in" | "duplicate" | "refused";
+  message: string;
+}
+
+const ADMISSION_BADGES: Record<AdmissionStatus, string> = {
+  paid: "bg-green-100 text-green-800",
+  balance_due: "bg-amber-100 text-amber-800",
+  unpaid: "bg-red-100 text-red-800",
+  void: "bg-gray-200 text-gray-700",
+};
+
+const OUTCOME_STYLES: Record<Outcome["kind"], string> = {
+  "checked-in": "border-green-300 bg-green-50 text-green-900",
+  duplicate: "border-amber-300 bg-amber-50 text-amber-900",
+  refused: "border-red-300 bg-red-50 text-red-900",
+};
+
+// The same QR code held in front of the camera is only read again after this long
+const RESCAN_DELAY_MS = 3000;
+
+const sessionKey = (session: { type: string; id: string }) => `${session.type}:${session.id}`;
+
+const formatTime = (date: string | Date) =>
+  new Date(date).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+const formatSessionDate = (session: CheckInSession) =>
+  [session.date && new Date(session.date).toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short" }), session.time]
+    .filter(Boolean)
+    .join(" · ");
+
+interface QrScannerProps {
+  paused: boolean;
+  onScan: (text: string) => void;
+}
+
+/**
+ * Reads QR codes from the device camera (the back one on phones), calling
+ * `onScan` with each code's text.
+ */
+function QrScanner({ paused, onScan }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pausedRef = useRef(paused);
+  const onScanRef = useRef(onScan);
+  const lastScanRef = useRef<{ text: string; at: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  pausedRef.current = paused;
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA && !pausedRef.current) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+          const last = lastScanRef.current;
+          if (code?.data && (last?.text !== code.data || Date.now() - last.at > RESCAN_DELAY_MS)) {
+            lastScanRef.current = { text: code.data, at: Date.now() };
+            onScanRef.current(code.data);
+          }
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't use the camera. Search for dancers by name instead.");
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play().catch(() => undefined);
+        }
+        frame = requestAnimationFrame(tick);
+      })
+      .catch(() => setError("Camera access was denied. Allow it in the browser, or search for dancers by name."));
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border border-dashed p-6 text-sm text-gray-600">
+        <CameraOff className="h-5 w-5 shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-md bg-black">
+      <video ref={videoRef} className="w-full max-h-80 object-cover" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+      {paused && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+          <Loader2 className="h-8 w-8 animate-spin text-white" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Staff check-in at the door: pick the session, scan the dancer's QR code
+ * (or find them by name) and check them in. Scans check the dancer in to
+ * the selected session straight away; a second scan warns that they're
+ * already in and when they were admitted.
+ */
+export function DoorCheckIn() {
+  const { toast } = useToast();
+  const [selectedSession, setSelectedSession] = useState("");
+  const [cameraOn, setCameraOn] = useState(false);
+  const [manualCode, setManualCode] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [dancer, setDancer] = useState<DancerCheckIn | null>(null);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery<SessionWithCounts[]>({
+    queryKey: ["/api/admin/check-in/sessions"],
+  });
+  const { data: searchResults = [], isFetching: searching } = useQuery<SearchResult[]>({
+    queryKey: ["/api/admin/check-in/search", searchQuery],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/check-in/search?q=${encodeURIComponent(searchQuery)}`);
+      return response.json();
+    },
+    enabled: searchQuery.trim().length >= 2,
+  });
+
+  const session = sessions.find((candidate) => sessionKey(candidate) === selectedSession);
+
+  const checkInMutation = useMutation({
+    mutationFn: async ({ registrationId, target }: { registrationId: string; target: CheckInSession }) => {
+      const response = await apiRequest("POST", `/api/admin/check-in/registrations/${registrationId}`, {
+        sessionType: target.type,
+        sessionId: target.id,
+      });
+      return { ...(await response.json()), target } as CheckInResult & { target: CheckInSession };
+    },
+    onSuccess: ({ checkIn, duplicate, dancer: updated, target }) => {
+      setDancer(updated);
+      setOutcome(duplicate
+        ? {
+            kind: "duplicate",
+            message: `Already checked in to ${target.label} at ${formatTime(checkIn.checkedInAt)} by ${checkIn.checkedInBy}`,
+          }
+        : { kind: "checked-in", message: `Checked in to ${target.label}` });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/check-in/sessions"] });
+    },
+    onError: (error: any) => {
+      setOutcome({ kind: "refused", message: apiErrorMessage(error, "Failed to check in") });
+    },
+  });
+
+  const lookupMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/admin/check-in/lookup", { code });
+      return response.json() as Promise<DancerCheckIn>;
+    },
+    onSuccess: (found) => {
+      setDancer(found);
+      setOutcome(null);
+      setManualCode("");
+      if (!session) return;
+
+      const target = found.sessions.find((candidate) => sessionKey(candidate) === selectedSession);
+      if (found.admission.status === "void") {
+        setOutcome({ kind: "refused", message: `Registration ${found.admission.label.toLowerCase()}: do not admit` });
+      } else if (!target) {
+        setOutcome({ kind: "refused", message: `Not booked for ${session.label}` });
+      } else {
+        checkInMutation.mutate({ registrationId: found.registrationId, target });
+      }
+    },
+    onError: (error: any) => {
+      setDancer(null);
+      setOutcome({ kind: "refused", message: apiErrorMessage(error, "Unknown code") });
+    },
+  });
+
+  const openDancerMutation = useMutation({
+    mutationFn: async (registrationId: string) => {
+      const response = await apiRequest("GET", `/api/admin/check-in/registrations/${registrationId}`);
+      return response.json() as Promise<DancerCheckIn>;
+    },
+    onSuccess: (found) => {
+      setDancer(found);
+      setOutcome(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to load the registration"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const busy = lookupMutation.isPending || checkInMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Door Check-in
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Checking in to</Label>
+            <Select value={selectedSession} onValueChange={setSelectedSession} disabled={sessionsLoading}>
+              <SelectTrigger>
+                <SelectValue placeholder={sessionsLoading ? "Loading sessions..." : "Choose a session"} />
+              </SelectTrigger>
+              <SelectContent>
+                {sessions.map((candidate) => (
+                  <SelectItem key={sessionKey(candidate)} value={sessionKey(candidate)}>
+                    {CHECK_IN_SESSION_LABELS[candidate.type]}: {candidate.label}
+                    {formatSessionDate(candidate) && ` (${formatSessionDate(candidate)})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {session && (
+              <p className="text-sm text-gray-600">
+                {session.checkedIn} of {session.booked} booked dancers checked in
+              </p>
+            )}
+            {!session && !sessionsLoading && (
+              <p className="text-sm text-gray-500">Without a session, scans only show the dancer's details.</p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant={cameraOn ? "secondary" : "default"} onClick={() => setCameraOn(!cameraOn)}>
+              {cameraOn ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+              {cameraOn ? "Stop camera" : "Scan QR codes"}
+            </Button>
+          </div>
+          {cameraOn && <QrScanner paused={busy} onScan={(text) => lookupMutation.mutate(text)} />}
+
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (manualCode.trim()) lookupMutation.mutate(manualCode);
+            }}
+          >
+            <Input
+              value={manualCode}
+              onChange={(event) => setManualCode(event.target.value)}
+              placeholder="Registration code, e.g. FUL-3F1C2B4A"
+            />
+            <Button type="submit" variant="outline" disabled={busy || !manualCode.trim()}>
+              Look up
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {outcome && (
+        <div className={`flex items-center gap-3 rounded-md border p-4 text-lg font-medium ${OUTCOME_STYLES[outcome.kind]}`}>
+          {outcome.kind === "checked-in" && <CheckCircle2 className="h-6 w-6 shrink-0" />}
+          {outcome.kind === "duplicate" && <AlertTriangle className="h-6 w-6 shrink-0" />}
+          {outcome.kind === "refused" && <XCircle className="h-6 w-6 shrink-0" />}
+          {outcome.message}
+        </div>
+      )}
+
+      {dancer && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <CardTitle>{dancer.names.join(" & ") || "Unnamed dancer"}</CardTitle>
+                <p className="text-sm text-gray-600 mt-1">
+                  {dancer.code} · {PACKAGE_LABELS[dancer.packageType] || dancer.packageType} · <span className="capitalize">{dancer.role}</span>
+                </p>
+              </div>
+              <Badge className={ADMISSION_BADGES[dancer.admission.status]}>{dancer.admission.label}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {dancer.admission.status === "balance_due" || dancer.admission.status === "unpaid" ? (
+              <p className="text-sm text-amber-800">
+                Received {formatMoney(dancer.amountReceived || 0)} of {formatMoney(dancer.totalAmount)}.
+              </p>
+            ) : null}
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Sessions</h4>
+              {dancer.sessions.length === 0 && <p className="text-sm text-gray-500">Not booked into any sessions.</p>}
+              {dancer.sessions.map((entitled) => (
+                <div
+                  key={sessionKey(entitled)}
+                  className={`flex items-center justify-between gap-2 rounded-md border p-3 ${
+                    sessionKey(entitled) === selectedSession ? "border-blue-400 bg-blue-50" : ""
+                  }`}
+                >
+                  <div>
+                    <p className="font-medium">
+                      {entitled.label}
+                      {entitled.type === "gala" && dancer.tableNumber && ` · Table ${dancer.tableNumber}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {[CHECK_IN_SESSION_LABELS[entitled.type], formatSessionDate(entitled)].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                  {entitled.checkIn ? (
+                    <span className="flex items-center gap-1 text-sm text-green-700" title={`By ${entitled.checkIn.checkedInBy}`}>
+                      <CheckCircle2 className="h-4 w-4" />
+                      In at {formatTime(entitled.checkIn.checkedInAt)}
+                    </span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      disabled={busy || dancer.admission.status === "void"}
+                      onClick={() => checkInMutation.mutate({ registrationId: dancer.registrationId, target: entitled })}
+                    >
+                      Check in
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {dancer.addons.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="font-medium">Add-ons</h4>
+                {dancer.addons.map((addon, index) => (
+                  <p key={index} className="text-sm text-gray-700">
+                    {addon.quantity} × {addon.name}
+                  </p>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Find a Dancer
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Input
+            value={searchQuery}
+            onChange={(event) => setSearchQuery(event.target.value)}
+            placeholder="Name, email or registration code"
+          />
+          {searching && (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Searching...
+            </div>
+          )}
+          {searchQuery.trim().length >= 2 && !searching && searchResults.length === 0 && (
+            <p className="text-sm text-gray-500">No registrations match.</p>
+          )}
+          {searchResults.map((result) => (
+            <button
+              key={result.registrationId}
+              type="button"
+              className="flex w-full items-center justify-between gap-2 rounded-md border p-3 text-left hover:bg-gray-50"
+              onClick={() => openDancerMutation.mutate(result.registrationId)}
+            >
+              <div>
+                <p className="font-medium">{result.names.join(" & ") || result.email}</p>
+                <p className="text-xs text-gray-500">
+                  {result.code} · {PACKAGE_LABELS[result.packageType] || result.packageType} · {result.email}
+                </p>
+              </div>
+              <Badge className={ADMISSION_BADGES[result.admission.status]}>{result.admission.label}</Badge>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, Loader2, Mail, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { EmailOutboxEntry } from "@shared/schema";
+import {
+  EMAIL_TYPE_LABELS,
+  MERGE_FIELDS,
+  NOTIFICATION_TYPE_LABELS,
+  SAMPLE_MERGE_FIELDS,
+  renderTemplate,
+  type EmailOutboxStatus,
+  type EmailType,
+  type NotificationType,
+} from "@shared/notifications";
+
+interface TemplateSummary {
+  type: NotificationType;
+  subject: string;
+  body: string;
+  enabled: boolean;
+  customized: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+interface TemplateForm {
+  subject: string;
+  body: string;
+  enabled: boolean;
+}
+
+interface EmailNotificationsProps {
+  canEditTemplates: boolean;
+  canViewEmails: boolean;
+  canRetry: boolean;
+}
+
+const STATUS_BADGES: Record<EmailOutboxStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export function EmailNotifications({ canEditTemplates, canViewEmails, canRetry }: EmailNotificationsProps) {
+  const { toast } = useToast();
+  const [editingType, setEditingType] = useState<NotificationType | null>(null);
+  const [formData, setFormData] = useState<TemplateForm>({ subject: "", body: "", enabled: true });
+  const [statusFilter, setStatusFilter] = useState<"all" | EmailOutboxStatus>("all");
+
+  const { data: templates = [], isLoading: templatesLoading } = useQuery<TemplateSummary[]>({
+    queryKey: ["/api/admin/email-templates"],
+    enabled: canEditTemplates,
+  });
+  const { data: emails = [], isLoading: emailsLoading } = useQuery<EmailOutboxEntry[]>({
+    queryKey: ["/api/admin/email-outbox"],
+    enabled: canViewEmails,
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ type, data }: { type: NotificationType; data: TemplateForm }) => {
+      const response = await apiRequest("PUT", `/api/admin/email-templates/${type}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({
+        title: "Template Saved",
+        description: "Emails sent from now on use the new template.",
+      });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save the template.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTemplateMutation = useMutation({
+    mutationFn: async (type: NotificationType) => {
+      const response = await apiRequest("DELETE", `/api/admin/email-templates/${type}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({
+        title: "Template Reset",
+        description: "This email is back to the built-in wording.",
+      });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Reset Failed",
+        description: error.message || "Failed to reset the template.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/email-outbox/${id}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-outbox"] });
+      toast({
+        title: "Email Queued",
+        description: "It will be sent again within a few minutes.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Retry Failed",
+        description: error.message || "Failed to queue the email again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditDialog = (template: TemplateSummary) => {
+    setEditingType(template.type);
+    setFormData({ subject: template.subject, body: template.body, enabled: template.enabled });
+  };
+
+  const closeDialog = () => {
+    setEditingType(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingType) {
+      saveTemplateMutation.mutate({ type: editingType, data: formData });
+    }
+  };
+
+  const editingTemplate = templates.find((template) => template.type === editingType);
+  const visibleEmails = statusFilter === "all" ? emails : emails.filter((email) => email.status === statusFilter);
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold">Emails</h2>
+
+      {canEditTemplates && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Email Templates for the Current Event</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {templatesLoading ? (
+              <div className="flex justify-center p-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => (
+                    <TableRow key={template.type}>
+                      <TableCell className="font-medium">{NOTIFICATION_TYPE_LABELS[template.type]}</TableCell>
+                      <TableCell className="text-sm">{template.subject}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={template.customized ? "default" : "outline"}>
+                            {template.customized ? "Custom" : "Default"}
+                          </Badge>
+                          {!template.enabled && <Badge variant="secondary">Off</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => openEditDialog(template)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {canViewEmails && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Sent and Queued Emails</CardTitle>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="p-0">
+            {emailsLoading ? (
+              <div className="flex justify-center p-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            ) : visibleEmails.length === 0 ? (
+              <div className="flex flex-col items-center py-10 text-gray-500">
+                <Mail className="h-10 w-10 mb-3" />
+                <p>No emails yet.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleEmails.map((email) => (
+                    <TableRow key={email.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {email.createdAt ? new Date(email.createdAt).toLocaleString() : ""}
+                      </TableCell>
+                      <TableCell className="text-sm">{email.recipient}</TableCell>
+                      <TableCell>
+                        <div className="text-sm font-medium">{email.subject}</div>
+                        <div className="text-xs text-gray-500">
+                          {EMAIL_TYPE_LABELS[email.type as EmailType] ?? email.type}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[email.status as EmailOutboxStatus]}>{email.status}</Badge>
+                        {email.status === "sent" && email.sentAt && (
+                          <div className="text-xs text-gray-500">{new Date(email.sentAt).toLocaleString()}</div>
+                        )}
+                        {email.status !== "sent" && email.lastError && (
+                          <div className="text-xs text-red-600">
+                            {email.lastError} ({email.attempts} {email.attempts === 1 ? "attempt" : "attempts"})
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canRetry && email.status === "failed" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => retryMutation.mutate(email.id)}
+                            disabled={retryMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editingType} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingType && NOTIFICATION_TYPE_LABELS[editingType]} Email</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="template-subject">Subject</Label>
+                  <Input
+                    id="template-subject"
+                    value={formData.subject}
+                    onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="template-body">Message</Label>
+                  <Textarea
+                    id="template-body"
+                    value={formData.body}
+                    onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
+                    rows={14}
+                    className="font-mono text-sm"
+                    required
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="template-enabled"
+                    checked={formData.enabled}
+                    onCheckedChange={(checked) => setFormData(prev => ({ ...prev, enabled: checked }))}
+                  />
+                  <Label htmlFor="template-enabled">Send this email</Label>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <Label>Preview</Label>
+                  <div className="mt-1 rounded-md border bg-gray-50 p-3 text-sm">
+                    <p className="font-medium">{renderTemplate(formData.subject, SAMPLE_MERGE_FIELDS)}</p>
+                    <p className="mt-2 whitespace-pre-wrap">{renderTemplate(formData.body, SAMPLE_MERGE_FIELDS)}</p>
+                  </div>
+                </div>
+                <div>
+                  <Label>Merge Fields</Label>
+                  <div className="mt-1 max-h-48 overflow-y-auto rounded-md border p-2 text-xs space-y-1">
+                    {MERGE_FIELDS.map(({ field, description }) => (
+                      <div key={field}>
+                        <code className="font-mono text-red-700">{`{{${field}}}`}</code>{" "}
+                        <span className="text-gray-600">{description}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-between gap-2 pt-2">
+              <div>
+                {editingTemplate?.customized && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => resetTemplateMutation.mutate(editingTemplate.type)}
+                    disabled={resetTemplateMutation.isPending}
+                  >
+                    Reset to Default
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveTemplateMutation.isPending}>
+                  {saveTemplateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Template
+                </Button>
+              </div>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
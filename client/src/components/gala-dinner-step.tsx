@@ -147,6 +147,7 @@ export function GalaDinnerStep({ data, onUpdate, onNext, onPrev, currentEvent }:
             onSelectionChange={handleTableSelectionChange}
             className="mb-8"
             showPrice={data.packageType === 'custom'}
+            waitlistData={data}
           />
         )}
 
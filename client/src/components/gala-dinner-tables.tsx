@@ -1,9 +1,11 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { useQuery } from "@tanstack/react-query";
 import { Loader2, Users, Crown, CheckCircle } from "lucide-react";
+import { WaitlistButton } from "./waitlist-button";
+import { useCurrency } from "@/hooks/useCurrency";
+import type { RegistrationData } from "@/pages/registration";
 
 interface Table {
   id: string;
@@ -28,6 +30,8 @@ interface GalaDinnerTablesProps {
   onSelectionChange: (tableNumber: number | undefined) => void;
   className?: string;
   showPrice?: boolean;
+  // Personal details used to join the waitlist for a full table
+  waitlistData?: Pick<RegistrationData, "leaderInfo" | "followerInfo">;
 }
 
 export function GalaDinnerTables({ 
@@ -35,9 +39,11 @@ export function GalaDinnerTables({
   selectedTableNumber, 
   onSelectionChange,
   className,
-  showPrice = false
+  showPrice = false,
+  waitlistData
 }: GalaDinnerTablesProps) {
   const [localSelection, setLocalSelection] = useState<number | undefined>(selectedTableNumber);
+  const { format } = useCurrency();
 
   const { data: tables = [], isLoading: tablesLoading } = useQuery<Table[]>({
     queryKey: ["/api/tables"],
@@ -48,23 +54,6 @@ export function GalaDinnerTables({
     queryKey: ["/api/layout-settings"],
   });
 
-  const bookTableMutation = useMutation({
-    mutationFn: async ({ tableNumber, seatsToBook }: { tableNumber: number; seatsToBook: number }) => {
-      const response = await fetch(`/api/tables/${tableNumber}/book`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ seatsToBook }),
-      });
-      if (!response.ok) {
-        throw new Error('Failed to book table');
-      }
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
-    },
-  });
-
   useEffect(() => {
     if (selectedTableNumber !== localSelection) {
       setLocalSelection(selectedTableNumber);
@@ -113,9 +102,7 @@ export function GalaDinnerTables({
     return { amount: basePrice, isEarlyBird: false };
   };
 
-  const formatCurrency = (value: number) => {
-    return `AED ${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-  };
+  const formatCurrency = (value: number) => format(value);
 
   if (tablesLoading) {
     return (
@@ -225,6 +212,15 @@ export function GalaDinnerTables({
                           Full
                         </Badge>
                       )}
+                      
+                      {!availability.available && waitlistData && (
+                        <WaitlistButton
+                          itemType="table"
+                          itemId={table.id}
+                          data={{ ...waitlistData, role }}
+                          className="mt-2"
+                        />
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Elements, PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { PaymentInstalment, Registration } from "@shared/schema";
+import { getOutstandingBalance } from "@shared/offlinePayments";
+import { getAutoCancelDate, type InstalmentStatus } from "@shared/paymentPlans";
+import { formatChargedAmount } from "@shared/currency";
+
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY || "");
+
+const STATUS_STYLES: Record<InstalmentStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  paid: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-500",
+};
+
+interface InstalmentScheduleProps {
+  registration: Pick<Registration, "totalAmount" | "paymentPlan" | "cancelledAt" | "currency" | "exchangeRate">;
+  // The registration's API path: its confirmation path for the dancer, its
+  // id path for admins
+  basePath: string;
+  // Dancers can pay their next instalment; admins only see the schedule
+  canPay?: boolean;
+}
+
+function PayInstalmentForm({ onPaid }: { onPaid: () => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    try {
+      const { error } = await stripe.confirmPayment({
+        elements,
+        confirmParams: { return_url: window.location.href },
+        redirect: "if_required",
+      });
+      if (error) {
+        toast({
+          title: "Payment Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        // The instalment is marked paid by the Stripe webhook
+        toast({
+          title: "Payment Received",
+          description: "Thank you! Your balance will update in a moment.",
+        });
+        onPaid();
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      <Button type="submit" disabled={!stripe || isProcessing} className="w-full">
+        {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+        Pay Now
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * The deposit and instalments of a registration on a payment plan, with the
+ * balance still due and, for the dancer, a card form to pay the next one.
+ */
+export function InstalmentSchedule({ registration, basePath, canPay = false }: InstalmentScheduleProps) {
+  const [clientSecret, setClientSecret] = useState("");
+  // The instalment just paid, until the webhook has marked it paid
+  const [awaitingId, setAwaitingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: instalments = [], isLoading } = useQuery<PaymentInstalment[]>({
+    queryKey: [basePath, "instalments"],
+    // A payment shows as paid once the webhook lands, a few seconds later
+    refetchInterval: (query) => {
+      const awaited = query.state.data?.find((instalment) => instalment.id === awaitingId);
+      return awaited && awaited.status !== "paid" ? 3000 : false;
+    },
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async (instalmentId: string) => {
+      const response = await apiRequest("POST", `${basePath}/instalments/${instalmentId}/payment-intent`);
+      return response.json();
+    },
+    onSuccess: (data, instalmentId) => {
+      setClientSecret(data.clientSecret);
+      setAwaitingId(instalmentId);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Payment Unavailable",
+        description: error.message || "Failed to start payment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePaid = () => {
+    setClientSecret("");
+    queryClient.invalidateQueries({ queryKey: [basePath] });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading payment plan...
+      </div>
+    );
+  }
+
+  const paid = instalments
+    .filter((instalment) => instalment.status === "paid")
+    .reduce((sum, instalment) => sum + Number(instalment.amount), 0);
+  const balance = getOutstandingBalance(registration.totalAmount, paid);
+  const next = instalments.find((instalment) => instalment.status === "pending" || instalment.status === "failed");
+  const final = instalments[instalments.length - 1];
+  const autoCancelAt = final && final.status !== "paid" ? getAutoCancelDate(registration.paymentPlan, final.dueDate) : null;
+  const confirming = !clientSecret && !!next && next.id === awaitingId;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-gray-600">Paid</p>
+          <p className="font-semibold">{formatChargedAmount(paid, registration)}</p>
+        </div>
+        <div className={`p-3 rounded-lg ${balance > 0 ? "bg-amber-50" : "bg-green-50"}`}>
+          <p className="text-gray-600">Balance Due</p>
+          <p className="font-semibold">{formatChargedAmount(balance, registration)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {instalments.map((instalment) => (
+          <div key={instalment.id} className="flex items-center justify-between text-sm border-b pb-2">
+            <div>
+              <p className="font-medium">{instalment.label}</p>
+              <p className="text-gray-500">
+                {instalment.status === "paid" && instalment.paidAt
+                  ? `Paid ${new Date(instalment.paidAt).toLocaleDateString()}`
+                  : `Due ${new Date(instalment.dueDate).toLocaleDateString()}`}
+              </p>
+              {instalment.status === "failed" && instalment.failureMessage && (
+                <p className="text-xs text-red-600">{instalment.failureMessage}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <p className="font-semibold">{formatChargedAmount(instalment.amount, registration)}</p>
+              <Badge className={STATUS_STYLES[instalment.status as InstalmentStatus]}>{instalment.status}</Badge>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {autoCancelAt && !registration.cancelledAt && (
+        <p className="text-xs text-gray-500">
+          If the balance is still unpaid on {autoCancelAt.toLocaleDateString()}, the registration will be cancelled.
+        </p>
+      )}
+
+      {canPay && next && !registration.cancelledAt && (
+        clientSecret ? (
+          <Elements stripe={stripePromise} options={{ clientSecret }}>
+            <PayInstalmentForm onPaid={handlePaid} />
+          </Elements>
+        ) : (
+          <Button
+            className="w-full"
+            onClick={() => payMutation.mutate(next.id)}
+            disabled={payMutation.isPending || confirming}
+          >
+            {(payMutation.isPending || confirming) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Pay {next.label} ({formatChargedAmount(next.amount, registration)})
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Download, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Invoice } from "@shared/schema";
+import { INVOICE_DOCUMENT_LABELS, type InvoiceDocumentType } from "@shared/invoices";
+import { formatMoney } from "@shared/currency";
+
+interface InvoiceDownloadsProps {
+  // The registration's API path: its confirmation path for the dancer, its
+  // id path for admins
+  basePath: string;
+}
+
+/**
+ * The tax invoice and any credit note of a registration, as PDF downloads.
+ * Documents a registration is due are issued when this first loads.
+ */
+export function InvoiceDownloads({ basePath }: InvoiceDownloadsProps) {
+  const { toast } = useToast();
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: [basePath, "invoices"],
+  });
+
+  // Fetched rather than linked so the admin's token goes with the request
+  const download = async (invoice: Invoice) => {
+    try {
+      const response = await apiRequest("GET", `${basePath}/invoices/${invoice.id}/pdf`);
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${invoice.number}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error: any) {
+      toast({ title: "Download Failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading invoices...
+      </div>
+    );
+  }
+
+  if (invoices.length === 0) {
+    return <p className="text-sm text-gray-500">An invoice is issued once the registration is paid.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {invoices.map((invoice) => (
+        <div key={invoice.id} className="flex items-center justify-between text-sm border-b pb-2">
+          <div>
+            <p className="font-medium">
+              {INVOICE_DOCUMENT_LABELS[invoice.documentType as InvoiceDocumentType]} {invoice.number}
+            </p>
+            <p className="text-gray-500">
+              {new Date(invoice.issuedAt).toLocaleDateString()} · {formatMoney(invoice.total, invoice.currency)}
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => download(invoice)}>
+            <Download className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
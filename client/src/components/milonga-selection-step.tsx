@@ -7,6 +7,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Music, MapPin, Clock, Users, Star, Palmtree } from 'lucide-react';
+import { WaitlistButton } from './waitlist-button';
+import { useCurrency } from '@/hooks/useCurrency';
 
 interface MilongaSelectionStepProps {
   data: RegistrationData;
@@ -21,6 +23,7 @@ export function MilongaSelectionStep({ data, onUpdate, onNext, onBack }: Milonga
   const { data: milongas, isLoading } = useQuery<Milonga[]>({
     queryKey: ['/api/milongas'],
   });
+  const { format } = useCurrency();
 
   const handleMilongaToggle = (milongaId: string) => {
     const newSelection = selectedMilongas.includes(milongaId)
@@ -114,8 +117,8 @@ export function MilongaSelectionStep({ data, onUpdate, onNext, onBack }: Milonga
         {milongas?.map((milonga) => {
           const isSelected = selectedMilongas.includes(milonga.id);
           const multiplier = data.role === 'couple' ? 2 : 1;
-          // Remove capacity checks - always allow selection
-          const isFull = false;
+          // Already-selected milongas stay selectable so they can be removed
+          const isFull = !isSelected && (milonga.enrolled || 0) + multiplier > milonga.capacity;
           const pricePerPerson = getMilongaPrice(milonga);
           const totalPrice = data.role === 'couple' ? pricePerPerson * 2 : pricePerPerson;
           const isEarlyBird = milonga.earlyBirdPrice && parseFloat(milonga.earlyBirdPrice) > 0 && 
@@ -166,15 +169,20 @@ export function MilongaSelectionStep({ data, onUpdate, onNext, onBack }: Milonga
                     <span>{milonga.venue}</span>
                   </div>
                   <div className="flex items-center justify-between">
-                    <div className="text-gray-500 text-sm">
-                      {/* No capacity display */}
+                    <div className="text-sm space-y-2">
+                      {isFull && (
+                        <>
+                          <span className="block text-red-600 font-medium">Sold out</span>
+                          <WaitlistButton itemType="milonga" itemId={milonga.id} data={data} />
+                        </>
+                      )}
                     </div>
                     <div className="text-right">
                       <div className="font-bold text-gray-900">
-                        AED {totalPrice.toLocaleString()}
+                        {format(totalPrice)}
                       </div>
                       <div className="text-xs text-gray-500">
-                        {data.role === 'couple' ? `AED ${pricePerPerson} per person` : 'per person'}
+                        {data.role === 'couple' ? `${format(pricePerPerson)} per person` : 'per person'}
                       </div>
                       {isEarlyBird && pricePerPerson < standardPrice && (
                         <div className="text-xs text-green-600 font-medium mt-1">
@@ -202,13 +210,13 @@ export function MilongaSelectionStep({ data, onUpdate, onNext, onBack }: Milonga
               return (
                 <div key={milongaId} className="flex justify-between">
                   <span>{milonga.name}</span>
-                  <span>AED {totalPrice.toLocaleString()}</span>
+                  <span>{format(totalPrice)}</span>
                 </div>
               );
             })}
             <div className="border-t border-primary/30 pt-2 font-semibold flex justify-between">
               <span>Total Milonga Events:</span>
-              <span>AED {calculateMilongaTotal().toLocaleString()}</span>
+              <span>{format(calculateMilongaTotal())}</span>
             </div>
           </div>
         </div>
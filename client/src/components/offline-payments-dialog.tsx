@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { OfflinePayment, Registration } from "@shared/schema";
+import {
+  OFFLINE_PAYMENT_METHODS,
+  OFFLINE_PAYMENT_METHOD_LABELS,
+  getOutstandingBalance,
+  type OfflinePaymentMethod,
+} from "@shared/offlinePayments";
+
+interface OfflinePaymentsDialogProps {
+  registration: Registration;
+  canRecord: boolean;
+  children: React.ReactNode;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptyForm = () => ({
+  amount: "",
+  method: "bank_transfer" as OfflinePaymentMethod,
+  reference: "",
+  receivedAt: today(),
+  notes: "",
+});
+
+/**
+ * The offline payment ledger for one registration, with a form to record
+ * bank transfers, cash and card-at-desk payments as they arrive.
+ */
+export function OfflinePaymentsDialog({ registration, canRecord, children }: OfflinePaymentsDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: payments = [], isLoading } = useQuery<OfflinePayment[]>({
+    queryKey: ["/api/registrations", registration.id, "offline-payments"],
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/registrations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/offline-payments/outstanding"] });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/registrations/${registration.id}/offline-payments`, {
+        amount: parseFloat(form.amount),
+        method: form.method,
+        reference: form.reference.trim() || null,
+        receivedAt: form.receivedAt,
+        notes: form.notes.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(emptyForm());
+      toast({
+        title: "Payment Recorded",
+        description: "The balance has been updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Payment Not Recorded",
+        description: error.message || "Failed to record payment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/offline-payments/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Payment Removed",
+        description: "The balance has been updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to remove payment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The registration prop can lag behind the ledger, so total it here
+  const received = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const balance = getOutstandingBalance(registration.totalAmount, isLoading ? registration.amountReceived : received);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    recordMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Offline Payments</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-gray-600">Total</p>
+              <p className="font-semibold">AED {Number(registration.totalAmount).toLocaleString()}</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-gray-600">Received</p>
+              <p className="font-semibold">AED {(isLoading ? Number(registration.amountReceived || 0) : received).toLocaleString()}</p>
+            </div>
+            <div className={`p-3 rounded-lg ${balance > 0 ? "bg-amber-50" : "bg-green-50"}`}>
+              <p className="text-gray-600">Outstanding</p>
+              <p className="font-semibold">AED {balance.toLocaleString()}</p>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading payments...
+            </div>
+          ) : payments.length === 0 ? (
+            <p className="text-sm text-gray-500">No payments recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Recorded By</TableHead>
+                  {canRecord && <TableHead></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{new Date(payment.receivedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{OFFLINE_PAYMENT_METHOD_LABELS[payment.method as OfflinePaymentMethod] ?? payment.method}</TableCell>
+                    <TableCell>
+                      {payment.reference || <span className="text-gray-400">—</span>}
+                      {payment.notes && <p className="text-xs text-gray-500">{payment.notes}</p>}
+                    </TableCell>
+                    <TableCell>AED {Number(payment.amount).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{payment.recordedBy}</TableCell>
+                    {canRecord && (
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600"
+                          onClick={() => deleteMutation.mutate(payment.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canRecord && !registration.cancelledAt && (
+            <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+              <h3 className="font-semibold">Record Payment</h3>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="offlineAmount">Amount (AED)</Label>
+                  <Input
+                    id="offlineAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    placeholder={balance > 0 ? String(balance) : "0"}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label>Method</Label>
+                  <Select
+                    value={form.method}
+                    onValueChange={(value) => setForm({ ...form, method: value as OfflinePaymentMethod })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OFFLINE_PAYMENT_METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {OFFLINE_PAYMENT_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="offlineReceivedAt">Received On</Label>
+                  <Input
+                    id="offlineReceivedAt"
+                    type="date"
+                    value={form.receivedAt}
+                    onChange={(e) => setForm({ ...form, receivedAt: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="offlineReference">Reference</Label>
+                <Input
+                  id="offlineReference"
+                  value={form.reference}
+                  onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                  placeholder="Bank reference or receipt number"
+                />
+              </div>
+              <div>
+                <Label htmlFor="offlineNotes">Notes</Label>
+                <Textarea
+                  id="offlineNotes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={recordMutation.isPending}>
+                  {recordMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Record Payment
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Banknote, Loader2, Mail, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Registration } from "@shared/schema";
+import { OfflinePaymentsDialog } from "./offline-payments-dialog";
+
+type OutstandingRegistration = Registration & {
+  balance: number;
+  daysOutstanding: number;
+  overdue: boolean;
+};
+
+interface OutstandingPaymentsProps {
+  canManage: boolean;
+}
+
+const attendeeName = (registration: Registration) => {
+  const leader = registration.leaderInfo as { firstName?: string; lastName?: string } | null;
+  const follower = registration.followerInfo as { firstName?: string; lastName?: string } | null;
+  const person = leader?.firstName ? leader : follower;
+  return person ? `${person.firstName} ${person.lastName}` : "Unknown";
+};
+
+const attendeeEmail = (registration: Registration) =>
+  (registration.leaderInfo as { email?: string } | null)?.email ||
+  (registration.followerInfo as { email?: string } | null)?.email;
+
+export function OutstandingPayments({ canManage }: OutstandingPaymentsProps) {
+  const { toast } = useToast();
+  const [overdueOnly, setOverdueOnly] = useState(false);
+
+  const { data: registrations = [], isLoading } = useQuery<OutstandingRegistration[]>({
+    queryKey: ["/api/admin/offline-payments/outstanding"],
+  });
+
+  const reminderMutation = useMutation({
+    mutationFn: async (registrationId: string) => {
+      const response = await apiRequest("POST", `/api/registrations/${registrationId}/payment-reminder`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/offline-payments/outstanding"] });
+      toast({
+        title: "Reminder Sent",
+        description: "The dancer has been emailed a payment reminder.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Reminder Not Sent",
+        description: error.message || "Failed to send reminder. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const visible = overdueOnly ? registrations.filter(r => r.overdue) : registrations;
+  const totalOutstanding = visible.reduce((sum, r) => sum + r.balance, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center">
+          <Banknote className="h-5 w-5 mr-2" />
+          Unpaid Offline Registrations
+        </CardTitle>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="overdue-only"
+            checked={overdueOnly}
+            onCheckedChange={(checked) => setOverdueOnly(!!checked)}
+          />
+          <Label htmlFor="overdue-only" className="text-sm">Overdue only</Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Loading outstanding payments...</span>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              {visible.length} registration(s), AED {totalOutstanding.toLocaleString()} outstanding
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Age</TableHead>
+                  <TableHead>Reminders</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((registration) => (
+                  <TableRow key={registration.id}>
+                    <TableCell>{attendeeName(registration)}</TableCell>
+                    <TableCell>{attendeeEmail(registration)}</TableCell>
+                    <TableCell>AED {Number(registration.totalAmount).toLocaleString()}</TableCell>
+                    <TableCell>AED {Number(registration.amountReceived || 0).toLocaleString()}</TableCell>
+                    <TableCell className="font-semibold">AED {registration.balance.toLocaleString()}</TableCell>
+                    <TableCell>
+                      {registration.daysOutstanding} days
+                      {registration.overdue && (
+                        <Badge className="ml-2 bg-red-100 text-red-800">Overdue</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {registration.paymentReminderCount || 0}
+                      {registration.lastPaymentReminderAt && (
+                        <span className="text-gray-500">
+                          {" "}(last {new Date(registration.lastPaymentReminderAt).toLocaleDateString()})
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <OfflinePaymentsDialog registration={registration} canRecord={canManage}>
+                          <Button size="sm" variant="outline" title="Payments">
+                            <Wallet className="h-4 w-4" />
+                          </Button>
+                        </OfflinePaymentsDialog>
+                        {canManage && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Send payment reminder"
+                            onClick={() => reminderMutation.mutate(registration.id)}
+                            disabled={reminderMutation.isPending}
+                          >
+                            <Mail className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {visible.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-gray-500">
+                      {overdueOnly ? "No overdue registrations" : "No outstanding offline payments"}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
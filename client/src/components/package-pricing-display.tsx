@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { CountdownTimer } from './countdown-timer';
 import { Badge } from '@/components/ui/badge';
+import { useCurrency } from '@/hooks/useCurrency';
 
 interface PricingTier {
   standardPrice: number;
@@ -26,6 +27,7 @@ export function PackagePricingDisplay({
 }: PackagePricingDisplayProps) {
   const [currentTier, setCurrentTier] = useState<'standard' | 'earlybird' | '24hour'>('standard');
   const [currentPrice, setCurrentPrice] = useState(0);
+  const { format } = useCurrency();
 
   // Convert decimal strings to numbers if pricing exists
   const activePricing = pricing ? {
@@ -143,7 +145,7 @@ export function PackagePricingDisplay({
       <div className="space-y-1">
         {currentTier !== 'standard' && (
           <div className="text-lg text-gray-500 line-through" data-testid={`standard-price-${packageType}`}>
-            AED {standardDisplayPrice.toLocaleString()}
+            {format(standardDisplayPrice)}
           </div>
         )}
         
@@ -152,7 +154,7 @@ export function PackagePricingDisplay({
           currentTier === 'earlybird' ? 'text-blue-600' : 
           'text-gray-900'
         }`} data-testid={`current-price-${packageType}`}>
-          AED {displayPrice.toLocaleString()}
+          {format(displayPrice)}
         </div>
         
         <div className="text-sm text-gray-500">
@@ -161,7 +163,7 @@ export function PackagePricingDisplay({
         
         {currentTier !== 'standard' && (
           <div className="text-xs font-medium text-green-600">
-            Save AED {(standardDisplayPrice - displayPrice).toLocaleString()}!
+            Save {format(standardDisplayPrice - displayPrice)}!
           </div>
         )}
       </div>
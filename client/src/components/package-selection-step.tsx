@@ -8,6 +8,7 @@ import { RegistrationData } from "@/pages/registration";
 import { PackagePricingDisplay } from "./package-pricing-display";
 import { useQuery } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
+import { useCurrency } from "@/hooks/useCurrency";
 
 interface EventWithPricing {
   id: string;
@@ -58,6 +59,7 @@ interface AccommodationPricingDisplayProps {
 }
 
 function AccommodationPricingDisplay({ packageType, currentEvent, className }: AccommodationPricingDisplayProps) {
+  const { format } = useCurrency();
   if (!currentEvent) return null;
 
   const is4Nights = packageType === 'premium-accommodation-4nights';
@@ -110,11 +112,11 @@ function AccommodationPricingDisplay({ packageType, currentEvent, className }: A
           <div className="text-xs text-gray-600 mb-1">Single Occupancy</div>
           {isEarlyBird && singleEarlyBirdPrice > 0 && (
             <div className="text-sm text-gray-500 line-through">
-              AED {singleStandardPrice.toLocaleString()}
+              {format(singleStandardPrice)}
             </div>
           )}
           <div className={`text-lg font-bold ${isEarlyBird && singleEarlyBirdPrice > 0 ? 'text-blue-600' : 'text-gray-900'}`}>
-            AED {displaySinglePrice.toLocaleString()}
+            {format(displaySinglePrice)}
           </div>
         </div>
 
@@ -122,11 +124,11 @@ function AccommodationPricingDisplay({ packageType, currentEvent, className }: A
           <div className="text-xs text-gray-600 mb-1">Double Occupancy</div>
           {isEarlyBird && doubleEarlyBirdPrice > 0 && (
             <div className="text-sm text-gray-500 line-through">
-              AED {doubleStandardPrice.toLocaleString()}
+              {format(doubleStandardPrice)}
             </div>
           )}
           <div className={`text-lg font-bold ${isEarlyBird && doubleEarlyBirdPrice > 0 ? 'text-blue-600' : 'text-gray-900'}`}>
-            AED {displayDoublePrice.toLocaleString()}
+            {format(displayDoublePrice)}
           </div>
         </div>
       </div>
@@ -136,6 +138,7 @@ function AccommodationPricingDisplay({ packageType, currentEvent, className }: A
 
 export function PackageSelectionStep({ data, onUpdate, onNext }: PackageSelectionStepProps) {
   const [selectedPackage, setSelectedPackage] = useState<'full' | 'evening' | 'custom' | 'premium-accommodation-4nights' | 'premium-accommodation-3nights'>(data.packageType || 'full');
+  const { format } = useCurrency();
 
   // Fetch current event with pricing configuration
   const { data: currentEvent } = useQuery<EventWithPricing>({
@@ -284,7 +287,7 @@ export function PackageSelectionStep({ data, onUpdate, onNext }: PackageSelectio
                   
                   <p className="text-sm text-gray-600">
                     Complete festival experience with workshops, social events, and gala dinner. 
-                    Additional workshops beyond 6: AED 180 each.
+                    Additional workshops beyond 6: {format(180)} each.
                   </p>
                 </div>
                 
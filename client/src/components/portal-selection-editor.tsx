@@ -0,0 +1,391 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Elements, PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js";
+import { loadStripe } from "@stripe/stripe-js";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PriceQuoteSummary } from "@/components/price-quote-summary";
+import { Loader2, Lock, Minus, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { portalRequest } from "@/lib/portal";
+import type { Addon, Milonga, Registration, Table, Workshop } from "@shared/schema";
+import type { PriceQuote } from "@shared/pricing";
+import { getSelectionLock } from "@shared/portal";
+import { getOutstandingBalance } from "@shared/offlinePayments";
+import { formatChargedAmount } from "@shared/currency";
+
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY || "");
+
+interface AddonLine {
+  id: string;
+  quantity: number;
+  options?: Record<string, string>;
+}
+
+interface Selection {
+  workshopIds: string[];
+  milongaIds: string[];
+  selectedTableNumber: number | null;
+  addons: AddonLine[];
+}
+
+interface SelectionQuote {
+  quote: PriceQuote;
+  amountPaid: number;
+  balanceDue: number;
+}
+
+interface PortalSelectionEditorProps {
+  registration: Registration;
+  onChanged: () => void;
+}
+
+const NO_TABLE = "none";
+
+const selectionOf = (registration: Registration): Selection => ({
+  workshopIds: (registration.workshopIds as string[] | null) || [],
+  milongaIds: (registration.milongaIds as string[] | null) || [],
+  selectedTableNumber: registration.selectedTableNumber ?? null,
+  addons: (registration.addons as AddonLine[] | null) || [],
+});
+
+const toggle = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter((existing) => existing !== id);
+
+const sizesOf = (addon: Addon) => {
+  const sizes = (addon.options as { sizes?: unknown } | null)?.sizes;
+  return Array.isArray(sizes) ? (sizes as string[]) : [];
+};
+
+// Whether the dancer's role still has room in a workshop
+const hasRoom = (workshop: Workshop, role: string) => {
+  if ((workshop.enrolled || 0) >= workshop.capacity) return false;
+  if (role === "leader") return (workshop.leadersEnrolled || 0) < workshop.leaderCapacity;
+  if (role === "follower") return (workshop.followersEnrolled || 0) < workshop.followerCapacity;
+  return (workshop.leadersEnrolled || 0) < workshop.leaderCapacity &&
+    (workshop.followersEnrolled || 0) < workshop.followerCapacity;
+};
+
+function TopUpForm({ onPaid }: { onPaid: () => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    try {
+      const { error } = await stripe.confirmPayment({
+        elements,
+        confirmParams: { return_url: window.location.href },
+        redirect: "if_required",
+      });
+      if (error) {
+        toast({
+          title: "Payment Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        // The payment is recorded against the registration by the Stripe webhook
+        toast({
+          title: "Payment Received",
+          description: "Thank you! Your balance will update in a moment.",
+        });
+        onPaid();
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      <Button type="submit" disabled={!stripe || isProcessing} className="w-full">
+        {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+        Pay Now
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Lets a dancer change the workshops, milongas, gala table and add-ons on
+ * their registration from the portal. The change is priced by the server
+ * before it's confirmed, and any balance it leaves on a card registration
+ * can be paid straight away.
+ */
+export function PortalSelectionEditor({ registration, onChanged }: PortalSelectionEditorProps) {
+  const { toast } = useToast();
+  const [selection, setSelection] = useState<Selection>(() => selectionOf(registration));
+  const [preview, setPreview] = useState<SelectionQuote | null>(null);
+  const [clientSecret, setClientSecret] = useState("");
+  const [sizes, setSizes] = useState<Record<string, string>>({});
+
+  const { data: workshops = [] } = useQuery<Workshop[]>({ queryKey: ["/api/workshops"] });
+  const { data: milongas = [] } = useQuery<Milonga[]>({ queryKey: ["/api/milongas"] });
+  const { data: tables = [] } = useQuery<Table[]>({ queryKey: ["/api/tables"] });
+  const { data: addons = [] } = useQuery<Addon[]>({ queryKey: ["/api/addons"] });
+
+  const booked = useMemo(() => selectionOf(registration), [registration]);
+  const lock = getSelectionLock(registration);
+  const balance = registration.paymentStatus === "completed"
+    ? 0
+    : getOutstandingBalance(registration.totalAmount, registration.amountReceived);
+  const canTopUp = !lock && registration.paymentMethod === "stripe" && balance > 0;
+
+  const eventWorkshops = workshops.filter((workshop) => workshop.eventId === registration.eventId);
+  const eventMilongas = milongas.filter((milonga) => milonga.eventId === registration.eventId);
+  const eventAddons = addons.filter((addon) => addon.eventId === registration.eventId);
+  const openTables = tables.filter((table) =>
+    table.eventId === registration.eventId &&
+    table.isActive !== false &&
+    (table.tableNumber === booked.selectedTableNumber || table.occupiedSeats < table.totalSeats),
+  );
+
+  const update = (changes: Partial<Selection>) => {
+    setSelection((current) => ({ ...current, ...changes }));
+    setPreview(null);
+  };
+
+  const setAddonQuantity = (index: number, quantity: number) => {
+    update({
+      addons: quantity > 0
+        ? selection.addons.map((line, i) => (i === index ? { ...line, quantity } : line))
+        : selection.addons.filter((_, i) => i !== index),
+    });
+  };
+
+  const addAddon = (addon: Addon) => {
+    const size = sizes[addon.id];
+    const options = size ? { size } : undefined;
+    const index = selection.addons.findIndex((line) => line.id === addon.id && line.options?.size === options?.size);
+    if (index >= 0) {
+      setAddonQuantity(index, selection.addons[index].quantity + 1);
+    } else {
+      update({ addons: [...selection.addons, { id: addon.id, quantity: 1, ...(options && { options }) }] });
+    }
+  };
+
+  const quoteMutation = useMutation({
+    mutationFn: () => portalRequest<SelectionQuote>("POST", `/api/portal/registrations/${registration.id}/quote`, selection),
+    onSuccess: setPreview,
+    onError: (error: any) => {
+      toast({ title: "Can't make this change", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => portalRequest("PUT", `/api/portal/registrations/${registration.id}/selection`, selection),
+    onSuccess: () => {
+      toast({ title: "Registration updated", description: "Your bookings have been changed." });
+      setPreview(null);
+      onChanged();
+    },
+    onError: (error: any) => {
+      toast({ title: "Can't make this change", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const topUpMutation = useMutation({
+    mutationFn: () => portalRequest<{ clientSecret: string }>("POST", `/api/portal/registrations/${registration.id}/top-up`),
+    onSuccess: (data) => setClientSecret(data.clientSecret),
+    onError: (error: any) => {
+      toast({ title: "Payment Unavailable", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (lock) {
+    return <p className="text-sm text-gray-600">{lock}</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {canTopUp && (
+        <div className="p-4 rounded-lg bg-amber-50 space-y-3">
+          <p className="text-sm">
+            You have a balance of <span className="font-semibold">{formatChargedAmount(balance, registration)}</span> to pay.
+          </p>
+          {clientSecret ? (
+            <Elements stripe={stripePromise} options={{ clientSecret }}>
+              <TopUpForm onPaid={() => { setClientSecret(""); onChanged(); }} />
+            </Elements>
+          ) : (
+            <Button onClick={() => topUpMutation.mutate()} disabled={topUpMutation.isPending}>
+              {topUpMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Pay balance
+            </Button>
+          )}
+        </div>
+      )}
+
+      {eventWorkshops.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold">Workshops</h4>
+          {eventWorkshops.map((workshop) => {
+            const isBooked = booked.workshopIds.includes(workshop.id);
+            const checked = selection.workshopIds.includes(workshop.id);
+            const full = !isBooked && !hasRoom(workshop, registration.role);
+            return (
+              <label key={workshop.id} className="flex items-start gap-3 text-sm">
+                <Checkbox
+                  checked={checked}
+                  disabled={full && !checked}
+                  onCheckedChange={(value) => update({ workshopIds: toggle(selection.workshopIds, workshop.id, value === true) })}
+                />
+                <span>
+                  <span className="font-medium">{workshop.title}</span> with {workshop.instructor}
+                  <span className="block text-gray-500">
+                    {new Date(workshop.date).toLocaleDateString()} {workshop.time}
+                    {full && " · Full"}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {eventMilongas.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold">Milongas</h4>
+          {eventMilongas.map((milonga) => {
+            const isBooked = booked.milongaIds.includes(milonga.id);
+            const checked = selection.milongaIds.includes(milonga.id);
+            const full = !isBooked && (milonga.enrolled || 0) >= milonga.capacity;
+            return (
+              <label key={milonga.id} className="flex items-start gap-3 text-sm">
+                <Checkbox
+                  checked={checked}
+                  disabled={full && !checked}
+                  onCheckedChange={(value) => update({ milongaIds: toggle(selection.milongaIds, milonga.id, value === true) })}
+                />
+                <span>
+                  <span className="font-medium">{milonga.name}</span>
+                  <span className="block text-gray-500">
+                    {milonga.date} {milonga.time} · {milonga.venue}
+                    {full && " · Full"}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {openTables.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold">Gala dinner table</h4>
+          <Select
+            value={selection.selectedTableNumber ? String(selection.selectedTableNumber) : NO_TABLE}
+            onValueChange={(value) => update({ selectedTableNumber: value === NO_TABLE ? null : Number(value) })}
+          >
+            <SelectTrigger className="w-full sm:w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TABLE}>No gala table</SelectItem>
+              {openTables.map((table) => (
+                <SelectItem key={table.id} value={String(table.tableNumber)}>
+                  Table {table.tableNumber}{table.isVip ? " (VIP)" : ""} · {table.totalSeats - table.occupiedSeats} seats left
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {eventAddons.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-semibold">Add-ons</h4>
+          {selection.addons.map((line, index) => {
+            const addon = addons.find((a) => a.id === line.id);
+            return (
+              <div key={`${line.id}-${index}`} className="flex items-center justify-between text-sm border-b pb-2">
+                <span>
+                  {addon?.name || "Add-on"}
+                  {line.options?.size && <span className="text-gray-500"> · Size {line.options.size}</span>}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button size="icon" variant="outline" onClick={() => setAddonQuantity(index, line.quantity - 1)}>
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <span className="w-6 text-center">{line.quantity}</span>
+                  <Button size="icon" variant="outline" onClick={() => setAddonQuantity(index, line.quantity + 1)}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+          {eventAddons.map((addon) => {
+            const addonSizes = sizesOf(addon);
+            return (
+              <div key={addon.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <Label className="flex-1">{addon.name}</Label>
+                {addonSizes.length > 0 && (
+                  <Select value={sizes[addon.id] || ""} onValueChange={(size) => setSizes({ ...sizes, [addon.id]: size })}>
+                    <SelectTrigger className="w-24">
+                      <SelectValue placeholder="Size" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {addonSizes.map((size) => (
+                        <SelectItem key={size} value={size}>{size}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={addonSizes.length > 0 && !sizes[addon.id]}
+                  onClick={() => addAddon(addon)}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {preview ? (
+        <div className="space-y-4 border-t pt-4">
+          <PriceQuoteSummary quote={preview.quote} charge={registration} />
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-gray-600">Already paid</p>
+              <p className="font-semibold">{formatChargedAmount(preview.amountPaid, registration)}</p>
+            </div>
+            <div className={`p-3 rounded-lg ${preview.balanceDue > 0 ? "bg-amber-50" : "bg-green-50"}`}>
+              <p className="text-gray-600">Balance after change</p>
+              <p className="font-semibold">{formatChargedAmount(preview.balanceDue, registration)}</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setPreview(null)}>Back</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm change
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => update(booked)}>Reset</Button>
+          <Button onClick={() => quoteMutation.mutate()} disabled={quoteMutation.isPending}>
+            {quoteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Review change
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import type { PriceQuote } from "@shared/pricing";
+import { DEFAULT_BASE_CURRENCY, formatChargedAmount } from "@shared/currency";
+
+interface PriceQuoteSummaryProps {
+  quote: PriceQuote;
+  // The currency and rate the registration was charged at
+  charge?: { currency: string; exchangeRate: number | string };
+  className?: string;
+}
+
+/**
+ * The itemised quote a dancer accepted, exactly as it was priced. Shown from
+ * the snapshot stored on the registration, so later price changes don't
+ * alter what the confirmation page and admins see.
+ */
+export function PriceQuoteSummary({
+  quote,
+  charge = { currency: DEFAULT_BASE_CURRENCY, exchangeRate: 1 },
+  className,
+}: PriceQuoteSummaryProps) {
+  const formatAmount = (amount: number) =>
+    `${amount < 0 ? "−" : ""}${formatChargedAmount(Math.abs(amount), charge)}`;
+
+  return (
+    <div className={className}>
+      <div className="space-y-2">
+        {quote.lineItems.map((line, index) => {
+          const isDiscount = line.amount < 0;
+          const options = Object.entries(line.options || {})
+            .map(([name, value]) => `${name}: ${value}`)
+            .join(", ");
+          return (
+            <div key={index} className="flex justify-between gap-4 text-sm">
+              <div>
+                <span className={isDiscount ? "text-green-700" : ""}>
+                  {line.label}
+                  {line.quantity > 1 && ` × ${line.quantity}`}
+                </span>
+                {options && <p className="text-xs text-gray-500">{options}</p>}
+              </div>
+              <span className={`whitespace-nowrap ${isDiscount ? "text-green-700" : ""}`}>
+                {line.included ? <span className="text-gray-500">Included</span> : formatAmount(line.amount)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between border-t mt-3 pt-3 font-semibold">
+        <span>Total</span>
+        <span>{formatAmount(quote.total)}</span>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Priced {new Date(quote.pricedAt).toLocaleString()}
+      </p>
+    </div>
+  );
+}
@@ -13,6 +13,14 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { CheckCircle2, Plus, Edit, Trash2 } from "lucide-react";
+import type { PaymentPlan, PaymentPlanInstalment } from "@shared/paymentPlans";
+
+// Starting point when an admin switches a package's payment plan on
+const DEFAULT_PAYMENT_PLAN: PaymentPlan = {
+  depositPercent: 30,
+  instalments: [{ dueDate: "", percent: 70 }],
+  autoCancelAfterDays: 14,
+};
 
 export function PricingManagement() {
   const [selectedEventId, setSelectedEventId] = useState<string>("");
@@ -81,7 +89,7 @@ export function PricingManagement() {
     if (!selectedEventId) return;
     setWorkshopPricingSaving(true);
     try {
-      await apiRequest("PUT", `/api/events/${selectedEventId}`, {
+      await apiRequest("PUT", `/api/events/${selectedEventId}/pricing`, {
         workshopStandardPrice: workshopPricingForm.standardPrice || "0",
         workshopEarlyBirdPrice: workshopPricingForm.earlyBirdPrice || "0",
         workshopEarlyBirdEndDate: workshopPricingForm.earlyBirdEndDate || null,
@@ -400,6 +408,15 @@ export function PricingManagement() {
                           </div>
                         </div>
 
+                        {pkg.paymentPlan && (
+                          <div>
+                            <p className="text-sm font-medium">Payment Plan</p>
+                            <p className="text-sm text-gray-600" data-testid={`text-package-payment-plan-${pkg.id}`}>
+                              {pkg.paymentPlan.depositPercent}% deposit + {pkg.paymentPlan.instalments.length} instalment(s)
+                            </p>
+                          </div>
+                        )}
+
                         {pkg.workshopOveragePrice > 0 && (
                           <div>
                             <p className="text-sm font-medium">Extra Workshop Price</p>
@@ -671,7 +688,8 @@ function PackageConfigDialog({ open, onOpenChange, package: pkg, eventId, onSucc
     includedGalaDinner: pkg?.includedGalaDinner || false,
     workshopOveragePrice: pkg?.workshopOveragePrice || 0,
     isActive: pkg?.isActive !== false,
-    sortOrder: pkg?.sortOrder || 0
+    sortOrder: pkg?.sortOrder || 0,
+    paymentPlan: (pkg?.paymentPlan || null) as PaymentPlan | null
   });
   const { toast } = useToast();
 
@@ -702,6 +720,22 @@ function PackageConfigDialog({ open, onOpenChange, package: pkg, eventId, onSucc
     mutation.mutate(formData);
   };
 
+  const plan = formData.paymentPlan;
+  const planPercent = plan
+    ? plan.depositPercent + plan.instalments.reduce((sum, instalment) => sum + instalment.percent, 0)
+    : 0;
+
+  const updatePlan = (updates: Partial<PaymentPlan>) => {
+    setFormData(prev => ({ ...prev, paymentPlan: prev.paymentPlan && { ...prev.paymentPlan, ...updates } }));
+  };
+
+  const updateInstalment = (index: number, updates: Partial<PaymentPlanInstalment>) => {
+    if (!plan) return;
+    updatePlan({
+      instalments: plan.instalments.map((instalment, i) => i === index ? { ...instalment, ...updates } : instalment),
+    });
+  };
+
   // Reset form when package changes
   useEffect(() => {
     if (pkg) {
@@ -716,7 +750,8 @@ function PackageConfigDialog({ open, onOpenChange, package: pkg, eventId, onSucc
         includedGalaDinner: pkg.includedGalaDinner || false,
         workshopOveragePrice: pkg.workshopOveragePrice || 0,
         isActive: pkg.isActive !== false,
-        sortOrder: pkg.sortOrder || 0
+        sortOrder: pkg.sortOrder || 0,
+        paymentPlan: pkg.paymentPlan || null
       });
     } else {
       setFormData({
@@ -730,7 +765,8 @@ function PackageConfigDialog({ open, onOpenChange, package: pkg, eventId, onSucc
         includedGalaDinner: false,
         workshopOveragePrice: 0,
         isActive: true,
-        sortOrder: 0
+        sortOrder: 0,
+        paymentPlan: null
       });
     }
   }, [pkg]);
@@ -752,6 +788,8 @@ function PackageConfigDialog({ open, onOpenChange, package: pkg, eventId, onSucc
                 <SelectItem value="full">Premium Package</SelectItem>
                 <SelectItem value="evening">Evening Package</SelectItem>
                 <SelectItem value="custom">Custom Package</SelectItem>
+                <SelectItem value="premium-accommodation-4nights">Premium + 4 Nights Accommodation</SelectItem>
+                <SelectItem value="premium-accommodation-3nights">Premium + 3 Nights Accommodation</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -865,6 +903,101 @@ function PackageConfigDialog({ open, onOpenChange, package: pkg, eventId, onSucc
             </div>
           </div>
 
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="paymentPlanEnabled"
+                checked={!!plan}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, paymentPlan: checked ? DEFAULT_PAYMENT_PLAN : null }))}
+                data-testid="checkbox-package-payment-plan"
+              />
+              <Label htmlFor="paymentPlanEnabled">Offer a Payment Plan</Label>
+            </div>
+
+            {plan && (
+              <>
+                <p className="text-xs text-gray-500">
+                  Dancers paying by card can pay a deposit at checkout and the rest on these dates. Instalments whose date has passed are added to the deposit.
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="depositPercent">Deposit (%)</Label>
+                    <Input
+                      id="depositPercent"
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={plan.depositPercent}
+                      onChange={(e) => updatePlan({ depositPercent: parseFloat(e.target.value) || 0 })}
+                      data-testid="input-package-deposit-percent"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="autoCancelAfterDays">Auto-cancel After (days)</Label>
+                    <Input
+                      id="autoCancelAfterDays"
+                      type="number"
+                      min="0"
+                      value={plan.autoCancelAfterDays ?? ""}
+                      onChange={(e) => updatePlan({ autoCancelAfterDays: e.target.value === "" ? null : parseInt(e.target.value) || 0 })}
+                      placeholder="Never"
+                      data-testid="input-package-auto-cancel-days"
+                    />
+                  </div>
+                </div>
+
+                {plan.instalments.map((instalment, index) => (
+                  <div key={index} className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <Label>Instalment {index + 1} Due</Label>
+                      <Input
+                        type="date"
+                        value={instalment.dueDate}
+                        onChange={(e) => updateInstalment(index, { dueDate: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="w-24">
+                      <Label>Share (%)</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        max="100"
+                        value={instalment.percent}
+                        onChange={(e) => updateInstalment(index, { percent: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => updatePlan({ instalments: plan.instalments.filter((_, i) => i !== index) })}
+                      disabled={plan.instalments.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updatePlan({ instalments: [...plan.instalments, { dueDate: "", percent: 0 }] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Instalment
+                  </Button>
+                  <span className={`text-sm ${Math.abs(planPercent - 100) < 0.001 ? "text-gray-600" : "text-red-600"}`}>
+                    Total: {planPercent}%
+                  </span>
+                </div>
+              </>
+            )}
+          </div>
+
           <div>
             <Label htmlFor="sortOrder">Sort Order</Label>
             <Input
@@ -0,0 +1,468 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Edit, Trash2, Loader2, TicketPercent } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { PromoCode } from "@shared/schema";
+import { PROMO_DISCOUNT_TYPES, PROMO_DISCOUNT_TYPE_LABELS, type PromoDiscountType } from "@shared/promoCodes";
+
+type PromoCodeWithUses = PromoCode & { uses: number };
+
+const PACKAGE_OPTIONS = [
+  { value: "full", label: "Full Pass" },
+  { value: "evening", label: "Evening Pass" },
+  { value: "custom", label: "Custom" },
+  { value: "premium-accommodation-4nights", label: "Premium (4 nights)" },
+  { value: "premium-accommodation-3nights", label: "Premium (3 nights)" },
+];
+
+const ROLE_OPTIONS = ["leader", "follower", "couple"];
+
+interface PromoCodeForm {
+  code: string;
+  description: string;
+  discountType: PromoDiscountType;
+  discountValue: string;
+  maxUses: string;
+  maxUsesPerEmail: string;
+  validFrom: string;
+  validUntil: string;
+  packageTypes: string[];
+  roles: string[];
+  isActive: boolean;
+}
+
+const emptyForm: PromoCodeForm = {
+  code: "",
+  description: "",
+  discountType: "percentage",
+  discountValue: "",
+  maxUses: "",
+  maxUsesPerEmail: "",
+  validFrom: "",
+  validUntil: "",
+  packageTypes: [],
+  roles: [],
+  isActive: true,
+};
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (value: string | Date | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const describeDiscount = (promo: Pick<PromoCode, "discountType" | "discountValue">) => {
+  const value = Number(promo.discountValue);
+  switch (promo.discountType) {
+    case "percentage":
+      return `${value}% off`;
+    case "fixed_amount":
+      return `AED ${value.toLocaleString()} off`;
+    case "free_workshop":
+      return `${Math.max(1, value)} free workshop${value > 1 ? "s" : ""}`;
+    case "free_gala_seat":
+      return `${Math.max(1, value)} free gala seat${value > 1 ? "s" : ""}`;
+    default:
+      return promo.discountType;
+  }
+};
+
+export function PromoCodesManagement() {
+  const { toast } = useToast();
+  const [editingPromo, setEditingPromo] = useState<PromoCodeWithUses | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [formData, setFormData] = useState<PromoCodeForm>(emptyForm);
+
+  const { data: promoCodes = [], isLoading } = useQuery<PromoCodeWithUses[]>({
+    queryKey: ["/api/admin/promo-codes"],
+  });
+
+  const savePromoMutation = useMutation({
+    mutationFn: async (data: PromoCodeForm) => {
+      const payload = {
+        code: data.code,
+        description: data.description || null,
+        discountType: data.discountType,
+        discountValue: data.discountValue || "0",
+        maxUses: data.maxUses ? parseInt(data.maxUses) : null,
+        maxUsesPerEmail: data.maxUsesPerEmail ? parseInt(data.maxUsesPerEmail) : null,
+        validFrom: data.validFrom ? new Date(data.validFrom).toISOString() : null,
+        validUntil: data.validUntil ? new Date(data.validUntil).toISOString() : null,
+        packageTypes: data.packageTypes,
+        roles: data.roles,
+        isActive: data.isActive,
+      };
+      const response = editingPromo
+        ? await apiRequest("PUT", `/api/admin/promo-codes/${editingPromo.id}`, payload)
+        : await apiRequest("POST", "/api/admin/promo-codes", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      toast({
+        title: editingPromo ? "Promo Code Updated" : "Promo Code Created",
+        description: "Changes apply to new registrations straight away.",
+      });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save promo code. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePromoMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/promo-codes/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promo-codes"] });
+      toast({
+        title: "Promo Code Deleted",
+        description: "Registrations that already used it keep their discount.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete promo code.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingPromo(null);
+    setFormData(emptyForm);
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (promo: PromoCodeWithUses) => {
+    setEditingPromo(promo);
+    setFormData({
+      code: promo.code,
+      description: promo.description || "",
+      discountType: (PROMO_DISCOUNT_TYPES as readonly string[]).includes(promo.discountType)
+        ? (promo.discountType as PromoDiscountType)
+        : "percentage",
+      discountValue: String(Number(promo.discountValue)),
+      maxUses: promo.maxUses?.toString() || "",
+      maxUsesPerEmail: promo.maxUsesPerEmail?.toString() || "",
+      validFrom: toLocalInput(promo.validFrom),
+      validUntil: toLocalInput(promo.validUntil),
+      packageTypes: (promo.packageTypes as string[]) || [],
+      roles: (promo.roles as string[]) || [],
+      isActive: promo.isActive ?? true,
+    });
+    setShowDialog(true);
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    setEditingPromo(null);
+    setFormData(emptyForm);
+  };
+
+  const toggleListValue = (field: "packageTypes" | "roles", value: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: checked ? [...prev[field], value] : prev[field].filter(item => item !== value),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    savePromoMutation.mutate(formData);
+  };
+
+  const valueLabel = formData.discountType === "percentage"
+    ? "Percent off"
+    : formData.discountType === "fixed_amount"
+      ? "Amount off (AED)"
+      : "Number of free items";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Promo Codes</h2>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Promo Code
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Codes for the Current Event ({promoCodes.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : promoCodes.length === 0 ? (
+            <div className="flex flex-col items-center py-10 text-gray-500">
+              <TicketPercent className="h-10 w-10 mb-3" />
+              <p>No promo codes yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Uses</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead>Restrictions</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promoCodes.map((promo) => {
+                  const packageTypes = (promo.packageTypes as string[]) || [];
+                  const roles = (promo.roles as string[]) || [];
+                  return (
+                    <TableRow key={promo.id}>
+                      <TableCell>
+                        <div className="font-mono font-medium">{promo.code}</div>
+                        {promo.description && <div className="text-xs text-gray-500">{promo.description}</div>}
+                      </TableCell>
+                      <TableCell>{describeDiscount(promo)}</TableCell>
+                      <TableCell>
+                        {promo.uses}{promo.maxUses ? ` / ${promo.maxUses}` : ""}
+                        {promo.maxUsesPerEmail && (
+                          <div className="text-xs text-gray-500">{promo.maxUsesPerEmail} per email</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {promo.validFrom ? new Date(promo.validFrom).toLocaleDateString() : "Any time"}
+                        {" – "}
+                        {promo.validUntil ? new Date(promo.validUntil).toLocaleDateString() : "no end"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {packageTypes.length === 0 && roles.length === 0 ? (
+                          <span className="text-gray-500">None</span>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {packageTypes.map(type => (
+                              <Badge key={type} variant="outline" className="text-xs">
+                                {PACKAGE_OPTIONS.find(option => option.value === type)?.label ?? type}
+                              </Badge>
+                            ))}
+                            {roles.map(role => (
+                              <Badge key={role} variant="outline" className="text-xs capitalize">{role}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={promo.isActive ? "default" : "secondary"}>
+                          {promo.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => openEditDialog(promo)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="outline">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {promo.code}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The code stops working immediately. To pause it instead, mark it inactive.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => deletePromoMutation.mutate(promo.id)}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={(open) => (open ? setShowDialog(true) : closeDialog())}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPromo ? `Edit ${editingPromo.code}` : "Add Promo Code"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promo-code">Code</Label>
+                <Input
+                  id="promo-code"
+                  value={formData.code}
+                  onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                  className="font-mono"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-description">Description</Label>
+                <Input
+                  id="promo-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="e.g. Teachers, volunteers"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-type">Discount Type</Label>
+                <select
+                  id="promo-type"
+                  value={formData.discountType}
+                  onChange={(e) => setFormData(prev => ({ ...prev, discountType: e.target.value as PromoDiscountType }))}
+                  className="mt-1 w-full h-10 px-3 py-2 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                >
+                  {PROMO_DISCOUNT_TYPES.map((type) => (
+                    <option key={type} value={type}>{PROMO_DISCOUNT_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="promo-value">{valueLabel}</Label>
+                <Input
+                  id="promo-value"
+                  type="number"
+                  min="0"
+                  step={formData.discountType === "fixed_amount" ? "0.01" : "1"}
+                  max={formData.discountType === "percentage" ? "100" : undefined}
+                  value={formData.discountValue}
+                  onChange={(e) => setFormData(prev => ({ ...prev, discountValue: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-max-uses">Total Uses</Label>
+                <Input
+                  id="promo-max-uses"
+                  type="number"
+                  min="1"
+                  value={formData.maxUses}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maxUses: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-max-uses-email">Uses per Email</Label>
+                <Input
+                  id="promo-max-uses-email"
+                  type="number"
+                  min="1"
+                  value={formData.maxUsesPerEmail}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maxUsesPerEmail: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-valid-from">Valid From</Label>
+                <Input
+                  id="promo-valid-from"
+                  type="datetime-local"
+                  value={formData.validFrom}
+                  onChange={(e) => setFormData(prev => ({ ...prev, validFrom: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-valid-until">Valid Until</Label>
+                <Input
+                  id="promo-valid-until"
+                  type="datetime-local"
+                  value={formData.validUntil}
+                  onChange={(e) => setFormData(prev => ({ ...prev, validUntil: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <span className="text-sm font-medium">Packages</span>
+              <span className="ml-2 text-xs text-gray-500">Leave all unticked to allow every package</span>
+              <div className="grid grid-cols-2 gap-2 border rounded-md p-3 mt-2">
+                {PACKAGE_OPTIONS.map((option) => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`promo-package-${option.value}`}
+                      checked={formData.packageTypes.includes(option.value)}
+                      onCheckedChange={(checked) => toggleListValue("packageTypes", option.value, !!checked)}
+                    />
+                    <Label htmlFor={`promo-package-${option.value}`} className="text-sm">{option.label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <span className="text-sm font-medium">Roles</span>
+              <span className="ml-2 text-xs text-gray-500">Leave all unticked to allow every role</span>
+              <div className="flex gap-4 border rounded-md p-3 mt-2">
+                {ROLE_OPTIONS.map((role) => (
+                  <div key={role} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`promo-role-${role}`}
+                      checked={formData.roles.includes(role)}
+                      onCheckedChange={(checked) => toggleListValue("roles", role, !!checked)}
+                    />
+                    <Label htmlFor={`promo-role-${role}`} className="text-sm capitalize">{role}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="promo-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="promo-active">Active</Label>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={savePromoMutation.isPending}>
+                {savePromoMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingPromo ? "Save Changes" : "Create Promo Code"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
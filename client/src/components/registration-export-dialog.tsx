@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { toRegistrationSearchParams, type RegistrationSearchInput } from "@shared/registrationSearch";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  type ExportColumn,
+  type ExportFormat,
+} from "@shared/registrationExport";
+
+interface RegistrationExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The admin table's current search; the export covers every match, not just the page shown
+  search: Partial<RegistrationSearchInput>;
+  matchingCount: number;
+  filtered: boolean;
+}
+
+const COLUMN_GROUPS = Array.from(new Set(EXPORT_COLUMNS.map((column) => column.group)));
+
+/**
+ * Download the registrations matching the admin table's filters, with the
+ * columns the admin picks. The file is generated on the server.
+ */
+export function RegistrationExportDialog({ open, onOpenChange, search, matchingCount, filtered }: RegistrationExportDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [exporting, setExporting] = useState(false);
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    // Keep the columns in the order they're listed, whatever order they're ticked in
+    setColumns(prev => EXPORT_COLUMNS
+      .map(({ key }) => key)
+      .filter(key => key === column ? checked : prev.includes(key)));
+  };
+
+  // Fetched rather than linked so the admin's token goes with the request
+  const download = async () => {
+    setExporting(true);
+    try {
+      const params = toRegistrationSearchParams({ ...search, format, columns });
+      const response = await apiRequest("GET", `/api/admin/registrations/export?${params}`);
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1]
+        || `registrations.${format}`;
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      toast({
+        title: "Export Complete",
+        description: `Exported ${matchingCount} registration${matchingCount !== 1 ? "s" : ""} as ${EXPORT_FORMAT_LABELS[format]}.`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ title: "Export Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Registrations</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Export {matchingCount} registration{matchingCount !== 1 ? "s" : ""}{filtered ? " (filtered)" : ""} in your
+            preferred format.
+          </p>
+
+          <div>
+            <Label className="text-sm font-medium">Export Format</Label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="mt-2 w-full h-10 px-3 py-2 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+            >
+              {EXPORT_FORMATS.map((option) => (
+                <option key={option} value={option}>{EXPORT_FORMAT_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Columns ({columns.length})</Label>
+              <div className="flex gap-2">
+                <Button type="button" size="sm" variant="ghost" onClick={() => setColumns(EXPORT_COLUMNS.map(({ key }) => key))}>
+                  All
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}>
+                  Defaults
+                </Button>
+              </div>
+            </div>
+            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {COLUMN_GROUPS.map((group) => (
+                <div key={group}>
+                  <p className="text-xs font-semibold uppercase text-gray-500 mb-1">{group}</p>
+                  <div className="space-y-1">
+                    {EXPORT_COLUMNS.filter((column) => column.group === group).map((column) => (
+                      <div key={column.key} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`export-${column.key}`}
+                          checked={columns.includes(column.key)}
+                          onCheckedChange={(checked) => toggleColumn(column.key, !!checked)}
+                        />
+                        <Label htmlFor={`export-${column.key}`} className="text-sm font-normal">{column.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {format === "pdf" && columns.length > 12 && (
+            <p className="text-xs text-amber-700">PDF pages fit about a dozen columns; choose fewer for a readable report.</p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={download}
+              disabled={exporting || columns.length === 0 || matchingCount === 0}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export {EXPORT_FORMAT_LABELS[format]}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ClipboardList, Copy, Link2, Loader2 } from "lucide-react";
+import { RosterView } from "@/components/roster-view";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_ROSTER_SHARE_DAYS,
+  ROSTER_SHARE_DAYS,
+  ROSTER_TYPE_LABELS,
+  type RosterShareLink,
+  type RosterType,
+} from "@shared/rosters";
+
+interface RosterDialogProps {
+  type: RosterType;
+  id: string;
+}
+
+/**
+ * The roster of a workshop, milonga or gala table, and a read-only link to
+ * it for the instructor or host, which expires after the chosen number of
+ * days.
+ */
+export function RosterDialog({ type, id }: RosterDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [days, setDays] = useState<number>(DEFAULT_ROSTER_SHARE_DAYS);
+  const [link, setLink] = useState<RosterShareLink | null>(null);
+  const basePath = `/api/admin/rosters/${type}/${id}`;
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${basePath}/share`, { days });
+      return response.json() as Promise<RosterShareLink>;
+    },
+    onSuccess: setLink,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to create the link"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link.url);
+    toast({ title: "Copied", description: "Roster link copied to the clipboard." });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setLink(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" title={ROSTER_TYPE_LABELS[type]}>
+          <ClipboardList className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ROSTER_TYPE_LABELS[type]}</DialogTitle>
+        </DialogHeader>
+        {open && <RosterView basePath={basePath} />}
+
+        <div className="border-t pt-4 space-y-2">
+          <Label className="text-sm font-medium">Share a read-only link</Label>
+          <div className="flex gap-2">
+            <select
+              value={days}
+              onChange={(e) => {
+                setDays(Number(e.target.value));
+                setLink(null);
+              }}
+              className="h-9 px-3 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+            >
+              {ROSTER_SHARE_DAYS.map((option) => (
+                <option key={option} value={option}>
+                  Expires in {option} day{option !== 1 ? "s" : ""}
+                </option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" onClick={() => shareMutation.mutate()} disabled={shareMutation.isPending}>
+              {shareMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+              Create link
+            </Button>
+          </div>
+          {link && (
+            <div className="space-y-1">
+              <div className="flex gap-2">
+                <Input value={link.url} readOnly className="font-mono text-xs" />
+                <Button size="sm" variant="outline" onClick={copy} title="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Works until {new Date(link.expiresAt).toLocaleString()}. Anyone with the link can see the names on
+                this roster.
+              </p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
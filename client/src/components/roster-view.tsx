@@ -0,0 +1,125 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, Download, Loader2 } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ROSTER_FILE_FORMATS, ROSTER_TYPE_LABELS, type Roster, type RosterFileFormat } from "@shared/rosters";
+
+interface RosterViewProps {
+  // The roster's API path: its shared-link path for instructors, its type
+  // and id path for admins
+  basePath: string;
+}
+
+/**
+ * Who is booked into a workshop, milonga or gala table, with their check-in
+ * status, and PDF and CSV downloads of the list.
+ */
+export function RosterView({ basePath }: RosterViewProps) {
+  const { toast } = useToast();
+  const { data: roster, isLoading, error } = useQuery<Roster>({ queryKey: [basePath] });
+
+  // Fetched rather than linked so the admin's token goes with the request
+  const download = async (format: RosterFileFormat) => {
+    try {
+      const response = await apiRequest("GET", `${basePath}/${format}`);
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1]
+        || `roster.${format}`;
+      const url = window.URL.createObjectURL(await response.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error: any) {
+      toast({ title: "Download Failed", description: apiErrorMessage(error, "Failed to download the roster"), variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading roster...
+      </div>
+    );
+  }
+
+  if (!roster) {
+    return <p className="text-sm text-red-600">{apiErrorMessage(error, "Roster not found")}</p>;
+  }
+
+  const { total, leaders, followers, checkedIn } = roster.counts;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="text-xs font-semibold uppercase text-gray-500">{ROSTER_TYPE_LABELS[roster.type]}</p>
+          <h3 className="text-lg font-semibold">{roster.title}</h3>
+          {roster.details.map((line) => (
+            <p key={line} className="text-sm text-gray-600">{line}</p>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {ROSTER_FILE_FORMATS.map((format) => (
+            <Button key={format} size="sm" variant="outline" onClick={() => download(format)} disabled={total === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="secondary">{total} dancer{total !== 1 ? "s" : ""}</Badge>
+        <Badge variant="outline">{leaders} leader{leaders !== 1 ? "s" : ""}</Badge>
+        <Badge variant="outline">{followers} follower{followers !== 1 ? "s" : ""}</Badge>
+        <Badge variant="outline" className="text-green-700">{checkedIn} checked in</Badge>
+      </div>
+
+      {total === 0 ? (
+        <p className="text-sm text-gray-500">Nobody is booked in yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Level</TableHead>
+              <TableHead>Country</TableHead>
+              <TableHead>Checked in</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {roster.entries.map((entry) => (
+              <TableRow key={`${entry.registrationId}-${entry.role}`}>
+                <TableCell>
+                  <div className="font-medium">{entry.name}</div>
+                  {entry.partner && <div className="text-xs text-gray-500">with {entry.partner}</div>}
+                </TableCell>
+                <TableCell className="capitalize">{entry.role}</TableCell>
+                <TableCell>{entry.level || "-"}</TableCell>
+                <TableCell>{entry.country || "-"}</TableCell>
+                <TableCell>
+                  {entry.checkedInAt ? (
+                    <span className="flex items-center text-green-700">
+                      <CheckCircle2 className="h-4 w-4 mr-1" />
+                      {new Date(entry.checkedInAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    </span>
+                  ) : (
+                    <span className="text-gray-400">Not yet</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, ListPlus, CheckCircle } from "lucide-react";
+import type { RegistrationData } from "@/pages/registration";
+import type { WaitlistEntry, WaitlistItemType } from "@shared/schema";
+
+interface WaitlistButtonProps {
+  itemType: WaitlistItemType;
+  itemId: string;
+  data: Pick<RegistrationData, "role" | "leaderInfo" | "followerInfo">;
+  className?: string;
+}
+
+// The dancer's own details from the personal info step; for couples the
+// leader is the contact.
+const getContact = (data: WaitlistButtonProps["data"]) =>
+  data.role === "follower" ? data.followerInfo : data.leaderInfo ?? data.followerInfo;
+
+export function WaitlistButton({ itemType, itemId, data, className }: WaitlistButtonProps) {
+  const { toast } = useToast();
+  const [entry, setEntry] = useState<(WaitlistEntry & { position: number | null }) | null>(null);
+  const contact = getContact(data);
+
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/waitlist", {
+        itemType,
+        itemId,
+        role: data.role,
+        name: `${contact?.firstName ?? ""} ${contact?.lastName ?? ""}`.trim(),
+        email: contact?.email,
+        phone: contact?.phone,
+      });
+      return response.json();
+    },
+    onSuccess: (joined) => {
+      setEntry(joined);
+      toast({
+        title: "Added to Waitlist",
+        description: "If a place opens up it will be held for you for a limited time.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could Not Join Waitlist",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!data.role || !contact?.email) {
+    return null;
+  }
+
+  if (entry) {
+    return (
+      <span className={`inline-flex items-center gap-1 text-sm text-green-700 ${className ?? ""}`}>
+        <CheckCircle className="h-4 w-4" />
+        {entry.status === "offered"
+          ? "A place is being held for you"
+          : `On the waitlist${entry.position ? ` (#${entry.position})` : ""}`}
+      </span>
+    );
+  }
+
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant="outline"
+      className={className}
+      disabled={joinWaitlistMutation.isPending}
+      onClick={(e) => {
+        // Cards are clickable; joining must not toggle the selection
+        e.stopPropagation();
+        joinWaitlistMutation.mutate();
+      }}
+    >
+      {joinWaitlistMutation.isPending ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <ListPlus className="mr-2 h-4 w-4" />
+      )}
+      Join waitlist
+    </Button>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, ListOrdered, Send, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Milonga, Table as GalaTable, WaitlistEntry, WaitlistItemType, Workshop } from "@shared/schema";
+
+type QueuedEntry = WaitlistEntry & { position: number | null };
+
+interface WaitlistManagementProps {
+  canManage: boolean;
+}
+
+const STATUS_BADGES: Record<string, string> = {
+  waiting: "bg-blue-100 text-blue-800",
+  offered: "bg-amber-100 text-amber-800",
+  claimed: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-700",
+  cancelled: "bg-gray-100 text-gray-700",
+};
+
+const ITEM_TYPE_LABELS: Record<WaitlistItemType, string> = {
+  workshop: "Workshop",
+  milonga: "Milonga",
+  table: "Gala table",
+};
+
+export function WaitlistManagement({ canManage }: WaitlistManagementProps) {
+  const { toast } = useToast();
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data: entries = [], isLoading } = useQuery<QueuedEntry[]>({
+    queryKey: ["/api/admin/waitlist"],
+  });
+  const { data: workshops = [] } = useQuery<Workshop[]>({ queryKey: ["/api/workshops"] });
+  const { data: milongas = [] } = useQuery<Milonga[]>({ queryKey: ["/api/milongas"] });
+  const { data: tables = [] } = useQuery<GalaTable[]>({ queryKey: ["/api/tables"] });
+
+  const getItemLabel = (itemType: string, itemId: string) => {
+    if (itemType === "workshop") {
+      return workshops.find(w => w.id === itemId)?.title ?? "Unknown workshop";
+    }
+    if (itemType === "milonga") {
+      return milongas.find(m => m.id === itemId)?.name ?? "Unknown milonga";
+    }
+    const table = tables.find(t => t.id === itemId);
+    return table ? `Table ${table.tableNumber}` : "Unknown table";
+  };
+
+  const promoteMutation = useMutation({
+    mutationFn: async ({ itemType, itemId }: { itemType: string; itemId: string }) => {
+      const response = await apiRequest("POST", "/api/admin/waitlist/promote", { itemType, itemId });
+      return response.json() as Promise<WaitlistEntry[]>;
+    },
+    onSuccess: (promoted) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/waitlist"] });
+      toast({
+        title: promoted.length > 0 ? "Places Offered" : "No Free Places",
+        description: promoted.length > 0
+          ? `${promoted.length} waitlisted ${promoted.length === 1 ? "dancer has" : "dancers have"} a place on hold.`
+          : "Nobody in the queue fits the places currently available.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Promotion Failed",
+        description: error.message || "Failed to promote the waitlist.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeEntryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/waitlist/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/waitlist"] });
+      toast({
+        title: "Removed from Waitlist",
+        description: "The entry has been cancelled.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Remove Failed",
+        description: error.message || "Failed to remove the waitlist entry.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const visibleEntries = showHistory
+    ? entries
+    : entries.filter(entry => entry.status === "waiting" || entry.status === "offered");
+
+  // One queue per item, in the order the items first got a waitlist entry
+  const queues = new Map<string, QueuedEntry[]>();
+  for (const entry of visibleEntries) {
+    const key = `${entry.itemType}:${entry.itemId}`;
+    queues.set(key, [...(queues.get(key) || []), entry]);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Waitlists</h2>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="waitlist-history"
+            checked={showHistory}
+            onCheckedChange={(checked) => setShowHistory(!!checked)}
+          />
+          <Label htmlFor="waitlist-history" className="text-sm">Show claimed, expired and cancelled</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+        </div>
+      ) : queues.size === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center py-10 text-gray-500">
+            <ListOrdered className="h-10 w-10 mb-3" />
+            <p>No one is waiting for a place.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        Array.from(queues.entries()).map(([key, queue]) => {
+          const { itemType, itemId } = queue[0];
+          return (
+            <Card key={key}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-base">
+                  {getItemLabel(itemType, itemId)}
+                  <Badge variant="outline" className="ml-2 text-xs">
+                    {ITEM_TYPE_LABELS[itemType as WaitlistItemType] ?? itemType}
+                  </Badge>
+                </CardTitle>
+                {canManage && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={promoteMutation.isPending}
+                    onClick={() => promoteMutation.mutate({ itemType, itemId })}
+                  >
+                    <Send className="mr-2 h-4 w-4" />
+                    Offer free places
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead>Hold Expires</TableHead>
+                      {canManage && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {queue.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{entry.position ?? "—"}</TableCell>
+                        <TableCell>{entry.name}</TableCell>
+                        <TableCell>{entry.email}</TableCell>
+                        <TableCell className="capitalize">{entry.role}</TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_BADGES[entry.status] ?? ""}>{entry.status}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {entry.status === "offered" && entry.offerExpiresAt
+                            ? new Date(entry.offerExpiresAt).toLocaleString()
+                            : "—"}
+                        </TableCell>
+                        {canManage && (
+                          <TableCell>
+                            {(entry.status === "waiting" || entry.status === "offered") && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={removeEntryMutation.isPending}
+                                onClick={() => removeEntryMutation.mutate(entry.id)}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
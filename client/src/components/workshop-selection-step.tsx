@@ -6,6 +6,9 @@ import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, ArrowRight, Users, Calendar, Clock, CheckCircle } from "lucide-react";
 import { RegistrationData } from "@/pages/registration";
 import { Workshop, Event } from "@shared/schema";
+import { getRoleAvailability, getWorkshopAvailabilityNote } from "@shared/workshopAvailability";
+import { WaitlistButton } from "./waitlist-button";
+import { useCurrency } from "@/hooks/useCurrency";
 
 interface WorkshopSelectionStepProps {
   data: RegistrationData;
@@ -46,6 +49,7 @@ export function WorkshopSelectionStep({ data, onUpdate, onNext, onPrev, currentE
   const { data: workshops, isLoading } = useQuery<Workshop[]>({
     queryKey: ['/api/workshops'],
   });
+  const { format } = useCurrency();
 
   const levels = [
     { value: "all", label: "All Levels" },
@@ -59,9 +63,15 @@ export function WorkshopSelectionStep({ data, onUpdate, onNext, onPrev, currentE
     selectedLevel === "all" || workshop.level === selectedLevel
   ) || [];
 
+  // Solo dancers can be blocked by role capacity or balancing; couples only
+  // by overall space. Before a role is chosen every workshop is selectable.
+  const isAvailableForRole = (workshop: Workshop) =>
+    !data.role || getRoleAvailability(workshop, data.role).available;
+
   const handleWorkshopToggle = (workshopId: string) => {
     const workshop = workshops?.find(w => w.id === workshopId);
     if (!workshop) return;
+    if (!selectedWorkshops.includes(workshopId) && !isAvailableForRole(workshop)) return;
 
     // Check for time conflicts
     const conflictingWorkshop = workshops?.find(w => 
@@ -160,7 +170,7 @@ export function WorkshopSelectionStep({ data, onUpdate, onNext, onPrev, currentE
           )}
           {earlyBirdActive && (
             <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
-              Early bird workshop pricing of AED {earlyBirdPriceValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} is active until {currentEvent?.workshopEarlyBirdEndDate ? new Date(currentEvent.workshopEarlyBirdEndDate).toLocaleDateString() : 'the specified deadline'}.
+              Early bird workshop pricing of {format(earlyBirdPriceValue)} is active until {currentEvent?.workshopEarlyBirdEndDate ? new Date(currentEvent.workshopEarlyBirdEndDate).toLocaleDateString() : 'the specified deadline'}.
             </div>
           )}
         </div>
@@ -191,16 +201,18 @@ export function WorkshopSelectionStep({ data, onUpdate, onNext, onPrev, currentE
             const selectionIndex = selectedWorkshops.indexOf(workshop.id);
             const includedSelection = hasIncludedWorkshops && selectionIndex > -1 && selectionIndex < 6;
             
-            // Simplified availability check (no capacity display)
-            const hasEnoughSpots = true; // Always allow selection
+            const hasEnoughSpots = isSelected || isAvailableForRole(workshop);
+            const availabilityNote = getWorkshopAvailabilityNote(workshop);
             
             return (
               <div
                 key={workshop.id}
-                className={`border rounded-lg p-4 sm:p-6 cursor-pointer transition-all ${
+                className={`border rounded-lg p-4 sm:p-6 transition-all ${
                   isSelected 
-                    ? 'border-primary bg-primary/5 shadow-md' 
-                    : 'border-gray-200 hover:shadow-lg hover:border-primary/50'
+                    ? 'border-primary bg-primary/5 shadow-md cursor-pointer' 
+                    : hasEnoughSpots
+                      ? 'border-gray-200 hover:shadow-lg hover:border-primary/50 cursor-pointer'
+                      : 'border-gray-200 opacity-60 cursor-not-allowed'
                 }`}
                 onClick={() => handleWorkshopToggle(workshop.id)}
               >
@@ -233,15 +245,22 @@ export function WorkshopSelectionStep({ data, onUpdate, onNext, onPrev, currentE
                 </div>
                 
                 <div className="flex items-center justify-between">
-                  <div className="text-gray-500 text-sm">
-                    {/* No capacity display */}
+                  <div className="text-sm space-y-2">
+                    {availabilityNote && (
+                      <span className={`block ${hasEnoughSpots ? 'text-amber-600' : 'text-red-600 font-medium'}`}>
+                        {availabilityNote}
+                      </span>
+                    )}
+                    {!hasEnoughSpots && (
+                      <WaitlistButton itemType="workshop" itemId={workshop.id} data={data} />
+                    )}
                   </div>
                   <div className="text-right">
                     {hasIncludedWorkshops && includedSelection ? (
                       <span className="text-sm font-semibold text-green-600">Included</span>
                     ) : (
                       <span className="text-lg font-bold text-gray-900">
-                        AED {getWorkshopPrice(workshop).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {format(getWorkshopPrice(workshop))}
                         {data.role === 'couple' && ' x2'}
                         {earlyBirdActive && (
                           <span className="ml-1 text-xs text-green-600">Early Bird</span>
@@ -276,7 +295,7 @@ export function WorkshopSelectionStep({ data, onUpdate, onNext, onPrev, currentE
                   <div key={workshopId} className="flex justify-between items-center text-sm">
                     <span>{workshop.title} {data.role === 'couple' && '(x2)'}</span>
                     <span className="font-medium">
-                      {hasIncludedWorkshops && !isAdditional ? 'Included' : `AED ${price.toLocaleString()}`}
+                      {hasIncludedWorkshops && !isAdditional ? 'Included' : format(price)}
                     </span>
                   </div>
                 );
@@ -285,7 +304,7 @@ export function WorkshopSelectionStep({ data, onUpdate, onNext, onPrev, currentE
             <div className="border-t border-gray-200 mt-2 pt-2">
               <div className="flex justify-between items-center font-semibold">
                 <span>Workshop Subtotal:</span>
-                <span>AED {calculateWorkshopTotal().toLocaleString()}</span>
+                <span>{format(calculateWorkshopTotal())}</span>
               </div>
             </div>
           </div>
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import type { AdminUser } from "@shared/schema";
+import type { AdminPermission } from "@shared/permissions";
+
+type VerifiedAdmin = Omit<AdminUser, "password"> & {
+  effectivePermissions: AdminPermission[];
+};
+
+export function useAdminPermissions() {
+  const { data, isLoading } = useQuery<{ success: boolean; admin: VerifiedAdmin }>({
+    queryKey: ["/api/admin/verify"],
+    retry: false,
+  });
+
+  const permissions = data?.admin.effectivePermissions ?? [];
+
+  return {
+    admin: data?.admin,
+    permissions,
+    isLoading,
+    can: (permission: AdminPermission) => permissions.includes(permission),
+  };
+}
@@ -0,0 +1,55 @@
+import { useEffect, useMemo, useState } from "react";
+import { convertAmount, formatMoney, getCurrencyOptions, resolveSettlement } from "@shared/currency";
+import { useCurrentEvent } from "./useCurrentEvent";
+
+const STORAGE_KEY = "display-currency";
+
+// The visitor's chosen currency is shared by every component showing
+// prices and remembered across visits
+const listeners: Array<(code: string | null) => void> = [];
+let selectedCode: string | null = typeof window !== "undefined" ? localStorage.getItem(STORAGE_KEY) : null;
+
+function selectCurrency(code: string) {
+  selectedCode = code;
+  localStorage.setItem(STORAGE_KEY, code);
+  listeners.forEach((listener) => listener(code));
+}
+
+/**
+ * Prices in the visitor's chosen currency. Amounts passed to `format` and
+ * `convert` are in the current event's base currency; currencies the event
+ * doesn't list fall back to the base currency.
+ */
+export function useCurrency() {
+  const { currentEvent } = useCurrentEvent();
+  const [code, setCode] = useState(selectedCode);
+
+  useEffect(() => {
+    listeners.push(setCode);
+    return () => {
+      const index = listeners.indexOf(setCode);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return useMemo(() => {
+    const options = getCurrencyOptions(currentEvent);
+    const base = options[0];
+    const selected = options.find((option) => option.code === code) ?? base;
+    const convert = (amount: number | string) => convertAmount(amount, selected.rate);
+
+    return {
+      options,
+      baseCurrency: base.code,
+      currency: selected.code,
+      rate: selected.rate,
+      // What a card payment is actually taken in for this choice
+      settlement: resolveSettlement(currentEvent, selected.code),
+      setCurrency: selectCurrency,
+      convert,
+      format: (amount: number | string) => formatMoney(convert(amount), selected.code),
+    };
+  }, [currentEvent, code]);
+}
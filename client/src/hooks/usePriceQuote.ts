@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Addon, Milonga, PackageConfiguration, PricingTier, Table, Workshop } from "@shared/schema";
+import { quoteRegistration, type PriceQuote, type PricingSelection } from "@shared/pricing";
+import { useCurrentEvent } from "./useCurrentEvent";
+
+/**
+ * Price the registration in progress with the same engine the server uses
+ * to enforce totals. Promo codes are left to the server, which knows their
+ * usage. Recomputed as catalog data loads, so the total is never stale.
+ */
+export function usePriceQuote(selection: PricingSelection): PriceQuote {
+  const { currentEvent } = useCurrentEvent();
+  const eventId = currentEvent?.id;
+
+  const { data: packageConfigs = [] } = useQuery<PackageConfiguration[]>({
+    queryKey: ["/api/events", eventId, "package-configurations"],
+    enabled: !!eventId,
+  });
+  const { data: tiers = [] } = useQuery<PricingTier[]>({
+    queryKey: ["/api/events", eventId, "pricing-tiers"],
+    enabled: !!eventId,
+  });
+  // Table numbers are only unique within an event
+  const { data: tables = [] } = useQuery<Table[]>({
+    queryKey: ["/api/events", eventId, "tables"],
+    enabled: !!eventId,
+  });
+  const { data: workshops = [] } = useQuery<Workshop[]>({ queryKey: ["/api/workshops"] });
+  const { data: milongas = [] } = useQuery<Milonga[]>({ queryKey: ["/api/milongas"] });
+  const { data: addons = [] } = useQuery<Addon[]>({ queryKey: ["/api/addons"] });
+
+  return useMemo(() => quoteRegistration({
+    event: currentEvent,
+    packageConfig: packageConfigs.find(
+      (config) => config.packageType === selection.packageType && config.isActive !== false,
+    ),
+    tiers,
+    catalog: { workshops, milongas, tables, addons },
+    selection,
+    now: new Date(),
+  }), [currentEvent, packageConfigs, tiers, workshops, milongas, tables, addons, selection]);
+}
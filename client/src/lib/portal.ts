@@ -0,0 +1,44 @@
+// Dancer portal session. The token from the emailed sign-in link is swapped
+// for a session token, kept in localStorage and sent with every portal
+// request in the X-Portal-Token header.
+
+const PORTAL_TOKEN_KEY = "portal-token";
+
+export const getPortalToken = () => localStorage.getItem(PORTAL_TOKEN_KEY);
+
+export const setPortalToken = (token: string) => localStorage.setItem(PORTAL_TOKEN_KEY, token);
+
+export const clearPortalToken = () => localStorage.removeItem(PORTAL_TOKEN_KEY);
+
+export class PortalRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PortalRequestError";
+  }
+}
+
+/**
+ * Call a portal endpoint and return its JSON. Errors carry the server's
+ * message; a 401 also forgets the stored session so the sign-in form shows.
+ */
+export async function portalRequest<T = any>(method: string, url: string, data?: unknown): Promise<T> {
+  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  const token = getPortalToken();
+  if (token) {
+    headers["X-Portal-Token"] = token;
+  }
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: data ? JSON.stringify(data) : undefined,
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    if (res.status === 401) {
+      clearPortalToken();
+    }
+    throw new PortalRequestError(body.message || res.statusText, res.status);
+  }
+  return body;
+}
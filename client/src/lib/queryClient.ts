@@ -20,6 +20,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors read "409: {"message":"..."}"
+export const apiErrorMessage = (error: any, fallback: string) => {
+  const text = String(error?.message || "").replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(text).message || fallback;
+  } catch {
+    return text || fallback;
+  }
+};
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -1,5 +1,5 @@
 import { useState, useMemo, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,14 +12,40 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Users, Calendar, MapPin, ShoppingBag, Settings, Plus, Edit, Trash2, Eye, Filter, X, Mail, CheckCircle2, Upload, Image, LogOut, Download, CreditCard, LayoutDashboard, UserCheck, UtensilsCrossed, Table as TableIcon } from "lucide-react";
+import { Users, Calendar, MapPin, ShoppingBag, Settings, Plus, Edit, Trash2, Eye, Filter, X, Mail, CheckCircle2, Upload, Image, LogOut, Download, CreditCard, LayoutDashboard, UserCheck, UtensilsCrossed, Table as TableIcon, ShieldCheck, ListOrdered, TicketPercent, Wallet, Banknote, Send, Megaphone, ScanLine, Search, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, TrendingUp, History } from "lucide-react";
 import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Workshop, Milonga, Seat, Addon } from "@shared/schema";
+import { Workshop, Milonga, Seat, Addon, Registration } from "@shared/schema";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { AdminTableManagement } from "@/components/admin-table-management";
 import { AdminEventsManagement } from "@/components/admin-events-management";
+import { AdminUsersManagement } from "@/components/admin-users-management";
+import { WaitlistManagement } from "@/components/waitlist-management";
+import { PromoCodesManagement } from "@/components/promo-codes-management";
+import { EmailNotifications } from "@/components/email-notifications";
+import { BroadcastsManagement } from "@/components/broadcasts-management";
+import { DoorCheckIn } from "@/components/door-checkin";
+import { AnalyticsDashboard } from "@/components/analytics-dashboard";
+import { AuditHistory, AuditLogViewer } from "@/components/audit-log";
+import { RegistrationExportDialog } from "@/components/registration-export-dialog";
+import { RosterDialog } from "@/components/roster-dialog";
+import { PriceQuoteSummary } from "@/components/price-quote-summary";
+import { InvoiceDownloads } from "@/components/invoice-downloads";
+import { formatChargedAmount } from "@shared/currency";
+import {
+  toRegistrationSearchParams,
+  type RegistrationPage,
+  type RegistrationSearchInput,
+  type RegistrationSortField,
+} from "@shared/registrationSearch";
+import { PAYMENT_STATUSES, PAYMENT_STATUS_LABELS } from "@shared/broadcasts";
+import { CancelRegistrationDialog } from "@/components/cancel-registration-dialog";
+import { OfflinePaymentsDialog } from "@/components/offline-payments-dialog";
+import { OutstandingPayments } from "@/components/outstanding-payments";
+import { InstalmentSchedule } from "@/components/instalment-schedule";
+import { ConfirmationLink } from "@/components/confirmation-link";
+import { useAdminPermissions } from "@/hooks/useAdminPermissions";
 import {
   Sidebar,
   SidebarContent,
@@ -39,31 +65,64 @@ import {
 interface RegistrationFilters {
   workshops: string[];
   milongas: string[];
+  addons: string[];
   galaDinner: boolean | null;
-  tshirts: boolean | null;
-  dessert: boolean | null;
-  transportation: boolean | null;
+  tableNumber: string;
   packageType: string;
   paymentStatus: string;
+  role: string;
+  country: string;
+  from: string;
+  to: string;
 }
 
+const EMPTY_FILTERS: RegistrationFilters = {
+  workshops: [],
+  milongas: [],
+  addons: [],
+  galaDinner: null,
+  tableNumber: '',
+  packageType: 'all',
+  paymentStatus: 'all',
+  role: 'all',
+  country: '',
+  from: '',
+  to: '',
+};
+
+// The registrations search for a set of filters, as sent to the server
+const toRegistrationSearch = (filters: RegistrationFilters, q: string): Partial<RegistrationSearchInput> => ({
+  q: q.trim() || undefined,
+  packageTypes: filters.packageType !== 'all' ? [filters.packageType] : [],
+  paymentStatuses: filters.paymentStatus !== 'all' ? [filters.paymentStatus as typeof PAYMENT_STATUSES[number]] : [],
+  roles: filters.role !== 'all' ? [filters.role as 'leader' | 'follower' | 'couple'] : [],
+  workshopIds: filters.workshops,
+  milongaIds: filters.milongas,
+  addonIds: filters.addons,
+  hasTable: filters.galaDinner ?? undefined,
+  tableNumbers: filters.tableNumber ? [Number(filters.tableNumber)] : [],
+  countries: filters.country.trim() ? [filters.country.trim()] : [],
+  from: filters.from ? new Date(filters.from) : undefined,
+  to: filters.to ? new Date(filters.to) : undefined,
+});
+
+const hasActiveFilters = (filters: RegistrationFilters) =>
+  JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState("overview");
   const [showFilters, setShowFilters] = useState(false);
   const [showAddonDialog, setShowAddonDialog] = useState(false);
   const [editingAddon, setEditingAddon] = useState<Addon | null>(null);
-  const [filters, setFilters] = useState<RegistrationFilters>({
-    workshops: [],
-    milongas: [],
-    galaDinner: null,
-    tshirts: null,
-    dessert: null,
-    transportation: null,
-    packageType: 'all',
-    paymentStatus: 'all'
-  });
+  const [filters, setFilters] = useState<RegistrationFilters>(EMPTY_FILTERS);
+  const [searchText, setSearchText] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sort, setSort] = useState<{ field: RegistrationSortField; order: 'asc' | 'desc' }>({ field: 'createdAt', order: 'desc' });
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const { admin, can } = useAdminPermissions();
 
   // Check authentication on component mount
   useEffect(() => {
@@ -81,6 +140,8 @@ export default function AdminDashboard() {
 
   const handleLogout = () => {
     localStorage.removeItem("admin-token");
+    // Drop cached admin data so the next admin doesn't see this one's permissions
+    queryClient.clear();
     toast({
       title: "Logged Out",
       description: "You have been logged out successfully",
@@ -93,7 +154,47 @@ export default function AdminDashboard() {
   const { data: milongas } = useQuery({ queryKey: ['/api/milongas'] });
   const { data: seats } = useQuery<Seat[]>({ queryKey: ['/api/seats'] });
   const { data: addons } = useQuery<Addon[]>({ queryKey: ['/api/addons'] });
-  const { data: registrations } = useQuery({ queryKey: ['/api/registrations'] });
+  const { data: registrations } = useQuery({ 
+    queryKey: ['/api/registrations'],
+    enabled: can("registrations.read"),
+  });
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchText), 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // A new search starts from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [filters, debouncedSearch, sort, pageSize]);
+
+  const registrationSearch = useMemo(() => toRegistrationSearch(filters, debouncedSearch), [filters, debouncedSearch]);
+  const registrationSearchParams = toRegistrationSearchParams({
+    ...registrationSearch,
+    sort: sort.field,
+    order: sort.order,
+    page,
+    pageSize,
+  }).toString();
+  const { data: registrationPage, isFetching: registrationsFetching } = useQuery<RegistrationPage<Registration>>({
+    queryKey: ['/api/admin/registrations', registrationSearchParams],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/registrations?${registrationSearchParams}`);
+      return response.json();
+    },
+    enabled: can("registrations.read"),
+    placeholderData: keepPreviousData,
+  });
+  const pageRegistrations = registrationPage?.registrations ?? [];
+  const matchingCount = registrationPage?.total ?? 0;
+
+  const toggleSort = (field: RegistrationSortField) => {
+    setSort(prev => prev.field === field
+      ? { field, order: prev.order === 'asc' ? 'desc' : 'asc' }
+      : { field, order: field === 'createdAt' || field === 'totalAmount' ? 'desc' : 'asc' });
+  };
 
   // Addon mutations
   const deleteAddonMutation = useMutation({
@@ -140,69 +241,6 @@ export default function AdminDashboard() {
     },
   });
 
-  // Filter registrations based on selected filters
-  const filteredRegistrations = useMemo(() => {
-    if (!Array.isArray(registrations)) return [];
-    
-    return registrations.filter((registration: any) => {
-      // Package type filter
-      if (filters.packageType && filters.packageType !== 'all' && registration.packageType !== filters.packageType) {
-        return false;
-      }
-      
-      // Payment status filter
-      if (filters.paymentStatus && filters.paymentStatus !== 'all' && registration.paymentStatus !== filters.paymentStatus) {
-        return false;
-      }
-      
-      // Workshop filter
-      if (filters.workshops.length > 0) {
-        const hasWorkshop = filters.workshops.some(workshopId => 
-          registration.workshopIds?.includes(workshopId)
-        );
-        if (!hasWorkshop) return false;
-      }
-      
-      // Milonga filter
-      if (filters.milongas.length > 0) {
-        const hasMilonga = filters.milongas.some(milongaId => 
-          registration.milongaIds?.includes(milongaId)
-        );
-        if (!hasMilonga) return false;
-      }
-      
-      // Gala dinner filter (has seats selected)
-      if (filters.galaDinner !== null) {
-        const hasGalaDinner = registration.seatIds?.length > 0;
-        if (filters.galaDinner !== hasGalaDinner) return false;
-      }
-      
-      // Add-on filters
-      if (filters.tshirts !== null) {
-        const hasTshirt = registration.addons?.some((addon: any) => 
-          addon.id === 'addon-tshirt'
-        );
-        if (filters.tshirts !== hasTshirt) return false;
-      }
-      
-      if (filters.dessert !== null) {
-        const hasDessert = registration.addons?.some((addon: any) => 
-          addon.id === 'addon-dessert'
-        );
-        if (filters.dessert !== hasDessert) return false;
-      }
-      
-      if (filters.transportation !== null) {
-        const hasTransportation = registration.addons?.some((addon: any) => 
-          addon.id === 'addon-transportation'
-        );
-        if (filters.transportation !== hasTransportation) return false;
-      }
-      
-      return true;
-    });
-  }, [registrations, filters]);
-
   // Calculate statistics
   const totalRegistrations = Array.isArray(registrations) ? registrations.length : 0;
   // Calculate workshop enrollment from actual registrations
@@ -221,16 +259,8 @@ export default function AdminDashboard() {
 
   // Clear all filters
   const clearFilters = () => {
-    setFilters({
-      workshops: [],
-      milongas: [],
-      galaDinner: null,
-      tshirts: null,
-      dessert: null,
-      transportation: null,
-      packageType: 'all',
-      paymentStatus: 'all'
-    });
+    setFilters(EMPTY_FILTERS);
+    setSearchText("");
   };
 
   // Update filter functions
@@ -252,166 +282,23 @@ export default function AdminDashboard() {
     }));
   };
 
-  // Update payment status mutation
-  const updatePaymentStatusMutation = useMutation({
-    mutationFn: async ({ registrationId, paymentStatus }: { registrationId: string; paymentStatus: string }) => {
-      const response = await apiRequest("PUT", `/api/registrations/${registrationId}/payment`, {
-        paymentStatus
-      });
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
-      toast({
-        title: "Payment Updated",
-        description: "Payment status has been updated successfully.",
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Update Failed",
-        description: error.message || "Failed to update payment status. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
+  const updateAddonFilter = (addonId: string, checked: boolean) => {
+    setFilters(prev => ({
+      ...prev,
+      addons: checked 
+        ? [...prev.addons, addonId]
+        : prev.addons.filter(id => id !== addonId)
+    }));
+  };
 
   // Export dialog state
   const [showExportDialog, setShowExportDialog] = useState(false);
-  const [selectedExportFormat, setSelectedExportFormat] = useState('csv');
 
   // Export registrations function
   const exportRegistrations = () => {
     setShowExportDialog(true);
   };
 
-  const performExport = async (format: string) => {
-    const dataToExport = filteredRegistrations.map((registration: any) => ({
-      Name: `${registration.leaderInfo?.firstName || ''} ${registration.leaderInfo?.lastName || ''}${
-        registration.role === 'couple' && registration.followerInfo 
-          ? ` & ${registration.followerInfo.firstName} ${registration.followerInfo.lastName}` 
-          : ''
-      }`,
-      Email: registration.leaderInfo?.email || registration.followerInfo?.email || '',
-      Package: registration.packageType,
-      Role: registration.role,
-      Amount: `AED ${registration.totalAmount?.toLocaleString() || 0}`,
-      'Payment Status': registration.paymentStatus,
-      'Phone Number': registration.leaderInfo?.phone || registration.followerInfo?.phone || '',
-      'Emergency Contact': registration.leaderInfo?.emergencyContact || registration.followerInfo?.emergencyContact || '',
-      'Dietary Restrictions': registration.leaderInfo?.dietaryRestrictions || registration.followerInfo?.dietaryRestrictions || '',
-      'Workshops Count': registration.workshopIds?.length || 0,
-      'Milongas Count': registration.milongaIds?.length || 0,
-      'Gala Dinner Seats': registration.seatIds?.length || 0,
-      'T-Shirts': registration.addons?.tshirts?.quantity || 0,
-      'Has Dessert': registration.addons?.dessert ? 'Yes' : 'No',
-      'Has Transportation': registration.addons?.transportation ? 'Yes' : 'No',
-      'Registration Date': new Date(registration.createdAt || Date.now()).toLocaleDateString(),
-      'QR Code': registration.qrCode || ''
-    }));
-
-    if (dataToExport.length === 0) {
-      toast({
-        title: "No Data to Export",
-        description: "No registrations match the current filters.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const timestamp = new Date().toISOString().split('T')[0];
-    const filename = `registrations-export-${timestamp}`;
-
-    if (format === 'csv') {
-      // CSV Export
-      const headers = Object.keys(dataToExport[0]);
-      const csvContent = [
-        headers.join(','),
-        ...dataToExport.map(row => 
-          headers.map(header => {
-            const value = (row as any)[header] || '';
-            return value.toString().includes(',') || value.toString().includes('"') 
-              ? `"${value.toString().replace(/"/g, '""')}"` 
-              : value;
-          }).join(',')
-        )
-      ].join('\n');
-
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      downloadFile(blob, `${filename}.csv`);
-    } 
-    else if (format === 'excel') {
-      // Excel Export (CSV format but with .xls extension for Excel compatibility)
-      const headers = Object.keys(dataToExport[0]);
-      const excelContent = [
-        headers.join('\t'),
-        ...dataToExport.map(row => 
-          headers.map(header => (row as any)[header] || '').join('\t')
-        )
-      ].join('\n');
-
-      const blob = new Blob([excelContent], { type: 'application/vnd.ms-excel;charset=utf-8;' });
-      downloadFile(blob, `${filename}.xls`);
-    }
-    else if (format === 'pdf') {
-      // PDF Export
-      try {
-        const { jsPDF } = await import('jspdf');
-        await import('jspdf-autotable');
-        
-        const doc = new jsPDF();
-        
-        // Add title
-        doc.setFontSize(16);
-        doc.text('Dubai Tango Festival - Registration Export', 14, 15);
-        doc.setFontSize(10);
-        doc.text(`Generated on: ${new Date().toLocaleDateString()}`, 14, 25);
-        doc.text(`Total Records: ${dataToExport.length}`, 14, 32);
-        
-        // Prepare table data
-        const headers = Object.keys(dataToExport[0]);
-        const rows = dataToExport.map(row => headers.map(header => (row as any)[header] || ''));
-        
-        // Add table
-        (doc as any).autoTable({
-          head: [headers],
-          body: rows,
-          startY: 40,
-          styles: { fontSize: 8 },
-          headStyles: { fillColor: [220, 50, 50] },
-          margin: { top: 40 }
-        });
-        
-        doc.save(`${filename}.pdf`);
-      } catch (error) {
-        toast({
-          title: "PDF Export Error",
-          description: "Failed to generate PDF. Try CSV or Excel format.",
-          variant: "destructive",
-        });
-        return;
-      }
-    }
-
-    toast({
-      title: "Export Complete",
-      description: `Successfully exported ${dataToExport.length} registrations as ${format.toUpperCase()}.`,
-    });
-    setShowExportDialog(false);
-  };
-
-  const downloadFile = (blob: Blob, filename: string) => {
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  };
-
   return (
     <SidebarProvider>
       <div className="min-h-screen bg-gray-50 flex w-full">
@@ -436,15 +323,50 @@ export default function AdminDashboard() {
                       <span>Overview</span>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton 
-                      onClick={() => setActiveTab("registrations")} 
-                      isActive={activeTab === "registrations"}
-                    >
-                      <UserCheck className="h-4 w-4" />
-                      <span>Registrations</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
+                  {can("registrations.read") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("analytics")} 
+                        isActive={activeTab === "analytics"}
+                      >
+                        <TrendingUp className="h-4 w-4" />
+                        <span>Analytics</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {can("registrations.read") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("registrations")} 
+                        isActive={activeTab === "registrations"}
+                      >
+                        <UserCheck className="h-4 w-4" />
+                        <span>Registrations</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {can("registrations.read") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("unpaid")} 
+                        isActive={activeTab === "unpaid"}
+                      >
+                        <Banknote className="h-4 w-4" />
+                        <span>Unpaid</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {can("registrations.read") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("waitlist")} 
+                        isActive={activeTab === "waitlist"}
+                      >
+                        <ListOrdered className="h-4 w-4" />
+                        <span>Waitlist</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
                   <SidebarMenuItem>
                     <SidebarMenuButton 
                       onClick={() => setActiveTab("workshops")} 
@@ -463,15 +385,17 @@ export default function AdminDashboard() {
                       <span>Milongas</span>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton 
-                      onClick={() => setActiveTab("tables")} 
-                      isActive={activeTab === "tables"}
-                    >
-                      <TableIcon className="h-4 w-4" />
-                      <span>Tables</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
+                  {can("seating.write") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("tables")} 
+                        isActive={activeTab === "tables"}
+                      >
+                        <TableIcon className="h-4 w-4" />
+                        <span>Tables</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
                   <SidebarMenuItem>
                     <SidebarMenuButton 
                       onClick={() => setActiveTab("addons")} 
@@ -481,15 +405,83 @@ export default function AdminDashboard() {
                       <span>Add-ons</span>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton 
-                      onClick={() => setActiveTab("events")} 
-                      isActive={activeTab === "events"}
-                    >
-                      <Settings className="h-4 w-4" />
-                      <span>Events</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
+                  {can("pricing.write") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("promo-codes")} 
+                        isActive={activeTab === "promo-codes"}
+                      >
+                        <TicketPercent className="h-4 w-4" />
+                        <span>Promo Codes</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {(can("events.write") || can("registrations.read")) && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("emails")} 
+                        isActive={activeTab === "emails"}
+                      >
+                        <Send className="h-4 w-4" />
+                        <span>Emails</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {can("broadcasts.send") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("broadcasts")} 
+                        isActive={activeTab === "broadcasts"}
+                      >
+                        <Megaphone className="h-4 w-4" />
+                        <span>Broadcasts</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {can("checkin.scan") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("check-in")} 
+                        isActive={activeTab === "check-in"}
+                      >
+                        <ScanLine className="h-4 w-4" />
+                        <span>Check-in</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {can("events.write") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("events")} 
+                        isActive={activeTab === "events"}
+                      >
+                        <Settings className="h-4 w-4" />
+                        <span>Events</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {can("users.manage") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("users")} 
+                        isActive={activeTab === "users"}
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                        <span>Users</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
+                  {can("audit.read") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        onClick={() => setActiveTab("audit-log")} 
+                        isActive={activeTab === "audit-log"}
+                      >
+                        <History className="h-4 w-4" />
+                        <span>Audit Log</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
                 </SidebarMenu>
               </SidebarGroupContent>
             </SidebarGroup>
@@ -559,19 +551,26 @@ export default function AdminDashboard() {
                 </div>
               )}
 
+              {/* Analytics Tab */}
+              {activeTab === "analytics" && can("registrations.read") && (
+                <AnalyticsDashboard />
+              )}
+
               {/* Registrations Tab */}
-              {activeTab === "registrations" && (
+              {activeTab === "registrations" && can("registrations.read") && (
                 <div className="space-y-6">
             <Card>
               <CardHeader>
                 <div className="flex justify-between items-center">
-                  <CardTitle>All Registrations ({filteredRegistrations.length})</CardTitle>
+                  <CardTitle>All Registrations ({matchingCount})</CardTitle>
                   <div className="flex gap-2">
-                    <CreateRegistrationDialog 
-                      workshops={workshops || []} 
-                      milongas={Array.isArray(milongas) ? milongas : []}
-                      addons={addons || []}
-                    />
+                    {can("registrations.write") && (
+                      <CreateRegistrationDialog 
+                        workshops={workshops || []} 
+                        milongas={Array.isArray(milongas) ? milongas : []}
+                        addons={addons || []}
+                      />
+                    )}
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -580,11 +579,7 @@ export default function AdminDashboard() {
                       <Filter className="h-4 w-4 mr-2" />
                       Filters
                     </Button>
-                    {(filters.workshops.length > 0 || filters.milongas.length > 0 || 
-                      filters.galaDinner !== null || filters.tshirts !== null || 
-                      filters.dessert !== null || filters.transportation !== null ||
-                      (filters.packageType && filters.packageType !== 'all') || 
-                      (filters.paymentStatus && filters.paymentStatus !== 'all')) && (
+                    {(hasActiveFilters(filters) || searchText) && (
                       <Button 
                         variant="outline" 
                         size="sm"
@@ -607,6 +602,15 @@ export default function AdminDashboard() {
                 </div>
               </CardHeader>
               <CardContent className="p-0">
+                <div className="relative mx-6 mb-2">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                  <Input
+                    value={searchText}
+                    onChange={(e) => setSearchText(e.target.value)}
+                    placeholder="Search by name, email or registration code"
+                    className="pl-9"
+                  />
+                </div>
                 {/* Filter Panel */}
                 {showFilters && (
                   <div className="bg-gray-50 rounded-lg p-3 sm:p-4 m-6 mb-0 space-y-4">
@@ -635,9 +639,9 @@ export default function AdminDashboard() {
                           className="mt-1 w-full h-10 px-3 py-2 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
                         >
                           <option value="all">All statuses</option>
-                          <option value="pending">Pending</option>
-                          <option value="completed">Completed</option>
-                          <option value="failed">Failed</option>
+                          {PAYMENT_STATUSES.map((status) => (
+                            <option key={status} value={status}>{PAYMENT_STATUS_LABELS[status]}</option>
+                          ))}
                         </select>
                       </div>
 
@@ -650,24 +654,69 @@ export default function AdminDashboard() {
                           className="mt-1 w-full h-10 px-3 py-2 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
                         >
                           <option value="all">All</option>
-                          <option value="true">Has seats</option>
-                          <option value="false">No seats</option>
+                          <option value="true">Has a table</option>
+                          <option value="false">No table</option>
                         </select>
                       </div>
 
-                      {/* T-Shirts Filter */}
+                      {/* Role Filter */}
                       <div>
-                        <Label className="text-sm font-medium">T-Shirts</Label>
+                        <Label className="text-sm font-medium">Role</Label>
                         <select 
-                          value={filters.tshirts === null ? 'all' : filters.tshirts.toString()} 
-                          onChange={(e) => setFilters(prev => ({ ...prev, tshirts: e.target.value === 'all' ? null : e.target.value === 'true' }))}
+                          value={filters.role} 
+                          onChange={(e) => setFilters(prev => ({ ...prev, role: e.target.value }))}
                           className="mt-1 w-full h-10 px-3 py-2 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
                         >
-                          <option value="all">All</option>
-                          <option value="true">Ordered</option>
-                          <option value="false">Not ordered</option>
+                          <option value="all">All roles</option>
+                          <option value="leader">Leader</option>
+                          <option value="follower">Follower</option>
+                          <option value="couple">Couple</option>
                         </select>
                       </div>
+
+                      {/* Table Number Filter */}
+                      <div>
+                        <Label className="text-sm font-medium">Table Number</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={filters.tableNumber}
+                          onChange={(e) => setFilters(prev => ({ ...prev, tableNumber: e.target.value }))}
+                          placeholder="Any table"
+                          className="mt-1"
+                        />
+                      </div>
+
+                      {/* Country Filter */}
+                      <div>
+                        <Label className="text-sm font-medium">Country</Label>
+                        <Input
+                          value={filters.country}
+                          onChange={(e) => setFilters(prev => ({ ...prev, country: e.target.value }))}
+                          placeholder="Any country"
+                          className="mt-1"
+                        />
+                      </div>
+
+                      {/* Registration Date Filter */}
+                      <div>
+                        <Label className="text-sm font-medium">Registered From</Label>
+                        <Input
+                          type="date"
+                          value={filters.from}
+                          onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-sm font-medium">Registered To</Label>
+                        <Input
+                          type="date"
+                          value={filters.to}
+                          onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+                          className="mt-1"
+                        />
+                      </div>
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -710,26 +759,24 @@ export default function AdminDashboard() {
                       </div>
                     </div>
 
-                    <div className="flex gap-4">
-                      {/* Additional Add-on Filters */}
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="dessert-filter"
-                          checked={filters.dessert === true}
-                          onCheckedChange={(checked) => setFilters(prev => ({ ...prev, dessert: !!checked ? true : null }))}
-                        />
-                        <Label htmlFor="dessert-filter" className="text-sm">Has Dessert</Label>
-                      </div>
-                      
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="transportation-filter"
-                          checked={filters.transportation === true}
-                          onCheckedChange={(checked) => setFilters(prev => ({ ...prev, transportation: !!checked ? true : null }))}
-                        />
-                        <Label htmlFor="transportation-filter" className="text-sm">Has Transportation</Label>
+                    {/* Add-on Filter */}
+                    {addons && addons.length > 0 && (
+                      <div>
+                        <Label className="text-sm font-medium mb-2 block">Add-ons</Label>
+                        <div className="flex flex-wrap gap-4">
+                          {addons.map((addon) => (
+                            <div key={addon.id} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`addon-filter-${addon.id}`}
+                                checked={filters.addons.includes(addon.id)}
+                                onCheckedChange={(checked) => updateAddonFilter(addon.id, !!checked)}
+                              />
+                              <Label htmlFor={`addon-filter-${addon.id}`} className="text-sm">{addon.name}</Label>
+                            </div>
+                          ))}
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 )}
                 {/* Scrollable table container */}
@@ -737,17 +784,18 @@ export default function AdminDashboard() {
                   <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Name</TableHead>
-                      <TableHead>Email</TableHead>
-                      <TableHead>Package</TableHead>
+                      <SortableHead field="name" sort={sort} onSort={toggleSort}>Name</SortableHead>
+                      <SortableHead field="email" sort={sort} onSort={toggleSort}>Email</SortableHead>
+                      <SortableHead field="packageType" sort={sort} onSort={toggleSort}>Package</SortableHead>
                       <TableHead>Role</TableHead>
-                      <TableHead>Amount</TableHead>
-                      <TableHead>Payment Status</TableHead>
+                      <SortableHead field="totalAmount" sort={sort} onSort={toggleSort}>Amount</SortableHead>
+                      <SortableHead field="paymentStatus" sort={sort} onSort={toggleSort}>Payment Status</SortableHead>
+                      <SortableHead field="createdAt" sort={sort} onSort={toggleSort}>Registered</SortableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredRegistrations.map((registration: any) => (
+                    {pageRegistrations.map((registration: any) => (
                       <TableRow key={registration.id}>
                         <TableCell>
                           {registration.leaderInfo?.firstName} {registration.leaderInfo?.lastName}
@@ -771,6 +819,14 @@ export default function AdminDashboard() {
                           <Badge variant={registration.paymentStatus === 'completed' ? 'default' : 'secondary'}>
                             {registration.paymentStatus}
                           </Badge>
+                          {registration.cancellationRequestedAt && !registration.cancelledAt && (
+                            <Badge variant="outline" className="ml-1 border-red-300 text-red-700">
+                              Cancellation requested
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {registration.createdAt ? new Date(registration.createdAt).toLocaleDateString() : ''}
                         </TableCell>
                         <TableCell>
                           <div className="flex gap-2">
@@ -779,38 +835,38 @@ export default function AdminDashboard() {
                                 <Eye className="h-4 w-4" />
                               </Button>
                             </RegistrationDetailDialog>
-                            <UserManagementDialog registration={registration}>
-                              <Button size="sm" variant="outline">
-                                <Edit className="h-4 w-4" />
-                              </Button>
-                            </UserManagementDialog>
+                            {can("registrations.write") && (
+                              <UserManagementDialog registration={registration}>
+                                <Button size="sm" variant="outline">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </UserManagementDialog>
+                            )}
                             {registration.paymentMethod === 'offline' && (
-                              <select
-                                value={registration.paymentStatus || 'pending'}
-                                onChange={(e) => {
-                                  updatePaymentStatusMutation.mutate({
-                                    registrationId: registration.id,
-                                    paymentStatus: e.target.value
-                                  });
-                                }}
-                                disabled={updatePaymentStatusMutation.isPending}
-                                className="w-[120px] h-8 px-2 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                              >
-                                <option value="pending">Pending</option>
-                                <option value="completed">Complete</option>
-                              </select>
+                              <OfflinePaymentsDialog registration={registration} canRecord={can("payments.write")}>
+                                <Button size="sm" variant="outline" title="Offline payments">
+                                  <Wallet className="h-4 w-4" />
+                                </Button>
+                              </OfflinePaymentsDialog>
+                            )}
+                            {can("registrations.refund") && !registration.cancelledAt && registration.paymentStatus !== 'expired' && (
+                              <CancelRegistrationDialog registration={registration} />
+                            )}
+                            {can("registrations.delete") && (
+                              <DeleteRegistrationButton registrationId={registration.id} />
                             )}
-                            <DeleteRegistrationButton registrationId={registration.id} />
                           </div>
                         </TableCell>
                       </TableRow>
                     ))}
-                    {filteredRegistrations.length === 0 && (
+                    {pageRegistrations.length === 0 && (
                       <TableRow>
-                        <TableCell colSpan={7} className="text-center text-gray-500">
-                          {Array.isArray(registrations) && registrations.length > 0 
-                            ? "No registrations match the selected filters" 
-                            : "No registrations found"
+                        <TableCell colSpan={8} className="text-center text-gray-500">
+                          {registrationsFetching
+                            ? "Loading registrations..."
+                            : hasActiveFilters(filters) || debouncedSearch
+                              ? "No registrations match the selected filters" 
+                              : "No registrations found"
                           }
                         </TableCell>
                       </TableRow>
@@ -818,58 +874,57 @@ export default function AdminDashboard() {
                   </TableBody>
                   </Table>
                 </div>
-              </CardContent>
-            </Card>
-
-            {/* Export Dialog */}
-            <Dialog open={showExportDialog} onOpenChange={setShowExportDialog}>
-              <DialogContent className="max-w-md">
-                <DialogHeader>
-                  <DialogTitle>Export Registrations</DialogTitle>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <p className="text-sm text-gray-600">
-                    Export {filteredRegistrations.length} registration{filteredRegistrations.length !== 1 ? 's' : ''} 
-                    {filters.packageType !== 'all' || filters.paymentStatus !== 'all' || filters.workshops.length > 0 || filters.milongas.length > 0 
-                      ? ' (filtered)' 
-                      : ''
-                    } in your preferred format.
-                  </p>
-                  
-                  <div>
-                    <Label className="text-sm font-medium">Export Format</Label>
-                    <select 
-                      value={selectedExportFormat} 
-                      onChange={(e) => setSelectedExportFormat(e.target.value)}
-                      className="mt-2 w-full h-10 px-3 py-2 text-sm bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                {/* Pagination */}
+                <div className="flex flex-wrap items-center justify-between gap-2 border-t px-6 py-3 text-sm text-gray-600">
+                  <div className="flex items-center gap-2">
+                    <span>Rows per page</span>
+                    <select
+                      value={pageSize}
+                      onChange={(e) => setPageSize(Number(e.target.value))}
+                      className="h-8 px-2 text-sm bg-background border border-input rounded-md"
                     >
-                      <option value="csv">CSV (Comma Separated Values)</option>
-                      <option value="excel">Excel (.xls)</option>
-                      <option value="pdf">PDF (Formatted Report)</option>
+                      {[25, 50, 100].map((size) => (
+                        <option key={size} value={size}>{size}</option>
+                      ))}
                     </select>
                   </div>
-                  
-                  <div className="text-xs text-gray-500 space-y-1">
-                    <p><strong>CSV:</strong> Best for spreadsheet analysis and data processing</p>
-                    <p><strong>Excel:</strong> Opens directly in Microsoft Excel with formatting</p>
-                    <p><strong>PDF:</strong> Professional report format for printing and sharing</p>
-                  </div>
-
-                  <div className="flex justify-end gap-2 pt-4">
-                    <Button type="button" variant="outline" onClick={() => setShowExportDialog(false)}>
-                      Cancel
+                  <div className="flex items-center gap-2">
+                    <span>
+                      {matchingCount === 0
+                        ? "0 registrations"
+                        : `${(page - 1) * pageSize + 1}–${Math.min(page * pageSize, matchingCount)} of ${matchingCount}`}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setPage(page - 1)}
+                      disabled={page <= 1 || registrationsFetching}
+                      title="Previous page"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
                     </Button>
-                    <Button 
-                      onClick={() => performExport(selectedExportFormat)}
-                      className="bg-green-600 hover:bg-green-700"
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setPage(page + 1)}
+                      disabled={page >= (registrationPage?.pageCount ?? 1) || registrationsFetching}
+                      title="Next page"
                     >
-                      <Download className="h-4 w-4 mr-2" />
-                      Export {selectedExportFormat.toUpperCase()}
+                      <ChevronRight className="h-4 w-4" />
                     </Button>
                   </div>
                 </div>
-              </DialogContent>
-            </Dialog>
+              </CardContent>
+            </Card>
+
+            {/* Export Dialog */}
+            <RegistrationExportDialog
+              open={showExportDialog}
+              onOpenChange={setShowExportDialog}
+              search={{ ...registrationSearch, sort: sort.field, order: sort.order }}
+              matchingCount={matchingCount}
+              filtered={hasActiveFilters(filters) || !!debouncedSearch}
+            />
           </div>
         )}
 
@@ -878,7 +933,7 @@ export default function AdminDashboard() {
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-xl font-semibold">Workshop Management</h2>
-              <WorkshopDialog />
+              {can("catalog.write") && <WorkshopDialog />}
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -898,6 +953,9 @@ export default function AdminDashboard() {
                         Leaders: {workshop.leadersEnrolled || 0}/{workshop.leaderCapacity || 0}, 
                         Followers: {workshop.followersEnrolled || 0}/{workshop.followerCapacity || 0}
                       </p>
+                      {workshop.imbalanceTolerance !== null && workshop.imbalanceTolerance !== undefined && (
+                        <p className="text-sm"><strong>Balance:</strong> within {workshop.imbalanceTolerance}</p>
+                      )}
                       <p className="text-sm">
                         <strong>Price:</strong> AED {workshop.price}
                         {workshop.earlyBirdPrice && parseFloat(workshop.earlyBirdPrice) > 0 && (
@@ -908,12 +966,17 @@ export default function AdminDashboard() {
                       </p>
                     </div>
                     <div className="flex gap-2 mt-4">
-                      <WorkshopDialog workshop={workshop} mode="edit">
-                        <Button size="sm" variant="outline">
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                      </WorkshopDialog>
-                      <DeleteWorkshopButton workshopId={workshop.id} />
+                      {can("registrations.read") && <RosterDialog type="workshop" id={workshop.id} />}
+                      {can("catalog.write") && (
+                        <>
+                          <WorkshopDialog workshop={workshop} mode="edit">
+                            <Button size="sm" variant="outline">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </WorkshopDialog>
+                          <DeleteWorkshopButton workshopId={workshop.id} />
+                        </>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -927,7 +990,7 @@ export default function AdminDashboard() {
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-xl font-semibold">Milonga Management</h2>
-              <MilongaDialog />
+              {can("catalog.write") && <MilongaDialog />}
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -955,12 +1018,17 @@ export default function AdminDashboard() {
                       )}
                     </div>
                     <div className="flex gap-2 mt-4">
-                      <MilongaDialog milonga={milonga} mode="edit">
-                        <Button size="sm" variant="outline">
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                      </MilongaDialog>
-                      <DeleteMilongaButton milongaId={milonga.id} />
+                      {can("registrations.read") && <RosterDialog type="milonga" id={milonga.id} />}
+                      {can("catalog.write") && (
+                        <>
+                          <MilongaDialog milonga={milonga} mode="edit">
+                            <Button size="sm" variant="outline">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </MilongaDialog>
+                          <DeleteMilongaButton milongaId={milonga.id} />
+                        </>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -972,7 +1040,7 @@ export default function AdminDashboard() {
         )}
 
         {/* Tables Tab */}
-        {activeTab === "tables" && (
+        {activeTab === "tables" && can("seating.write") && (
           <div className="space-y-6">
             <AdminTableManagement adminToken={localStorage.getItem("admin-token") || ""} />
           </div>
@@ -983,15 +1051,17 @@ export default function AdminDashboard() {
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-xl font-semibold">Add-on Management</h2>
-              <Button 
-                onClick={() => {
-                  setEditingAddon(null);
-                  setShowAddonDialog(true);
-                }}
-              >
-                <Plus className="mr-2 h-4 w-4" />
-                Add Add-on
-              </Button>
+              {can("catalog.write") && (
+                <Button 
+                  onClick={() => {
+                    setEditingAddon(null);
+                    setShowAddonDialog(true);
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Add-on
+                </Button>
+              )}
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -1016,7 +1086,7 @@ export default function AdminDashboard() {
                       )}
                       
                       {/* Image Management for addons with allowImageUpload option */}
-                      {addon.options?.allowImageUpload && (
+                      {addon.options?.allowImageUpload && can("catalog.write") && (
                         <div className="space-y-3 pt-3 border-t">
                           <div className="flex items-center gap-2">
                             <Image className="h-4 w-4" />
@@ -1055,25 +1125,27 @@ export default function AdminDashboard() {
                         </div>
                       )}
                     </div>
-                    <div className="flex gap-2 mt-4">
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => {
-                          setEditingAddon(addon);
-                          setShowAddonDialog(true);
-                        }}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => deleteAddonMutation.mutate(addon.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
+                    {can("catalog.write") && (
+                      <div className="flex gap-2 mt-4">
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => {
+                            setEditingAddon(addon);
+                            setShowAddonDialog(true);
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => deleteAddonMutation.mutate(addon.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -1082,11 +1154,55 @@ export default function AdminDashboard() {
         )}
 
         {/* Events Tab */}
-        {activeTab === "events" && (
+        {activeTab === "events" && can("events.write") && (
           <div className="space-y-6">
             <AdminEventsManagement adminToken={localStorage.getItem("admin-token") || ""} />
           </div>
         )}
+
+        {/* Unpaid Offline Registrations Tab */}
+        {activeTab === "unpaid" && can("registrations.read") && (
+          <OutstandingPayments canManage={can("payments.write")} />
+        )}
+
+        {/* Waitlist Tab */}
+        {activeTab === "waitlist" && can("registrations.read") && (
+          <WaitlistManagement canManage={can("registrations.write")} />
+        )}
+
+        {/* Promo Codes Tab */}
+        {activeTab === "promo-codes" && can("pricing.write") && (
+          <PromoCodesManagement />
+        )}
+
+        {/* Emails Tab */}
+        {activeTab === "emails" && (can("events.write") || can("registrations.read")) && (
+          <EmailNotifications
+            canEditTemplates={can("events.write")}
+            canViewEmails={can("registrations.read")}
+            canRetry={can("registrations.write")}
+          />
+        )}
+
+        {/* Broadcasts Tab */}
+        {activeTab === "broadcasts" && can("broadcasts.send") && (
+          <BroadcastsManagement />
+        )}
+
+        {/* Check-in Tab */}
+        {activeTab === "check-in" && can("checkin.scan") && (
+          <DoorCheckIn />
+        )}
+
+        {/* Users Tab */}
+        {activeTab === "users" && can("users.manage") && (
+          <AdminUsersManagement currentAdminId={admin?.id} />
+        )}
+
+        {/* Audit Log Tab */}
+        {activeTab === "audit-log" && can("audit.read") && (
+          <AuditLogViewer />
+        )}
             </div>
           </main>
         </SidebarInset>
@@ -1103,6 +1219,23 @@ export default function AdminDashboard() {
   );
 }
 
+// Column header that sorts the registrations table, toggling the direction on a second click
+function SortableHead({ field, sort, onSort, children }: {
+  field: RegistrationSortField;
+  sort: { field: RegistrationSortField; order: 'asc' | 'desc' };
+  onSort: (field: RegistrationSortField) => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <TableHead>
+      <button type="button" onClick={() => onSort(field)} className="flex items-center gap-1 hover:text-gray-900">
+        {children}
+        {sort.field === field && (sort.order === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+}
+
 function AddonDialog({ open, onOpenChange, addon, mode = 'create' }: { 
   open: boolean; 
   onOpenChange: (open: boolean) => void; 
@@ -1230,6 +1363,7 @@ function WorkshopDialog({ workshop, mode = 'create' }: { workshop?: Workshop; mo
     time: workshop?.time || '',
     leaderCapacity: workshop?.leaderCapacity?.toString() || '',
     followerCapacity: workshop?.followerCapacity?.toString() || '',
+    imbalanceTolerance: workshop?.imbalanceTolerance?.toString() ?? '',
     price: workshop?.price || '',
     earlyBirdPrice: workshop?.earlyBirdPrice || '0',
     earlyBirdEndDate: workshop?.earlyBirdEndDate ? (workshop.earlyBirdEndDate instanceof Date ? workshop.earlyBirdEndDate.toISOString().split('T')[0] : new Date(workshop.earlyBirdEndDate).toISOString().split('T')[0]) : ''
@@ -1260,6 +1394,7 @@ function WorkshopDialog({ workshop, mode = 'create' }: { workshop?: Workshop; mo
           time: '',
           leaderCapacity: '',
           followerCapacity: '',
+          imbalanceTolerance: '',
           price: '',
           earlyBirdPrice: '0',
           earlyBirdEndDate: ''
@@ -1300,6 +1435,7 @@ function WorkshopDialog({ workshop, mode = 'create' }: { workshop?: Workshop; mo
     // Validate required numeric fields
     const leaderCap = parseInt(formData.leaderCapacity);
     const followerCap = parseInt(formData.followerCapacity);
+    const tolerance = formData.imbalanceTolerance === '' ? null : parseInt(formData.imbalanceTolerance);
     const price = parseFloat(formData.price);
     
     if (isNaN(leaderCap) || leaderCap <= 0) {
@@ -1320,6 +1456,15 @@ function WorkshopDialog({ workshop, mode = 'create' }: { workshop?: Workshop; mo
       return;
     }
     
+    if (tolerance !== null && (isNaN(tolerance) || tolerance < 1)) {
+      toast({
+        title: "Validation Error",
+        description: "Imbalance tolerance must be 1 or more, or left empty",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     if (isNaN(price) || price <= 0) {
       toast({
         title: "Validation Error",
@@ -1333,6 +1478,7 @@ function WorkshopDialog({ workshop, mode = 'create' }: { workshop?: Workshop; mo
       ...formData,
       leaderCapacity: leaderCap,
       followerCapacity: followerCap,
+      imbalanceTolerance: tolerance,
       price: price.toString(),
       date: formData.date ? new Date(formData.date) : null,
       earlyBirdPrice: formData.earlyBirdPrice || '0',
@@ -1452,6 +1598,20 @@ function WorkshopDialog({ workshop, mode = 'create' }: { workshop?: Workshop; mo
               />
             </div>
           </div>
+          <div>
+            <Label htmlFor="imbalanceTolerance">Leader/Follower Imbalance Tolerance</Label>
+            <Input
+              id="imbalanceTolerance"
+              type="number"
+              min="1"
+              placeholder="No balancing"
+              value={formData.imbalanceTolerance}
+              onChange={(e) => setFormData({ ...formData, imbalanceTolerance: e.target.value })}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              How many more leaders than followers (or vice versa) solo dancers may book. Couples are always accepted. Leave empty to only enforce role capacities.
+            </p>
+          </div>
           <div>
             <Label htmlFor="price">Regular Price (AED)</Label>
             <Input
@@ -1848,6 +2008,7 @@ function DeleteRegistrationButton({ registrationId }: { registrationId: string }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/registrations'] });
       queryClient.invalidateQueries({ queryKey: ['/api/workshops'] });
       queryClient.invalidateQueries({ queryKey: ['/api/milongas'] });
       queryClient.invalidateQueries({ queryKey: ['/api/tables'] });
@@ -1933,6 +2094,9 @@ function RegistrationDetailDialog({ registration, children }: { registration: an
                 <p><strong>Package:</strong> {registration.packageType}</p>
                 <p><strong>Role:</strong> {registration.role}</p>
                 <p><strong>Total Amount:</strong> AED {registration.totalAmount?.toLocaleString()}</p>
+                {registration.promoCode && (
+                  <p><strong>Promo Code:</strong> {registration.promoCode} (−AED {Number(registration.discountAmount || 0).toLocaleString()})</p>
+                )}
                 <p><strong>Payment Status:</strong> 
                   <Badge variant={registration.paymentStatus === 'completed' ? 'default' : 'secondary'} className="ml-2">
                     {registration.paymentStatus}
@@ -1948,6 +2112,63 @@ function RegistrationDetailDialog({ registration, children }: { registration: an
             </div>
           </div>
 
+          {registration.cancellationRequestedAt && !registration.cancelledAt && (
+            <div className="border-t pt-4">
+              <h3 className="font-semibold mb-3">Cancellation Request</h3>
+              <div className="space-y-2">
+                <p><strong>Requested:</strong> {new Date(registration.cancellationRequestedAt).toLocaleString()} from the dancer portal</p>
+                {registration.cancellationRequestReason && (
+                  <p><strong>Reason:</strong> {registration.cancellationRequestReason}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {registration.cancelledAt && (
+            <div className="border-t pt-4">
+              <h3 className="font-semibold mb-3">Cancellation</h3>
+              <div className="space-y-2">
+                <p><strong>Cancelled:</strong> {new Date(registration.cancelledAt).toLocaleString()} by {registration.cancelledBy}</p>
+                <p><strong>Refund:</strong> AED {Number(registration.refundAmount || 0).toLocaleString()}</p>
+                {registration.stripeRefundId && (
+                  <p><strong>Stripe Refund ID:</strong> <span className="font-mono text-sm">{registration.stripeRefundId}</span></p>
+                )}
+                {registration.cancellationReason && (
+                  <p><strong>Reason:</strong> {registration.cancellationReason}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {registration.priceQuote && (
+            <div className="border-t pt-4">
+              <h3 className="font-semibold mb-3">Accepted Price Quote</h3>
+              <PriceQuoteSummary quote={registration.priceQuote} className="max-w-md" />
+            </div>
+          )}
+
+          {registration.paymentPlan && (
+            <div className="border-t pt-4">
+              <h3 className="font-semibold mb-3">Payment Plan</h3>
+              <InstalmentSchedule registration={registration} basePath={`/api/registrations/${registration.id}`} />
+            </div>
+          )}
+
+          <div className="border-t pt-4">
+            <h3 className="font-semibold mb-3">Confirmation Link</h3>
+            <ConfirmationLink registrationId={registration.id} />
+          </div>
+
+          <div className="border-t pt-4">
+            <h3 className="font-semibold mb-3">Invoices</h3>
+            <InvoiceDownloads basePath={`/api/registrations/${registration.id}`} />
+          </div>
+
+          <div className="border-t pt-4">
+            <h3 className="font-semibold mb-3">History</h3>
+            <AuditHistory registrationId={registration.id} />
+          </div>
+
           {/* Payment Information */}
           <div className="border-t pt-4">
             <h3 className="font-semibold mb-3">Payment Information</h3>
@@ -1964,6 +2185,12 @@ function RegistrationDetailDialog({ registration, children }: { registration: an
                   )}
                 </Badge>
               </p>
+              {registration.paymentMethod === 'offline' && (
+                <p><strong>Amount Received:</strong> AED {Number(registration.amountReceived || 0).toLocaleString()} of AED {Number(registration.totalAmount).toLocaleString()}</p>
+              )}
+              {Number(registration.exchangeRate) !== 1 && (
+                <p><strong>Charged In:</strong> {registration.currency} at {Number(registration.exchangeRate)} per unit of the base currency ({formatChargedAmount(registration.totalAmount, registration)})</p>
+              )}
               {registration.paymentMethod === 'stripe' && registration.stripePaymentIntentId && (
                 <div className="mt-3 p-3 bg-gray-50 rounded-lg space-y-2">
                   <p><strong>Stripe Payment Intent ID:</strong></p>
@@ -2054,6 +2281,7 @@ function UserManagementDialog({ registration, children }: { registration: any; c
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/registrations'] });
       queryClient.invalidateQueries({ queryKey: ['/api/workshops'] });
       queryClient.invalidateQueries({ queryKey: ['/api/tables'] });
       toast({
@@ -2208,6 +2436,7 @@ function CreateRegistrationDialog({ workshops, milongas, addons }: {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/registrations'] });
       toast({
         title: "Registration Created",
         description: "Registration has been created successfully.",
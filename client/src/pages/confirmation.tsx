@@ -1,29 +1,34 @@
-import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, MapPin, Users, CreditCard, Download, CheckCircle2, AlertTriangle } from "lucide-react";
+import { Calendar, MapPin, Users, CreditCard, Download, CheckCircle2, AlertTriangle, Receipt, CalendarClock, FileText } from "lucide-react";
+import { PriceQuoteSummary } from "@/components/price-quote-summary";
+import { InstalmentSchedule } from "@/components/instalment-schedule";
+import { InvoiceDownloads } from "@/components/invoice-downloads";
+import { formatChargedAmount } from "@shared/currency";
 import { Workshop, Milonga, Seat, Addon } from "@shared/schema";
+import type { PublicRegistration } from "@shared/registrationAccess";
 
 export default function ConfirmationPage() {
-  const [location] = useLocation();
   const urlParams = new URLSearchParams(window.location.search);
-  const registrationId = urlParams.get('id');
-  
-  console.log('Full URL:', window.location.href);
-  console.log('Search params:', window.location.search);
-  console.log('Registration ID:', registrationId);
+  // Confirmation links carry the registration's signed access token
+  const accessToken = urlParams.get('token');
+  const basePath = `/api/confirmations/${encodeURIComponent(accessToken || '')}`;
 
-  const { data: registration, isLoading, error } = useQuery({
-    queryKey: ['/api/registrations', registrationId],
+  const { data: registration, isLoading } = useQuery<PublicRegistration>({
+    queryKey: [basePath],
     queryFn: async () => {
-      if (!registrationId) throw new Error('No registration ID');
-      const response = await fetch(`/api/registrations/${registrationId}`);
+      const response = await fetch(basePath);
       if (!response.ok) throw new Error('Registration not found');
       return response.json();
     },
-    enabled: !!registrationId,
+    enabled: !!accessToken,
+    // Card payments are confirmed by the Stripe webhook, which can land a few seconds after the redirect
+    refetchInterval: (query) => {
+      const data = query.state.data as any;
+      return data?.paymentMethod === 'stripe' && data?.paymentStatus === 'pending' ? 3000 : false;
+    },
   });
 
   const { data: workshops } = useQuery<Workshop[]>({ queryKey: ['/api/workshops'] });
@@ -45,27 +50,28 @@ export default function ConfirmationPage() {
         <Card className="max-w-md">
           <CardContent className="p-6 text-center">
             <h2 className="text-xl font-semibold mb-2">Registration Not Found</h2>
-            <p className="text-gray-600">The registration details could not be found.</p>
-            <p className="text-sm text-gray-500 mt-2">Registration ID: {registrationId}</p>
-            <p className="text-sm text-gray-500">Location: {location}</p>
-            {error && <p className="text-sm text-red-500 mt-2">Error: {error.message}</p>}
+            <p className="text-gray-600">
+              This confirmation link is invalid or has been replaced. Use the latest link we emailed you, or sign in
+              to see your registration.
+            </p>
+            <a href="/my-registration" className="inline-block mt-4 text-primary underline">
+              Manage your registration
+            </a>
           </CardContent>
         </Card>
       </div>
     );
   }
 
-  const selectedWorkshops = workshops?.filter(w => registration.workshopIds?.includes(w.id)) || [];
-  const selectedMilongas = milongas?.filter(m => registration.milongaIds?.includes(m.id)) || [];
-  const selectedSeats = seats?.filter(s => registration.seatIds?.includes(s.id)) || [];
-  const selectedAddons = registration.addons || [];
-  
-  // Generate short code from registration ID
-  const shortCode = `${registration.packageType?.toUpperCase().substring(0, 3) || 'REG'}-${registration.id.substring(0, 8).toUpperCase()}`;
+  const selectedWorkshops = workshops?.filter(w => (registration.workshopIds as string[] | null)?.includes(w.id)) || [];
+  const selectedMilongas = milongas?.filter(m => (registration.milongaIds as string[] | null)?.includes(m.id)) || [];
+  const selectedSeats = seats?.filter(s => (registration.seatIds as string[] | null)?.includes(s.id)) || [];
+  const selectedAddons = (registration.addons as any[] | null) || [];
+  const shortCode = registration.code;
 
   const downloadQRCode = async () => {
     try {
-      const response = await fetch(`/api/registrations/${registrationId}/qr`, {
+      const response = await fetch(`${basePath}/qr`, {
         method: 'GET',
       });
       
@@ -74,7 +80,7 @@ export default function ConfirmationPage() {
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `registration-${registrationId}-qr.png`;
+        a.download = `registration-${shortCode}-qr.png`;
         document.body.appendChild(a);
         a.click();
         window.URL.revokeObjectURL(url);
@@ -114,6 +120,22 @@ export default function ConfirmationPage() {
           </div>
         )}
         
+        {/* Released Checkout Hold */}
+        {registration.paymentStatus === 'expired' && (
+          <div className="bg-red-100 border-4 border-red-500 rounded-lg p-6 mb-6 text-center shadow-lg">
+            <div className="flex items-center justify-center text-red-800">
+              <AlertTriangle className="h-8 w-8 mr-3" />
+              <span className="font-bold text-2xl">RESERVATION EXPIRED</span>
+            </div>
+            <p className="text-red-800 font-semibold text-lg mt-2">
+              Payment wasn't completed in time, so your places were released
+            </p>
+            <p className="text-red-700 text-base mt-1">
+              Please register again to re-book. You have not been charged.
+            </p>
+          </div>
+        )}
+
         {/* Pending Payment Alert for Bank Transfer */}
         {registration.paymentMethod === 'bank_transfer' && registration.paymentStatus === 'pending' && (
           <div className="bg-red-100 border-4 border-red-500 rounded-lg p-6 mb-6 text-center shadow-lg">
@@ -151,6 +173,11 @@ export default function ConfirmationPage() {
           </div>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Registration Confirmed!</h1>
           <p className="text-gray-600">Your registration for Dubai Tango Festival has been confirmed</p>
+          {(registration.leaderInfo?.email || registration.followerInfo?.email) && (
+            <p className="text-sm text-gray-500 mt-1">
+              We've emailed the details to {registration.leaderInfo?.email || registration.followerInfo?.email}
+            </p>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -163,7 +190,7 @@ export default function ConfirmationPage() {
               <CardContent className="text-center space-y-4">
                 <div className="bg-white p-4 inline-block rounded-lg border">
                   <img 
-                    src={`/api/registrations/${registrationId}/qr`} 
+                    src={`${basePath}/qr`} 
                     alt="Registration QR Code"
                     className="w-48 h-48 mx-auto"
                   />
@@ -201,14 +228,12 @@ export default function ConfirmationPage() {
                     <h3 className="font-semibold">Primary Participant</h3>
                     <p>{registration.leaderInfo?.firstName} {registration.leaderInfo?.lastName}</p>
                     <p className="text-sm text-gray-600">{registration.leaderInfo?.email}</p>
-                    <p className="text-sm text-gray-600">{registration.leaderInfo?.phone}</p>
                   </div>
                   {registration.role === 'couple' && registration.followerInfo && (
                     <div>
                       <h3 className="font-semibold">Partner</h3>
                       <p>{registration.followerInfo.firstName} {registration.followerInfo.lastName}</p>
                       <p className="text-sm text-gray-600">{registration.followerInfo.email}</p>
-                      <p className="text-sm text-gray-600">{registration.followerInfo.phone}</p>
                     </div>
                   )}
                 </div>
@@ -253,7 +278,7 @@ export default function ConfirmationPage() {
                         Includes: Up to 6 workshops, all milongas, gala dinner{registration.packageType === 'premium-accommodation-4nights' ? ', 4 nights accommodation' : registration.packageType === 'premium-accommodation-3nights' ? ', 3 nights accommodation' : ''}
                       </p>
                     )}
-                    <p><strong>Total Amount:</strong> AED {registration.totalAmount?.toLocaleString()}</p>
+                    <p><strong>Total Amount:</strong> {formatChargedAmount(registration.totalAmount, registration)}</p>
                   </div>
                   <div>
                     <Badge variant={registration.paymentStatus === 'completed' ? 'default' : 'secondary'}>
@@ -267,6 +292,49 @@ export default function ConfirmationPage() {
               </CardContent>
             </Card>
 
+            {/* Balance Due on a payment plan */}
+            {registration.paymentPlan && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <CalendarClock className="h-5 w-5 mr-2" />
+                    Payment Plan
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <InstalmentSchedule registration={registration} basePath={basePath} canPay />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Price Breakdown, as accepted at checkout */}
+            {registration.priceQuote && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Receipt className="h-5 w-5 mr-2" />
+                    Price Breakdown
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PriceQuoteSummary quote={registration.priceQuote} charge={registration} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Tax Invoices */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <FileText className="h-5 w-5 mr-2" />
+                  Invoices
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <InvoiceDownloads basePath={basePath} />
+              </CardContent>
+            </Card>
+
             {/* Selected Workshops */}
             {selectedWorkshops.length > 0 && (
               <Card>
@@ -359,7 +427,7 @@ export default function ConfirmationPage() {
                             </div>
                           </div>
                           <div className="text-right">
-                            <p className="font-semibold">AED {milonga.price}</p>
+                            <p className="font-semibold">{formatChargedAmount(milonga.price, registration)}</p>
                           </div>
                         </div>
                       </div>
@@ -416,7 +484,7 @@ export default function ConfirmationPage() {
                             <p className="text-sm text-gray-600">{addon.description}</p>
                             <p className="text-sm text-gray-500">Quantity: {addonSelection.quantity}</p>
                           </div>
-                          <p className="font-semibold">AED {(parseFloat(addon.price) * addonSelection.quantity).toFixed(2)}</p>
+                          <p className="font-semibold">{formatChargedAmount(parseFloat(addon.price) * addonSelection.quantity, registration)}</p>
                         </div>
                       );
                     })}
@@ -431,6 +499,9 @@ export default function ConfirmationPage() {
           <p className="text-gray-600">
             Keep this QR code handy - it always shows your most up-to-date registration information
           </p>
+          <a href="/my-registration" className="inline-block mt-2 text-primary underline">
+            Manage your registration
+          </a>
         </div>
       </div>
     </div>
@@ -0,0 +1,377 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Loader2, LogOut, Mail } from "lucide-react";
+import { PortalSelectionEditor } from "@/components/portal-selection-editor";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { clearPortalToken, getPortalToken, portalRequest, setPortalToken } from "@/lib/portal";
+import type { Registration } from "@shared/schema";
+import { PACKAGE_LABELS } from "@shared/pricing";
+import { PAYMENT_STATUS_LABELS } from "@shared/broadcasts";
+import { formatChargedAmount } from "@shared/currency";
+
+interface PersonInfo {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  country: string;
+  level: string;
+}
+
+const PERSON_FIELDS: Array<[keyof PersonInfo, string]> = [
+  ["firstName", "First name"],
+  ["lastName", "Last name"],
+  ["phone", "Phone"],
+  ["country", "Country"],
+  ["level", "Level"],
+];
+
+const REGISTRATIONS_KEY = ["/api/portal/registrations"];
+
+type PortalRegistration = Registration & { accessToken: string };
+
+const registrationCode = (registration: Registration) =>
+  `${registration.packageType?.toUpperCase().substring(0, 3) || "REG"}-${registration.id.substring(0, 8).toUpperCase()}`;
+
+const statusLabel = (registration: Registration) =>
+  registration.cancelledAt
+    ? "Cancelled"
+    : PAYMENT_STATUS_LABELS[registration.paymentStatus as keyof typeof PAYMENT_STATUS_LABELS] || registration.paymentStatus;
+
+function SignInForm() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const loginMutation = useMutation({
+    mutationFn: () => portalRequest<{ message: string }>("POST", "/api/portal/login", { email }),
+    onSuccess: () => setSent(true),
+    onError: (error: any) => {
+      toast({ title: "Couldn't send link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="max-w-md w-full">
+      <CardHeader>
+        <CardTitle>Manage your registration</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {sent ? (
+          <div className="text-center space-y-2">
+            <Mail className="h-8 w-8 mx-auto text-primary" />
+            <p>If we have a registration for <span className="font-semibold">{email}</span>, a sign-in link is on its way.</p>
+            <p className="text-sm text-gray-500">The link works once and expires after 30 minutes.</p>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              loginMutation.mutate();
+            }}
+          >
+            <p className="text-sm text-gray-600">
+              Enter the email address you registered with and we'll email you a link to sign in.
+            </p>
+            <Input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} placeholder="you@example.com" />
+            <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+              {loginMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Email me a sign-in link
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PersonalInfoForm({ registration, onSaved }: { registration: Registration; onSaved: () => void }) {
+  const { toast } = useToast();
+  const [info, setInfo] = useState({
+    leaderInfo: registration.leaderInfo as PersonInfo | null,
+    followerInfo: registration.followerInfo as PersonInfo | null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => portalRequest("PUT", `/api/portal/registrations/${registration.id}/personal-info`, {
+      leaderInfo: info.leaderInfo ?? undefined,
+      followerInfo: info.followerInfo ?? undefined,
+    }),
+    onSuccess: () => {
+      toast({ title: "Details saved" });
+      onSaved();
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save details", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setField = (person: "leaderInfo" | "followerInfo", field: keyof PersonInfo, value: string) =>
+    setInfo((current) => ({ ...current, [person]: { ...current[person]!, [field]: value } }));
+
+  return (
+    <div className="space-y-6">
+      {(["leaderInfo", "followerInfo"] as const).map((person) => {
+        const details = info[person];
+        if (!details) return null;
+        return (
+          <div key={person} className="space-y-3">
+            <h4 className="font-semibold">{person === "leaderInfo" ? "Leader" : "Follower"}</h4>
+            <div className="grid sm:grid-cols-2 gap-3">
+              {PERSON_FIELDS.map(([field, label]) => (
+                <div key={field} className="space-y-1">
+                  <Label>{label}</Label>
+                  <Input value={details[field] || ""} onChange={(e) => setField(person, field, e.target.value)} />
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label>Email</Label>
+                <Input value={details.email} disabled />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+        {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Save details
+      </Button>
+    </div>
+  );
+}
+
+function CancellationRequest({ registration, onRequested }: { registration: Registration; onRequested: () => void }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: () => portalRequest("POST", `/api/portal/registrations/${registration.id}/cancellation-request`, { reason }),
+    onSuccess: () => {
+      toast({ title: "Request sent", description: "The organisers will be in touch about your cancellation." });
+      onRequested();
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't send request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (registration.cancelledAt) return null;
+  if (registration.cancellationRequestedAt) {
+    return (
+      <p className="text-sm text-gray-600">
+        You asked for this registration to be cancelled on {new Date(registration.cancellationRequestedAt).toLocaleDateString()}.
+        The organisers will be in touch about any refund.
+      </p>
+    );
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" className="text-red-600">Request cancellation</Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Request cancellation?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The organisers will review your request and refund you under the event's refund policy. Your places are
+            kept until they cancel the registration.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Textarea value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason (optional)" />
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep registration</AlertDialogCancel>
+          <AlertDialogAction onClick={() => requestMutation.mutate()}>Send request</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function RegistrationDetail({ registration, onBack }: { registration: PortalRegistration; onBack: () => void }) {
+  const refresh = () => queryClient.invalidateQueries({ queryKey: REGISTRATIONS_KEY });
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" onClick={onBack}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        All registrations
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>{registrationCode(registration)}</span>
+            <Badge variant="outline">{statusLabel(registration)}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p>{PACKAGE_LABELS[registration.packageType] || registration.packageType} · {registration.role}</p>
+          <p>Total: <span className="font-semibold">{formatChargedAmount(registration.totalAmount, registration)}</span></p>
+          <a className="text-primary underline" href={`/confirmation?token=${encodeURIComponent(registration.accessToken)}`}>View confirmation</a>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your bookings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PortalSelectionEditor key={`${registration.id}-${registration.totalAmount}`} registration={registration} onChanged={refresh} />
+        </CardContent>
+      </Card>
+
+      {!registration.cancelledAt && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Your details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PersonalInfoForm registration={registration} onSaved={refresh} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cancellation</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CancellationRequest registration={registration} onRequested={refresh} />
+          {registration.cancelledAt && <p className="text-sm text-gray-600">This registration has been cancelled.</p>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * The dancer portal: sign in with an emailed link, then see and manage
+ * every registration filed under that email address.
+ */
+export default function MyRegistrationPage() {
+  const { toast } = useToast();
+  const [signedIn, setSignedIn] = useState(() => !!getPortalToken());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const loginToken = new URLSearchParams(window.location.search).get("token");
+
+  // Swap the sign-in link's token for a session, then drop it from the URL
+  const sessionMutation = useMutation({
+    mutationFn: (token: string) => portalRequest<{ token: string }>("POST", "/api/portal/session", { token }),
+    onSuccess: (data) => {
+      setPortalToken(data.token);
+      setSignedIn(true);
+      window.history.replaceState(null, "", window.location.pathname);
+    },
+    onError: (error: any) => {
+      window.history.replaceState(null, "", window.location.pathname);
+      toast({ title: "Sign-in failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    if (loginToken) {
+      sessionMutation.mutate(loginToken);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const { data, isLoading, error } = useQuery<{ email: string; registrations: PortalRegistration[] }>({
+    queryKey: REGISTRATIONS_KEY,
+    queryFn: () => portalRequest("GET", "/api/portal/registrations"),
+    enabled: signedIn && !sessionMutation.isPending,
+  });
+
+  useEffect(() => {
+    if (error) {
+      setSignedIn(!!getPortalToken());
+    }
+  }, [error]);
+
+  const signOut = async () => {
+    try {
+      await portalRequest("DELETE", "/api/portal/session");
+    } catch {
+      // Forget the session locally whatever the server says
+    }
+    clearPortalToken();
+    queryClient.removeQueries({ queryKey: REGISTRATIONS_KEY });
+    setSelectedId(null);
+    setSignedIn(false);
+  };
+
+  if (sessionMutation.isPending || (signedIn && isLoading)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!signedIn || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <SignInForm />
+      </div>
+    );
+  }
+
+  const selected = data.registrations.find((registration) => registration.id === selectedId);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-3xl mx-auto px-4 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">My registrations</h1>
+            <p className="text-sm text-gray-500">Signed in as {data.email}</p>
+          </div>
+          <Button variant="outline" onClick={signOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </Button>
+        </div>
+
+        {selected ? (
+          <RegistrationDetail registration={selected} onBack={() => setSelectedId(null)} />
+        ) : data.registrations.length === 0 ? (
+          <p className="text-gray-600">There are no registrations under this email address.</p>
+        ) : (
+          data.registrations.map((registration) => (
+            <Card key={registration.id} className="cursor-pointer hover:shadow-md" onClick={() => setSelectedId(registration.id)}>
+              <CardContent className="p-4 flex items-center justify-between">
+                <div>
+                  <p className="font-semibold">{registrationCode(registration)}</p>
+                  <p className="text-sm text-gray-600">
+                    {PACKAGE_LABELS[registration.packageType] || registration.packageType} ·{" "}
+                    {formatChargedAmount(registration.totalAmount, registration)}
+                  </p>
+                </div>
+                <Badge variant="outline">{statusLabel(registration)}</Badge>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { ProgressIndicator } from "@/components/progress-indicator";
 import { PackageSelectionStep } from "@/components/package-selection-step";
 import { PersonalInfoStep } from "@/components/personal-info-step";
@@ -10,6 +10,8 @@ import { CheckoutStep } from "@/components/checkout-step";
 import { Music } from "lucide-react";
 import { useCurrentEvent } from "@/hooks/useCurrentEvent";
 import { PackagePricingDisplay } from "@/components/package-pricing-display";
+import { usePriceQuote } from "@/hooks/usePriceQuote";
+import { CurrencySelector } from "@/components/currency-selector";
 
 export interface PersonalInfo {
   firstName: string;
@@ -48,156 +50,6 @@ export interface RegistrationData {
   agreedToTerms?: boolean;
 }
 
-const calculateTotal = (data: RegistrationData, currentEvent?: any): number => {
-  const multiplier = data.role === 'couple' ? 2 : 1;
-  const isSingleOccupancy = data.role !== 'couple';
-  const now = new Date();
-  const packagesWithIncludedWorkshops = new Set([
-    'full',
-    'premium-accommodation-4nights',
-    'premium-accommodation-3nights'
-  ]);
-  const galaIncludedPackages = new Set([
-    'full',
-    'premium-accommodation-4nights',
-    'premium-accommodation-3nights',
-    'evening'
-  ]);
-  
-  // Helper function to get current pricing for a package type
-  const getPackagePrice = (packageType: 'full' | 'evening') => {
-    if (!currentEvent) {
-      return 0; // No fallback prices - return 0 if no event
-    }
-    
-    if (packageType === 'full') {
-      // Check 24-hour deal first
-      if (currentEvent.fullPackage24HourStartDate && 
-          currentEvent.fullPackage24HourEndDate && 
-          currentEvent.fullPackage24HourPrice > 0) {
-        const startDate = new Date(currentEvent.fullPackage24HourStartDate);
-        const endDate = new Date(currentEvent.fullPackage24HourEndDate);
-        if (now >= startDate && now <= endDate) {
-          return Number(currentEvent.fullPackage24HourPrice);
-        }
-      }
-      
-      // Check early bird
-      if (currentEvent.fullPackageEarlyBirdEndDate && 
-          currentEvent.fullPackageEarlyBirdPrice > 0 && 
-          new Date(currentEvent.fullPackageEarlyBirdEndDate) > now) {
-        return Number(currentEvent.fullPackageEarlyBirdPrice);
-      }
-      
-      // Standard price
-      return Number(currentEvent.fullPackageStandardPrice) || 0;
-    } else {
-      // Evening package
-      // Check 24-hour deal first
-      if (currentEvent.eveningPackage24HourStartDate && 
-          currentEvent.eveningPackage24HourEndDate && 
-          currentEvent.eveningPackage24HourPrice > 0) {
-        const startDate = new Date(currentEvent.eveningPackage24HourStartDate);
-        const endDate = new Date(currentEvent.eveningPackage24HourEndDate);
-        if (now >= startDate && now <= endDate) {
-          return Number(currentEvent.eveningPackage24HourPrice);
-        }
-      }
-      
-      // Check early bird
-      if (currentEvent.eveningPackageEarlyBirdEndDate && 
-          currentEvent.eveningPackageEarlyBirdPrice > 0 && 
-          new Date(currentEvent.eveningPackageEarlyBirdEndDate) > now) {
-        return Number(currentEvent.eveningPackageEarlyBirdPrice);
-      }
-      
-      // Standard price
-      return Number(currentEvent.eveningPackageStandardPrice) || 0;
-    }
-  };
-
-  // Helper function to get accommodation package pricing
-  const getAccommodationPrice = (nights: 3 | 4) => {
-    if (!currentEvent) return 0;
-    
-    const isEarlyBird = nights === 4
-      ? (currentEvent.premiumAccommodation4NightsEarlyBirdEndDate && 
-         new Date(currentEvent.premiumAccommodation4NightsEarlyBirdEndDate) > now)
-      : (currentEvent.premiumAccommodation3NightsEarlyBirdEndDate && 
-         new Date(currentEvent.premiumAccommodation3NightsEarlyBirdEndDate) > now);
-    
-    if (nights === 4) {
-      if (isEarlyBird) {
-        return isSingleOccupancy
-          ? Number(currentEvent.premiumAccommodation4NightsEarlyBirdSinglePrice || 0)
-          : Number(currentEvent.premiumAccommodation4NightsEarlyBirdDoublePrice || 0);
-      }
-      return isSingleOccupancy
-        ? Number(currentEvent.premiumAccommodation4NightsSinglePrice || 0)
-        : Number(currentEvent.premiumAccommodation4NightsDoublePrice || 0);
-    } else {
-      if (isEarlyBird) {
-        return isSingleOccupancy
-          ? Number(currentEvent.premiumAccommodation3NightsEarlyBirdSinglePrice || 0)
-          : Number(currentEvent.premiumAccommodation3NightsEarlyBirdDoublePrice || 0);
-      }
-      return isSingleOccupancy
-        ? Number(currentEvent.premiumAccommodation3NightsSinglePrice || 0)
-        : Number(currentEvent.premiumAccommodation3NightsDoublePrice || 0);
-    }
-  };
-  
-  // Package base cost - use dynamic pricing
-  let packageTotal = 0;
-  if (data.packageType === 'full') {
-    packageTotal = getPackagePrice('full') * multiplier;
-  } else if (data.packageType === 'evening') {
-    packageTotal = getPackagePrice('evening') * multiplier;
-  } else if (data.packageType === 'premium-accommodation-4nights') {
-    // Accommodation packages: price is already per person/couple, no multiplier needed
-    packageTotal = getAccommodationPrice(4);
-  } else if (data.packageType === 'premium-accommodation-3nights') {
-    // Accommodation packages: price is already per person/couple, no multiplier needed
-    packageTotal = getAccommodationPrice(3);
-  }
-  // Custom package has no base cost, everything is pay-as-you-go
-  
-  // Workshop costs
-  let workshopTotal = 0;
-  const workshopPrices = (data.workshopIds || []).map((workshopId) => {
-    const selection = data.workshopSelections?.find((item) => item.id === workshopId);
-    return selection?.price ?? 0;
-  });
-  const hasIncludedWorkshops = data.packageType ? packagesWithIncludedWorkshops.has(data.packageType) : false;
-  const includedLimit = hasIncludedWorkshops ? 6 : 0;
-
-  workshopPrices.forEach((price, index) => {
-    if (hasIncludedWorkshops && index < includedLimit) {
-      return;
-    }
-    workshopTotal += price * multiplier;
-  });
-  
-  // Milonga costs (only for custom package, included in full/evening packages)
-  let milongaTotal = 0;
-  if (data.packageType === 'custom') {
-    milongaTotal = data.milongaTotal || 0;
-  }
-  
-  // Seat costs (gala dinner)
-  let seatTotal = 0;
-  if (!galaIncludedPackages.has(data.packageType || '')) {
-    seatTotal = data.seatTotal || 0;
-  }
-  
-  // Addon costs
-  const addonTotal = data.addons?.reduce((total, addon) => {
-    return total + (parseFloat(addon.price || '0') * addon.quantity);
-  }, 0) || 0;
-  
-  return packageTotal + workshopTotal + milongaTotal + seatTotal + addonTotal;
-};
-
 export default function Registration() {
   const { currentEvent } = useCurrentEvent();
   const [currentStep, setCurrentStep] = useState(1);
@@ -213,11 +65,17 @@ export default function Registration() {
   });
 
   const updateRegistrationData = (updates: Partial<RegistrationData>) => {
-    const newData = { ...registrationData, ...updates };
-    const totalAmount = calculateTotal(newData, currentEvent);
-    setRegistrationData({ ...newData, totalAmount });
+    setRegistrationData(prev => ({ ...prev, ...updates }));
   };
 
+  // The total always comes from the shared pricing engine, so it follows
+  // price changes (e.g. an early bird ending) and late-loading catalog data
+  const quote = usePriceQuote(registrationData);
+  const pricedData = useMemo(
+    () => ({ ...registrationData, totalAmount: quote.total }),
+    [registrationData, quote.total],
+  );
+
   const getMaxSteps = () => {
     return registrationData.packageType === 'custom' ? 7 : 6;
   };
@@ -257,7 +115,7 @@ export default function Registration() {
       case 1:
         return (
           <PackageSelectionStep
-            data={registrationData}
+            data={pricedData}
             onUpdate={updateRegistrationData}
             onNext={nextStep}
           />
@@ -265,7 +123,7 @@ export default function Registration() {
       case 2:
         return (
           <PersonalInfoStep
-            data={registrationData}
+            data={pricedData}
             onUpdate={updateRegistrationData}
             onNext={nextStep}
             onPrev={prevStep}
@@ -276,7 +134,7 @@ export default function Registration() {
         if (registrationData.packageType === 'evening') {
           return (
             <GalaDinnerStep
-              data={registrationData}
+              data={pricedData}
               onUpdate={updateRegistrationData}
               onNext={nextStep}
             onPrev={prevStep}
@@ -288,7 +146,7 @@ export default function Registration() {
         // Note: Custom packages will branch to milonga selection at step 4
         return (
           <WorkshopSelectionStep
-            data={registrationData}
+            data={pricedData}
             onUpdate={updateRegistrationData}
             onNext={nextStep}
             onPrev={prevStep}
@@ -302,7 +160,7 @@ export default function Registration() {
         if (isCustomPackage) {
           return (
             <MilongaSelectionStep
-              data={registrationData}
+              data={pricedData}
               onUpdate={updateRegistrationData}
               onNext={nextStep}
               onBack={prevStep}
@@ -313,7 +171,7 @@ export default function Registration() {
           if (registrationData.wantsWorkshops === true) {
             return (
               <WorkshopSelectionStep
-                data={registrationData}
+                data={pricedData}
                 onUpdate={updateRegistrationData}
                 onNext={nextStep}
                 onPrev={prevStep}
@@ -324,7 +182,7 @@ export default function Registration() {
             // Skip to addons if they don't want workshops
             return (
               <AddonsStep
-                data={registrationData}
+                data={pricedData}
                 onUpdate={updateRegistrationData}
                 onNext={nextStep}
                 onPrev={prevStep}
@@ -335,7 +193,7 @@ export default function Registration() {
           // Premium and accommodation packages: Gala dinner
           return (
             <GalaDinnerStep
-              data={registrationData}
+              data={pricedData}
               onUpdate={updateRegistrationData}
               onNext={nextStep}
               onPrev={prevStep}
@@ -353,7 +211,7 @@ export default function Registration() {
         if (isCustomPackage && shouldShowGalaDinnerStep()) {
           return (
             <GalaDinnerStep
-              data={registrationData}
+              data={pricedData}
               onUpdate={updateRegistrationData}
               onNext={nextStep}
               onPrev={prevStep}
@@ -363,7 +221,7 @@ export default function Registration() {
         } else {
           return (
             <AddonsStep
-              data={registrationData}
+              data={pricedData}
               onUpdate={updateRegistrationData}
               onNext={nextStep}
               onPrev={prevStep}
@@ -376,7 +234,7 @@ export default function Registration() {
         if (isCustomPackage && shouldShowGalaDinnerStep()) {
           return (
             <AddonsStep
-              data={registrationData}
+              data={pricedData}
               onUpdate={updateRegistrationData}
               onNext={nextStep}
               onPrev={prevStep}
@@ -385,7 +243,7 @@ export default function Registration() {
         } else {
           return (
             <CheckoutStep
-              data={registrationData}
+              data={pricedData}
               onUpdate={updateRegistrationData}
               onPrev={prevStep}
             />
@@ -395,7 +253,7 @@ export default function Registration() {
         // Only for custom package with gala dinner
         return (
           <CheckoutStep
-            data={registrationData}
+            data={pricedData}
             onUpdate={updateRegistrationData}
             onPrev={prevStep}
           />
@@ -423,11 +281,14 @@ export default function Registration() {
               </div>
             </div>
             {currentEvent && (
-              <div className="text-left sm:text-right w-full sm:w-auto">
-                <p className="text-sm font-medium text-gray-900">
-                  {`${new Date(currentEvent.startDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'long' })} - ${new Date(currentEvent.endDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}`}
-                </p>
-                <p className="text-xs text-gray-500">{currentEvent.venue}</p>
+              <div className="flex items-center gap-4 w-full sm:w-auto">
+                <div className="text-left sm:text-right flex-1 sm:flex-none">
+                  <p className="text-sm font-medium text-gray-900">
+                    {`${new Date(currentEvent.startDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'long' })} - ${new Date(currentEvent.endDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}`}
+                  </p>
+                  <p className="text-xs text-gray-500">{currentEvent.venue}</p>
+                </div>
+                <CurrencySelector />
               </div>
             )}
           </div>
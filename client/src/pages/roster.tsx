@@ -0,0 +1,22 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { RosterView } from "@/components/roster-view";
+
+export default function RosterPage() {
+  const urlParams = new URLSearchParams(window.location.search);
+  // Shared roster links carry a signed token naming the roster and when it expires
+  const token = urlParams.get('token');
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <Card className="max-w-4xl mx-auto">
+        <CardContent className="p-6">
+          {token ? (
+            <RosterView basePath={`/api/rosters/${encodeURIComponent(token)}`} />
+          ) : (
+            <p className="text-sm text-gray-600">This link isn't valid. Ask the organisers for a new one.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
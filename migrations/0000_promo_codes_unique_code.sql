@@ -0,0 +1,31 @@
+-- One promo code per event, whatever its case (promo_codes_event_code_idx in
+-- shared/schema.ts). Run this before `npm run db:push` on a database that may
+-- already hold duplicates, which would stop the index from being built:
+--
+--   psql "$DATABASE_URL" -f migrations/0000_promo_codes_unique_code.sql
+--
+-- The oldest code of each duplicate group is kept as it is. The others are
+-- renamed CODE-DUP2, CODE-DUP3, ... and deactivated so an admin can review
+-- them; registrations keep the code they were made with.
+
+BEGIN;
+
+WITH ranked AS (
+  SELECT
+    id,
+    code,
+    row_number() OVER (PARTITION BY event_id, lower(code) ORDER BY created_at NULLS LAST, id) AS position
+  FROM promo_codes
+)
+UPDATE promo_codes
+SET
+  code = left(ranked.code, 40) || '-DUP' || ranked.position,
+  is_active = false,
+  updated_at = now()
+FROM ranked
+WHERE promo_codes.id = ranked.id
+  AND ranked.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS promo_codes_event_code_idx ON promo_codes ((event_id::text), lower(code));
+
+COMMIT;
@@ -0,0 +1,175 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { z } from "zod";
+import { updateRegistrationSchema } from "@shared/schema";
+
+// Every route that changes data must turn away requests without a valid
+// admin (or portal) token. The routes are read from the app itself, so a
+// route added later without a guard fails here unless it's deliberately
+// listed as public.
+
+// Nothing in these requests gets as far as the database, Stripe or Supabase
+process.env.STRIPE_SECRET_KEY ??= "sk_test_unused";
+process.env.SUPABASE_URL ??= "http://127.0.0.1:1";
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= "unused";
+process.env.SUPABASE_ANON_KEY ??= "unused";
+process.env.DATABASE_URL ??= "postgres://unused@127.0.0.1:1/unused";
+
+// Mutating routes anyone may call: checkout, the Stripe webhook (checked by
+// signature) and signing in
+const PUBLIC_ROUTES = new Set([
+  "POST /api/admin/login",
+  "POST /api/registrations",
+  "POST /api/promo-codes/validate",
+  "POST /api/waitlist",
+  "POST /api/create-payment-intent",
+  "POST /api/confirmations/:token/instalments/:instalmentId/payment-intent",
+  "POST /api/stripe/webhook",
+  "POST /api/calculate-pricing",
+  "POST /api/quotes",
+  "POST /api/portal/login",
+  "POST /api/portal/session",
+]);
+
+const MUTATING_METHODS = ["post", "put", "patch", "delete"];
+
+// Admin routes any signed-in admin may call whatever their permissions
+const PERMISSION_FREE_ADMIN_ROUTES = new Set(["GET /api/admin/verify"]);
+
+interface MutatingRoute {
+  method: string;
+  path: string;
+}
+
+// A concrete URL for a route path: the first option for constrained
+// parameters such as `:format(pdf|csv)`, a placeholder for the rest
+const toUrl = (path: string) =>
+  path
+    .replace(/:\w+\(([^)]*)\)/g, (_match, options: string) => options.split("|")[0])
+    .replace(/:\w+/g, "1");
+
+let server: Server;
+let baseUrl: string;
+let routes: MutatingRoute[];
+let adminRoutes: { name: string; checksPermission: boolean }[];
+
+before(async () => {
+  const { createApp } = await import("./app");
+  const app = await createApp();
+  routes = (app as any)._router.stack
+    .filter((layer: any) => layer.route)
+    .flatMap((layer: any) =>
+      Object.keys(layer.route.methods)
+        .filter((method) => MUTATING_METHODS.includes(method))
+        .map((method) => ({ method: method.toUpperCase(), path: layer.route.path as string })),
+    );
+  adminRoutes = (app as any)._router.stack
+    .filter((layer: any) => layer.route?.stack.some((handler: any) => handler.name === "requireAdmin"))
+    .flatMap((layer: any) =>
+      Object.keys(layer.route.methods).map((method) => ({
+        name: `${method.toUpperCase()} ${layer.route.path}`,
+        checksPermission: layer.route.stack.some((handler: any) => handler.name === "checkPermission"),
+      })),
+    );
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+const guardedRoutes = () => routes.filter((route) => !PUBLIC_ROUTES.has(`${route.method} ${route.path}`));
+
+describe("mutating routes", () => {
+  it("include the admin routes", () => {
+    const names = guardedRoutes().map((route) => `${route.method} ${route.path}`);
+    for (const expected of [
+      "POST /api/workshops",
+      "PUT /api/workshops/:id",
+      "DELETE /api/workshops/:id",
+      "PUT /api/workshops/:id/enrollment",
+      "POST /api/milongas",
+      "POST /api/addons",
+      "PUT /api/registrations/:id",
+      "DELETE /api/registrations/:id",
+      "POST /api/seating-layout",
+      "PUT /api/tables/:tableNumber/book",
+    ]) {
+      assert.ok(names.includes(expected), `${expected} is not registered`);
+    }
+  });
+
+  it("are all public by choice or return 401 without a token", async () => {
+    for (const route of guardedRoutes()) {
+      const response = await fetch(baseUrl + toUrl(route.path), {
+        method: route.method,
+        headers: { "Content-Type": "application/json" },
+        body: "{}",
+      });
+      assert.equal(response.status, 401, `${route.method} ${route.path} returned ${response.status}`);
+    }
+  });
+
+  it("return 401 with a token that doesn't verify", async () => {
+    for (const route of guardedRoutes().filter((route) => !route.path.startsWith("/api/portal/"))) {
+      const response = await fetch(baseUrl + toUrl(route.path), {
+        method: route.method,
+        headers: { "Content-Type": "application/json", Authorization: "Bearer not-a-real-token" },
+        body: "{}",
+      });
+      assert.equal(response.status, 401, `${route.method} ${route.path} returned ${response.status}`);
+    }
+  });
+});
+
+describe("admin reads", () => {
+  it("return 401 without a token", async () => {
+    for (const path of ["/api/registrations", "/api/events", "/api/seating-layout", "/api/admin/registrations", "/api/admin/audit-log"]) {
+      const response = await fetch(baseUrl + path);
+      assert.equal(response.status, 401, `GET ${path} returned ${response.status}`);
+    }
+  });
+});
+
+describe("admin routes", () => {
+  it("check a permission, so a signed-in admin without it gets 403", () => {
+    assert.ok(adminRoutes.some((route) => route.name === "GET /api/events"), "GET /api/events is not registered");
+    for (const route of adminRoutes) {
+      if (PERMISSION_FREE_ADMIN_ROUTES.has(route.name)) continue;
+      assert.ok(route.checksPermission, `${route.name} doesn't check a permission`);
+    }
+  });
+});
+
+describe("registration updates", () => {
+  it("accept the fields the admin edit dialog sends", () => {
+    assert.deepEqual(updateRegistrationSchema.parse({ workshopIds: ["w1"], selectedTableNumber: null }), {
+      workshopIds: ["w1"],
+      selectedTableNumber: null,
+    });
+  });
+
+  it("reject payment state", () => {
+    for (const body of [{ paymentStatus: "completed" }, { amountReceived: 100 }, { stripePaymentIntentId: "pi_1" }, { eventId: "other" }]) {
+      assert.throws(() => updateRegistrationSchema.parse(body), z.ZodError, JSON.stringify(body));
+    }
+  });
+});
+
+describe("cron jobs", () => {
+  it("return 401 without the cron secret", async () => {
+    for (const path of [
+      "/api/cron/release-holds",
+      "/api/cron/payment-reminders",
+      "/api/cron/instalments",
+      "/api/cron/emails",
+      "/api/cron/event-reminders",
+    ]) {
+      const response = await fetch(baseUrl + path, { headers: { Authorization: "Bearer not-the-secret" } });
+      assert.equal(response.status, 401, `GET ${path} returned ${response.status}`);
+    }
+  });
+});
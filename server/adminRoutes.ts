@@ -0,0 +1,1996 @@
+import type { Express, Request } from "express";
+import type Stripe from "stripe";
+import { z } from "zod";
+import type { LayoutSettings, WaitlistItemType } from "@shared/schema";
+import { storage, DuplicatePromoCodeError } from "./storage";
+import {
+  insertAdminUserSchema,
+  insertPricingTierSchema,
+  insertPackageConfigurationSchema,
+  insertEventSchema,
+  eventPricingSchema,
+  insertWorkshopSchema,
+  insertMilongaSchema,
+  insertAddonSchema,
+  insertPromoCodeSchema,
+  insertOfflinePaymentSchema,
+  insertEmailTemplateSchema,
+  insertBroadcastSchema,
+  insertCheckInSchema,
+  updateRegistrationSchema,
+  REGISTRATION_PAYMENT_FIELDS,
+  WAITLIST_ITEM_TYPES
+} from "@shared/schema";
+import { supabaseStorage } from "./supabaseStorage";
+import { requireAdmin, requirePermission } from "./auth";
+import { hasPermission, resolvePermissions } from "@shared/permissions";
+import { sanitizeEventData } from "./eventTypeValidator";
+import { logError, logObject, logDebug } from "./logger";
+import { offerWaitlistPlaces, promoteWaitlistsForRegistration, withQueuePositions } from "./waitlist";
+import { cancelRegistration, previewRefund, CancellationError } from "./cancellations";
+import { sendPaymentReminder, PAYMENT_DUE_DAYS } from "./paymentReminders";
+import { sendEmail } from "./mailer";
+import { issueEventInvoices, issueRegistrationInvoices, renderInvoicesPdf } from "./invoices";
+import { notifyRegistration } from "./notifications";
+import { getBroadcastAudience, sendBroadcast, BroadcastError } from "./broadcasts";
+import { confirmationUrl, createAccessToken, getBaseUrl, renderConfirmationQr } from "./registrationAccess";
+import {
+  checkInRegistration,
+  findRegistrationByCode,
+  getCheckInSessions,
+  getDancerCheckIn,
+  searchCheckInRegistrations,
+  CheckInError,
+} from "./checkIns";
+import { DEFAULT_EMAIL_TEMPLATES, NOTIFICATION_TYPES, getUnknownMergeFields } from "@shared/notifications";
+import { formatChargedAmount } from "@shared/currency";
+import { broadcastAudienceSchema } from "@shared/broadcasts";
+import { getDaysOutstanding, getOutstandingBalance } from "@shared/offlinePayments";
+import { getAdmissionStatus, getEntitledSessions } from "@shared/checkIn";
+import { registrationSearchSchema, type RegistrationPage } from "@shared/registrationSearch";
+import { registrationExportSchema, type RegistrationExport } from "@shared/registrationExport";
+import { renderPdfExport, writeCsvExport, writeXlsxExport } from "./registrationExport";
+import { rosterShareSchema, type RosterFileFormat, type RosterType } from "@shared/rosters";
+import { buildRoster, createRosterShareLink, sendRosterFile, RosterError } from "./rosters";
+import { analyticsQuerySchema } from "@shared/analytics";
+import {
+  getAddonSalesReport,
+  getAnalyticsOverview,
+  getAnalyticsTimeline,
+  getEventComparison,
+  getWorkshopFillRates,
+} from "./analytics";
+import { auditLogSearchSchema, type AuditLogPage } from "@shared/audit";
+import type { AuditLogEntry } from "@shared/schema";
+import { recordAudit } from "./audit";
+
+const MAX_UPLOAD_SIZE_BYTES = 5 * 1024 * 1024;
+const ALLOWED_IMAGE_CONTENT_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+// Image validation is now handled at upload time in Supabase Storage
+// This function is kept for backwards compatibility but simplified
+const ensureValidImageUpload = async (imagePath: string) => {
+  // Basic validation - file should exist and be accessible
+  if (!imagePath) {
+    throw new Error("Image path is required");
+  }
+  // Additional validation can be added here if needed
+};
+
+// Routes used by the admin dashboard. Every route registered here must be
+// guarded by requireAdminAuth; public routes belong in routes.ts.
+export function registerAdminRoutes(app: Express, stripe: Stripe): void {
+  // Use Supabase auth middleware for admin routes
+  const requireAdminAuth = requireAdmin;
+
+  // Admin User Management Routes
+
+  // Get all admin users
+  app.get("/api/admin/users", requireAdminAuth, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const adminUsers = await storage.getAdminUsers();
+      // Remove password field from response
+      const safeUsers = adminUsers.map(user => {
+        const { password, ...safeUser } = user;
+        return safeUser;
+      });
+      res.json(safeUsers);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching admin users: " + error.message });
+    }
+  });
+
+  // Create admin user
+  app.post("/api/admin/users", requireAdminAuth, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const validatedData = insertAdminUserSchema.parse(req.body);
+      const adminUser = await storage.createAdminUser(validatedData);
+      await recordAudit(storage, req, { action: "create", entityType: "admin_user", entityId: adminUser.id, after: adminUser });
+      
+      // Remove password field from response
+      const { password, ...safeUser } = adminUser;
+      res.json(safeUser);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error creating admin user: " + error.message });
+    }
+  });
+
+  // Update admin user
+  app.put("/api/admin/users/:id", requireAdminAuth, requirePermission("users.manage"), async (req, res) => {
+    try {
+      const validatedData = insertAdminUserSchema.partial().parse(req.body);
+
+      // Don't let an admin lock themselves out of user management
+      const currentAdmin = (req as any).admin;
+      if (String(currentAdmin.id) === req.params.id) {
+        const nextPermissions = resolvePermissions(
+          validatedData.role ?? currentAdmin.role,
+          validatedData.permissions ?? currentAdmin.permissions
+        );
+        if (validatedData.isActive === false || !nextPermissions.includes("users.manage")) {
+          return res.status(400).json({ message: "You cannot remove your own user management access" });
+        }
+      }
+
+      const previous = await storage.getAdminUser(req.params.id);
+      const adminUser = await storage.updateAdminUser(req.params.id, validatedData);
+      await recordAudit(storage, req, { action: "update", entityType: "admin_user", entityId: adminUser.id, before: previous, after: adminUser });
+      
+      // Remove password field from response
+      const { password, ...safeUser } = adminUser;
+      res.json(safeUser);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating admin user: " + error.message });
+    }
+  });
+
+  // Deactivate admin user (soft delete)
+  app.delete("/api/admin/users/:id", requireAdminAuth, requirePermission("users.manage"), async (req, res) => {
+    try {
+      if (String((req as any).admin.id) === req.params.id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+
+      const previous = await storage.getAdminUser(req.params.id);
+      const adminUser = await storage.deactivateAdminUser(req.params.id);
+      await recordAudit(storage, req, { action: "deactivate", entityType: "admin_user", entityId: adminUser.id, before: previous, after: adminUser });
+      
+      // Remove password field from response
+      const { password, ...safeUser } = adminUser;
+      res.json({ message: "Admin user deactivated successfully", user: safeUser });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deactivating admin user: " + error.message });
+    }
+  });
+
+  // Create addon (admin)
+  app.post("/api/addons", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      let addonData = req.body;
+      
+      // If eventId is not provided, try to get the current event
+      if (!addonData.eventId) {
+        const currentEvent = await storage.getCurrentEvent();
+        if (!currentEvent) {
+          return res.status(400).json({ 
+            message: "Event ID is required. Please select an event or set a current event." 
+          });
+        }
+        addonData = { ...addonData, eventId: currentEvent.id };
+      }
+      
+      // Validate the addon data (schema omits id, so we handle it separately)
+      const validatedData = insertAddonSchema.parse(addonData);
+      
+      // If a custom ID is provided, include it (for special addons like t-shirt)
+      if (addonData.id) {
+        (validatedData as any).id = addonData.id;
+      }
+      
+      const addon = await storage.createAddon(validatedData);
+      await recordAudit(storage, req, { action: "create", entityType: "addon", entityId: addon.id, after: addon });
+      res.json(addon);
+    } catch (error: any) {
+      console.error("Error creating addon:", error);
+      res.status(400).json({ message: "Error creating addon: " + error.message });
+    }
+  });
+
+  // Update addon (admin)
+  app.put("/api/addons/:id", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      const previous = await storage.getAddon(req.params.id);
+      const addon = await storage.updateAddon(req.params.id, req.body);
+      await recordAudit(storage, req, { action: "update", entityType: "addon", entityId: addon.id, before: previous, after: addon });
+      res.json(addon);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating addon: " + error.message });
+    }
+  });
+
+  // Delete addon (admin)
+  app.delete("/api/addons/:id", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      const previous = await storage.getAddon(req.params.id);
+      await storage.deleteAddon(req.params.id);
+      await recordAudit(storage, req, { action: "delete", entityType: "addon", entityId: req.params.id, before: previous });
+      res.json({ message: "Addon deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deleting addon: " + error.message });
+    }
+  });
+
+  // Update addon with image URL after upload
+  app.put("/api/addons/:id/image", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      const { imageURL } = req.body;
+      await ensureValidImageUpload(imageURL);
+      
+      // Get existing addon and update image path
+      const addon = await storage.getAddon(req.params.id);
+      if (!addon) {
+        return res.status(404).json({ message: "Addon not found" });
+      }
+
+      const updatedAddon = await storage.updateAddon(req.params.id, {
+        ...addon,
+        options: {
+          ...(addon.options as any),
+          image: imageURL
+        }
+      });
+      await recordAudit(storage, req, { action: "update", entityType: "addon", entityId: addon.id, before: addon, after: updatedAddon });
+
+      res.json(updatedAddon);
+    } catch (error: any) {
+      console.error("Error updating addon image:", error);
+      res.status(500).json({ message: "Error updating addon image: " + error.message });
+    }
+  });
+
+  // Get all registrations (for admin)
+  app.get("/api/registrations", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const registrations = await storage.getRegistrations();
+      res.json(registrations);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching registrations: " + error.message });
+    }
+  });
+
+  // One page of an event's registrations (the current one unless given),
+  // filtered, searched and sorted in the database
+  app.get("/api/admin/registrations", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const search = registrationSearchSchema.parse(req.query);
+      const eventId = search.eventId || (await storage.getCurrentEvent())?.id;
+      const { registrations, total } = await storage.searchRegistrations({ ...search, eventId });
+      const page: RegistrationPage<typeof registrations[number]> = {
+        registrations,
+        total,
+        page: search.page,
+        pageSize: search.pageSize,
+        pageCount: Math.max(1, Math.ceil(total / search.pageSize)),
+      };
+      res.json(page);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid search", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error searching registrations: " + error.message });
+    }
+  });
+
+  // The registrations matching a search, as a CSV, XLSX or PDF download of
+  // the chosen columns. CSV and XLSX are streamed as they're generated
+  app.get("/api/admin/registrations/export", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    let spec: RegistrationExport;
+    try {
+      spec = registrationExportSchema.parse(req.query);
+    } catch (error: any) {
+      return res.status(400).json({ message: error.errors?.[0]?.message || "Invalid export", errors: error.errors });
+    }
+
+    try {
+      const event = spec.eventId ? await storage.getEvent(spec.eventId) : await storage.getCurrentEvent();
+      spec = { ...spec, eventId: event?.id ?? spec.eventId };
+      const filename = `registrations-${event?.year ?? "all"}-${new Date().toISOString().slice(0, 10)}.${spec.format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      let count: number;
+      if (spec.format === "pdf") {
+        const rendered = await renderPdfExport(storage, spec, `${event?.name ?? "All events"} - Registrations`);
+        count = rendered.count;
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Length', rendered.pdf.length);
+        res.send(rendered.pdf);
+      } else if (spec.format === "xlsx") {
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        count = await writeXlsxExport(storage, spec, res);
+      } else {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        count = await writeCsvExport(storage, spec, res);
+      }
+
+      logObject("INFO", "Registrations exported", {
+        eventId: spec.eventId,
+        format: spec.format,
+        columns: spec.columns.length,
+        count,
+        exportedBy: (req as any).admin.email,
+      });
+    } catch (error: any) {
+      logError("Registration export error: " + (error.message || "Unknown error"));
+      // Part of a streamed file has gone out; cut it short so it isn't mistaken for a complete one
+      if (res.headersSent) {
+        return res.destroy(error);
+      }
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ message: "Error exporting registrations: " + error.message });
+    }
+  });
+
+  // Create workshop (admin)
+  app.post("/api/workshops", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      // Log workshop creation start
+      logDebug("\n========== WORKSHOP CREATION START ==========");
+      logObject("DEBUG", "Raw request body", req.body);
+      
+      let workshopData = { ...req.body };
+      
+      // If eventId is not provided or is empty, try to get the current event
+      if (!workshopData.eventId || workshopData.eventId === '' || workshopData.eventId === null || workshopData.eventId === undefined) {
+        console.log("No eventId provided, attempting to get current event...");
+        
+        // Try to get current event
+        const currentEvent = await storage.getCurrentEvent();
+        if (currentEvent) {
+          logDebug(`Using current event: ${currentEvent.name} (${currentEvent.id})`);
+        } else {
+          logError("No current event found");
+        }
+        
+        // If no current event, try to get first available event as fallback
+        if (!currentEvent || !currentEvent.id) {
+          console.warn("No current event found, trying to get first available event...");
+          const allEvents = await storage.getAllEvents();
+          console.log("All available events:", allEvents.map(e => ({ id: e.id, name: e.name, isCurrent: e.isCurrent })));
+          
+          if (allEvents.length === 0) {
+            console.error("No events found in database at all!");
+            return res.status(400).json({ 
+              message: "No events found. Please create an event first." 
+            });
+          }
+          
+          // Use first event as fallback
+          const fallbackEvent = allEvents[0];
+          console.warn("Using first available event as fallback:", { id: fallbackEvent.id, name: fallbackEvent.name });
+          workshopData.eventId = String(fallbackEvent.id);
+        } else {
+          // Phase 2: Explicitly set eventId and verify it's a string
+          workshopData.eventId = String(currentEvent.id);
+          logDebug(`Set eventId: ${workshopData.eventId}`);
+        }
+      }
+      
+      // Phase 2: Ensure eventId is set and is a string
+      if (!workshopData.eventId || typeof workshopData.eventId !== 'string') {
+        console.error("EventId validation failed:", { eventId: workshopData.eventId, type: typeof workshopData.eventId });
+        return res.status(400).json({ 
+          message: "Event ID is required and must be a valid string." 
+        });
+      }
+      
+      logDebug("Workshop data before field processing");
+      
+      // Ensure numeric fields are properly converted and valid
+      if (workshopData.leaderCapacity !== undefined && workshopData.leaderCapacity !== null) {
+        const leaderCap = Number(workshopData.leaderCapacity);
+        if (isNaN(leaderCap) || leaderCap < 0) {
+          return res.status(400).json({ message: "Leader capacity must be a valid positive number" });
+        }
+        workshopData.leaderCapacity = leaderCap;
+      }
+      
+      if (workshopData.followerCapacity !== undefined && workshopData.followerCapacity !== null) {
+        const followerCap = Number(workshopData.followerCapacity);
+        if (isNaN(followerCap) || followerCap < 0) {
+          return res.status(400).json({ message: "Follower capacity must be a valid positive number" });
+        }
+        workshopData.followerCapacity = followerCap;
+      }
+      
+      // Handle imbalanceTolerance (optional, empty disables balancing)
+      if (workshopData.imbalanceTolerance === undefined || workshopData.imbalanceTolerance === '') {
+        workshopData.imbalanceTolerance = null;
+      } else if (workshopData.imbalanceTolerance !== null) {
+        const tolerance = Number(workshopData.imbalanceTolerance);
+        if (!Number.isInteger(tolerance) || tolerance < 1) {
+          return res.status(400).json({ message: "Imbalance tolerance must be a whole number of 1 or more" });
+        }
+        workshopData.imbalanceTolerance = tolerance;
+      }
+      
+      // Calculate capacity from leaderCapacity + followerCapacity if not provided
+      if (!workshopData.capacity && workshopData.leaderCapacity !== undefined && workshopData.followerCapacity !== undefined) {
+        workshopData.capacity = Number(workshopData.leaderCapacity) + Number(workshopData.followerCapacity);
+      } else if (workshopData.capacity !== undefined) {
+        const cap = Number(workshopData.capacity);
+        if (isNaN(cap) || cap < 0) {
+          return res.status(400).json({ message: "Capacity must be a valid positive number" });
+        }
+        workshopData.capacity = cap;
+      }
+      
+      // Ensure price is a valid decimal string
+      if (workshopData.price !== undefined && workshopData.price !== null) {
+        const priceNum = Number(workshopData.price);
+        if (isNaN(priceNum) || priceNum < 0) {
+          return res.status(400).json({ message: "Price must be a valid positive number" });
+        }
+        workshopData.price = priceNum.toString();
+      }
+      
+      // Handle earlyBirdPrice
+      if (workshopData.earlyBirdPrice !== undefined && workshopData.earlyBirdPrice !== null && workshopData.earlyBirdPrice !== '') {
+        const earlyBirdNum = Number(workshopData.earlyBirdPrice);
+        if (isNaN(earlyBirdNum) || earlyBirdNum < 0) {
+          return res.status(400).json({ message: "Early bird price must be a valid positive number" });
+        }
+        workshopData.earlyBirdPrice = earlyBirdNum.toString();
+      } else {
+        workshopData.earlyBirdPrice = '0';
+      }
+      
+      // Convert date fields to Date objects if they're strings
+      if (workshopData.date !== undefined && workshopData.date !== null) {
+        if (typeof workshopData.date === 'string') {
+          const dateObj = new Date(workshopData.date);
+          if (isNaN(dateObj.getTime())) {
+            return res.status(400).json({ message: "Invalid date format" });
+          }
+          workshopData.date = dateObj;
+        } else if (!(workshopData.date instanceof Date)) {
+          return res.status(400).json({ message: "Date must be a valid date" });
+        }
+      }
+      
+      // Handle earlyBirdEndDate (optional)
+      if (workshopData.earlyBirdEndDate !== undefined && workshopData.earlyBirdEndDate !== null && workshopData.earlyBirdEndDate !== '') {
+        if (typeof workshopData.earlyBirdEndDate === 'string') {
+          const dateObj = new Date(workshopData.earlyBirdEndDate);
+          if (isNaN(dateObj.getTime())) {
+            return res.status(400).json({ message: "Invalid early bird end date format" });
+          }
+          workshopData.earlyBirdEndDate = dateObj;
+        } else if (!(workshopData.earlyBirdEndDate instanceof Date)) {
+          return res.status(400).json({ message: "Early bird end date must be a valid date" });
+        }
+      } else {
+        workshopData.earlyBirdEndDate = null;
+      }
+      
+      // Phase 1 & 2: Double-check eventId is still present before validation
+      if (!workshopData.eventId) {
+        console.error("EventId missing before validation!");
+        return res.status(400).json({ 
+          message: "Event ID is missing. Please ensure an event is selected or set as current." 
+        });
+      }
+      
+      // Log before Zod validation
+      logDebug("Workshop data before Zod validation");
+      
+      // Phase 2: Store eventId separately to ensure it survives validation
+      const eventIdToPreserve = String(workshopData.eventId);
+      
+      // Validate the workshop data
+      let validatedData;
+      try {
+        validatedData = insertWorkshopSchema.parse(workshopData);
+      } catch (validationError: any) {
+        logError(`Zod validation error: ${validationError.message}`);
+        logObject("ERROR", "Data that failed validation", workshopData);
+        return res.status(400).json({ 
+          message: "Validation error: " + validationError.message 
+        });
+      }
+      
+      // Log after Zod validation
+      logDebug(`Validated data - eventId: ${validatedData.eventId}`);
+      
+      // Phase 2: Ensure eventId survives validation - add it back if missing
+      if (!validatedData.eventId) {
+        console.warn("EventId lost during Zod validation! Restoring from preserved value.");
+        validatedData.eventId = eventIdToPreserve;
+      }
+      
+      // Final check: ensure eventId is in validated data
+      if (!validatedData.eventId) {
+        console.error("EventId still missing after restoration!");
+        console.error("Original data:", JSON.stringify(workshopData, null, 2));
+        console.error("Validated data:", JSON.stringify(validatedData, null, 2));
+        return res.status(400).json({ 
+          message: "Event ID validation failed. Please ensure an event is selected." 
+        });
+      }
+      
+      // Final check before database insert
+      logDebug(`Final check - eventId: ${validatedData.eventId}, type: ${typeof validatedData.eventId}`);
+      
+      // CRITICAL CHECK: Verify eventId one more time before calling createWorkshop
+      if (!validatedData.eventId || validatedData.eventId === 'undefined' || validatedData.eventId === 'null') {
+        logError("CRITICAL ERROR: eventId is missing or invalid right before createWorkshop!");
+        logObject("ERROR", "ValidatedData object", validatedData);
+        logError(`ValidatedData keys: ${Object.keys(validatedData).join(", ")}`);
+        return res.status(400).json({ 
+          message: "Event ID is missing. This should not happen. Please check server logs." 
+        });
+      }
+      
+      logDebug(`Calling storage.createWorkshop with eventId: ${validatedData.eventId}`);
+      const workshop = await storage.createWorkshop(validatedData);
+      await recordAudit(storage, req, { action: "create", entityType: "workshop", entityId: workshop.id, after: workshop });
+      logDebug("=== WORKSHOP CREATION SUCCESS ===");
+      res.json(workshop);
+    } catch (error: any) {
+      // Ensure error logs are visible even if truncated
+      logError("\n========== WORKSHOP CREATION ERROR ==========");
+      logError(`Error message: ${error.message}`);
+      logError(`Error stack: ${error.stack}`);
+      logError(`Error code: ${error.code}`);
+      logError(`Error detail: ${error.detail}`);
+      logError(`Error hint: ${error.hint}`);
+      logObject("ERROR", "Workshop data received", req.body);
+      logError("=============================================\n");
+      
+      // Log full error message without truncation
+      const fullErrorMessage = error.message || "Unknown error";
+      logError(`FULL ERROR MESSAGE: ${fullErrorMessage}`);
+      
+      res.status(400).json({ message: "Error creating workshop: " + fullErrorMessage });
+    }
+  });
+
+  // Update workshop (admin)
+  app.put("/api/workshops/:id", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      let workshopData = { ...req.body };
+      
+      // Convert date fields to Date objects if they're strings
+      if (workshopData.date !== undefined && workshopData.date !== null) {
+        if (typeof workshopData.date === 'string') {
+          const dateObj = new Date(workshopData.date);
+          if (isNaN(dateObj.getTime())) {
+            return res.status(400).json({ message: "Invalid date format" });
+          }
+          workshopData.date = dateObj;
+        } else if (!(workshopData.date instanceof Date)) {
+          return res.status(400).json({ message: "Date must be a valid date" });
+        }
+      }
+      
+      // Handle earlyBirdEndDate (optional)
+      if (workshopData.earlyBirdEndDate !== undefined && workshopData.earlyBirdEndDate !== null && workshopData.earlyBirdEndDate !== '') {
+        if (typeof workshopData.earlyBirdEndDate === 'string') {
+          const dateObj = new Date(workshopData.earlyBirdEndDate);
+          if (isNaN(dateObj.getTime())) {
+            return res.status(400).json({ message: "Invalid early bird end date format" });
+          }
+          workshopData.earlyBirdEndDate = dateObj;
+        } else if (!(workshopData.earlyBirdEndDate instanceof Date)) {
+          return res.status(400).json({ message: "Early bird end date must be a valid date" });
+        }
+      } else if (workshopData.earlyBirdEndDate === '') {
+        workshopData.earlyBirdEndDate = null;
+      }
+      
+      // Handle imbalanceTolerance (optional, empty disables balancing)
+      if (workshopData.imbalanceTolerance === '') {
+        workshopData.imbalanceTolerance = null;
+      } else if (workshopData.imbalanceTolerance !== undefined && workshopData.imbalanceTolerance !== null) {
+        const tolerance = Number(workshopData.imbalanceTolerance);
+        if (!Number.isInteger(tolerance) || tolerance < 1) {
+          return res.status(400).json({ message: "Imbalance tolerance must be a whole number of 1 or more" });
+        }
+        workshopData.imbalanceTolerance = tolerance;
+      }
+      
+      const previous = await storage.getWorkshop(req.params.id);
+      const workshop = await storage.updateWorkshop(req.params.id, workshopData);
+      await recordAudit(storage, req, { action: "update", entityType: "workshop", entityId: workshop.id, before: previous, after: workshop });
+      res.json(workshop);
+    } catch (error: any) {
+      console.error("Error updating workshop:", error);
+      res.status(400).json({ message: "Error updating workshop: " + error.message });
+    }
+  });
+
+  // Delete workshop (admin)
+  app.delete("/api/workshops/:id", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      const previous = await storage.getWorkshop(req.params.id);
+      await storage.deleteWorkshop(req.params.id);
+      await recordAudit(storage, req, { action: "delete", entityType: "workshop", entityId: req.params.id, before: previous });
+      res.json({ message: "Workshop deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deleting workshop: " + error.message });
+    }
+  });
+
+  // Create milonga (admin)
+  app.post("/api/milongas", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      let milongaData = req.body;
+      
+      // If eventId is not provided, try to get the current event
+      if (!milongaData.eventId) {
+        const currentEvent = await storage.getCurrentEvent();
+        if (!currentEvent) {
+          return res.status(400).json({ 
+            message: "Event ID is required. Please select an event or set a current event." 
+          });
+        }
+        milongaData = { ...milongaData, eventId: currentEvent.id };
+      }
+      
+      // Validate the milonga data
+      const validatedData = insertMilongaSchema.parse(milongaData);
+      const milonga = await storage.createMilonga(validatedData);
+      await recordAudit(storage, req, { action: "create", entityType: "milonga", entityId: milonga.id, after: milonga });
+      res.json(milonga);
+    } catch (error: any) {
+      console.error("Error creating milonga:", error);
+      res.status(400).json({ message: "Error creating milonga: " + error.message });
+    }
+  });
+
+  // Update milonga (admin)
+  app.put("/api/milongas/:id", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      const previous = await storage.getMilonga(req.params.id);
+      const milonga = await storage.updateMilonga(req.params.id, req.body);
+      await recordAudit(storage, req, { action: "update", entityType: "milonga", entityId: milonga.id, before: previous, after: milonga });
+      res.json(milonga);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating milonga: " + error.message });
+    }
+  });
+
+  // Delete milonga (admin)
+  app.delete("/api/milongas/:id", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      const previous = await storage.getMilonga(req.params.id);
+      await storage.deleteMilonga(req.params.id);
+      await recordAudit(storage, req, { action: "delete", entityType: "milonga", entityId: req.params.id, before: previous });
+      res.json({ message: "Milonga deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deleting milonga: " + error.message });
+    }
+  });
+
+  // Update workshop enrollment (admin)
+  app.put("/api/workshops/:id/enrollment", requireAdminAuth, requirePermission("catalog.write"), async (req, res) => {
+    try {
+      const { enrolled } = req.body;
+      const previous = await storage.getWorkshop(req.params.id);
+      const workshop = await storage.updateWorkshopEnrollment(req.params.id, enrolled);
+      await recordAudit(storage, req, { action: "update", entityType: "workshop", entityId: workshop.id, before: previous, after: workshop });
+      res.json(workshop);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating enrollment: " + error.message });
+    }
+  });
+
+  // Update seat availability (admin)
+  app.put("/api/seats/:id", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    try {
+      const { isAvailable } = req.body;
+      const previous = await storage.getSeat(req.params.id);
+      const seat = await storage.updateSeatAvailability(req.params.id, isAvailable);
+      await recordAudit(storage, req, { action: "update", entityType: "seat", entityId: seat.id, before: previous, after: seat });
+      res.json(seat);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating seat: " + error.message });
+    }
+  });
+
+  // Registration by id, with full personal details (admin). Dancers reach
+  // theirs through the confirmation routes, keyed on an access token.
+  app.get("/api/registrations/:id", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      res.json(registration);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching registration: " + error.message });
+    }
+  });
+
+  app.get("/api/registrations/:id/qr", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      const qrCodeBuffer = await renderConfirmationQr(getBaseUrl(req), registration);
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Content-Length', qrCodeBuffer.length);
+      res.send(qrCodeBuffer);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error generating QR code: " + error.message });
+    }
+  });
+
+  app.get("/api/registrations/:id/instalments", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      res.json(await storage.getPaymentInstalments(registration.id));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching instalments: " + error.message });
+    }
+  });
+
+  app.get("/api/registrations/:id/invoices", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      res.json(await issueRegistrationInvoices(storage, registration));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching invoices: " + error.message });
+    }
+  });
+
+  app.get("/api/registrations/:id/invoices/:invoiceId/pdf", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.invoiceId);
+      if (!invoice || invoice.registrationId !== req.params.id) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const pdf = await renderInvoicesPdf(storage, [invoice]);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.number}.pdf"`);
+      res.setHeader('Content-Length', pdf.length);
+      res.send(pdf);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error generating invoice: " + error.message });
+    }
+  });
+
+  // The dancer's confirmation link, e.g. to send it to them again
+  app.get("/api/admin/registrations/:id/access-token", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      res.json({ accessToken: createAccessToken(registration), confirmationUrl: confirmationUrl(getBaseUrl(req), registration) });
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching confirmation link: " + error.message });
+    }
+  });
+
+  // Issue a new confirmation link, invalidating the old one and its QR code
+  app.post("/api/admin/registrations/:id/access-token", requireAdminAuth, requirePermission("registrations.write"), async (req, res) => {
+    try {
+      const previous = await storage.getRegistration(req.params.id);
+      const registration = await storage.rotateRegistrationAccessToken(req.params.id);
+      await recordAudit(storage, req, { action: "rotate_link", entityType: "registration", entityId: registration.id, before: previous, after: registration });
+      logObject("INFO", "Confirmation link rotated", {
+        registrationId: registration.id,
+        accessTokenVersion: registration.accessTokenVersion,
+        rotatedBy: (req as any).admin?.email,
+      });
+      res.json({ accessToken: createAccessToken(registration), confirmationUrl: confirmationUrl(getBaseUrl(req), registration) });
+    } catch (error: any) {
+      if (error.message === "Registration not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error rotating confirmation link: " + error.message });
+    }
+  });
+
+  // Update registration (admin)
+  app.put("/api/registrations/:id", requireAdminAuth, requirePermission("registrations.write"), async (req, res) => {
+    try {
+      const updates = updateRegistrationSchema.parse(req.body);
+      const paymentFields = REGISTRATION_PAYMENT_FIELDS.filter((field) => field in updates);
+      if (paymentFields.length > 0 && !hasPermission((req as any).admin, "payments.write")) {
+        return res.status(403).json({ error: `Forbidden - Missing permission: payments.write to change ${paymentFields.join(", ")}` });
+      }
+
+      const previous = await storage.getRegistration(req.params.id);
+      const registration = await storage.updateRegistration(req.params.id, updates);
+      await recordAudit(storage, req, { action: "update", entityType: "registration", entityId: registration.id, before: previous, after: registration });
+      res.json(registration);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message, errors: error.errors });
+      }
+      res.status(400).json({ message: "Error updating registration: " + error.message });
+    }
+  });
+
+  // Update registration payment status (admin)
+  app.put("/api/registrations/:id/payment", requireAdminAuth, requirePermission("payments.write"), async (req, res) => {
+    try {
+      const { paymentStatus, paymentIntentId } = req.body;
+      const previous = await storage.getRegistration(req.params.id);
+      const registration = await storage.updateRegistrationPayment(req.params.id, paymentStatus, paymentIntentId);
+      await recordAudit(storage, req, { action: "update", entityType: "registration", entityId: registration.id, before: previous, after: registration });
+      res.json(registration);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating payment: " + error.message });
+    }
+  });
+
+  // Refund the registration would get if cancelled now, under its event's policy
+  app.get("/api/registrations/:id/refund-preview", requireAdminAuth, requirePermission("registrations.refund"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      res.json(await previewRefund(storage, registration));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error calculating refund: " + error.message });
+    }
+  });
+
+  // Cancel a registration, refund it and release its places. Unlike
+  // deleting, the registration and its payment record are kept.
+  app.post("/api/registrations/:id/cancel", requireAdminAuth, requirePermission("registrations.refund"), async (req, res) => {
+    try {
+      const { reason, refundAmount } = req.body;
+      if (refundAmount !== undefined && refundAmount !== null && typeof refundAmount !== "number") {
+        return res.status(400).json({ message: "Refund amount must be a number" });
+      }
+      const previous = await storage.getRegistration(req.params.id);
+      const result = await cancelRegistration(storage, stripe, req.params.id, {
+        cancelledBy: (req as any).admin.email,
+        reason: typeof reason === "string" ? reason : null,
+        refundAmount: refundAmount ?? undefined,
+      });
+      logObject("INFO", "Registration cancelled", {
+        registrationId: result.registration.id,
+        cancelledBy: result.registration.cancelledBy,
+        refundAmount: result.refund.amount,
+      });
+      await recordAudit(storage, req, { action: "cancel", entityType: "registration", entityId: result.registration.id, before: previous, after: result.registration });
+      // Date the credit note from the cancellation; otherwise it is issued
+      // the next time the registration's invoices are fetched
+      try {
+        await issueRegistrationInvoices(storage, result.registration);
+      } catch (invoiceError: any) {
+        logError(`Failed to issue credit note for registration ${result.registration.id}: ${invoiceError.message}`);
+      }
+      res.json({
+        registration: result.registration,
+        refund: result.refund,
+        waitlistOffers: result.waitlistOffers,
+      });
+    } catch (error: any) {
+      if (error instanceof CancellationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      logError("Cancel registration error: " + (error.message || "Unknown error"));
+      res.status(500).json({ message: "Error cancelling registration: " + error.message });
+    }
+  });
+
+  // Offline payment ledger for a registration
+  app.get("/api/registrations/:id/offline-payments", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const payments = await storage.getOfflinePayments(req.params.id);
+      res.json(payments);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching offline payments: " + error.message });
+    }
+  });
+
+  // Record money received offline; updates the balance and payment status
+  app.post("/api/registrations/:id/offline-payments", requireAdminAuth, requirePermission("payments.write"), async (req, res) => {
+    try {
+      const paymentData = insertOfflinePaymentSchema.parse(req.body);
+      const result = await storage.recordOfflinePayment(req.params.id, paymentData, (req as any).admin.email);
+      // Logged against the registration, as the payment itself
+      await recordAudit(storage, req, { action: "record_payment", entityType: "registration", entityId: result.registration.id, after: result.payment });
+      await notifyRegistration(storage, "payment_confirmed", result.registration, `payment_confirmed:${result.payment.id}`, {
+        amount: formatChargedAmount(result.payment.amount, result.registration),
+      });
+      res.json(result);
+    } catch (error: any) {
+      if (error.message === "Registration not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Error recording payment: " + error.message });
+    }
+  });
+
+  // Remove a payment recorded by mistake
+  app.delete("/api/offline-payments/:id", requireAdminAuth, requirePermission("payments.write"), async (req, res) => {
+    try {
+      const { payment, registration } = await storage.deleteOfflinePayment(req.params.id);
+      await recordAudit(storage, req, { action: "remove_payment", entityType: "registration", entityId: registration.id, before: payment });
+      res.json(registration);
+    } catch (error: any) {
+      if (error.message === "Offline payment not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Error deleting payment: " + error.message });
+    }
+  });
+
+  // Issue the invoices and credit notes an event's registrations are missing
+  app.post("/api/admin/events/:eventId/invoices/issue", requireAdminAuth, requirePermission("payments.write"), async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const result = await issueEventInvoices(storage, event.id);
+      logObject("INFO", "Invoices issued", { eventId: event.id, ...result });
+      await recordAudit(storage, req, {
+        action: "issue_invoices",
+        entityType: "event",
+        entityId: event.id,
+        after: { eventId: event.id, ...result },
+      });
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error issuing invoices: " + error.message });
+    }
+  });
+
+  // Every invoice and credit note of an event, regenerated as one PDF
+  app.get("/api/admin/events/:eventId/invoices/pdf", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const invoices = await storage.getEventInvoices(req.params.eventId);
+      if (invoices.length === 0) {
+        return res.status(404).json({ message: "No invoices have been issued for this event" });
+      }
+      const pdf = await renderInvoicesPdf(storage, invoices);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="invoices-${req.params.eventId}.pdf"`);
+      res.setHeader('Content-Length', pdf.length);
+      res.send(pdf);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error generating invoices: " + error.message });
+    }
+  });
+
+  // Offline registrations with a balance still to pay, oldest first
+  app.get("/api/admin/offline-payments/outstanding", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      const now = new Date();
+      const registrations = await storage.getOutstandingOfflineRegistrations(eventId);
+      res.json(registrations.map((registration) => {
+        const daysOutstanding = getDaysOutstanding(registration.createdAt, now);
+        return {
+          ...registration,
+          balance: getOutstandingBalance(registration.totalAmount, registration.amountReceived),
+          daysOutstanding,
+          overdue: daysOutstanding >= PAYMENT_DUE_DAYS,
+        };
+      }));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching outstanding payments: " + error.message });
+    }
+  });
+
+  // Send a payment reminder now, regardless of the schedule
+  app.post("/api/registrations/:id/payment-reminder", requireAdminAuth, requirePermission("payments.write"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      const awaitingPayment = registration.paymentMethod === "offline" &&
+        !registration.cancelledAt &&
+        ["pending", "partially_paid"].includes(registration.paymentStatus || "pending");
+      if (!awaitingPayment) {
+        return res.status(400).json({ message: "This registration has no outstanding offline balance" });
+      }
+      if (!(await sendPaymentReminder(storage, sendEmail, registration))) {
+        return res.status(503).json({ message: "Reminder not sent: no contact email or email is not configured" });
+      }
+      await recordAudit(storage, req, {
+        action: "send_payment_reminder",
+        entityType: "registration",
+        entityId: registration.id,
+        after: {
+          eventId: registration.eventId,
+          balance: getOutstandingBalance(registration.totalAmount, registration.amountReceived),
+        },
+      });
+      res.json({ message: "Payment reminder sent" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Error sending payment reminder: " + error.message });
+    }
+  });
+
+  // Delete registration (admin)
+  app.delete("/api/registrations/:id", requireAdminAuth, requirePermission("registrations.delete"), async (req, res) => {
+    try {
+      // Express automatically decodes URL parameters, but ensure we have a valid string
+      let registrationId = req.params.id;
+      
+      // Validate ID format
+      if (!registrationId || typeof registrationId !== 'string') {
+        return res.status(400).json({ message: "Invalid registration ID format" });
+      }
+      
+      // Trim and validate the ID
+      registrationId = registrationId.trim();
+      if (registrationId === '') {
+        return res.status(400).json({ message: "Registration ID cannot be empty" });
+      }
+
+      logDebug(`Attempting to delete registration with ID: ${registrationId}`);
+      const registration = await storage.getRegistration(registrationId);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+
+      // Release workshop enrollments
+      // Note: Workshop enrollments are recalculated dynamically in getWorkshops,
+      // so we don't need to manually decrement them here. The deletion will
+      // automatically be reflected in the next query.
+
+      // Release milonga enrollments
+      if (registration.milongaIds && Array.isArray(registration.milongaIds)) {
+        for (const milongaId of registration.milongaIds) {
+          const milonga = await storage.getMilonga(milongaId);
+          if (milonga) {
+            const multiplier = registration.role === 'couple' ? 2 : 1;
+            await storage.updateMilongaEnrollment(milongaId, Math.max(0, (milonga.enrolled || 0) - multiplier));
+          }
+        }
+      }
+
+      // Release table seats
+      if (registration.selectedTableNumber) {
+        const seatsToRelease = registration.role === 'couple' ? 2 : 1;
+        await storage.updateTableOccupancy(registration.selectedTableNumber, -seatsToRelease);
+      }
+
+      // Release gala dinner seats (backward compatibility)
+      if (registration.seatIds && Array.isArray(registration.seatIds)) {
+        for (const seatId of registration.seatIds) {
+          await storage.updateSeatAvailability(seatId, true);
+        }
+      }
+
+      // Delete the registration
+      await storage.deleteRegistration(registrationId.trim());
+      await recordAudit(storage, req, { action: "delete", entityType: "registration", entityId: registration.id, before: registration });
+
+      // Offer the released places to the waitlist
+      const waitlistOffers = await promoteWaitlistsForRegistration(registration, storage);
+      res.json({ message: "Registration deleted successfully", waitlistOffers: waitlistOffers.length });
+    } catch (error: any) {
+      console.error("Delete registration error:", error);
+      logError("Delete registration error: " + (error.message || "Unknown error"));
+      logObject("ERROR", "Registration ID", req.params.id);
+      res.status(500).json({ message: "Error deleting registration: " + error.message });
+    }
+  });
+
+  // Waitlist queues (admin)
+  app.get("/api/admin/waitlist", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string" ? req.query.eventId : undefined;
+      const entries = await storage.getWaitlistEntries(eventId);
+      res.json(withQueuePositions(entries));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching waitlist: " + error.message });
+    }
+  });
+
+  // Offer any free places on an item to the front of its queue
+  app.post("/api/admin/waitlist/promote", requireAdminAuth, requirePermission("registrations.write"), async (req, res) => {
+    try {
+      const { itemType, itemId } = req.body;
+      if (!WAITLIST_ITEM_TYPES.includes(itemType) || typeof itemId !== "string" || !itemId) {
+        return res.status(400).json({ message: "A valid itemType and itemId are required" });
+      }
+      const promoted = await offerWaitlistPlaces(storage, itemType, itemId);
+      for (const entry of promoted) {
+        await recordAudit(storage, req, { action: "offer_place", entityType: "waitlist_entry", entityId: entry.id, after: entry });
+      }
+      res.json(promoted);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error promoting waitlist: " + error.message });
+    }
+  });
+
+  app.delete("/api/admin/waitlist/:id", requireAdminAuth, requirePermission("registrations.write"), async (req, res) => {
+    try {
+      const previous = await storage.getWaitlistEntry(req.params.id);
+      const entry = await storage.cancelWaitlistEntry(req.params.id);
+      await recordAudit(storage, req, { action: "cancel", entityType: "waitlist_entry", entityId: entry.id, before: previous, after: entry });
+      // A cancelled offer frees its held place for the next in line
+      if (entry.offeredAt) {
+        const promoted = await offerWaitlistPlaces(storage, entry.itemType as WaitlistItemType, entry.itemId);
+        for (const offered of promoted) {
+          await recordAudit(storage, req, { action: "offer_place", entityType: "waitlist_entry", entityId: offered.id, after: offered });
+        }
+      }
+      res.json(entry);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error removing waitlist entry: " + error.message });
+    }
+  });
+
+  // Seating layout management
+  app.post("/api/seating-layout", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    try {
+      // Store layout configuration
+      const previous = await storage.getSeatingLayout();
+      const layout = await storage.saveSeatingLayout(req.body);
+      await recordAudit(storage, req, { action: "update", entityType: "seating_layout", entityId: "seating-layout", before: previous, after: layout });
+      res.json(layout);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error saving layout: " + error.message });
+    }
+  });
+
+  app.get("/api/seating-layout", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    try {
+      const layout = await storage.getSeatingLayout();
+      res.json(layout);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error fetching layout: " + error.message });
+    }
+  });
+
+  // Table management routes
+  app.post("/api/tables", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    try {
+      const table = await storage.createTable(req.body);
+      await recordAudit(storage, req, { action: "create", entityType: "table", entityId: table.id, after: table });
+      res.json(table);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error creating table: " + error.message });
+    }
+  });
+
+  app.put("/api/tables/:id", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    try {
+      const previous = await storage.getTable(req.params.id);
+      const table = await storage.updateTable(req.params.id, req.body);
+      await recordAudit(storage, req, { action: "update", entityType: "table", entityId: table.id, before: previous, after: table });
+      res.json(table);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating table: " + error.message });
+    }
+  });
+
+  app.delete("/api/tables/:id", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    try {
+      const previous = await storage.getTable(req.params.id);
+      await storage.deleteTable(req.params.id);
+      await recordAudit(storage, req, { action: "delete", entityType: "table", entityId: req.params.id, before: previous });
+      res.json({ message: "Table deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deleting table: " + error.message });
+    }
+  });
+
+  app.put("/api/tables/:tableNumber/book", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    try {
+      const { seatsToBook } = req.body;
+      const tableNumber = parseInt(req.params.tableNumber);
+      const table = await storage.updateTableOccupancy(tableNumber, seatsToBook);
+      await recordAudit(storage, req, {
+        action: "update",
+        entityType: "table",
+        entityId: table.id,
+        before: { ...table, occupiedSeats: table.occupiedSeats - Number(seatsToBook) },
+        after: table,
+      });
+      res.json(table);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error booking table: " + error.message });
+    }
+  });
+
+  // Layout Settings Routes
+
+  // Each save adds a new settings row, so only the settings themselves are
+  // compared, not the row ids and timestamps
+  const recordLayoutSettingsAudit = (req: Request, before: LayoutSettings | undefined, after: LayoutSettings) =>
+    recordAudit(storage, req, {
+      action: "update",
+      entityType: "layout_settings",
+      entityId: after.id,
+      before: before ? { layoutImageUrl: before.layoutImageUrl } : null,
+      after: { layoutImageUrl: after.layoutImageUrl },
+    });
+
+  app.put("/api/layout-settings", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    try {
+      const previous = await storage.getLayoutSettings();
+      const settings = await storage.updateLayoutSettings(req.body);
+      await recordLayoutSettingsAudit(req, previous, settings);
+      res.json(settings);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating layout settings: " + error.message });
+    }
+  });
+
+  // Object storage uploads
+  app.post("/api/objects/upload", requireAdminAuth, requirePermission("catalog.write", "seating.write"), async (req, res) => {
+    try {
+      const { fileName, isPublic } = req.body;
+      const { uploadUrl, path } = await supabaseStorage.getUploadUrl(
+        fileName || 'upload',
+        isPublic || false
+      );
+      res.json({ uploadURL: uploadUrl, path });
+    } catch (error: any) {
+      res.status(500).json({ message: "Error getting upload URL: " + error.message });
+    }
+  });
+
+  app.put("/api/layout-image", requireAdminAuth, requirePermission("seating.write"), async (req, res) => {
+    if (!req.body.imageURL) {
+      return res.status(400).json({ error: "imageURL is required" });
+    }
+
+    try {
+      const imageURL = req.body.imageURL;
+      await ensureValidImageUpload(imageURL);
+      
+      // Update layout settings with the new image
+      const previous = await storage.getLayoutSettings();
+      const settings = await storage.updateLayoutSettings({ layoutImageUrl: imageURL });
+      await recordLayoutSettingsAudit(req, previous, settings);
+      
+      res.status(200).json({
+        objectPath: imageURL,
+        settings: settings
+      });
+    } catch (error) {
+      console.error("Error setting layout image:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Events management endpoints
+  app.get("/api/events", requireAdminAuth, requirePermission("events.read"), async (req, res) => {
+    try {
+      const events = await storage.getAllEvents();
+      res.json(events);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error fetching events: " + error.message });
+    }
+  });
+
+  app.post("/api/events", requireAdminAuth, requirePermission("events.write"), async (req, res) => {
+    try {
+      const eventData = sanitizeEventData(req.body);
+      
+      // If this event is set as current, make sure no other event is current
+      if (eventData.isCurrent) {
+        await storage.clearCurrentEvent();
+      }
+      
+      const event = await storage.createEvent(eventData);
+      await recordAudit(storage, req, { action: "create", entityType: "event", entityId: event.id, after: event });
+      res.json(event);
+    } catch (error: any) {
+      console.error("Error creating event:", error);
+      console.error("Event data received:", JSON.stringify(req.body, null, 2));
+      res.status(400).json({ message: "Error creating event: " + error.message });
+    }
+  });
+
+  app.put("/api/events/:id", requireAdminAuth, requirePermission("events.write"), async (req, res) => {
+    try {
+      const eventData = sanitizeEventData(req.body);
+      const previous = await storage.getEvent(req.params.id);
+      
+      // If this event is set as current, make sure no other event is current
+      if (eventData.isCurrent) {
+        await storage.clearCurrentEvent();
+      }
+      
+      const event = await storage.updateEvent(req.params.id, eventData);
+      await recordAudit(storage, req, { action: "update", entityType: "event", entityId: event.id, before: previous, after: event });
+      res.json(event);
+    } catch (error: any) {
+      console.error("Error updating event:", error);
+      console.error("Event data received:", JSON.stringify(req.body, null, 2));
+      res.status(400).json({ message: "Error updating event: " + error.message });
+    }
+  });
+
+  // Update an event's prices only; everything else about the event needs events.write
+  app.put("/api/events/:id/pricing", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const pricingData = sanitizeEventData(eventPricingSchema.parse(req.body));
+      const previous = await storage.getEvent(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const event = await storage.updateEvent(req.params.id, pricingData);
+      await recordAudit(storage, req, { action: "update", entityType: "event", entityId: event.id, before: previous, after: event });
+      res.json(event);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid prices", errors: error.errors });
+      }
+      res.status(400).json({ message: "Error updating event pricing: " + error.message });
+    }
+  });
+
+  app.delete("/api/events/:id", requireAdminAuth, requirePermission("events.write"), async (req, res) => {
+    try {
+      const previous = await storage.getEvent(req.params.id);
+      await storage.deleteEvent(req.params.id);
+      await recordAudit(storage, req, { action: "delete", entityType: "event", entityId: req.params.id, before: previous });
+      res.json({ message: "Event deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deleting event: " + error.message });
+    }
+  });
+
+  app.put("/api/events/:id/set-current", requireAdminAuth, requirePermission("events.write"), async (req, res) => {
+    try {
+      const previous = await storage.getEvent(req.params.id);
+      await storage.clearCurrentEvent();
+      const event = await storage.setCurrentEvent(req.params.id);
+      await recordAudit(storage, req, { action: "set_current", entityType: "event", entityId: event.id, before: previous, after: event });
+      res.json({ message: "Event set as current successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error setting current event: " + error.message });
+    }
+  });
+
+  // PRICING TIERS MANAGEMENT ROUTES
+
+  // Create pricing tier
+  app.post("/api/events/:eventId/pricing-tiers", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const tierData = { ...req.body, eventId: req.params.eventId };
+      const validatedData = insertPricingTierSchema.parse(tierData);
+      const pricingTier = await storage.createPricingTier(validatedData);
+      await recordAudit(storage, req, { action: "create", entityType: "pricing_tier", entityId: pricingTier.id, after: pricingTier });
+      res.json(pricingTier);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error creating pricing tier: " + error.message });
+    }
+  });
+
+  // Update pricing tier
+  app.put("/api/pricing-tiers/:id", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const validatedData = insertPricingTierSchema.partial().parse(req.body);
+      const previous = await storage.getPricingTier(req.params.id);
+      const pricingTier = await storage.updatePricingTier(req.params.id, validatedData);
+      await recordAudit(storage, req, { action: "update", entityType: "pricing_tier", entityId: pricingTier.id, before: previous, after: pricingTier });
+      res.json(pricingTier);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating pricing tier: " + error.message });
+    }
+  });
+
+  // Delete pricing tier
+  app.delete("/api/pricing-tiers/:id", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const previous = await storage.getPricingTier(req.params.id);
+      await storage.deletePricingTier(req.params.id);
+      await recordAudit(storage, req, { action: "delete", entityType: "pricing_tier", entityId: req.params.id, before: previous });
+      res.json({ message: "Pricing tier deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deleting pricing tier: " + error.message });
+    }
+  });
+
+  // PACKAGE CONFIGURATIONS MANAGEMENT ROUTES
+
+  // Create package configuration
+  app.post("/api/events/:eventId/package-configurations", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const packageData = { ...req.body, eventId: req.params.eventId };
+      const validatedData = insertPackageConfigurationSchema.parse(packageData);
+      const packageConfig = await storage.createPackageConfiguration(validatedData);
+      await recordAudit(storage, req, { action: "create", entityType: "package_configuration", entityId: packageConfig.id, after: packageConfig });
+      res.json(packageConfig);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error creating package configuration: " + error.message });
+    }
+  });
+
+  // Update package configuration
+  app.put("/api/package-configurations/:id", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const validatedData = insertPackageConfigurationSchema.partial().parse(req.body);
+      const previous = await storage.getPackageConfigurationById(req.params.id);
+      const packageConfig = await storage.updatePackageConfiguration(req.params.id, validatedData);
+      await recordAudit(storage, req, { action: "update", entityType: "package_configuration", entityId: packageConfig.id, before: previous, after: packageConfig });
+      res.json(packageConfig);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error updating package configuration: " + error.message });
+    }
+  });
+
+  // Delete package configuration
+  app.delete("/api/package-configurations/:id", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const previous = await storage.getPackageConfigurationById(req.params.id);
+      await storage.deletePackageConfiguration(req.params.id);
+      await recordAudit(storage, req, { action: "delete", entityType: "package_configuration", entityId: req.params.id, before: previous });
+      res.json({ message: "Package configuration deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deleting package configuration: " + error.message });
+    }
+  });
+
+  // PROMO CODES MANAGEMENT ROUTES
+
+  // List promo codes (for the current event unless one is given) with how
+  // many registrations have used each one
+  app.get("/api/admin/promo-codes", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      const promoCodes = await storage.getPromoCodes(eventId);
+      const withUses = await Promise.all(
+        promoCodes.map(async (promo) => ({
+          ...promo,
+          uses: (await storage.getPromoCodeUsage(promo.eventId, promo.code)).total,
+        }))
+      );
+      res.json(withUses);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching promo codes: " + error.message });
+    }
+  });
+
+  app.post("/api/admin/promo-codes", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const eventId = req.body.eventId || (await storage.getCurrentEvent())?.id;
+      const validatedData = insertPromoCodeSchema.parse({ ...req.body, eventId });
+      if (await storage.getPromoCodeByCode(validatedData.eventId, validatedData.code)) {
+        return res.status(409).json({ message: `Promo code ${validatedData.code} already exists for this event` });
+      }
+      const promo = await storage.createPromoCode(validatedData);
+      await recordAudit(storage, req, { action: "create", entityType: "promo_code", entityId: promo.id, after: promo });
+      res.json(promo);
+    } catch (error: any) {
+      if (error instanceof DuplicatePromoCodeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Error creating promo code: " + error.message });
+    }
+  });
+
+  app.put("/api/admin/promo-codes/:id", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const validatedData = insertPromoCodeSchema.partial().parse(req.body);
+      if (validatedData.code) {
+        const current = await storage.getPromoCode(req.params.id);
+        const existing = current && await storage.getPromoCodeByCode(current.eventId, validatedData.code);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: `Promo code ${validatedData.code} already exists for this event` });
+        }
+      }
+      const previous = await storage.getPromoCode(req.params.id);
+      const promo = await storage.updatePromoCode(req.params.id, validatedData);
+      await recordAudit(storage, req, { action: "update", entityType: "promo_code", entityId: promo.id, before: previous, after: promo });
+      res.json(promo);
+    } catch (error: any) {
+      if (error instanceof DuplicatePromoCodeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Error updating promo code: " + error.message });
+    }
+  });
+
+  app.delete("/api/admin/promo-codes/:id", requireAdminAuth, requirePermission("pricing.write"), async (req, res) => {
+    try {
+      const previous = await storage.getPromoCode(req.params.id);
+      await storage.deletePromoCode(req.params.id);
+      await recordAudit(storage, req, { action: "delete", entityType: "promo_code", entityId: req.params.id, before: previous });
+      res.json({ message: "Promo code deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error deleting promo code: " + error.message });
+    }
+  });
+
+  // EMAIL NOTIFICATION ROUTES
+
+  // Every notification type of an event (the current one unless given) with
+  // the template it sends: the event's own, or the built-in default
+  app.get("/api/admin/email-templates", requireAdminAuth, requirePermission("events.write"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      if (!eventId) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const saved = await storage.getEmailTemplates(eventId);
+      res.json(NOTIFICATION_TYPES.map((type) => {
+        const template = saved.find((candidate) => candidate.type === type);
+        return {
+          type,
+          subject: template?.subject ?? DEFAULT_EMAIL_TEMPLATES[type].subject,
+          body: template?.body ?? DEFAULT_EMAIL_TEMPLATES[type].body,
+          enabled: template?.enabled ?? true,
+          customized: !!template,
+          updatedBy: template?.updatedBy ?? null,
+          updatedAt: template?.updatedAt ?? null,
+        };
+      }));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching email templates: " + error.message });
+    }
+  });
+
+  app.put("/api/admin/email-templates/:type", requireAdminAuth, requirePermission("events.write"), async (req, res) => {
+    try {
+      const eventId = req.body.eventId || (await storage.getCurrentEvent())?.id;
+      const validatedData = insertEmailTemplateSchema.parse({
+        ...req.body,
+        eventId,
+        type: req.params.type,
+        updatedBy: (req as any).admin.email,
+      });
+      const unknown = getUnknownMergeFields(`${validatedData.subject}\n${validatedData.body}`);
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          message: `Unknown merge field${unknown.length > 1 ? "s" : ""}: ${unknown.map((field) => `{{${field}}}`).join(", ")}`,
+        });
+      }
+      const previous = await storage.getEmailTemplate(validatedData.eventId, validatedData.type);
+      const template = await storage.saveEmailTemplate(validatedData);
+      await recordAudit(storage, req, {
+        action: previous ? "update" : "create",
+        entityType: "email_template",
+        entityId: template.id,
+        before: previous ?? null,
+        after: template,
+      });
+      res.json(template);
+    } catch (error: any) {
+      res.status(400).json({ message: "Error saving email template: " + error.message });
+    }
+  });
+
+  // Go back to the built-in template
+  app.delete("/api/admin/email-templates/:type", requireAdminAuth, requirePermission("events.write"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      if (!eventId) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const previous = await storage.getEmailTemplate(eventId, req.params.type);
+      await storage.deleteEmailTemplate(eventId, req.params.type);
+      if (previous) {
+        await recordAudit(storage, req, { action: "delete", entityType: "email_template", entityId: previous.id, before: previous });
+      }
+      res.json({ message: "Email template reset to the default" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error resetting email template: " + error.message });
+    }
+  });
+
+  // Recent emails of an event (the current one unless given), optionally by status
+  app.get("/api/admin/email-outbox", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const emails = await storage.getEmailOutbox(eventId, status);
+      res.json(emails);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching emails: " + error.message });
+    }
+  });
+
+  // Send a failed email again, with a fresh set of attempts
+  app.post("/api/admin/email-outbox/:id/retry", requireAdminAuth, requirePermission("registrations.write"), async (req, res) => {
+    try {
+      const email = await storage.updateEmailOutboxEntry(req.params.id, {
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      });
+      await recordAudit(storage, req, {
+        action: "retry",
+        entityType: "email",
+        entityId: email.id,
+        after: { eventId: email.eventId, recipient: email.recipient, subject: email.subject },
+      });
+      res.json(email);
+    } catch (error: any) {
+      if (error.message === "Email not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Error retrying email: " + error.message });
+    }
+  });
+
+  // Broadcasts of an event (the current one unless given), with delivery counts
+  app.get("/api/admin/broadcasts", requireAdminAuth, requirePermission("broadcasts.send"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      const broadcasts = await storage.getBroadcasts(eventId);
+      res.json(broadcasts);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching broadcasts: " + error.message });
+    }
+  });
+
+  // Filter values only the registrations know, e.g. the dancers' countries
+  app.get("/api/admin/broadcasts/options", requireAdminAuth, requirePermission("broadcasts.send"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      if (!eventId) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const countries = new Set<string>();
+      for (const registration of await storage.getRegistrations(eventId)) {
+        for (const info of [registration.leaderInfo, registration.followerInfo]) {
+          const country = (info as { country?: string } | null)?.country?.trim();
+          if (country) countries.add(country);
+        }
+      }
+      res.json({ countries: Array.from(countries).sort((a, b) => a.localeCompare(b)) });
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching broadcast options: " + error.message });
+    }
+  });
+
+  // How many attendees an audience reaches, with the first few of them
+  app.post("/api/admin/broadcasts/preview", requireAdminAuth, requirePermission("broadcasts.send"), async (req, res) => {
+    try {
+      const eventId = req.body.eventId || (await storage.getCurrentEvent())?.id;
+      if (!eventId) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const audience = broadcastAudienceSchema.parse(req.body.audience ?? {});
+      const recipients = await getBroadcastAudience(storage, eventId, audience);
+      res.json({
+        recipientCount: recipients.length,
+        registrationCount: new Set(recipients.map((recipient) => recipient.registrationId)).size,
+        sample: recipients.slice(0, 10).map(({ name, email }) => ({ name, email })),
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: "Error previewing broadcast: " + error.message });
+    }
+  });
+
+  app.post("/api/admin/broadcasts", requireAdminAuth, requirePermission("broadcasts.send"), async (req, res) => {
+    try {
+      const eventId = req.body.eventId || (await storage.getCurrentEvent())?.id;
+      const validatedData = insertBroadcastSchema.parse({
+        ...req.body,
+        eventId,
+        createdBy: (req as any).admin.email,
+      });
+      const broadcast = await sendBroadcast(storage, validatedData);
+      await recordAudit(storage, req, { action: "send", entityType: "broadcast", entityId: broadcast.id, after: broadcast });
+      res.status(201).json(broadcast);
+    } catch (error: any) {
+      if (error instanceof BroadcastError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      logError("Send broadcast error: " + (error.message || "Unknown error"));
+      res.status(400).json({ message: "Error sending broadcast: " + error.message });
+    }
+  });
+
+  // Every recipient of a broadcast and where their email is at
+  app.get("/api/admin/broadcasts/:id/recipients", requireAdminAuth, requirePermission("broadcasts.send"), async (req, res) => {
+    try {
+      const broadcast = await storage.getBroadcast(req.params.id);
+      if (!broadcast) {
+        return res.status(404).json({ message: "Broadcast not found" });
+      }
+      const emails = await storage.getBroadcastEmails(broadcast.id);
+      res.json(emails.map((email) => ({
+        id: email.id,
+        registrationId: email.registrationId,
+        recipient: email.recipient,
+        status: email.status,
+        attempts: email.attempts,
+        lastError: email.lastError,
+        sentAt: email.sentAt,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching broadcast recipients: " + error.message });
+    }
+  });
+
+  // Sessions of an event (the current one unless given) to check dancers in
+  // to, with how many are booked and how many are in
+  app.get("/api/admin/check-in/sessions", requireAdminAuth, requirePermission("checkin.scan"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      if (!eventId) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const [sessions, registrations, checkIns] = await Promise.all([
+        getCheckInSessions(storage, eventId),
+        storage.getRegistrations(eventId),
+        storage.getEventCheckIns(eventId),
+      ]);
+      const admitted = registrations.filter((registration) => getAdmissionStatus(registration).status !== "void");
+      res.json(sessions.map((session) => ({
+        ...session,
+        booked: admitted.filter((registration) =>
+          getEntitledSessions(registration, [session]).length > 0
+        ).length,
+        checkedIn: checkIns.filter((checkIn) =>
+          checkIn.sessionType === session.type && checkIn.sessionId === session.id
+        ).length,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching check-in sessions: " + error.message });
+    }
+  });
+
+  // The dancer behind a scanned QR code or a typed registration code
+  app.post("/api/admin/check-in/lookup", requireAdminAuth, requirePermission("checkin.scan"), async (req, res) => {
+    try {
+      const eventId = req.body.eventId || (await storage.getCurrentEvent())?.id;
+      if (!eventId) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const registration = await findRegistrationByCode(storage, eventId, String(req.body.code ?? ""));
+      res.json(await getDancerCheckIn(storage, registration));
+    } catch (error: any) {
+      if (error instanceof CheckInError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error looking up registration: " + error.message });
+    }
+  });
+
+  // Manual fallback for dancers without their QR code
+  app.get("/api/admin/check-in/search", requireAdminAuth, requirePermission("checkin.scan"), async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string"
+        ? req.query.eventId
+        : (await storage.getCurrentEvent())?.id;
+      if (!eventId) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      const query = typeof req.query.q === "string" ? req.query.q : "";
+      res.json(await searchCheckInRegistrations(storage, eventId, query));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error searching registrations: " + error.message });
+    }
+  });
+
+  app.get("/api/admin/check-in/registrations/:id", requireAdminAuth, requirePermission("checkin.scan"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      res.json(await getDancerCheckIn(storage, registration));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching check-ins: " + error.message });
+    }
+  });
+
+  // Check a dancer in to a session. A repeat scan answers 200 with the
+  // original check-in and `duplicate: true` rather than failing
+  app.post("/api/admin/check-in/registrations/:id", requireAdminAuth, requirePermission("checkin.scan"), async (req, res) => {
+    try {
+      const registration = await storage.getRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      const session = insertCheckInSchema.pick({ sessionType: true, sessionId: true }).parse(req.body);
+      const result = await checkInRegistration(
+        storage,
+        registration,
+        { type: session.sessionType, id: session.sessionId },
+        (req as any).admin.email,
+      );
+      if (!result.duplicate) {
+        await recordAudit(storage, req, {
+          action: "check_in",
+          entityType: "registration",
+          entityId: registration.id,
+          after: { eventId: registration.eventId, sessionType: result.checkIn.sessionType, sessionId: result.checkIn.sessionId },
+        });
+      }
+      res.status(result.duplicate ? 200 : 201).json({
+        ...result,
+        dancer: await getDancerCheckIn(storage, registration),
+      });
+    } catch (error: any) {
+      if (error instanceof CheckInError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      logError("Check-in error: " + (error.message || "Unknown error"));
+      res.status(400).json({ message: "Error checking in: " + error.message });
+    }
+  });
+
+  // Rosters of a workshop, milonga or gala table, to view, download and share
+  app.get("/api/admin/rosters/:type(workshop|milonga|table)/:id", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      res.json(await buildRoster(storage, req.params.type as RosterType, req.params.id));
+    } catch (error: any) {
+      if (error instanceof RosterError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error fetching roster: " + error.message });
+    }
+  });
+
+  app.get("/api/admin/rosters/:type(workshop|milonga|table)/:id/:format(pdf|csv)", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const roster = await buildRoster(storage, req.params.type as RosterType, req.params.id);
+      sendRosterFile(res, roster, req.params.format as RosterFileFormat);
+    } catch (error: any) {
+      if (error instanceof RosterError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error generating roster: " + error.message });
+    }
+  });
+
+  // A read-only link for an instructor, which stops working after the chosen number of days
+  app.post("/api/admin/rosters/:type(workshop|milonga|table)/:id/share", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const { days } = rosterShareSchema.parse(req.body);
+      const type = req.params.type as RosterType;
+      const roster = await buildRoster(storage, type, req.params.id);
+      const link = createRosterShareLink(getBaseUrl(req), type, roster.id, days);
+      logObject("INFO", "Roster shared", { type, id: roster.id, days, sharedBy: (req as any).admin.email });
+      await recordAudit(storage, req, { action: "share", entityType: type, entityId: roster.id, after: { days, expiresAt: link.expiresAt } });
+      res.json(link);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message, errors: error.errors });
+      }
+      if (error instanceof RosterError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error sharing roster: " + error.message });
+    }
+  });
+
+  // Totals and breakdowns of an event's registrations (the current event unless given)
+  app.get("/api/admin/analytics/overview", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const { eventId } = analyticsQuerySchema.parse(req.query);
+      const event = eventId ? await storage.getEvent(eventId) : await storage.getCurrentEvent();
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.json(await getAnalyticsOverview(storage, event));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching analytics: " + error.message });
+    }
+  });
+
+  // Registrations and revenue by day, week or month
+  app.get("/api/admin/analytics/timeline", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const { eventId, interval } = analyticsQuerySchema.parse(req.query);
+      const event = eventId ? await storage.getEvent(eventId) : await storage.getCurrentEvent();
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.json(await getAnalyticsTimeline(storage, interval, event.id));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching the timeline: " + error.message });
+    }
+  });
+
+  // Add-on sales by the options chosen
+  app.get("/api/admin/analytics/addons", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const { eventId } = analyticsQuerySchema.parse(req.query);
+      const event = eventId ? await storage.getEvent(eventId) : await storage.getCurrentEvent();
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.json(await getAddonSalesReport(storage, event.id));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching add-on sales: " + error.message });
+    }
+  });
+
+  app.get("/api/admin/analytics/workshops", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const { eventId } = analyticsQuerySchema.parse(req.query);
+      const event = eventId ? await storage.getEvent(eventId) : await storage.getCurrentEvent();
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.json(await getWorkshopFillRates(storage, event.id));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching workshop fill rates: " + error.message });
+    }
+  });
+
+  // Every event year side by side
+  app.get("/api/admin/analytics/events", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      res.json(await getEventComparison(storage));
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching event comparison: " + error.message });
+    }
+  });
+
+  // AUDIT LOG ROUTES
+
+  // Every change admins have made, newest first, filtered by entity, action,
+  // admin and date
+  app.get("/api/admin/audit-log", requireAdminAuth, requirePermission("audit.read"), async (req, res) => {
+    try {
+      const search = auditLogSearchSchema.parse(req.query);
+      const { entries, total } = await storage.searchAuditLog(search);
+      const page: AuditLogPage<AuditLogEntry> = {
+        entries,
+        total,
+        page: search.page,
+        pageSize: search.pageSize,
+        pageCount: Math.max(1, Math.ceil(total / search.pageSize)),
+      };
+      res.json(page);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid search", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching audit log: " + error.message });
+    }
+  });
+
+  // A registration's history, for anyone who can see the registration
+  app.get("/api/registrations/:id/history", requireAdminAuth, requirePermission("registrations.read"), async (req, res) => {
+    try {
+      const { entries } = await storage.searchAuditLog(
+        auditLogSearchSchema.parse({ entityType: "registration", entityId: req.params.id, pageSize: 200 })
+      );
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching registration history: " + error.message });
+    }
+  });
+}
@@ -0,0 +1,163 @@
+import type { Event } from "@shared/schema";
+import { PACKAGE_LABELS } from "@shared/pricing";
+import {
+  STANDARD_PRICE_LABEL,
+  type AddonSale,
+  type AnalyticsBucket,
+  type AnalyticsInterval,
+  type AnalyticsOverview,
+  type EventComparison,
+  type TimelinePoint,
+  type WorkshopFill,
+} from "@shared/analytics";
+import type { IStorage } from "./storage";
+
+// Admin analytics. The counting and summing is done by the database; this
+// labels the results and fills in what the queries can't know, such as
+// pricing tiers nobody has bought at yet and running totals.
+
+type AnalyticsStorage = Pick<
+  IStorage,
+  | "getRegistrationTotals"
+  | "getRegistrationBreakdown"
+  | "getDancerCountries"
+  | "getRegistrationTimeline"
+  | "getAddonSales"
+  | "getEventRegistrationCurves"
+  | "getAllEvents"
+  | "getPricingTiersByEvent"
+  | "getAddons"
+  | "getWorkshops"
+>;
+
+const ROLE_LABELS: Record<string, string> = {
+  leader: "Leader",
+  follower: "Follower",
+  couple: "Couple",
+};
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export async function getAnalyticsOverview(store: AnalyticsStorage, event: Event): Promise<AnalyticsOverview> {
+  const eventId = event.id;
+  const [totals, packages, roles, tiers, countries, pricingTiers] = await Promise.all([
+    store.getRegistrationTotals(eventId),
+    store.getRegistrationBreakdown("package", eventId),
+    store.getRegistrationBreakdown("role", eventId),
+    store.getRegistrationBreakdown("tier", eventId),
+    store.getDancerCountries(eventId),
+    store.getPricingTiersByEvent(eventId),
+  ]);
+
+  // Tiers are recorded by name on each registration's price quote
+  const tierBuckets: AnalyticsBucket[] = tiers.map((row) => ({ ...row, label: row.key || STANDARD_PRICE_LABEL }));
+  for (const tier of [...pricingTiers].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())) {
+    if (!tierBuckets.some((bucket) => bucket.key === tier.name)) {
+      tierBuckets.push({ key: tier.name, label: tier.name, registrations: 0, dancers: 0, revenue: 0 });
+    }
+  }
+
+  return {
+    eventId,
+    baseCurrency: event.baseCurrency,
+    totals,
+    packages: packages.map((row) => ({ ...row, label: PACKAGE_LABELS[row.key] || row.key })),
+    roles: roles.map((row) => ({ ...row, label: ROLE_LABELS[row.key] || row.key })),
+    countries: countries.map((row) => ({ ...row, country: row.country || "Unknown" })),
+    tiers: tierBuckets,
+  };
+}
+
+export async function getAnalyticsTimeline(
+  store: AnalyticsStorage,
+  interval: AnalyticsInterval,
+  eventId: string,
+): Promise<TimelinePoint[]> {
+  const rows = await store.getRegistrationTimeline(interval, eventId);
+  let cumulativeRegistrations = 0;
+  let cumulativeRevenue = 0;
+  return rows.map((row) => {
+    cumulativeRegistrations += row.registrations;
+    cumulativeRevenue = roundCurrency(cumulativeRevenue + row.revenue);
+    return { ...row, revenue: roundCurrency(row.revenue), cumulativeRegistrations, cumulativeRevenue };
+  });
+}
+
+/**
+ * Add-on sales by the options chosen, e.g. each T-shirt size. Revenue is at
+ * the add-on's current price.
+ */
+export async function getAddonSalesReport(store: AnalyticsStorage, eventId: string): Promise<AddonSale[]> {
+  const [sales, addons] = await Promise.all([store.getAddonSales(eventId), store.getAddons(eventId)]);
+  const addonsById = new Map(addons.map((addon) => [addon.id, addon]));
+
+  return sales
+    .map((sale) => {
+      const addon = addonsById.get(sale.addonId);
+      return {
+        addonId: sale.addonId,
+        name: addon?.name || "Removed add-on",
+        option: Object.entries(sale.options || {})
+          .map(([name, value]) => `${name}: ${value}`)
+          .join(", "),
+        quantity: sale.quantity,
+        revenue: roundCurrency(sale.quantity * (Number(addon?.price) || 0)),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name) || b.quantity - a.quantity);
+}
+
+export async function getWorkshopFillRates(store: AnalyticsStorage, eventId: string): Promise<WorkshopFill[]> {
+  const workshops = await store.getWorkshops(eventId);
+  return workshops
+    .map((workshop) => {
+      const capacity = workshop.capacity || workshop.leaderCapacity + workshop.followerCapacity;
+      const enrolled = workshop.enrolled || 0;
+      return {
+        workshopId: workshop.id,
+        title: workshop.title,
+        date: new Date(workshop.date).toISOString(),
+        capacity,
+        enrolled,
+        leaders: workshop.leadersEnrolled || 0,
+        leaderCapacity: workshop.leaderCapacity,
+        followers: workshop.followersEnrolled || 0,
+        followerCapacity: workshop.followerCapacity,
+        fillRate: capacity > 0 ? Math.round(enrolled / capacity * 100) : 0,
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+}
+
+/** Every event year side by side, oldest first. */
+export async function getEventComparison(store: AnalyticsStorage): Promise<EventComparison[]> {
+  const [events, curves] = await Promise.all([store.getAllEvents(), store.getEventRegistrationCurves()]);
+  const totals = await Promise.all(events.map((event) => store.getRegistrationTotals(event.id)));
+
+  return events
+    .map((event, index) => {
+      // Every week from the first registration to the start, including
+      // weeks nobody registered in
+      const byWeek = new Map(curves.filter((row) => row.eventId === event.id).map((row) => [row.weeksBefore, row.registrations]));
+      const firstWeek = Math.max(-1, ...Array.from(byWeek.keys()));
+      const weeklyCumulative: EventComparison["weeklyCumulative"] = [];
+      let registrations = 0;
+      for (let weeksBefore = firstWeek; weeksBefore >= 0; weeksBefore--) {
+        registrations += byWeek.get(weeksBefore) || 0;
+        weeklyCumulative.push({ weeksBefore, registrations });
+      }
+      return {
+        eventId: event.id,
+        name: event.name,
+        year: event.year,
+        isCurrent: !!event.isCurrent,
+        baseCurrency: event.baseCurrency,
+        registrations: totals[index].registrations,
+        dancers: totals[index].dancers,
+        bookedRevenue: totals[index].bookedRevenue,
+        receivedRevenue: totals[index].receivedRevenue,
+        weeklyCumulative,
+      };
+    })
+    .sort((a, b) => a.year - b.year);
+}
@@ -1,11 +1,19 @@
 import "dotenv/config";
 import express, { type Express, type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { assertAccessTokenSecret } from "./registrationAccess";
 import "./logger"; // Initialize logger on server start
 
 export async function createApp(): Promise<Express> {
+  assertAccessTokenSecret();
+
   const app = express();
-  app.use(express.json());
+  app.use(express.json({
+    // Keep the unparsed body around for Stripe webhook signature checks
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  }));
   app.use(express.urlencoded({ extended: false }));
 
   app.use((req, res, next) => {
@@ -0,0 +1,50 @@
+import type { Request } from "express";
+import { diffAuditValues, type AuditAction, type AuditEntityType } from "@shared/audit";
+import type { IStorage } from "./storage";
+import { logError } from "./logger";
+
+type AuditStorage = Pick<IStorage, "createAuditLogEntry">;
+
+interface AuditRecord {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | number;
+  // The entity as it was, null when it's being created
+  before?: object | null;
+  // The entity as it is now, null when it's been deleted
+  after?: object | null;
+}
+
+const eventIdOf = (entity: object | null | undefined) => {
+  const eventId = (entity as { eventId?: unknown } | null | undefined)?.eventId;
+  return typeof eventId === "string" ? eventId : null;
+};
+
+/**
+ * Record a change the signed-in admin made. The change has already been
+ * made by the time it's recorded, so a failure to record it is logged
+ * rather than reported to the admin. Updates that changed nothing aren't
+ * recorded.
+ */
+export async function recordAudit(store: AuditStorage, req: Request, record: AuditRecord): Promise<void> {
+  const admin = (req as any).admin;
+  const changes = diffAuditValues(
+    record.before as Record<string, unknown> | null | undefined,
+    record.after as Record<string, unknown> | null | undefined,
+  );
+  if (record.action === "update" && Object.keys(changes).length === 0) return;
+
+  try {
+    await store.createAuditLogEntry({
+      eventId: eventIdOf(record.after) ?? eventIdOf(record.before),
+      actorId: String(admin?.id ?? ""),
+      actorEmail: admin?.email || "unknown",
+      action: record.action,
+      entityType: record.entityType,
+      entityId: String(record.entityId),
+      changes,
+    });
+  } catch (error: any) {
+    logError("Audit log error: " + (error.message || "Unknown error"));
+  }
+}
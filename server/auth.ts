@@ -3,6 +3,7 @@ import { supabaseAdmin } from './supabase';
 import { db } from './db';
 import { adminUsers } from '@shared/schema';
 import { eq, ilike } from 'drizzle-orm';
+import { resolvePermissions, type AdminPermission } from '@shared/permissions';
 
 /**
  * Middleware to check if user is authenticated via Supabase
@@ -159,6 +160,40 @@ export async function requireAdmin(req: Request, res: Response, next: NextFuncti
   }
 }
 
+/**
+ * Middleware to check the admin attached by requireAdmin holds at least one
+ * of the given permissions. Must run after requireAdmin.
+ */
+export function requirePermission(...permissions: AdminPermission[]) {
+  return function checkPermission(req: Request, res: Response, next: NextFunction) {
+    const admin = (req as any).admin;
+
+    if (!admin) {
+      return res.status(401).json({ error: 'Unauthorized - Admin session required' });
+    }
+
+    const granted = resolvePermissions(admin.role, admin.permissions);
+    if (!permissions.some((permission) => granted.includes(permission))) {
+      console.log(`Admin ${admin.email} lacks permission: ${permissions.join(' or ')}`);
+      return res.status(403).json({ error: `Forbidden - Missing permission: ${permissions.join(' or ')}` });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware for cron endpoints: the request must carry CRON_SECRET as its
+ * bearer token. Refuses everything when CRON_SECRET isn't set.
+ */
+export function requireCronSecret(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+  next();
+}
+
 /**
  * Helper to get current user from request (if authenticated)
  */
@@ -0,0 +1,78 @@
+import type { Broadcast, InsertBroadcast, Registration } from "@shared/schema";
+import { getBroadcastRecipients, type BroadcastAudience, type BroadcastRecipient } from "@shared/broadcasts";
+import { getUnknownMergeFields, renderTemplate } from "@shared/notifications";
+import type { IStorage } from "./storage";
+import { getEventMergeFields, getRegistrationMergeFields } from "./notifications";
+import { logObject } from "./logger";
+
+// Admin broadcasts. The audience is worked out from the event's
+// registrations when the broadcast is sent, each recipient gets their own
+// rendered copy, and the copies are queued in the outbox with the
+// broadcast's id, so their delivery is tracked like any other email.
+
+type BroadcastStorage = Pick<IStorage, "getEvent" | "getRegistrations" | "createBroadcast">;
+
+export class BroadcastError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "BroadcastError";
+  }
+}
+
+/** Everyone an event's broadcast to `audience` would reach, right now. */
+export async function getBroadcastAudience(
+  store: Pick<IStorage, "getRegistrations">,
+  eventId: string,
+  audience: BroadcastAudience,
+): Promise<BroadcastRecipient[]> {
+  return getBroadcastRecipients(await store.getRegistrations(eventId), audience);
+}
+
+/**
+ * Render the broadcast for every recipient in its audience and queue the
+ * emails. Fails without queueing anything when the message uses unknown
+ * merge fields or nobody matches the audience.
+ */
+export async function sendBroadcast(store: BroadcastStorage, broadcast: InsertBroadcast): Promise<Broadcast> {
+  const unknown = getUnknownMergeFields(`${broadcast.subject}\n${broadcast.body}`);
+  if (unknown.length > 0) {
+    throw new BroadcastError(
+      `Unknown merge field${unknown.length > 1 ? "s" : ""}: ${unknown.map((field) => `{{${field}}}`).join(", ")}`,
+    );
+  }
+
+  const event = await store.getEvent(broadcast.eventId);
+  if (!event) {
+    throw new BroadcastError("Event not found", 404);
+  }
+
+  const registrations = await store.getRegistrations(broadcast.eventId);
+  const recipients = getBroadcastRecipients(registrations, broadcast.audience);
+  if (recipients.length === 0) {
+    throw new BroadcastError("No attendees match this audience");
+  }
+
+  const byId = new Map<string, Registration>(registrations.map((registration) => [registration.id, registration]));
+  const eventFields = getEventMergeFields(event);
+  const created = await store.createBroadcast(broadcast, recipients.map((recipient) => {
+    const fields = {
+      ...eventFields,
+      ...getRegistrationMergeFields(byId.get(recipient.registrationId)!),
+      ...recipient.fields,
+    };
+    return {
+      registrationId: recipient.registrationId,
+      recipient: recipient.email,
+      subject: renderTemplate(broadcast.subject, fields),
+      body: renderTemplate(broadcast.body, fields),
+    };
+  }));
+
+  logObject("INFO", "Broadcast queued", {
+    broadcastId: created.id,
+    eventId: created.eventId,
+    recipients: created.recipientCount,
+    createdBy: created.createdBy,
+  });
+  return created;
+}
@@ -0,0 +1,242 @@
+import type Stripe from "stripe";
+import type { Registration } from "@shared/schema";
+import { calculateRefund, type RefundCalculation } from "@shared/refundPolicy";
+import { formatChargedAmount, toChargeCents } from "@shared/currency";
+import type { IStorage, RegistrationCancellation } from "./storage";
+import { cancelPaymentIntent } from "./holdSweeper";
+import { promoteWaitlistsForRegistration } from "./waitlist";
+import { notifyRegistration } from "./notifications";
+import { logError } from "./logger";
+
+// Admin cancellations. The refund comes from the event's refund policy (or
+// an amount the admin enters instead), card payments are refunded through
+// Stripe before anything is written, the released places are offered to the
+// waitlist and the dancer is emailed.
+
+type CancellationStorage = Pick<
+  IStorage,
+  | "getRegistration"
+  | "getEvent"
+  | "cancelRegistration"
+  | "getWorkshops"
+  | "getMilongas"
+  | "getTables"
+  | "promoteWaitlist"
+  | "getPaymentInstalments"
+  | "getEmailTemplate"
+  | "queueEmail"
+>;
+
+type CancellationStripe = {
+  paymentIntents: Pick<Stripe.PaymentIntentsResource, "retrieve" | "cancel">;
+  refunds: Pick<Stripe.RefundsResource, "create">;
+};
+
+export interface CancellationRequest {
+  cancelledBy: string;
+  reason?: string | null;
+  // Overrides the policy refund; must not exceed the amount paid
+  refundAmount?: number;
+}
+
+export interface CancellationResult {
+  registration: Registration;
+  refund: RefundCalculation;
+  waitlistOffers: number;
+}
+
+export class CancellationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CancellationError";
+  }
+}
+
+/**
+ * Refund a payment plan registration across the instalments it paid, most
+ * recent first, after cancelling any instalment payment still open so it
+ * can't be paid once the places are gone. Returns the Stripe refund ids.
+ */
+async function refundInstalments(
+  store: Pick<CancellationStorage, "getPaymentInstalments">,
+  stripe: CancellationStripe,
+  registration: Registration,
+  amount: number,
+): Promise<string[]> {
+  const instalments = await store.getPaymentInstalments(registration.id);
+  for (const instalment of instalments) {
+    if (instalment.status !== "paid" && instalment.stripePaymentIntentId &&
+        !(await cancelPaymentIntent(stripe, instalment.stripePaymentIntentId))) {
+      throw new CancellationError("A card payment for this registration is still processing. Try again shortly.", 409);
+    }
+  }
+
+  const refundIds: string[] = [];
+  let remaining = toChargeCents(amount, registration.exchangeRate);
+  const paid = instalments.filter((instalment) => instalment.status === "paid" && instalment.stripePaymentIntentId);
+  for (const instalment of paid.reverse()) {
+    if (remaining <= 0) break;
+    const cents = Math.min(remaining, toChargeCents(instalment.amount, registration.exchangeRate));
+    const stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: instalment.stripePaymentIntentId!,
+        amount: cents,
+        metadata: { registrationId: registration.id, instalmentId: instalment.id },
+      },
+      { idempotencyKey: `cancel-${registration.id}-${instalment.id}-${cents}` },
+    );
+    refundIds.push(stripeRefund.id);
+    remaining -= cents;
+  }
+  return refundIds;
+}
+
+/**
+ * Refund a card registration: top-ups paid from the portal first, most
+ * recent first, then the original payment. Returns the Stripe refund ids.
+ */
+async function refundCardPayments(
+  stripe: CancellationStripe,
+  registration: Registration,
+  amount: number,
+): Promise<string[]> {
+  const refundIds: string[] = [];
+  let remaining = toChargeCents(amount, registration.exchangeRate);
+  for (const topUp of [...(registration.topUpPayments || [])].reverse()) {
+    if (remaining <= 0) break;
+    const cents = Math.min(remaining, toChargeCents(topUp.amount, registration.exchangeRate));
+    const stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: topUp.paymentIntentId,
+        amount: cents,
+        metadata: { registrationId: registration.id },
+      },
+      { idempotencyKey: `cancel-${registration.id}-${topUp.paymentIntentId}-${cents}` },
+    );
+    refundIds.push(stripeRefund.id);
+    remaining -= cents;
+  }
+
+  if (remaining > 0) {
+    // The idempotency key makes a retry after a failed write reuse the
+    // same refund instead of paying out twice
+    const stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: registration.stripePaymentIntentId!,
+        amount: remaining,
+        metadata: { registrationId: registration.id },
+      },
+      { idempotencyKey: `cancel-${registration.id}-${remaining}` },
+    );
+    refundIds.push(stripeRefund.id);
+  }
+  return refundIds;
+}
+
+// Statuses a registration only reaches once it's been paid in full
+const PAID_IN_FULL_STATUSES = ["completed", "refunded", "partially_refunded", "disputed"];
+
+// Only money actually received and not yet refunded is refunded. Card
+// payments don't record amountReceived, so paid-in-full statuses count at
+// least the whole total
+export const amountPaid = (registration: Registration) => {
+  const received = Number(registration.amountReceived) || 0;
+  const paid = PAID_IN_FULL_STATUSES.includes(registration.paymentStatus || "")
+    ? Math.max(Number(registration.totalAmount) || 0, received)
+    : received;
+  return Math.max(0, Math.round((paid - (Number(registration.refundAmount) || 0)) * 100) / 100);
+};
+
+/**
+ * The refund a registration would get if it were cancelled now, under its
+ * event's refund policy.
+ */
+export async function previewRefund(
+  store: Pick<CancellationStorage, "getEvent">,
+  registration: Registration,
+  now: Date = new Date(),
+): Promise<RefundCalculation> {
+  const event = await store.getEvent(registration.eventId);
+  return calculateRefund(event?.refundPolicy, amountPaid(registration), now);
+}
+
+/**
+ * Cancel a registration and refund it. Throws CancellationError (carrying
+ * the HTTP status to answer with) when it can't be cancelled; Stripe errors
+ * propagate untouched and leave the registration as it was.
+ */
+export async function cancelRegistration(
+  store: CancellationStorage,
+  stripe: CancellationStripe,
+  registrationId: string,
+  request: CancellationRequest,
+  now: Date = new Date(),
+): Promise<CancellationResult> {
+  const registration = await store.getRegistration(registrationId);
+  if (!registration) {
+    throw new CancellationError("Registration not found", 404);
+  }
+  if (registration.cancelledAt) {
+    throw new CancellationError("This registration has already been cancelled.", 409);
+  }
+  // A payment that went through after the hold expired is still refunded
+  if (registration.paymentStatus === "expired" && amountPaid(registration) === 0) {
+    throw new CancellationError("This registration expired unpaid and holds no places.", 409);
+  }
+  if (registration.paymentStatus === "disputed") {
+    throw new CancellationError("This payment is disputed. Resolve the dispute in Stripe before cancelling.", 409);
+  }
+
+  const refund = await previewRefund(store, registration, now);
+  if (request.refundAmount !== undefined) {
+    if (request.refundAmount < 0 || request.refundAmount > refund.amountPaid) {
+      throw new CancellationError(`Refund must be between 0 and the ${refund.amountPaid} paid.`);
+    }
+    refund.amount = Math.round(request.refundAmount * 100) / 100;
+    refund.percent = refund.amountPaid > 0 ? Math.round(refund.amount / refund.amountPaid * 10000) / 100 : 0;
+  }
+
+  let stripeRefundId: string | null = null;
+  if (registration.paymentMethod === "stripe" && registration.paymentPlan) {
+    const refundIds = await refundInstalments(store, stripe, registration, refund.amount);
+    stripeRefundId = refundIds.length > 0 ? refundIds.join(",") : null;
+  } else if (registration.paymentMethod === "stripe" && registration.stripePaymentIntentId) {
+    if (refund.amountPaid === 0) {
+      // Unpaid checkout: make sure it can't be paid after its places go
+      if (!(await cancelPaymentIntent(stripe, registration.stripePaymentIntentId))) {
+        throw new CancellationError("A card payment for this registration is still processing. Try again shortly.", 409);
+      }
+    } else if (refund.amount > 0) {
+      stripeRefundId = (await refundCardPayments(stripe, registration, refund.amount)).join(",");
+    }
+  }
+
+  const cancellation: RegistrationCancellation = {
+    paymentStatus: refund.amount === 0
+      ? "cancelled"
+      : refund.amount >= refund.amountPaid ? "refunded" : "partially_refunded",
+    // On top of anything already refunded from the Stripe dashboard
+    refundAmount: Math.round(((Number(registration.refundAmount) || 0) + refund.amount) * 100) / 100,
+    stripeRefundId,
+    cancelledBy: request.cancelledBy,
+    cancellationReason: request.reason?.trim() || null,
+  };
+  const cancelled = await store.cancelRegistration(registration.id, cancellation);
+  if (!cancelled) {
+    throw new CancellationError("This registration has already been cancelled.", 409);
+  }
+
+  let waitlistOffers = 0;
+  try {
+    waitlistOffers = (await promoteWaitlistsForRegistration(cancelled, store)).length;
+  } catch (error: any) {
+    logError(`Failed to offer places released by cancelling ${cancelled.id}: ${error.message}`);
+  }
+
+  await notifyRegistration(store, "registration_cancelled", cancelled, `registration_cancelled:${cancelled.id}`, {
+    cancellationReason: cancellation.cancellationReason || "Cancelled by the festival organisers",
+    refundAmount: formatChargedAmount(refund.amount, cancelled),
+  });
+
+  return { registration: cancelled, refund, waitlistOffers };
+}
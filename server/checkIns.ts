@@ -0,0 +1,200 @@
+import type { CheckIn, Registration } from "@shared/schema";
+import {
+  checkInKey,
+  getAdmissionStatus,
+  getEntitledSessions,
+  getEventSessions,
+  parseScannedCode,
+  type AdmissionStatus,
+  type CheckInSession,
+  type CheckInSessionType,
+} from "@shared/checkIn";
+import type { IStorage } from "./storage";
+import { getRegistrationByAccessToken } from "./registrationAccess";
+import { registrationCode } from "./paymentReminders";
+import { logObject } from "./logger";
+
+// Door check-in. The QR code on a confirmation page holds the signed
+// confirmation link, so scanning it identifies the registration without
+// trusting anything else printed on the ticket; staff without a code can
+// look the dancer up by name, email or registration code instead.
+
+type SessionStorage = Pick<IStorage, "getWorkshops" | "getMilongas" | "getTables">;
+
+export class CheckInError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "CheckInError";
+  }
+}
+
+export interface DancerCheckIn {
+  registrationId: string;
+  code: string;
+  names: string[];
+  packageType: string;
+  role: string;
+  tableNumber: number | null;
+  addons: Array<{ name: string; quantity: number }>;
+  admission: { status: AdmissionStatus; label: string };
+  totalAmount: string;
+  amountReceived: string | null;
+  currency: string | null;
+  sessions: Array<CheckInSession & { checkIn: CheckIn | null }>;
+}
+
+export interface CheckInSearchResult {
+  registrationId: string;
+  code: string;
+  names: string[];
+  email: string;
+  packageType: string;
+  admission: { status: AdmissionStatus; label: string };
+}
+
+const people = (registration: Registration) =>
+  [registration.leaderInfo, registration.followerInfo]
+    .map((info) => info as { firstName?: string; lastName?: string; email?: string } | null)
+    .filter((info): info is { firstName?: string; lastName?: string; email?: string } => !!info);
+
+const fullNames = (registration: Registration) =>
+  people(registration).map((person) => `${person.firstName || ""} ${person.lastName || ""}`.trim()).filter(Boolean);
+
+/** The event's workshops, milongas and, if it has tables, the gala dinner. */
+export async function getCheckInSessions(store: SessionStorage, eventId: string): Promise<CheckInSession[]> {
+  const [workshops, milongas, tables] = await Promise.all([
+    store.getWorkshops(eventId),
+    store.getMilongas(eventId),
+    store.getTables(eventId),
+  ]);
+  return getEventSessions({ workshops, milongas, hasGala: tables.length > 0 });
+}
+
+/**
+ * The registration a scanned QR code or typed code belongs to: a
+ * confirmation link or its access token, or a registration code such as
+ * "FUL-3F1C2B4A" from the event.
+ */
+export async function findRegistrationByCode(
+  store: Pick<IStorage, "getRegistration" | "getRegistrations">,
+  eventId: string,
+  scanned: string,
+): Promise<Registration> {
+  const code = parseScannedCode(scanned);
+  if (!code) {
+    throw new CheckInError("Scan or enter a code");
+  }
+
+  const registration = code.includes(".")
+    ? await getRegistrationByAccessToken(store, code)
+    : (await store.getRegistrations(eventId)).find((candidate) => registrationCode(candidate) === code.toUpperCase());
+  if (!registration) {
+    throw new CheckInError("This code doesn't match a registration. It may have been replaced.", 404);
+  }
+  if (registration.eventId !== eventId) {
+    throw new CheckInError("This registration is for a different event");
+  }
+  return registration;
+}
+
+/** Registrations of an event matching a name, email or registration code. */
+export async function searchCheckInRegistrations(
+  store: Pick<IStorage, "getRegistrations">,
+  eventId: string,
+  query: string,
+): Promise<CheckInSearchResult[]> {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  return (await store.getRegistrations(eventId))
+    .filter((registration) => {
+      const haystack = [
+        registrationCode(registration),
+        ...people(registration).flatMap((person) => [person.firstName, person.lastName, person.email]),
+      ].filter(Boolean).join(" ").toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    })
+    .slice(0, 20)
+    .map((registration) => ({
+      registrationId: registration.id,
+      code: registrationCode(registration),
+      names: fullNames(registration),
+      email: people(registration).find((person) => person.email)?.email || "",
+      packageType: registration.packageType,
+      admission: getAdmissionStatus(registration),
+    }));
+}
+
+/** What the door needs to see about a dancer, and where they've been let in. */
+export async function getDancerCheckIn(
+  store: SessionStorage & Pick<IStorage, "getAddons" | "getCheckIns">,
+  registration: Registration,
+): Promise<DancerCheckIn> {
+  const [sessions, addons, checkIns] = await Promise.all([
+    getCheckInSessions(store, registration.eventId),
+    store.getAddons(registration.eventId),
+    store.getCheckIns(registration.id),
+  ]);
+  const addonNames = new Map(addons.map((addon) => [addon.id, addon.name]));
+  const selectedAddons = (registration.addons as Array<{ id: string; quantity: number }> | null) || [];
+
+  return {
+    registrationId: registration.id,
+    code: registrationCode(registration),
+    names: fullNames(registration),
+    packageType: registration.packageType,
+    role: registration.role,
+    tableNumber: registration.selectedTableNumber,
+    addons: selectedAddons.map((addon) => ({ name: addonNames.get(addon.id) || "Add-on", quantity: addon.quantity })),
+    admission: getAdmissionStatus(registration),
+    totalAmount: registration.totalAmount,
+    amountReceived: registration.amountReceived,
+    currency: registration.currency,
+    sessions: getEntitledSessions(registration, sessions).map((session) => ({
+      ...session,
+      checkIn: checkIns.find((checkIn) => checkIn.sessionType === session.type && checkIn.sessionId === session.id) || null,
+    })),
+  };
+}
+
+/**
+ * Check a registration in to one of its sessions. Scanning someone who is
+ * already in returns their first check-in, flagged as a duplicate.
+ */
+export async function checkInRegistration(
+  store: SessionStorage & Pick<IStorage, "createCheckIn">,
+  registration: Registration,
+  session: { type: CheckInSessionType; id: string },
+  checkedInBy: string,
+  now: Date = new Date(),
+): Promise<{ checkIn: CheckIn; duplicate: boolean }> {
+  const admission = getAdmissionStatus(registration);
+  if (admission.status === "void") {
+    throw new CheckInError(`This registration is ${admission.label.toLowerCase()} and can't be checked in`, 409);
+  }
+
+  const sessions = await getCheckInSessions(store, registration.eventId);
+  const entitled = getEntitledSessions(registration, sessions)
+    .some((candidate) => candidate.type === session.type && candidate.id === session.id);
+  if (!entitled) {
+    throw new CheckInError("This registration doesn't include that session", 409);
+  }
+
+  const result = await store.createCheckIn({
+    eventId: registration.eventId,
+    registrationId: registration.id,
+    sessionType: session.type,
+    sessionId: session.id,
+    checkInKey: checkInKey(registration.id, session.type, session.id),
+    checkedInAt: now,
+    checkedInBy,
+  });
+
+  logObject("INFO", result.duplicate ? "Duplicate check-in scan" : "Checked in", {
+    registrationId: registration.id,
+    sessionType: session.type,
+    sessionId: session.id,
+    checkedInBy,
+  });
+  return result;
+}
@@ -22,7 +22,9 @@ export function getDb() {
       const databaseUrl = getDatabaseUrl();
       console.log("Creating database connection...");
       clientInstance = postgres(databaseUrl, {
-        max: 1, // Important for serverless - limit connections
+        // Important for serverless - limit connections. Tests raise it to
+        // run transactions side by side.
+        max: Number(process.env.DATABASE_POOL_MAX) || 1,
         idle_timeout: 20,
         connect_timeout: 10,
       });
@@ -42,3 +44,10 @@ export const db = new Proxy({} as ReturnType<typeof drizzle>, {
     return getDb()[prop as keyof ReturnType<typeof drizzle>];
   }
 });
+
+// Close the connection, e.g. so a test run can exit
+export async function closeDb(): Promise<void> {
+  await clientInstance?.end();
+  clientInstance = null;
+  dbInstance = null;
+}
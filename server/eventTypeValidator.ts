@@ -1,3 +1,6 @@
+import { refundPolicySchema } from "@shared/refundPolicy";
+import { currencyCodeSchema, exchangeRatesSchema } from "@shared/currency";
+
 /**
  * Type validator and converter for Event data
  * Ensures all fields match the database schema types
@@ -151,6 +154,24 @@ export function sanitizeEventData(eventData: any): any {
   if (eventData.year !== undefined) sanitized.year = Number(eventData.year);
   if (eventData.id !== undefined) sanitized.id = String(eventData.id);
 
+  // Refund policy - validated list of deadlines; null clears it
+  if (eventData.refundPolicy !== undefined) {
+    sanitized.refundPolicy = refundPolicySchema.parse(eventData.refundPolicy ?? []);
+  }
+
+  // VAT rate - percent stored as a decimal string
+  if (eventData.vatRate !== undefined) {
+    sanitized.vatRate = eventData.vatRate === null || eventData.vatRate === '' ? '0' : String(Number(eventData.vatRate));
+  }
+
+  // Currencies - base currency code and validated exchange rates; null clears the rates
+  if (eventData.baseCurrency !== undefined && eventData.baseCurrency !== null) {
+    sanitized.baseCurrency = currencyCodeSchema.parse(String(eventData.baseCurrency).trim().toUpperCase());
+  }
+  if (eventData.currencies !== undefined) {
+    sanitized.currencies = exchangeRatesSchema.parse(eventData.currencies ?? []);
+  }
+
   // Remove undefined values
   Object.keys(sanitized).forEach(key => {
     if (sanitized[key] === undefined) {
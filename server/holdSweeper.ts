@@ -0,0 +1,125 @@
+import type Stripe from "stripe";
+import type { WaitlistItemType } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { offerWaitlistPlaces, promoteWaitlistsForRegistration } from "./waitlist";
+import { logError, logObject } from "./logger";
+
+// Releases card checkouts that were never paid and passes lapsed waitlist
+// offers on to the next dancer in line. Runs on a timer for long-lived
+// servers and from the cron endpoint on serverless deployments.
+
+type SweeperStorage = Pick<
+  IStorage,
+  | "getExpiredHolds"
+  | "releaseRegistrationHold"
+  | "getExpiredWaitlistOffers"
+  | "getWorkshops"
+  | "getMilongas"
+  | "getTables"
+  | "promoteWaitlist"
+  | "getEvent"
+  | "getEmailTemplate"
+  | "queueEmail"
+>;
+
+type SweeperStripe = { paymentIntents: Pick<Stripe.PaymentIntentsResource, "retrieve" | "cancel"> };
+
+export interface SweepResult {
+  released: string[];
+  skipped: string[];
+  waitlistOffers: number;
+}
+
+// Payment intents in these states may still capture money, so the places
+// must stay held until the webhook settles them.
+const IN_FLIGHT_INTENT_STATUSES = new Set(["succeeded", "processing", "requires_capture"]);
+
+/**
+ * Cancel the registration's payment intent so it can't be paid after its
+ * places are given away. Returns false if the payment is already going through.
+ */
+export async function cancelPaymentIntent(stripe: SweeperStripe, paymentIntentId: string): Promise<boolean> {
+  const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  if (IN_FLIGHT_INTENT_STATUSES.has(intent.status)) {
+    return false;
+  }
+  if (intent.status !== "canceled") {
+    await stripe.paymentIntents.cancel(paymentIntentId);
+  }
+  return true;
+}
+
+export async function releaseExpiredHolds(
+  store: SweeperStorage,
+  stripe: SweeperStripe,
+  now: Date = new Date(),
+): Promise<SweepResult> {
+  const result: SweepResult = { released: [], skipped: [], waitlistOffers: 0 };
+
+  for (const registration of await store.getExpiredHolds(now)) {
+    try {
+      if (registration.stripePaymentIntentId &&
+          !(await cancelPaymentIntent(stripe, registration.stripePaymentIntentId))) {
+        result.skipped.push(registration.id);
+        continue;
+      }
+
+      const released = await store.releaseRegistrationHold(registration.id);
+      if (!released) {
+        result.skipped.push(registration.id);
+        continue;
+      }
+      result.released.push(released.id);
+      result.waitlistOffers += (await promoteWaitlistsForRegistration(released, store)).length;
+    } catch (error: any) {
+      result.skipped.push(registration.id);
+      logError(`Failed to release hold for registration ${registration.id}: ${error.message}`);
+    }
+  }
+
+  // Each lapsed offer frees its place for the next entry in the same queue
+  const lapsedItems = new Map<string, { itemType: WaitlistItemType; itemId: string }>();
+  for (const offer of await store.getExpiredWaitlistOffers(now)) {
+    lapsedItems.set(`${offer.itemType}:${offer.itemId}`, {
+      itemType: offer.itemType as WaitlistItemType,
+      itemId: offer.itemId,
+    });
+  }
+  for (const { itemType, itemId } of Array.from(lapsedItems.values())) {
+    try {
+      result.waitlistOffers += (await offerWaitlistPlaces(store, itemType, itemId)).length;
+    } catch (error: any) {
+      logError(`Failed to pass on lapsed waitlist offers for ${itemType} ${itemId}: ${error.message}`);
+    }
+  }
+
+  if (result.released.length > 0 || result.waitlistOffers > 0) {
+    logObject("INFO", "Hold sweep", result);
+  }
+  return result;
+}
+
+/**
+ * Run the sweep on an interval. The timer is unref'd so it never keeps the
+ * process alive on its own.
+ */
+export function startHoldSweeper(
+  store: SweeperStorage,
+  stripe: SweeperStripe,
+  intervalMs: number = 60 * 1000,
+): NodeJS.Timeout {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await releaseExpiredHolds(store, stripe);
+    } catch (error: any) {
+      logError(`Hold sweep failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
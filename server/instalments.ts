@@ -0,0 +1,249 @@
+import type Stripe from "stripe";
+import type { PaymentInstalment, Registration } from "@shared/schema";
+import { getAutoCancelDate } from "@shared/paymentPlans";
+import { formatChargedAmount, toChargeCents } from "@shared/currency";
+import type { IStorage } from "./storage";
+import { cancelRegistration } from "./cancellations";
+import { notifyRegistration } from "./notifications";
+import { contactEmail, registrationCode } from "./paymentReminders";
+import { logError, logObject } from "./logger";
+
+// Payment plans: the deposit is paid at checkout with the card saved for
+// later, each instalment is charged to that card off-session when it falls
+// due, and registrations whose final instalment stays unpaid are cancelled
+// under the plan's auto-cancel rule. Runs on a timer for long-lived servers
+// and from the cron endpoint on serverless deployments.
+
+type InstalmentStorage = Pick<
+  IStorage,
+  | "getOpenPaymentPlanRegistrations"
+  | "getPaymentInstalments"
+  | "updatePaymentInstalment"
+  | "setRegistrationPaymentIntent"
+  | "updateRegistrationStripeCustomer"
+  | "getRegistration"
+  | "getEvent"
+  | "cancelRegistration"
+  | "getWorkshops"
+  | "getMilongas"
+  | "getTables"
+  | "promoteWaitlist"
+  | "getEmailTemplate"
+  | "queueEmail"
+>;
+
+type InstalmentStripe = {
+  customers: Pick<Stripe.CustomersResource, "create">;
+  paymentIntents: Pick<Stripe.PaymentIntentsResource, "create" | "retrieve" | "cancel">;
+  refunds: Pick<Stripe.RefundsResource, "create">;
+};
+
+// Automatic charges stop after this many tries; the dancer can still pay
+// from their confirmation page
+const MAX_CHARGE_ATTEMPTS = 3;
+
+// Days to wait before retrying a declined instalment
+const RETRY_AFTER_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface InstalmentRunResult {
+  charged: string[];
+  failed: string[];
+  cancelled: string[];
+}
+
+const isUnpaid = (instalment: PaymentInstalment) =>
+  instalment.status === "pending" || instalment.status === "failed";
+
+async function ensureStripeCustomer(
+  store: Pick<InstalmentStorage, "updateRegistrationStripeCustomer">,
+  stripe: Pick<InstalmentStripe, "customers">,
+  registration: Registration,
+): Promise<string> {
+  if (registration.stripeCustomerId) return registration.stripeCustomerId;
+
+  const leader = registration.leaderInfo as { firstName?: string; lastName?: string } | null;
+  const follower = registration.followerInfo as { firstName?: string; lastName?: string } | null;
+  const person = leader?.firstName ? leader : follower;
+  const customer = await stripe.customers.create(
+    {
+      email: contactEmail(registration),
+      name: person ? `${person.firstName} ${person.lastName}` : undefined,
+      metadata: { registrationId: registration.id },
+    },
+    { idempotencyKey: `customer-${registration.id}` },
+  );
+  await store.updateRegistrationStripeCustomer(registration.id, customer.id);
+  return customer.id;
+}
+
+/**
+ * Create a payment intent for the dancer to pay one instalment now, saving
+ * their card so later instalments can be charged automatically. The
+ * deposit's intent also becomes the registration's, so the checkout hold
+ * sweeper cancels it if the deposit is never paid.
+ */
+export async function createInstalmentPaymentIntent(
+  store: Pick<InstalmentStorage, "updatePaymentInstalment" | "setRegistrationPaymentIntent" | "updateRegistrationStripeCustomer">,
+  stripe: Pick<InstalmentStripe, "customers" | "paymentIntents">,
+  registration: Registration,
+  instalment: PaymentInstalment,
+): Promise<Stripe.PaymentIntent> {
+  const customer = await ensureStripeCustomer(store, stripe, registration);
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: toChargeCents(instalment.amount, registration.exchangeRate),
+    currency: registration.currency.toLowerCase(),
+    customer,
+    setup_future_usage: "off_session",
+    description: `${registrationCode(registration)} ${instalment.label}`,
+    metadata: {
+      registrationId: registration.id,
+      instalmentId: instalment.id,
+    },
+  });
+
+  await store.updatePaymentInstalment(instalment.id, { stripePaymentIntentId: paymentIntent.id });
+  if (instalment.sequence === 0) {
+    await store.setRegistrationPaymentIntent(registration.id, paymentIntent.id);
+  }
+  return paymentIntent;
+}
+
+/**
+ * Charge one due instalment to the registration's saved card. Successful
+ * charges are recorded by the Stripe webhook; declines mark the instalment
+ * failed and email the dancer. Returns whether the charge went through.
+ */
+async function chargeInstalment(
+  store: Pick<InstalmentStorage, "updatePaymentInstalment" | "getEvent" | "getEmailTemplate" | "queueEmail">,
+  stripe: Pick<InstalmentStripe, "paymentIntents">,
+  registration: Registration,
+  instalment: PaymentInstalment,
+  now: Date,
+): Promise<boolean> {
+  const attemptCount = (instalment.attemptCount || 0) + 1;
+  try {
+    // One key per attempt, so a crash mid-run can't charge the same attempt twice
+    const paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: toChargeCents(instalment.amount, registration.exchangeRate),
+        currency: registration.currency.toLowerCase(),
+        customer: registration.stripeCustomerId!,
+        payment_method: registration.stripePaymentMethodId!,
+        off_session: true,
+        confirm: true,
+        description: `${registrationCode(registration)} ${instalment.label}`,
+        metadata: {
+          registrationId: registration.id,
+          instalmentId: instalment.id,
+        },
+      },
+      { idempotencyKey: `instalment-${instalment.id}-${attemptCount}` },
+    );
+    await store.updatePaymentInstalment(instalment.id, {
+      stripePaymentIntentId: paymentIntent.id,
+      attemptCount,
+      lastAttemptAt: now,
+    });
+    return true;
+  } catch (error: any) {
+    const paymentIntentId: string | undefined = error.raw?.payment_intent?.id;
+    await store.updatePaymentInstalment(instalment.id, {
+      status: "failed",
+      stripePaymentIntentId: paymentIntentId ?? instalment.stripePaymentIntentId,
+      failureMessage: error.message,
+      attemptCount,
+      lastAttemptAt: now,
+    });
+    // Keyed like the webhook's failure email for the same payment intent,
+    // so the dancer only hears about each decline once
+    await notifyRegistration(
+      store,
+      "payment_failed",
+      registration,
+      `payment_failed:${paymentIntentId ?? `${instalment.id}-${attemptCount}`}`,
+      { amount: formatChargedAmount(instalment.amount, registration), failureReason: error.message },
+    );
+    return false;
+  }
+}
+
+const isChargeDue = (instalment: PaymentInstalment, now: Date) =>
+  instalment.sequence > 0 &&
+  isUnpaid(instalment) &&
+  new Date(instalment.dueDate) <= now &&
+  (instalment.attemptCount || 0) < MAX_CHARGE_ATTEMPTS &&
+  (!instalment.lastAttemptAt || now.getTime() - new Date(instalment.lastAttemptAt).getTime() >= RETRY_AFTER_DAYS * DAY_MS);
+
+/**
+ * Charge every instalment that has fallen due and cancel registrations
+ * whose plan has lapsed. Auto-cancelled registrations are refunded under
+ * the event's refund policy, like an admin cancellation.
+ */
+export async function runInstalmentSchedule(
+  store: InstalmentStorage,
+  stripe: InstalmentStripe,
+  now: Date = new Date(),
+): Promise<InstalmentRunResult> {
+  const result: InstalmentRunResult = { charged: [], failed: [], cancelled: [] };
+
+  for (const registration of await store.getOpenPaymentPlanRegistrations()) {
+    try {
+      const instalments = await store.getPaymentInstalments(registration.id);
+      const final = instalments[instalments.length - 1];
+      const autoCancelAt = final && isUnpaid(final) ? getAutoCancelDate(registration.paymentPlan, final.dueDate) : null;
+
+      if (autoCancelAt && autoCancelAt <= now) {
+        await cancelRegistration(store, stripe, registration.id, {
+          cancelledBy: "system",
+          reason: "Payment plan lapsed: final instalment not paid",
+        }, now);
+        result.cancelled.push(registration.id);
+        continue;
+      }
+
+      if (!registration.stripeCustomerId || !registration.stripePaymentMethodId) continue;
+      for (const instalment of instalments.filter((candidate) => isChargeDue(candidate, now))) {
+        if (await chargeInstalment(store, stripe, registration, instalment, now)) {
+          result.charged.push(instalment.id);
+        } else {
+          result.failed.push(instalment.id);
+        }
+      }
+    } catch (error: any) {
+      // Retried on the next run, e.g. when a payment was still processing
+      logError(`Payment plan run failed for registration ${registration.id}: ${error.message}`);
+    }
+  }
+
+  if (result.charged.length > 0 || result.failed.length > 0 || result.cancelled.length > 0) {
+    logObject("INFO", "Payment plan instalments", result);
+  }
+  return result;
+}
+
+/**
+ * Run the instalment schedule on an interval. The timer is unref'd so it
+ * never keeps the process alive on its own.
+ */
+export function startInstalmentScheduler(
+  store: InstalmentStorage,
+  stripe: InstalmentStripe,
+  intervalMs: number = 60 * 60 * 1000,
+): NodeJS.Timeout {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runInstalmentSchedule(store, stripe);
+    } catch (error: any) {
+      logError(`Payment plan run failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
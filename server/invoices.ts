@@ -0,0 +1,323 @@
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import type { Event, Invoice, Registration } from "@shared/schema";
+import { formatMoney, DEFAULT_BASE_CURRENCY } from "@shared/currency";
+import {
+  INVOICE_DOCUMENT_LABELS,
+  calculateInvoiceTotals,
+  getCreditNoteLineItems,
+  getInvoiceLineItems,
+  isInvoiceable,
+  type InvoiceDocumentType,
+} from "@shared/invoices";
+import { OFFLINE_PAYMENT_METHOD_LABELS, type OfflinePaymentMethod } from "@shared/offlinePayments";
+import type { IStorage } from "./storage";
+import { contactEmail, registrationCode } from "./paymentReminders";
+import { logError } from "./logger";
+
+// Tax invoices and credit notes. Documents are issued the first time a
+// registration's invoices are asked for (or in bulk by an admin), numbered
+// in the event's series and stored as issued; the PDFs are rendered from
+// the stored documents, so regenerating one always gives the same figures.
+
+type InvoiceStorage = Pick<
+  IStorage,
+  | "getEvent"
+  | "getRegistration"
+  | "getRegistrations"
+  | "getInvoices"
+  | "getInvoice"
+  | "issueInvoice"
+  | "getOfflinePayments"
+  | "getPaymentInstalments"
+>;
+
+export interface InvoiceRunResult {
+  invoices: number;
+  creditNotes: number;
+  failed: string[];
+}
+
+interface PaymentRecord {
+  date: Date;
+  description: string;
+  reference: string | null;
+  amount: number; // Negative for refunds
+}
+
+const attendeeName = (registration: Registration) => {
+  const leader = registration.leaderInfo as { firstName?: string; lastName?: string } | null;
+  const follower = registration.followerInfo as { firstName?: string; lastName?: string } | null;
+  const names = [leader, follower]
+    .filter((person) => person?.firstName)
+    .map((person) => `${person!.firstName} ${person!.lastName}`);
+  return names.join(" & ") || "Unknown";
+};
+
+async function issueDocument(
+  store: Pick<InvoiceStorage, "issueInvoice">,
+  event: Event,
+  registration: Registration,
+  documentType: InvoiceDocumentType,
+  items: Array<{ description: string; quantity: number; amount: number }>,
+  invoiceId: string | null,
+  now: Date,
+): Promise<Invoice> {
+  const vatRate = Number(event.vatRate) || 0;
+  const totals = calculateInvoiceTotals(items, vatRate);
+  return store.issueInvoice({
+    eventId: event.id,
+    registrationId: registration.id,
+    documentType,
+    invoiceId,
+    issuedAt: now,
+    issuer: event.invoiceIssuer || event.name,
+    taxRegistrationNumber: event.taxRegistrationNumber || null,
+    vatRate: String(vatRate),
+    currency: event.baseCurrency || DEFAULT_BASE_CURRENCY,
+    lineItems: totals.lines,
+    subtotal: String(totals.subtotal),
+    vatAmount: String(totals.vatAmount),
+    total: String(totals.total),
+  });
+}
+
+/**
+ * Issue whatever documents a registration is due and doesn't have yet: its
+ * invoice once it is paid for or owes a bank transfer, and a credit note
+ * once it is cancelled with a refund or an unpaid balance. Returns all of
+ * the registration's documents.
+ */
+export async function issueRegistrationInvoices(
+  store: InvoiceStorage,
+  registration: Registration,
+  now: Date = new Date(),
+): Promise<Invoice[]> {
+  const documents = await store.getInvoices(registration.id);
+  let invoice = documents.find((document) => document.documentType === "invoice");
+  const creditNote = documents.find((document) => document.documentType === "credit_note");
+
+  const invoiceDue = !invoice && isInvoiceable(registration);
+  const creditLines = getCreditNoteLineItems(registration);
+  const creditNoteDue = !creditNote && creditLines.length > 0 && (!!invoice || invoiceDue);
+  if (!invoiceDue && !creditNoteDue) return documents;
+
+  const event = await store.getEvent(registration.eventId);
+  if (!event) {
+    throw new Error("Event not found");
+  }
+  if (invoiceDue) {
+    invoice = await issueDocument(store, event, registration, "invoice", getInvoiceLineItems(registration), null, now);
+  }
+  if (creditNoteDue) {
+    await issueDocument(store, event, registration, "credit_note", creditLines, invoice!.id, now);
+  }
+  return store.getInvoices(registration.id);
+}
+
+/**
+ * Issue the missing invoices and credit notes of every registration of an
+ * event, e.g. after its VAT details are set up.
+ */
+export async function issueEventInvoices(
+  store: InvoiceStorage,
+  eventId: string,
+  now: Date = new Date(),
+): Promise<InvoiceRunResult> {
+  const result: InvoiceRunResult = { invoices: 0, creditNotes: 0, failed: [] };
+  for (const registration of await store.getRegistrations(eventId)) {
+    try {
+      const before = await store.getInvoices(registration.id);
+      const after = await issueRegistrationInvoices(store, registration, now);
+      const added = after.filter((document) => !before.some((existing) => existing.id === document.id));
+      result.invoices += added.filter((document) => document.documentType === "invoice").length;
+      result.creditNotes += added.filter((document) => document.documentType === "credit_note").length;
+    } catch (error: any) {
+      logError(`Failed to issue invoices for registration ${registration.id}: ${error.message}`);
+      result.failed.push(registration.id);
+    }
+  }
+  return result;
+}
+
+// Everything paid towards a registration and refunded from it, oldest first
+async function getPaymentHistory(
+  store: Pick<InvoiceStorage, "getOfflinePayments" | "getPaymentInstalments">,
+  registration: Registration,
+): Promise<PaymentRecord[]> {
+  const records: PaymentRecord[] = [];
+  if (registration.paymentMethod === "offline") {
+    for (const payment of await store.getOfflinePayments(registration.id)) {
+      records.push({
+        date: new Date(payment.receivedAt),
+        description: OFFLINE_PAYMENT_METHOD_LABELS[payment.method as OfflinePaymentMethod] ?? payment.method,
+        reference: payment.reference,
+        amount: Number(payment.amount),
+      });
+    }
+  } else if (registration.paymentPlan) {
+    for (const instalment of await store.getPaymentInstalments(registration.id)) {
+      if (instalment.status !== "paid") continue;
+      records.push({
+        date: new Date(instalment.paidAt || instalment.dueDate),
+        description: `Card payment: ${instalment.label}`,
+        reference: instalment.stripePaymentIntentId,
+        amount: Number(instalment.amount),
+      });
+    }
+  } else if (registration.stripePaymentIntentId && registration.paymentStatus !== "pending" && registration.paymentStatus !== "expired") {
+    records.push({
+      date: new Date(registration.createdAt || Date.now()),
+      description: "Card payment",
+      reference: registration.stripePaymentIntentId,
+      amount: Number(registration.totalAmount),
+    });
+  }
+
+  if (Number(registration.refundAmount) > 0) {
+    records.push({
+      date: new Date(registration.cancelledAt || Date.now()),
+      description: "Refund",
+      reference: registration.stripeRefundId,
+      amount: -Number(registration.refundAmount),
+    });
+  }
+  return records.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" });
+
+async function renderDocument(
+  doc: jsPDF,
+  store: Pick<InvoiceStorage, "getInvoice" | "getOfflinePayments" | "getPaymentInstalments">,
+  invoice: Invoice,
+  registration: Registration,
+) {
+  const money = (amount: number | string) => formatMoney(amount, invoice.currency);
+  const left = 14;
+  const right = doc.internal.pageSize.getWidth() - 14;
+
+  doc.setFontSize(18);
+  doc.text(INVOICE_DOCUMENT_LABELS[invoice.documentType as InvoiceDocumentType], left, 20);
+
+  // Seller
+  doc.setFontSize(10);
+  let y = 30;
+  for (const line of (invoice.issuer || "").split("\n").filter(Boolean)) {
+    doc.text(line, left, y);
+    y += 5;
+  }
+  if (invoice.taxRegistrationNumber) {
+    doc.text(`TRN: ${invoice.taxRegistrationNumber}`, left, y);
+    y += 5;
+  }
+
+  // Document details
+  const details = [
+    `Number: ${invoice.number}`,
+    `Date: ${formatDate(invoice.issuedAt)}`,
+    `Registration: ${registrationCode(registration)}`,
+  ];
+  if (invoice.invoiceId) {
+    const original = await store.getInvoice(invoice.invoiceId);
+    if (original) details.push(`Credit for invoice: ${original.number}`);
+  }
+  details.forEach((line, index) => doc.text(line, right, 30 + index * 5, { align: "right" }));
+
+  // Customer
+  y = Math.max(y, 30 + details.length * 5) + 5;
+  doc.setFontSize(11);
+  doc.text("Bill to", left, y);
+  doc.setFontSize(10);
+  doc.text(attendeeName(registration), left, y + 5);
+  const email = contactEmail(registration);
+  if (email) doc.text(email, left, y + 10);
+
+  autoTable(doc, {
+    startY: y + 16,
+    head: [["Description", "Qty", "Net", `VAT ${Number(invoice.vatRate)}%`, "Amount"]],
+    body: invoice.lineItems.map((line) => [
+      line.description,
+      String(line.quantity),
+      money(line.net),
+      money(line.vat),
+      money(line.amount),
+    ]),
+    foot: [
+      ["Total excluding VAT", "", "", "", money(invoice.subtotal)],
+      [`VAT at ${Number(invoice.vatRate)}%`, "", "", "", money(invoice.vatAmount)],
+      [invoice.documentType === "credit_note" ? "Total credited" : "Total", "", "", "", money(invoice.total)],
+    ],
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [220, 50, 50] },
+    footStyles: { fillColor: [245, 245, 245], textColor: [0, 0, 0] },
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" } },
+  });
+  y = (doc as any).lastAutoTable.finalY + 10;
+
+  // Payments against the invoice, with what is still owed
+  if (invoice.documentType === "invoice") {
+    const payments = await getPaymentHistory(store, registration);
+    if (payments.length > 0) {
+      autoTable(doc, {
+        startY: y,
+        head: [["Payment date", "Payment", "Reference", "Amount"]],
+        body: payments.map((payment) => [
+          formatDate(payment.date),
+          payment.description,
+          payment.reference || "",
+          money(payment.amount),
+        ]),
+        styles: { fontSize: 9 },
+        headStyles: { fillColor: [120, 120, 120] },
+        columnStyles: { 3: { halign: "right" } },
+      });
+      y = (doc as any).lastAutoTable.finalY + 8;
+    }
+    const paid = payments.filter((payment) => payment.amount > 0).reduce((sum, payment) => sum + payment.amount, 0);
+    if (!registration.cancelledAt) {
+      doc.text(`Balance due: ${money(Math.max(0, Number(invoice.total) - paid))}`, right, y, { align: "right" });
+      y += 8;
+    }
+  }
+
+  if (Number(registration.exchangeRate) !== 1) {
+    doc.setFontSize(8);
+    doc.text(
+      `Card payments were charged in ${registration.currency} at ${Number(registration.exchangeRate)} ${registration.currency} per ${invoice.currency}.`,
+      left,
+      y,
+    );
+    doc.setFontSize(10);
+    y += 6;
+  }
+  doc.setFontSize(8);
+  doc.text("All prices include VAT.", left, y);
+  doc.setFontSize(10);
+}
+
+/**
+ * Render invoices and credit notes as one PDF, a page (or more) each.
+ */
+export async function renderInvoicesPdf(
+  store: Pick<InvoiceStorage, "getRegistration" | "getInvoice" | "getOfflinePayments" | "getPaymentInstalments">,
+  invoices: Invoice[],
+): Promise<Buffer> {
+  const doc = new jsPDF();
+  const registrations = new Map<string, Registration | undefined>();
+  let first = true;
+
+  for (const invoice of invoices) {
+    if (!registrations.has(invoice.registrationId)) {
+      registrations.set(invoice.registrationId, await store.getRegistration(invoice.registrationId));
+    }
+    const registration = registrations.get(invoice.registrationId);
+    if (!registration) continue;
+
+    if (!first) doc.addPage();
+    first = false;
+    await renderDocument(doc, store, invoice, registration);
+  }
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,127 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import sgMail from "@sendgrid/mail";
+import { log, logWarn } from "./logger";
+
+// Outgoing email through a pluggable transport, chosen with EMAIL_TRANSPORT:
+//   smtp     - SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS (SMTP_SECURE=true for TLS on connect)
+//   sendgrid - SENDGRID_API_KEY
+//   file     - writes each email as an .eml file to EMAIL_OUTPUT_DIR (default logs/emails)
+//   console  - logs each email instead of sending it
+// Without EMAIL_TRANSPORT, SMTP is used when SMTP_HOST is set, then SendGrid
+// when its key is set. The sender is EMAIL_FROM (or SENDGRID_FROM_EMAIL).
+// With neither a transport nor a sender nothing is sent, so local
+// development never emails real attendees.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export type Mailer = (message: EmailMessage) => Promise<boolean>;
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+export const EMAIL_TRANSPORTS = ["smtp", "sendgrid", "file", "console"] as const;
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number];
+
+export function createSmtpTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  return {
+    name: "smtp",
+    send: async (message) => {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+export function createSendGridTransport(): EmailTransport {
+  sgMail.setApiKey(process.env.SENDGRID_API_KEY!);
+  return {
+    name: "sendgrid",
+    send: async (message) => {
+      await sgMail.send(message);
+    },
+  };
+}
+
+/** Writes every email to `dir` as an .eml file that any mail client opens. */
+export function createFileTransport(dir: string = process.env.EMAIL_OUTPUT_DIR || "logs/emails"): EmailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+  return {
+    name: "file",
+    send: async (message) => {
+      const info = await transporter.sendMail(message);
+      await mkdir(dir, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w.@-]/g, "_")}.eml`;
+      await writeFile(path.join(dir, fileName), info.message as Buffer);
+    },
+  };
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    send: async ({ to, subject, text }) => {
+      log(`Email to ${to}: "${subject}"\n${text}`, "mailer");
+    },
+  };
+}
+
+function selectTransport(): EmailTransportName | undefined {
+  const configured = process.env.EMAIL_TRANSPORT as EmailTransportName | undefined;
+  if (configured) {
+    if (!EMAIL_TRANSPORTS.includes(configured)) {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${configured}"; use one of ${EMAIL_TRANSPORTS.join(", ")}`);
+    }
+    return configured;
+  }
+  if (process.env.SMTP_HOST) return "smtp";
+  if (process.env.SENDGRID_API_KEY) return "sendgrid";
+  return undefined;
+}
+
+const TRANSPORT_FACTORIES: Record<EmailTransportName, () => EmailTransport> = {
+  smtp: createSmtpTransport,
+  sendgrid: createSendGridTransport,
+  file: () => createFileTransport(),
+  console: createConsoleTransport,
+};
+
+let transport: EmailTransport | null | undefined;
+
+function getTransport(): EmailTransport | null {
+  if (transport === undefined) {
+    const name = selectTransport();
+    const from = process.env.EMAIL_FROM || process.env.SENDGRID_FROM_EMAIL;
+    // The local transports don't need a real sender
+    transport = name && (from || name === "file" || name === "console") ? TRANSPORT_FACTORIES[name]() : null;
+  }
+  return transport;
+}
+
+/**
+ * Send an email through the configured transport. Returns false without
+ * sending when no transport is configured; transport errors are thrown.
+ */
+export const sendEmail: Mailer = async ({ to, subject, text, html }) => {
+  const current = getTransport();
+  if (!current) {
+    logWarn(`Email not sent (no email transport configured): "${subject}" to ${to}`);
+    return false;
+  }
+  const from = process.env.EMAIL_FROM || process.env.SENDGRID_FROM_EMAIL || "noreply@localhost";
+  await current.send({ to, from, subject, text, html });
+  return true;
+};
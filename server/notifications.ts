@@ -0,0 +1,344 @@
+import type Stripe from "stripe";
+import type { EmailOutboxEntry, Event, Registration, WaitlistEntry } from "@shared/schema";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  getPersonMergeFields,
+  renderTemplate,
+  type MergeFields,
+  type NotificationType,
+} from "@shared/notifications";
+import { formatChargedAmount, formatMoney } from "@shared/currency";
+import { getOutstandingBalance } from "@shared/offlinePayments";
+import { PACKAGE_LABELS } from "@shared/pricing";
+import type { IStorage } from "./storage";
+import type { Mailer } from "./mailer";
+import type { StripeWebhookResult } from "./stripeWebhook";
+import { contactEmail, registrationCode } from "./paymentReminders";
+import { confirmationUrl } from "./registrationAccess";
+import { logError, logObject } from "./logger";
+
+// Transactional emails. Notifications are rendered from the event's
+// template (or the built-in one) when they happen and queued in the outbox;
+// the outbox is delivered on a timer for long-lived servers and from the
+// cron endpoint on serverless deployments, retrying failed sends with
+// backoff. Each notification has a dedupe key, so the same one is never
+// queued twice, e.g. when Stripe redelivers a webhook.
+
+export type NotificationStorage = Pick<IStorage, "getEvent" | "getEmailTemplate" | "queueEmail">;
+
+type OutboxStorage = Pick<IStorage, "claimDueEmails" | "updateEmailOutboxEntry">;
+
+type ReminderStorage = NotificationStorage & Pick<IStorage, "getAllEvents" | "getRegistrations">;
+
+// Emails that still fail after this many tries are left as failed for an
+// admin to retry
+export const MAX_EMAIL_ATTEMPTS = 5;
+
+// Wait before the first retry, doubling after each failure
+const RETRY_AFTER_MS = 5 * 60 * 1000;
+
+// How long a claimed email is left to its sender before another run may
+// try it again
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days before an event starts that attendees are sent a reminder
+const EVENT_REMINDER_DAYS = Number(process.env.EVENT_REMINDER_DAYS) || 7;
+
+export interface OutboxRunResult {
+  sent: string[];
+  retrying: string[];
+  failed: string[];
+}
+
+// Where the dancer can see their registration, when the app URL is known
+export const registrationLink = (registration: Registration) =>
+  process.env.APP_BASE_URL ? confirmationUrl(process.env.APP_BASE_URL, registration) : "";
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" });
+
+const formatDateTime = (date: Date | string) =>
+  new Date(date).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+
+// What is still owed, in the registration's charge currency
+export const formatBalanceDue = (registration: Registration) =>
+  formatChargedAmount(
+    registration.paymentStatus === "completed" || registration.cancelledAt
+      ? 0
+      : getOutstandingBalance(registration.totalAmount, registration.amountReceived),
+    registration,
+  );
+
+export function getEventMergeFields(event: Event | undefined): MergeFields {
+  if (!event) return {};
+  return {
+    eventName: event.name,
+    eventStartDate: formatDate(event.startDate),
+    eventEndDate: formatDate(event.endDate),
+    venue: event.venue,
+  };
+}
+
+export function getRegistrationMergeFields(registration: Registration): MergeFields {
+  return {
+    ...getPersonMergeFields(registration),
+    registrationCode: registrationCode(registration),
+    packageName: registration.priceQuote?.lineItems.find((line) => line.kind === "package")?.label
+      || PACKAGE_LABELS[registration.packageType]
+      || registration.packageType,
+    totalAmount: formatChargedAmount(registration.totalAmount, registration),
+    balance: formatBalanceDue(registration),
+    registrationLink: registrationLink(registration),
+  };
+}
+
+/**
+ * Render a notification from the event's template, or the built-in one,
+ * and queue it. Returns undefined when the event has switched the type off
+ * or it was already queued. Failures are logged rather than thrown: the
+ * change being notified about has already happened.
+ */
+async function queueNotification(
+  store: NotificationStorage,
+  type: NotificationType,
+  eventId: string,
+  recipient: string,
+  fields: MergeFields,
+  dedupeKey: string,
+  registrationId: string | null = null,
+): Promise<EmailOutboxEntry | undefined> {
+  try {
+    const template = await store.getEmailTemplate(eventId, type);
+    if (template && !template.enabled) return undefined;
+
+    const content = template ?? DEFAULT_EMAIL_TEMPLATES[type];
+    const allFields = { ...getEventMergeFields(await store.getEvent(eventId)), ...fields };
+    return await store.queueEmail({
+      eventId,
+      registrationId,
+      type,
+      recipient,
+      subject: renderTemplate(content.subject, allFields),
+      body: renderTemplate(content.body, allFields),
+      nextAttemptAt: new Date(),
+      dedupeKey,
+    });
+  } catch (error: any) {
+    logError(`Failed to queue ${type} email to ${recipient}: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Queue a notification to a registration's contact (the leader, or the
+ * follower when there is no leader). `fields` adds or overrides merge
+ * fields, e.g. the amount of the payment the email is about.
+ */
+export async function notifyRegistration(
+  store: NotificationStorage,
+  type: NotificationType,
+  registration: Registration,
+  dedupeKey: string,
+  fields: MergeFields = {},
+): Promise<EmailOutboxEntry | undefined> {
+  const to = contactEmail(registration);
+  if (!to) return undefined;
+  return queueNotification(
+    store,
+    type,
+    registration.eventId,
+    to,
+    { ...getRegistrationMergeFields(registration), ...fields },
+    dedupeKey,
+    registration.id,
+  );
+}
+
+/** Queue the email telling a waitlisted dancer a place is held for them. */
+export async function notifyWaitlistOffer(
+  store: NotificationStorage,
+  entry: WaitlistEntry,
+  itemName: string,
+): Promise<EmailOutboxEntry | undefined> {
+  return queueNotification(
+    store,
+    "waitlist_promoted",
+    entry.eventId,
+    entry.email,
+    {
+      firstName: entry.name.split(" ")[0] || "dancer",
+      email: entry.email,
+      itemName,
+      offerExpiresAt: entry.offerExpiresAt ? formatDateTime(entry.offerExpiresAt) : "",
+    },
+    `waitlist_promoted:${entry.id}`,
+  );
+}
+
+/**
+ * Queue a dancer portal sign-in link to `email`, which may be either
+ * dancer's address on the registration.
+ */
+export async function notifyPortalLogin(
+  store: NotificationStorage,
+  registration: Registration,
+  email: string,
+  link: { id: string; url: string; expiresAt: Date },
+): Promise<EmailOutboxEntry | undefined> {
+  const fields = getRegistrationMergeFields(registration);
+  const person = fields["follower.email"].toLowerCase() === email.toLowerCase() ? "follower" : "leader";
+  return queueNotification(
+    store,
+    "portal_login",
+    registration.eventId,
+    email,
+    {
+      ...fields,
+      firstName: fields[`${person}.firstName`] || "dancer",
+      email,
+      portalLink: link.url,
+      portalLinkExpiresAt: formatDateTime(link.expiresAt),
+    },
+    `portal_login:${link.id}`,
+    registration.id,
+  );
+}
+
+/**
+ * Queue the payment confirmed or payment failed email for a card payment
+ * the Stripe webhook just applied. Amounts come from the payment intent, so
+ * they are in the currency the dancer was charged in.
+ */
+export async function notifyPaymentEvent(
+  store: NotificationStorage & Pick<IStorage, "getRegistration">,
+  event: Stripe.Event,
+  result: StripeWebhookResult,
+): Promise<EmailOutboxEntry | undefined> {
+  if (event.type !== "payment_intent.succeeded" && event.type !== "payment_intent.payment_failed") return undefined;
+  const intent = event.data.object;
+  const isInstalment = !!intent.metadata?.instalmentId;
+  // Registration payments only notify when their status moved; instalment
+  // outcomes never move the status on failure
+  if (!result.registrationId || (!result.changed && !(isInstalment && event.type === "payment_intent.payment_failed"))) {
+    return undefined;
+  }
+
+  const registration = await store.getRegistration(result.registrationId);
+  if (!registration) return undefined;
+  const amount = formatMoney(intent.amount / 100, intent.currency.toUpperCase());
+
+  if (event.type === "payment_intent.succeeded") {
+    return notifyRegistration(store, "payment_confirmed", registration, `payment_confirmed:${intent.id}`, { amount });
+  }
+  return notifyRegistration(store, "payment_failed", registration, `payment_failed:${intent.id}`, {
+    amount,
+    failureReason: intent.last_payment_error?.message || "The payment was declined.",
+  });
+}
+
+// Registrations that still hold their places and are paid for, or owe a
+// bank transfer
+const isAttending = (registration: Registration) =>
+  !registration.cancelledAt &&
+  (registration.paymentStatus === "completed" ||
+    registration.paymentStatus === "partially_paid" ||
+    (registration.paymentMethod === "offline" && registration.paymentStatus === "pending"));
+
+/**
+ * Queue the reminder for every attendee of an active event starting within
+ * the reminder window. Each registration is only ever reminded once.
+ */
+export async function queueEventReminders(store: ReminderStorage, now: Date = new Date()): Promise<number> {
+  let queued = 0;
+  for (const event of await store.getAllEvents()) {
+    const startsIn = new Date(event.startDate).getTime() - now.getTime();
+    if (!event.isActive || startsIn <= 0 || startsIn > EVENT_REMINDER_DAYS * DAY_MS) continue;
+
+    for (const registration of (await store.getRegistrations(event.id)).filter(isAttending)) {
+      if (await notifyRegistration(store, "event_reminder", registration, `event_reminder:${registration.id}`)) {
+        queued++;
+      }
+    }
+  }
+  if (queued > 0) {
+    logObject("INFO", "Event reminders queued", { queued });
+  }
+  return queued;
+}
+
+/**
+ * Send the outbox emails that are due. A failed send is retried with
+ * backoff until MAX_EMAIL_ATTEMPTS, then left as failed.
+ */
+export async function deliverQueuedEmails(
+  store: OutboxStorage,
+  mailer: Mailer,
+  now: Date = new Date(),
+  limit: number = 50,
+): Promise<OutboxRunResult> {
+  const result: OutboxRunResult = { sent: [], retrying: [], failed: [] };
+
+  for (const email of await store.claimDueEmails(now, limit, CLAIM_LEASE_MS)) {
+    try {
+      if (!(await mailer({ to: email.recipient, subject: email.subject, text: email.body }))) {
+        throw new Error("No email transport configured");
+      }
+      await store.updateEmailOutboxEntry(email.id, { status: "sent", sentAt: new Date(), lastError: null });
+      result.sent.push(email.id);
+    } catch (error: any) {
+      const gaveUp = email.attempts >= MAX_EMAIL_ATTEMPTS;
+      try {
+        await store.updateEmailOutboxEntry(email.id, {
+          status: gaveUp ? "failed" : "pending",
+          nextAttemptAt: new Date(now.getTime() + RETRY_AFTER_MS * 2 ** (email.attempts - 1)),
+          lastError: error.message,
+        });
+      } catch (updateError: any) {
+        // The claim lapses and the email is tried again
+        logError(`Failed to record email ${email.id} delivery failure: ${updateError.message}`);
+      }
+      (gaveUp ? result.failed : result.retrying).push(email.id);
+    }
+  }
+
+  if (result.sent.length > 0 || result.retrying.length > 0 || result.failed.length > 0) {
+    logObject("INFO", "Email outbox", result);
+  }
+  return result;
+}
+
+// Run a job on an interval, skipping a tick while the last run is still
+// going. The timer is unref'd so it never keeps the process alive on its own.
+function startTimer(label: string, run: () => Promise<unknown>, intervalMs: number): NodeJS.Timeout {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await run();
+    } catch (error: any) {
+      logError(`${label} run failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+export function startEmailOutbox(store: OutboxStorage, mailer: Mailer, intervalMs: number = 60 * 1000): NodeJS.Timeout {
+  return startTimer("Email outbox", () => deliverQueuedEmails(store, mailer), intervalMs);
+}
+
+export function startEventReminders(store: ReminderStorage, intervalMs: number = 60 * 60 * 1000): NodeJS.Timeout {
+  return startTimer("Event reminder", () => queueEventReminders(store), intervalMs);
+}
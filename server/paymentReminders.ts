@@ -0,0 +1,123 @@
+import type { Registration } from "@shared/schema";
+import { DEFAULT_PAYMENT_DUE_DAYS, getOutstandingBalance, isReminderDue } from "@shared/offlinePayments";
+import type { IStorage } from "./storage";
+import type { Mailer } from "./mailer";
+import { logError, logObject } from "./logger";
+
+// Reminds offline registrations with an outstanding balance to pay. Runs on
+// a timer for long-lived servers and from the cron endpoint on serverless
+// deployments.
+
+type ReminderStorage = Pick<IStorage, "getOutstandingOfflineRegistrations" | "markPaymentReminderSent">;
+
+// Days after registering that payment is due, and between reminders
+export const PAYMENT_DUE_DAYS = Number(process.env.OFFLINE_PAYMENT_DUE_DAYS) || DEFAULT_PAYMENT_DUE_DAYS;
+
+// Reminders stop after this many; admins follow up by hand from there
+const MAX_PAYMENT_REMINDERS = Number(process.env.OFFLINE_PAYMENT_MAX_REMINDERS) || 3;
+
+export interface ReminderResult {
+  reminded: string[];
+  failed: string[];
+}
+
+export const contactEmail = (registration: Registration) => {
+  const leader = registration.leaderInfo as { email?: string } | null;
+  const follower = registration.followerInfo as { email?: string } | null;
+  return leader?.email || follower?.email;
+};
+
+// Matches the registration code on the confirmation page
+export const registrationCode = (registration: Registration) =>
+  `${registration.packageType?.toUpperCase().substring(0, 3) || "REG"}-${registration.id.substring(0, 8).toUpperCase()}`;
+
+export const contactName = (registration: Registration) =>
+  (registration.leaderInfo as { firstName?: string } | null)?.firstName ||
+  (registration.followerInfo as { firstName?: string } | null)?.firstName ||
+  "dancer";
+
+/**
+ * Email one registration a reminder of its outstanding balance and record
+ * that it was sent. Returns false if there is no one to email or email
+ * isn't configured.
+ */
+export async function sendPaymentReminder(
+  store: ReminderStorage,
+  mailer: Mailer,
+  registration: Registration,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const to = contactEmail(registration);
+  if (!to) return false;
+
+  const balance = getOutstandingBalance(registration.totalAmount, registration.amountReceived);
+  const sent = await mailer({
+    to,
+    subject: "Payment reminder for your festival registration",
+    text: [
+      `Dear ${contactName(registration)},`,
+      "",
+      `We haven't yet received full payment for your registration (registration code ${registrationCode(registration)}).`,
+      `Outstanding balance: AED ${balance.toLocaleString()}`,
+      "",
+      "Please transfer the balance using the bank details sent with your registration, quoting your registration code,",
+      "or reply to this email if you have already paid.",
+    ].join("\n"),
+  });
+  if (sent) {
+    await store.markPaymentReminderSent(registration.id, now);
+  }
+  return sent;
+}
+
+export async function sendDuePaymentReminders(
+  store: ReminderStorage,
+  mailer: Mailer,
+  now: Date = new Date(),
+): Promise<ReminderResult> {
+  const result: ReminderResult = { reminded: [], failed: [] };
+
+  for (const registration of await store.getOutstandingOfflineRegistrations()) {
+    if ((registration.paymentReminderCount || 0) >= MAX_PAYMENT_REMINDERS) continue;
+    if (!isReminderDue(registration, now, PAYMENT_DUE_DAYS)) continue;
+
+    try {
+      if (await sendPaymentReminder(store, mailer, registration, now)) {
+        result.reminded.push(registration.id);
+      }
+    } catch (error: any) {
+      result.failed.push(registration.id);
+      logError(`Failed to send payment reminder for registration ${registration.id}: ${error.message}`);
+    }
+  }
+
+  if (result.reminded.length > 0 || result.failed.length > 0) {
+    logObject("INFO", "Payment reminders", result);
+  }
+  return result;
+}
+
+/**
+ * Send due reminders on an interval. The timer is unref'd so it never keeps
+ * the process alive on its own.
+ */
+export function startPaymentReminders(
+  store: ReminderStorage,
+  mailer: Mailer,
+  intervalMs: number = 60 * 60 * 1000,
+): NodeJS.Timeout {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sendDuePaymentReminders(store, mailer);
+    } catch (error: any) {
+      logError(`Payment reminder run failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
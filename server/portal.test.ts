@@ -0,0 +1,120 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type Stripe from "stripe";
+import type { Registration } from "@shared/schema";
+import { createTopUpPaymentIntent, PortalError } from "./portal";
+
+// Card payments for the balance a portal change leaves, against a fake
+// Stripe that keeps the intents it makes.
+
+const registration = (changes: Partial<Registration> = {}): Registration => ({
+  id: "reg_top_up_1",
+  paymentStatus: "partially_paid",
+  paymentMethod: "stripe",
+  totalAmount: "600.00",
+  amountReceived: "500",
+  currency: "AED",
+  exchangeRate: "1",
+  cancelledAt: null,
+  paymentPlan: null,
+  topUpPaymentIntentId: null,
+  ...changes,
+} as Registration);
+
+function createStripe() {
+  const intents = new Map<string, Stripe.PaymentIntent>();
+  const stripe = {
+    created: 0,
+    cancelled: [] as string[],
+    paymentIntents: {
+      async create(params: Stripe.PaymentIntentCreateParams) {
+        stripe.created += 1;
+        const intent = {
+          id: `pi_top_up_${stripe.created}`,
+          status: "requires_payment_method",
+          amount: params.amount,
+          metadata: params.metadata,
+          client_secret: `pi_top_up_${stripe.created}_secret`,
+        } as Stripe.PaymentIntent;
+        intents.set(intent.id, intent);
+        return intent;
+      },
+      async retrieve(id: string) {
+        return intents.get(id)!;
+      },
+      async cancel(id: string) {
+        stripe.cancelled.push(id);
+        const intent = { ...intents.get(id)!, status: "canceled" } as Stripe.PaymentIntent;
+        intents.set(id, intent);
+        return intent;
+      },
+    },
+    setStatus(id: string, status: Stripe.PaymentIntent.Status) {
+      intents.set(id, { ...intents.get(id)!, status });
+    },
+  };
+  return stripe;
+}
+
+function createStore() {
+  const store = {
+    openIntent: null as string | null,
+    async setTopUpPaymentIntent(_id: string, paymentIntentId: string | null) {
+      store.openIntent = paymentIntentId;
+      return registration({ topUpPaymentIntentId: paymentIntentId });
+    },
+  };
+  return store;
+}
+
+describe("createTopUpPaymentIntent", () => {
+  let stripe: ReturnType<typeof createStripe>;
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    stripe = createStripe();
+    store = createStore();
+  });
+
+  const topUp = (changes: Partial<Registration> = {}) =>
+    createTopUpPaymentIntent(store, stripe as unknown as Stripe, registration({ topUpPaymentIntentId: store.openIntent, ...changes }));
+
+  it("charges the balance and keeps the intent open on the registration", async () => {
+    const { paymentIntent, amount } = await topUp();
+    assert.equal(amount, 100);
+    assert.equal(paymentIntent.amount, 10000);
+    assert.equal(store.openIntent, paymentIntent.id);
+  });
+
+  it("reuses the open intent while the balance is the same", async () => {
+    const first = await topUp();
+    const second = await topUp();
+    assert.equal(second.paymentIntent.id, first.paymentIntent.id);
+    assert.equal(stripe.created, 1);
+  });
+
+  it("cancels the open intent when the balance has changed", async () => {
+    const first = await topUp();
+    const second = await topUp({ totalAmount: "650.00" });
+    assert.deepEqual(stripe.cancelled, [first.paymentIntent.id]);
+    assert.equal(second.amount, 150);
+    assert.equal(store.openIntent, second.paymentIntent.id);
+  });
+
+  it("starts again after the open intent was cancelled", async () => {
+    const first = await topUp();
+    stripe.setStatus(first.paymentIntent.id, "canceled");
+    const second = await topUp();
+    assert.notEqual(second.paymentIntent.id, first.paymentIntent.id);
+    assert.deepEqual(stripe.cancelled, []);
+  });
+
+  it("won't start a second payment while the first is going through", async () => {
+    const first = await topUp();
+    for (const status of ["processing", "succeeded"] as const) {
+      stripe.setStatus(first.paymentIntent.id, status);
+      await assert.rejects(topUp(), (error: unknown) => error instanceof PortalError && error.status === 409);
+    }
+    assert.equal(stripe.created, 1);
+  });
+});
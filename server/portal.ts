@@ -0,0 +1,316 @@
+import { createHash, randomBytes } from "crypto";
+import type Stripe from "stripe";
+import { insertRegistrationSchema, type InsertRegistration, type Registration } from "@shared/schema";
+import { getSelectionLock } from "@shared/portal";
+import { getOutstandingBalance } from "@shared/offlinePayments";
+import { formatChargedAmount, toChargeCents } from "@shared/currency";
+import type { PriceQuote } from "@shared/pricing";
+import type { IStorage, RegistrationSelection } from "./storage";
+import { calculateRegistrationTotal, getWorkshopScheduleError, type PricingDraft } from "./registrationQuotes";
+import { amountPaid } from "./cancellations";
+import { notifyPortalLogin, type NotificationStorage } from "./notifications";
+import { promoteWaitlistsForRegistration } from "./waitlist";
+import { logObject } from "./logger";
+
+// The dancer portal's server side. Sign-in links and sessions are random
+// tokens of which only a hash is stored; a dancer can see and change every
+// registration that has their email address on it, as leader or follower.
+
+type PortalStorage = Pick<
+  IStorage,
+  | "getRegistrationsByEmail"
+  | "createPortalToken"
+  | "getLatestPortalToken"
+  | "usePortalLoginToken"
+  | "getPortalSession"
+  | "endPortalSession"
+> & NotificationStorage;
+
+type SelectionStorage = Pick<
+  IStorage,
+  "updateRegistrationSelection" | "getTables" | "getWorkshops" | "getMilongas" | "promoteWaitlist"
+> & NotificationStorage;
+
+// How long a sign-in link works for
+const LOGIN_LINK_MINUTES = 30;
+
+// How long a dancer stays signed in
+const SESSION_DAYS = 7;
+
+// A new sign-in link is sent to the same address at most this often
+const LOGIN_LINK_INTERVAL_MS = 60 * 1000;
+
+export class PortalError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PortalError";
+  }
+}
+
+export interface PortalSession {
+  token: string;
+  email: string;
+  expiresAt: Date;
+}
+
+// What a dancer picks when changing their bookings; the totals come from
+// pricing the change
+export type SelectionChange = Omit<RegistrationSelection, "totalAmount" | "discountAmount">;
+
+export interface SelectionQuote {
+  quote: PriceQuote;
+  amountPaid: number;
+  balanceDue: number;
+}
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const newToken = () => randomBytes(32).toString("base64url");
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const personEmail = (info: unknown) => (info as { email?: string } | null)?.email;
+
+export const ownsRegistration = (registration: Registration, email: string) =>
+  [personEmail(registration.leaderInfo), personEmail(registration.followerInfo)]
+    .some((address) => !!address && normalizeEmail(address) === normalizeEmail(email));
+
+/**
+ * Email a sign-in link to `email` if any registration has it. Returns
+ * whether a link was queued; nothing is sent for unknown addresses, or when
+ * a link went out within the last minute.
+ */
+export async function sendPortalLink(
+  store: PortalStorage,
+  email: string,
+  baseUrl: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const address = normalizeEmail(email);
+  const [latestRegistration] = await store.getRegistrationsByEmail(address);
+  if (!latestRegistration) return false;
+
+  const latest = await store.getLatestPortalToken(address, "login");
+  if (latest?.createdAt && now.getTime() - new Date(latest.createdAt).getTime() < LOGIN_LINK_INTERVAL_MS) {
+    return false;
+  }
+
+  const token = newToken();
+  const created = await store.createPortalToken({
+    email: address,
+    kind: "login",
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now.getTime() + LOGIN_LINK_MINUTES * 60 * 1000),
+  });
+  const queued = await notifyPortalLogin(store, latestRegistration, address, {
+    id: created.id,
+    url: `${baseUrl}/my-registration?token=${encodeURIComponent(token)}`,
+    expiresAt: created.expiresAt,
+  });
+  return !!queued;
+}
+
+/** Swap a sign-in link's token, which works once, for a session. */
+export async function openPortalSession(
+  store: PortalStorage,
+  loginToken: string,
+  now: Date = new Date(),
+): Promise<PortalSession> {
+  const login = await store.usePortalLoginToken(hashToken(loginToken), now);
+  if (!login) {
+    throw new PortalError("This sign-in link has expired or was already used. Please request a new one.", 401);
+  }
+
+  const token = newToken();
+  const session = await store.createPortalToken({
+    email: login.email,
+    kind: "session",
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000),
+  });
+  return { token, email: session.email, expiresAt: session.expiresAt };
+}
+
+/** The email address a session token is signed in as, if it's still valid. */
+export async function getPortalEmail(
+  store: PortalStorage,
+  sessionToken: string,
+  now: Date = new Date(),
+): Promise<string | undefined> {
+  return (await store.getPortalSession(hashToken(sessionToken), now))?.email;
+}
+
+export async function endPortalSession(store: PortalStorage, sessionToken: string): Promise<void> {
+  await store.endPortalSession(hashToken(sessionToken));
+}
+
+// Dancers may change everything about themselves except the email address
+// their registration (and portal sign-in) is tied to
+const personalInfoSchema = insertRegistrationSchema.pick({ leaderInfo: true, followerInfo: true });
+
+/**
+ * Validate a dancer's changes to the personal details on a registration,
+ * returning the update to write.
+ */
+export function validatePersonalInfo(registration: Registration, body: unknown): Pick<InsertRegistration, "leaderInfo" | "followerInfo"> {
+  const { leaderInfo, followerInfo } = personalInfoSchema.parse(body);
+  const update = {
+    leaderInfo: registration.leaderInfo ? leaderInfo : undefined,
+    followerInfo: registration.followerInfo ? followerInfo : undefined,
+  };
+  for (const person of ["leaderInfo", "followerInfo"] as const) {
+    const current = personEmail(registration[person]);
+    const next = update[person];
+    if (!registration[person]) continue;
+    if (!next) {
+      throw new PortalError(`${person === "leaderInfo" ? "Leader" : "Follower"} details are required.`);
+    }
+    if (normalizeEmail(next.email) !== normalizeEmail(current || "")) {
+      throw new PortalError("Email addresses can't be changed here. Please contact us to change one.");
+    }
+  }
+  return update;
+}
+
+/**
+ * Price a registration with a new selection, held to the same schedule,
+ * catalog and pricing rules as a new registration. Prices are those from
+ * when the registration was first quoted, so changing one workshop doesn't
+ * re-price the rest of the booking. Throws PortalError when the change
+ * isn't allowed and PromoCodeError when the registration's code no longer
+ * applies.
+ */
+export async function quoteSelectionChange(
+  registration: Registration,
+  selection: SelectionChange,
+): Promise<SelectionQuote> {
+  const lock = getSelectionLock(registration);
+  if (lock) {
+    throw new PortalError(lock, 409);
+  }
+  const scheduleError = await getWorkshopScheduleError(selection.workshopIds);
+  if (scheduleError) {
+    throw new PortalError(scheduleError);
+  }
+
+  const draft = {
+    eventId: registration.eventId,
+    packageType: registration.packageType,
+    role: registration.role,
+    leaderInfo: registration.leaderInfo,
+    followerInfo: registration.followerInfo,
+    promoCode: registration.promoCode,
+    ...selection,
+  } as PricingDraft;
+  const quote = await calculateRegistrationTotal(
+    draft,
+    {
+      now: new Date(registration.priceQuote?.pricedAt ?? registration.createdAt ?? Date.now()),
+      registration,
+    },
+  );
+
+  const paid = amountPaid(registration);
+  if (quote.total < paid) {
+    throw new PortalError(
+      `This change would bring your total below the ${formatChargedAmount(paid, registration)} you've already paid. ` +
+        "Please contact us to arrange a refund.",
+    );
+  }
+  return { quote, amountPaid: paid, balanceDue: getOutstandingBalance(quote.total, paid) };
+}
+
+/**
+ * Apply a new selection to a registration: reserve what it newly books,
+ * release what it gives up and offer the released places to the waitlist.
+ * Throws CapacityError, changing nothing, if anything newly booked is full.
+ */
+export async function changeRegistrationSelection(
+  store: SelectionStorage,
+  registration: Registration,
+  selection: SelectionChange,
+): Promise<{ registration: Registration; quote: SelectionQuote }> {
+  const quote = await quoteSelectionChange(registration, selection);
+  const updated = await store.updateRegistrationSelection(
+    registration.id,
+    { ...selection, totalAmount: quote.quote.total, discountAmount: quote.quote.promoDiscount },
+    quote.quote,
+  );
+
+  // Offer the places given up, and only those, to the waitlist
+  const released = (before: unknown, after: unknown) =>
+    ((before as string[] | null) || []).filter((id) => !((after as string[] | null) || []).includes(id));
+  await promoteWaitlistsForRegistration(
+    {
+      ...registration,
+      workshopIds: released(registration.workshopIds, updated.workshopIds),
+      milongaIds: released(registration.milongaIds, updated.milongaIds),
+      selectedTableNumber: registration.selectedTableNumber !== updated.selectedTableNumber
+        ? registration.selectedTableNumber
+        : null,
+    },
+    store,
+  );
+
+  logObject("INFO", "Registration changed from portal", {
+    registrationId: registration.id,
+    previousTotal: registration.totalAmount,
+    totalAmount: updated.totalAmount,
+    paymentStatus: updated.paymentStatus,
+  });
+  return { registration: updated, quote };
+}
+
+// Top-up intents in these states may still take the dancer's money
+const IN_FLIGHT_TOP_UP_STATUSES = new Set(["succeeded", "processing", "requires_capture"]);
+
+/**
+ * Start a card payment for the balance a portal change left on a card
+ * registration. Offline registrations keep paying by bank transfer. The
+ * registration's open top-up intent is reused while it is for the same
+ * balance, and cancelled before a new one is made when it isn't, so the
+ * balance can't be paid twice from two tabs.
+ */
+export async function createTopUpPaymentIntent(
+  store: Pick<IStorage, "setTopUpPaymentIntent">,
+  stripe: Pick<Stripe, "paymentIntents">,
+  registration: Registration,
+): Promise<{ paymentIntent: Stripe.PaymentIntent; amount: number }> {
+  const lock = getSelectionLock(registration);
+  if (lock) {
+    throw new PortalError(lock, 409);
+  }
+  if (registration.paymentMethod !== "stripe") {
+    throw new PortalError("Please pay the balance by bank transfer, as for the rest of your registration.");
+  }
+  const balance = registration.paymentStatus === "completed"
+    ? 0
+    : getOutstandingBalance(registration.totalAmount, registration.amountReceived);
+  if (balance <= 0) {
+    throw new PortalError("There is nothing left to pay on this registration.", 409);
+  }
+
+  if (registration.topUpPaymentIntentId) {
+    const open = await stripe.paymentIntents.retrieve(registration.topUpPaymentIntentId);
+    if (IN_FLIGHT_TOP_UP_STATUSES.has(open.status)) {
+      throw new PortalError("Your last payment is still being confirmed. Please try again in a few minutes.", 409);
+    }
+    if (open.status !== "canceled") {
+      if (open.metadata.topUpAmount === String(balance)) {
+        return { paymentIntent: open, amount: balance };
+      }
+      await stripe.paymentIntents.cancel(open.id);
+    }
+  }
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: toChargeCents(balance, registration.exchangeRate),
+    currency: registration.currency.toLowerCase(),
+    metadata: {
+      registrationId: registration.id,
+      topUpAmount: String(balance),
+    },
+  });
+  await store.setTopUpPaymentIntent(registration.id, paymentIntent.id);
+  return { paymentIntent, amount: balance };
+}
@@ -0,0 +1,214 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import type Stripe from "stripe";
+import { z } from "zod";
+import { insertRegistrationSchema, type Registration } from "@shared/schema";
+import { PromoCodeError } from "@shared/promoCodes";
+import { storage, CapacityError } from "./storage";
+import {
+  changeRegistrationSelection,
+  createTopUpPaymentIntent,
+  endPortalSession,
+  getPortalEmail,
+  openPortalSession,
+  ownsRegistration,
+  quoteSelectionChange,
+  sendPortalLink,
+  validatePersonalInfo,
+  PortalError,
+  type SelectionChange,
+} from "./portal";
+import { createAccessToken } from "./registrationAccess";
+import { SelectionError } from "./registrationQuotes";
+import { logError, logObject } from "./logger";
+
+// Routes used by the dancer portal. Everything past sign-in needs a portal
+// session token in the X-Portal-Token header, and only reaches the
+// registrations filed under the session's email address.
+
+type PortalRequest = Request & { portalEmail?: string };
+
+const selectionSchema = insertRegistrationSchema
+  .pick({ workshopIds: true, milongaIds: true, addons: true })
+  .extend({ selectedTableNumber: z.number().int().positive().nullable().optional() });
+
+const parseSelection = (body: unknown): SelectionChange => {
+  const selection = selectionSchema.parse(body);
+  return { ...selection, selectedTableNumber: selection.selectedTableNumber ?? undefined };
+};
+
+async function requirePortalSession(req: PortalRequest, res: Response, next: NextFunction) {
+  const token = req.get("X-Portal-Token");
+  if (!token) {
+    return res.status(401).json({ message: "Please sign in to manage your registration." });
+  }
+  try {
+    const email = await getPortalEmail(storage, token);
+    if (!email) {
+      return res.status(401).json({ message: "Your session has expired. Please sign in again." });
+    }
+    req.portalEmail = email;
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: "Error checking session: " + error.message });
+  }
+}
+
+// The registration in the URL, if it belongs to the signed-in dancer; a
+// registration filed under someone else is reported as not found
+async function getOwnedRegistration(req: PortalRequest, res: Response): Promise<Registration | undefined> {
+  const registration = await storage.getRegistration(req.params.id);
+  if (!registration || !ownsRegistration(registration, req.portalEmail!)) {
+    res.status(404).json({ message: "Registration not found" });
+    return undefined;
+  }
+  return registration;
+}
+
+// Signed-in dancers get each registration's confirmation link token
+const withAccessToken = (registration: Registration) => ({
+  ...registration,
+  accessToken: createAccessToken(registration),
+});
+
+function sendPortalError(res: Response, error: any, action: string) {
+  if (error instanceof PortalError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  if (error instanceof CapacityError) {
+    return res.status(409).json({ message: error.message });
+  }
+  if (error instanceof PromoCodeError || error instanceof SelectionError) {
+    return res.status(400).json({ message: error.message });
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || "Invalid request", errors: error.errors });
+  }
+  res.status(500).json({ message: `Error ${action}: ${error.message}` });
+}
+
+export function registerPortalRoutes(app: Express, stripe: Stripe): void {
+  // Email a sign-in link. The answer is the same whether or not the address
+  // has a registration, so the form can't be used to look dancers up. The
+  // link is only queued here: sending it inline would make the answer slower
+  // for addresses that have one, and the outbox job sends it within minutes.
+  app.post("/api/portal/login", async (req, res) => {
+    const { email } = z.object({ email: z.string().email() }).safeParse(req.body).data ?? {};
+    if (!email) {
+      return res.status(400).json({ message: "Please enter a valid email address." });
+    }
+    try {
+      const baseUrl = process.env.APP_BASE_URL || `${req.protocol}://${req.get("host")}`;
+      await sendPortalLink(storage, email, baseUrl);
+    } catch (error: any) {
+      logError("Portal sign-in link error: " + error.message);
+    }
+    res.json({ message: "If we have a registration for that address, a sign-in link is on its way." });
+  });
+
+  // Exchange a sign-in link's token for a session
+  app.post("/api/portal/session", async (req, res) => {
+    try {
+      if (typeof req.body?.token !== "string" || !req.body.token) {
+        return res.status(400).json({ message: "Sign-in token is required" });
+      }
+      res.json(await openPortalSession(storage, req.body.token));
+    } catch (error: any) {
+      sendPortalError(res, error, "signing in");
+    }
+  });
+
+  app.delete("/api/portal/session", requirePortalSession, async (req, res) => {
+    try {
+      await endPortalSession(storage, req.get("X-Portal-Token")!);
+      res.json({ message: "Signed out" });
+    } catch (error: any) {
+      sendPortalError(res, error, "signing out");
+    }
+  });
+
+  app.get("/api/portal/registrations", requirePortalSession, async (req: PortalRequest, res) => {
+    try {
+      const registrations = await storage.getRegistrationsByEmail(req.portalEmail!);
+      res.json({ email: req.portalEmail, registrations: registrations.map(withAccessToken) });
+    } catch (error: any) {
+      sendPortalError(res, error, "fetching registrations");
+    }
+  });
+
+  app.get("/api/portal/registrations/:id", requirePortalSession, async (req: PortalRequest, res) => {
+    try {
+      const registration = await getOwnedRegistration(req, res);
+      if (registration) {
+        res.json(withAccessToken(registration));
+      }
+    } catch (error: any) {
+      sendPortalError(res, error, "fetching registration");
+    }
+  });
+
+  app.put("/api/portal/registrations/:id/personal-info", requirePortalSession, async (req: PortalRequest, res) => {
+    try {
+      const registration = await getOwnedRegistration(req, res);
+      if (!registration) return;
+      const updated = await storage.updateRegistration(registration.id, validatePersonalInfo(registration, req.body));
+      res.json(updated);
+    } catch (error: any) {
+      sendPortalError(res, error, "updating details");
+    }
+  });
+
+  // Price a change to the registration's bookings without making it
+  app.post("/api/portal/registrations/:id/quote", requirePortalSession, async (req: PortalRequest, res) => {
+    try {
+      const registration = await getOwnedRegistration(req, res);
+      if (!registration) return;
+      res.json(await quoteSelectionChange(registration, parseSelection(req.body)));
+    } catch (error: any) {
+      sendPortalError(res, error, "pricing change");
+    }
+  });
+
+  app.put("/api/portal/registrations/:id/selection", requirePortalSession, async (req: PortalRequest, res) => {
+    try {
+      const registration = await getOwnedRegistration(req, res);
+      if (!registration) return;
+      res.json(await changeRegistrationSelection(storage, registration, parseSelection(req.body)));
+    } catch (error: any) {
+      sendPortalError(res, error, "changing registration");
+    }
+  });
+
+  // Pay the balance a change left by card. The webhook records the
+  // payment against the registration once it succeeds.
+  app.post("/api/portal/registrations/:id/top-up", requirePortalSession, async (req: PortalRequest, res) => {
+    try {
+      const registration = await getOwnedRegistration(req, res);
+      if (!registration) return;
+      const { paymentIntent, amount } = await createTopUpPaymentIntent(storage, stripe, registration);
+      res.json({ clientSecret: paymentIntent.client_secret, amount });
+    } catch (error: any) {
+      sendPortalError(res, error, "creating payment");
+    }
+  });
+
+  // Cancellations and their refunds are decided by the organisers; the
+  // dancer's request is flagged on the registration for them
+  app.post("/api/portal/registrations/:id/cancellation-request", requirePortalSession, async (req: PortalRequest, res) => {
+    try {
+      const registration = await getOwnedRegistration(req, res);
+      if (!registration) return;
+      if (registration.cancelledAt) {
+        return res.status(409).json({ message: "This registration has already been cancelled." });
+      }
+      if (registration.cancellationRequestedAt) {
+        return res.status(409).json({ message: "You've already asked for this registration to be cancelled." });
+      }
+      const reason = typeof req.body?.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null;
+      const updated = await storage.requestRegistrationCancellation(registration.id, reason);
+      logObject("INFO", "Cancellation requested from portal", { registrationId: registration.id });
+      res.json(updated);
+    } catch (error: any) {
+      sendPortalError(res, error, "requesting cancellation");
+    }
+  });
+}
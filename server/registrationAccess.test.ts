@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Registration } from "@shared/schema";
+import { assertAccessTokenSecret, createAccessToken, getRegistrationByAccessToken } from "./registrationAccess";
+
+// Confirmation links are signed with a secret of their own; nothing else in
+// the environment may stand in for it.
+
+const SECRETS = ["REGISTRATION_ACCESS_SECRET", "SUPABASE_SERVICE_ROLE_KEY", "NODE_ENV"] as const;
+
+describe("registration access tokens", () => {
+  let saved: Partial<Record<typeof SECRETS[number], string>>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(SECRETS.map((name) => [name, process.env[name]]));
+    delete process.env.REGISTRATION_ACCESS_SECRET;
+    process.env.SUPABASE_SERVICE_ROLE_KEY = "service-role-key";
+  });
+
+  afterEach(() => {
+    for (const name of SECRETS) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  const registration = { id: "reg_1", accessTokenVersion: 1 } as Registration;
+
+  it("refuses to sign without the secret, whatever else is set", () => {
+    assert.throws(() => createAccessToken(registration), /REGISTRATION_ACCESS_SECRET is not set/);
+  });
+
+  it("stops a production server starting without the secret", () => {
+    process.env.NODE_ENV = "production";
+    assert.throws(() => assertAccessTokenSecret(), /REGISTRATION_ACCESS_SECRET is not set/);
+
+    process.env.REGISTRATION_ACCESS_SECRET = "access-secret";
+    assert.doesNotThrow(() => assertAccessTokenSecret());
+  });
+
+  it("only accepts tokens signed with the current secret", async () => {
+    const store = { getRegistration: async () => registration };
+    process.env.REGISTRATION_ACCESS_SECRET = "access-secret";
+    const token = createAccessToken(registration);
+    assert.equal(await getRegistrationByAccessToken(store, token), registration);
+
+    process.env.REGISTRATION_ACCESS_SECRET = "rotated-secret";
+    assert.equal(await getRegistrationByAccessToken(store, token), undefined);
+  });
+});
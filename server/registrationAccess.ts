@@ -0,0 +1,83 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+import QRCode from "qrcode";
+import type { Registration } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Signed access tokens for confirmation links and QR codes. A token names
+// the registration and its access token version and is signed with
+// REGISTRATION_ACCESS_SECRET, so it can't be guessed from the id alone; rotating a
+// registration's token bumps the version, which invalidates every link and
+// QR code issued before.
+
+type AccessTokenRegistration = Pick<Registration, "id" | "accessTokenVersion">;
+
+// A secret of its own, shared with no other service, so it can be rotated
+// without touching anything but links. Also signs shared roster links (see
+// rosters.ts)
+export function getAccessTokenSecret(): string {
+  const secret = process.env.REGISTRATION_ACCESS_SECRET;
+  if (!secret) {
+    throw new Error("REGISTRATION_ACCESS_SECRET is not set");
+  }
+  return secret;
+}
+
+/**
+ * Stop a production server from starting without the secret, rather than
+ * letting it fail on the first registration.
+ */
+export function assertAccessTokenSecret(): void {
+  if (process.env.NODE_ENV === "production") {
+    getAccessTokenSecret();
+  }
+}
+
+const sign = (registrationId: string, version: number) =>
+  createHmac("sha256", getAccessTokenSecret()).update(`${registrationId}:${version}`).digest("base64url");
+
+export function createAccessToken(registration: AccessTokenRegistration): string {
+  return `${registration.id}.${registration.accessTokenVersion}.${sign(registration.id, registration.accessTokenVersion)}`;
+}
+
+/**
+ * The registration a token was issued for, if its signature is valid and it
+ * hasn't been rotated since.
+ */
+export async function getRegistrationByAccessToken(
+  store: Pick<IStorage, "getRegistration">,
+  token: string,
+): Promise<Registration | undefined> {
+  const [registrationId, versionText, signature] = token.split(".");
+  const version = Number(versionText);
+  if (!registrationId || !signature || !Number.isInteger(version)) return undefined;
+
+  const expected = Buffer.from(sign(registrationId, version));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+
+  const registration = await store.getRegistration(registrationId);
+  return registration?.accessTokenVersion === version ? registration : undefined;
+}
+
+/** The dancer's confirmation page, as linked from emails and QR codes. */
+export const confirmationUrl = (baseUrl: string, registration: AccessTokenRegistration) =>
+  `${baseUrl}/confirmation?token=${encodeURIComponent(createAccessToken(registration))}`;
+
+// Where links should point: the configured app URL, else the host the
+// request came in on
+export const getBaseUrl = (req: Request) =>
+  process.env.APP_BASE_URL ||
+  (process.env.NODE_ENV === "production" ? `https://${req.get("host")}` : `http://${req.get("host")}`);
+
+/** A PNG QR code of the registration's confirmation link. */
+export async function renderConfirmationQr(baseUrl: string, registration: AccessTokenRegistration): Promise<Buffer> {
+  return QRCode.toBuffer(confirmationUrl(baseUrl, registration), {
+    width: 300,
+    margin: 2,
+    color: {
+      dark: "#000000",
+      light: "#FFFFFF",
+    },
+  });
+}
@@ -0,0 +1,206 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import ExcelJS from "exceljs";
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import type { Addon, Registration } from "@shared/schema";
+import { PACKAGE_LABELS } from "@shared/pricing";
+import { PAYMENT_STATUS_LABELS } from "@shared/broadcasts";
+import { getOutstandingBalance } from "@shared/offlinePayments";
+import type { RegistrationSearch } from "@shared/registrationSearch";
+import {
+  EXPORT_COLUMNS,
+  type ExportColumn,
+  type ExportPersonField,
+  type RegistrationExport,
+} from "@shared/registrationExport";
+import type { IStorage } from "./storage";
+import { registrationCode } from "./paymentReminders";
+
+// Registration exports. Registrations are read from the database a batch at
+// a time, in the order the admin table shows them, and CSV and XLSX rows
+// are written to the response as each batch arrives, so even a large
+// festival never sits in memory all at once. PDFs are rendered whole, as
+// jsPDF can't stream.
+
+type ExportStorage = Pick<IStorage, "searchRegistrations" | "getWorkshops" | "getMilongas" | "getAddons">;
+
+type Cell = string | number | Date | null;
+
+interface ExportContext {
+  workshops: Map<string, string>;
+  milongas: Map<string, string>;
+  addons: Map<string, Addon>;
+}
+
+const BATCH_SIZE = 500;
+
+const person = (registration: Registration, role: "leader" | "follower") =>
+  (role === "leader" ? registration.leaderInfo : registration.followerInfo) as Record<string, string | undefined> | null;
+
+const names = (registration: Registration) =>
+  [person(registration, "leader"), person(registration, "follower")]
+    .filter((info): info is Record<string, string | undefined> => !!info)
+    .map((info) => `${info.firstName || ""} ${info.lastName || ""}`.trim())
+    .filter(Boolean)
+    .join(" & ");
+
+const ids = (value: unknown) => (value as string[] | null) || [];
+
+const money = (value: string | number | null) => (value === null ? null : Number(value));
+
+function addonSummary(registration: Registration, addons: Map<string, Addon>): string {
+  const selected = (registration.addons as Array<{ id: string; quantity: number; options?: Record<string, string> }> | null) || [];
+  return selected.map((selection) => {
+    const options = Object.values(selection.options || {}).filter(Boolean);
+    return `${selection.quantity} × ${addons.get(selection.id)?.name || selection.id}${options.length > 0 ? ` (${options.join(", ")})` : ""}`;
+  }).join("; ");
+}
+
+function cell(column: ExportColumn, registration: Registration, context: ExportContext): Cell {
+  const [role, field] = column.split(".") as ["leader" | "follower", ExportPersonField | undefined];
+  if (field) {
+    return person(registration, role)?.[field] || null;
+  }
+
+  switch (column) {
+    case "code": return registrationCode(registration);
+    case "createdAt": return registration.createdAt;
+    case "packageType": return PACKAGE_LABELS[registration.packageType] || registration.packageType;
+    case "role": return registration.role;
+    case "names": return names(registration);
+    case "workshops": return ids(registration.workshopIds).map((id) => context.workshops.get(id) || id).join("; ");
+    case "workshopCount": return ids(registration.workshopIds).length;
+    case "milongas": return ids(registration.milongaIds).map((id) => context.milongas.get(id) || id).join("; ");
+    case "tableNumber": return registration.selectedTableNumber;
+    case "addons": return addonSummary(registration, context.addons);
+    case "totalAmount": return money(registration.totalAmount);
+    case "discountAmount": return money(registration.discountAmount);
+    case "promoCode": return registration.promoCode;
+    case "amountReceived": return money(registration.amountReceived);
+    case "balanceDue": return getOutstandingBalance(registration.totalAmount, registration.amountReceived);
+    case "paymentMethod": return registration.paymentMethod;
+    case "paymentStatus": {
+      const status = registration.paymentStatus || "pending";
+      return PAYMENT_STATUS_LABELS[status as keyof typeof PAYMENT_STATUS_LABELS] || status;
+    }
+    case "currency": return registration.currency;
+    case "cancelledAt": return registration.cancelledAt;
+    case "refundAmount": return money(registration.refundAmount);
+    case "cancellationRequestedAt": return registration.cancellationRequestedAt;
+    default: return null;
+  }
+}
+
+const columnLabel = (column: ExportColumn) => EXPORT_COLUMNS.find((candidate) => candidate.key === column)?.label || column;
+
+async function getContext(store: ExportStorage, eventId: string | undefined): Promise<ExportContext> {
+  const [workshops, milongas, addons] = await Promise.all([
+    store.getWorkshops(eventId),
+    store.getMilongas(eventId),
+    store.getAddons(eventId),
+  ]);
+  return {
+    workshops: new Map(workshops.map((workshop) => [workshop.id, workshop.title])),
+    milongas: new Map(milongas.map((milonga) => [milonga.id, milonga.name])),
+    addons: new Map(addons.map((addon) => [addon.id, addon])),
+  };
+}
+
+/** Every registration matching the export's filters, a batch at a time. */
+async function* matchingBatches(store: ExportStorage, spec: RegistrationExport): AsyncGenerator<Registration[]> {
+  for (let page = 1; ; page++) {
+    const search: RegistrationSearch = { ...spec, page, pageSize: BATCH_SIZE };
+    const { registrations } = await store.searchRegistrations(search);
+    if (registrations.length > 0) yield registrations;
+    if (registrations.length < BATCH_SIZE) return;
+  }
+}
+
+const formatText = (value: Cell) =>
+  value === null ? "" : value instanceof Date ? value.toISOString().replace("T", " ").slice(0, 16) : String(value);
+
+// Spreadsheet apps run cells starting with these as formulas, and names
+// and emails come straight from the registration form
+const neutralise = (text: string) => (/^[=+\-@\t\r]/.test(text) ? `'${text}` : text);
+
+export const csvField = (value: Cell) => {
+  const text = typeof value === "number" ? String(value) : neutralise(formatText(value));
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+async function write(out: Writable, chunk: string) {
+  if (!out.write(chunk)) await once(out, "drain");
+}
+
+/** Write the export as CSV, with a byte order mark so Excel reads it as UTF-8. */
+export async function writeCsvExport(store: ExportStorage, spec: RegistrationExport, out: Writable): Promise<number> {
+  const context = await getContext(store, spec.eventId);
+  let count = 0;
+  await write(out, `\uFEFF${spec.columns.map((column) => csvField(columnLabel(column))).join(",")}\r\n`);
+  for await (const batch of matchingBatches(store, spec)) {
+    await write(out, batch.map((registration) =>
+      `${spec.columns.map((column) => csvField(cell(column, registration, context))).join(",")}\r\n`
+    ).join(""));
+    count += batch.length;
+  }
+  out.end();
+  return count;
+}
+
+/** Write the export as an XLSX workbook, streaming rows as they're read. */
+export async function writeXlsxExport(store: ExportStorage, spec: RegistrationExport, out: Writable): Promise<number> {
+  const context = await getContext(store, spec.eventId);
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true });
+  const sheet = workbook.addWorksheet("Registrations", { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = spec.columns.map((column) => ({
+    header: columnLabel(column),
+    key: column,
+    width: Math.max(12, columnLabel(column).length + 2),
+    style: column === "createdAt" || column === "cancelledAt" || column === "cancellationRequestedAt"
+      ? { numFmt: "yyyy-mm-dd hh:mm" }
+      : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  let count = 0;
+  for await (const batch of matchingBatches(store, spec)) {
+    for (const registration of batch) {
+      sheet.addRow(spec.columns.map((column) => cell(column, registration, context))).commit();
+    }
+    count += batch.length;
+  }
+  sheet.commit();
+  await workbook.commit();
+  return count;
+}
+
+/** The export as a landscape PDF table. */
+export async function renderPdfExport(
+  store: ExportStorage,
+  spec: RegistrationExport,
+  title: string,
+): Promise<{ pdf: Buffer; count: number }> {
+  const context = await getContext(store, spec.eventId);
+  const rows: string[][] = [];
+  for await (const batch of matchingBatches(store, spec)) {
+    for (const registration of batch) {
+      rows.push(spec.columns.map((column) => formatText(cell(column, registration, context))));
+    }
+  }
+
+  const doc = new jsPDF({ orientation: "landscape" });
+  doc.setFontSize(14);
+  doc.text(title, 14, 15);
+  doc.setFontSize(9);
+  doc.text(`Generated ${new Date().toISOString().slice(0, 16).replace("T", " ")} UTC · ${rows.length} registrations`, 14, 22);
+  autoTable(doc, {
+    head: [spec.columns.map(columnLabel)],
+    body: rows,
+    startY: 28,
+    styles: { fontSize: spec.columns.length > 12 ? 6 : 8, cellPadding: 1.5, overflow: "linebreak" },
+    headStyles: { fillColor: [220, 50, 50] },
+    margin: { left: 8, right: 8 },
+  });
+  return { pdf: Buffer.from(doc.output("arraybuffer")), count: rows.length };
+}
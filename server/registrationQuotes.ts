@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { insertRegistrationSchema, type Registration, type Workshop } from "@shared/schema";
+import { PromoCodeError } from "@shared/promoCodes";
+import { quoteRegistration, type PriceQuote, type PricingInput } from "@shared/pricing";
+import { storage } from "./storage";
+
+// Server-side pricing and schedule checks shared by new registrations and
+// the changes dancers make to theirs from the portal, so both are held to
+// the same rules.
+
+// The parts of a registration that determine its price
+export const pricingDraftSchema = insertRegistrationSchema.pick({
+  eventId: true,
+  packageType: true,
+  role: true,
+  leaderInfo: true,
+  followerInfo: true,
+  workshopIds: true,
+  milongaIds: true,
+  selectedTableNumber: true,
+  addons: true,
+  promoCode: true,
+});
+
+export type PricingDraft = z.infer<typeof pricingDraftSchema>;
+
+export interface QuoteOptions {
+  now?: Date;
+  // The registration being changed, whose own use of its promo code
+  // doesn't count against the code's limits
+  registration?: Registration;
+}
+
+const isDefined = <T,>(value: T | undefined): value is T => value !== undefined;
+
+/**
+ * Thrown when a registration selects a workshop, milonga or add-on that
+ * doesn't exist or belongs to another event.
+ */
+export class SelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SelectionError";
+  }
+}
+
+/**
+ * The server-side price of a registration, from the shared pricing engine
+ * with catalog prices loaded fresh from storage. An unusable promo code
+ * throws PromoCodeError; a missing or cross-event item SelectionError.
+ */
+export async function calculateRegistrationTotal(data: PricingDraft, options: QuoteOptions = {}): Promise<PriceQuote> {
+  const [event, packageConfig, tiers, workshops, milongas, tables, addons] = await Promise.all([
+    storage.getEvent(data.eventId),
+    storage.getPackageConfiguration(data.eventId, data.packageType),
+    storage.getPricingTiersByEvent(data.eventId),
+    Promise.all((data.workshopIds || []).map((id) => storage.getWorkshop(id))),
+    Promise.all((data.milongaIds || []).map((id) => storage.getMilonga(id))),
+    data.selectedTableNumber ? storage.getTables(data.eventId) : Promise.resolve([]),
+    Promise.all((data.addons || []).map((addon) => storage.getAddon(addon.id))),
+  ]);
+
+  // An item from another event would be priced, and booked, at that
+  // event's terms; treat it like one that doesn't exist
+  for (const [kind, items] of [["workshops", workshops], ["milongas", milongas], ["add-ons", addons]] as const) {
+    if (items.some((item) => item?.eventId !== data.eventId)) {
+      throw new SelectionError(`One or more selected ${kind} were not found.`);
+    }
+  }
+
+  let promo: PricingInput["promo"] = null;
+  if (data.promoCode) {
+    const rules = await storage.getPromoCodeByCode(data.eventId, data.promoCode);
+    if (!rules) {
+      throw new PromoCodeError("This promo code is not valid.");
+    }
+    const email = data.leaderInfo?.email || data.followerInfo?.email;
+    const usage = await storage.getPromoCodeUsage(data.eventId, rules.code, email);
+    if (options.registration?.promoCode === rules.code) {
+      usage.total = Math.max(0, usage.total - 1);
+      usage.byEmail = Math.max(0, usage.byEmail - 1);
+    }
+    promo = { rules, usage };
+  }
+
+  return quoteRegistration({
+    event,
+    packageConfig,
+    tiers,
+    catalog: {
+      workshops: workshops.filter(isDefined),
+      milongas: milongas.filter(isDefined),
+      tables,
+      addons: addons.filter(isDefined),
+    },
+    selection: data,
+    promo,
+    now: options.now ?? new Date(),
+  });
+}
+
+/**
+ * Why a set of workshops can't be booked together: one doesn't exist, or
+ * two run at the same time. Undefined when they can.
+ */
+export async function getWorkshopScheduleError(workshopIds: string[] | null | undefined): Promise<string | undefined> {
+  if (!workshopIds?.length) return undefined;
+
+  const workshopRecords = await Promise.all(workshopIds.map((id) => storage.getWorkshop(id)));
+  const scheduleMap = new Map<string, Workshop>();
+  for (const workshop of workshopRecords) {
+    if (!workshop) {
+      return "One or more selected workshops were not found.";
+    }
+    const key = `${workshop.date}|${workshop.time}`;
+    if (scheduleMap.has(key)) {
+      return `Selected workshops "${scheduleMap.get(key)?.title}" and "${workshop.title}" occur at the same time.`;
+    }
+    scheduleMap.set(key, workshop);
+  }
+  return undefined;
+}
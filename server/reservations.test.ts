@@ -0,0 +1,220 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertRegistration } from "@shared/schema";
+
+// Registrations racing for the last places of a workshop or gala table, and
+// the queries and constraints that keep one event's catalogue to itself.
+// These run against a real database, so `npm test` skips them. `npm run
+// test:db` starts a throwaway Postgres in Docker, pushes the schema and runs
+// them; or set TEST_DATABASE_URL to a disposable database with the schema
+// pushed (`DATABASE_URL=... npm run db:push`). Only rows for an event created
+// here are touched.
+
+const databaseUrl = process.env.TEST_DATABASE_URL;
+if (databaseUrl) {
+  process.env.DATABASE_URL = databaseUrl;
+  // Enough connections for the registrations to really run side by side
+  process.env.DATABASE_POOL_MAX = "10";
+}
+
+const PARALLEL_REGISTRATIONS = 10;
+
+describe("capacity reservations", { skip: !databaseUrl && "TEST_DATABASE_URL is not set" }, () => {
+  let db: typeof import("./db").db;
+  let closeDb: typeof import("./db").closeDb;
+  let schema: typeof import("@shared/schema");
+  let storage: typeof import("./storage").storage;
+  let CapacityError: typeof import("./storage").CapacityError;
+  let DuplicatePromoCodeError: typeof import("./storage").DuplicatePromoCodeError;
+  let drizzle: typeof import("drizzle-orm");
+  let SelectionError: typeof import("./registrationQuotes").SelectionError;
+  let calculateRegistrationTotal: typeof import("./registrationQuotes").calculateRegistrationTotal;
+  let eventId: string;
+  // Catalogue rows that claim another event; no such event is created
+  let otherEventId: string;
+
+  before(async () => {
+    ({ db, closeDb } = await import("./db"));
+    schema = await import("@shared/schema");
+    ({ storage, CapacityError, DuplicatePromoCodeError } = await import("./storage"));
+    drizzle = await import("drizzle-orm");
+    ({ SelectionError, calculateRegistrationTotal } = await import("./registrationQuotes"));
+
+    const [event] = await db.insert(schema.events).values({
+      name: "Reservation test",
+      // Event years are unique
+      year: 9000 + Math.floor(Math.random() * 1000),
+      startDate: new Date("2030-03-01"),
+      endDate: new Date("2030-03-03"),
+      registrationOpenDate: new Date("2029-01-01"),
+      registrationCloseDate: new Date("2030-02-28"),
+      venue: "Test venue",
+      isCurrent: false,
+    }).returning();
+    eventId = event.id;
+    otherEventId = `${event.id}-other`;
+  });
+
+  after(async () => {
+    if (eventId) {
+      const { eq, inArray } = drizzle;
+      await db.delete(schema.registrations).where(eq(schema.registrations.eventId, eventId));
+      await db.delete(schema.workshops).where(inArray(schema.workshops.eventId, [eventId, otherEventId]));
+      await db.delete(schema.tables).where(inArray(schema.tables.eventId, [eventId, otherEventId]));
+      await db.delete(schema.promoCodes).where(eq(schema.promoCodes.eventId, eventId));
+      await db.delete(schema.events).where(eq(schema.events.id, eventId));
+    }
+    await closeDb?.();
+  });
+
+  const registration = (index: number, selection: Partial<InsertRegistration>): InsertRegistration => ({
+    eventId,
+    packageType: "custom",
+    role: "leader",
+    leaderInfo: {
+      firstName: "Dancer",
+      lastName: String(index),
+      email: `dancer${index}@example.com`,
+      phone: "+971500000000",
+      country: "AE",
+      level: "intermediate",
+    },
+    workshopIds: [],
+    seatIds: [],
+    milongaIds: [],
+    addons: [],
+    totalAmount: 100,
+    paymentMethod: "offline",
+    ...selection,
+  } as InsertRegistration);
+
+  // Fire the registrations at once; the ones that lose the race must fail
+  // with a CapacityError rather than anything else
+  const registerInParallel = async (selection: Partial<InsertRegistration>) => {
+    const results = await Promise.allSettled(
+      Array.from({ length: PARALLEL_REGISTRATIONS }, (_, index) =>
+        storage.createRegistrationWithReservations(registration(index, selection)),
+      ),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        assert.ok(result.reason instanceof CapacityError, `Unexpected error: ${result.reason}`);
+      }
+    }
+    return results.filter((result) => result.status === "fulfilled").length;
+  };
+
+  it("gives the last workshop place to exactly one of many parallel registrations", async () => {
+    const [workshop] = await db.insert(schema.workshops).values({
+      eventId,
+      title: "Last place",
+      instructor: "Test",
+      level: "intermediate",
+      description: "Test workshop",
+      date: new Date("2030-03-01T10:00:00Z"),
+      time: "10:00",
+      price: "100",
+      capacity: 2,
+      leaderCapacity: 1,
+      followerCapacity: 1,
+    }).returning();
+
+    assert.equal(await registerInParallel({ workshopIds: [workshop.id] }), 1);
+
+    const [updated] = await db.select().from(schema.workshops).where(drizzle.eq(schema.workshops.id, workshop.id));
+    assert.equal(updated.leadersEnrolled, 1);
+    assert.equal(updated.enrolled, 1);
+  });
+
+  it("seats exactly as many parallel registrations as a table has seats left", async () => {
+    await db.insert(schema.tables).values({ eventId, tableNumber: 1, totalSeats: 6, occupiedSeats: 4, price: "200" });
+
+    assert.equal(await registerInParallel({ selectedTableNumber: 1 }), 2);
+
+    const [table] = await db.select().from(schema.tables)
+      .where(drizzle.and(drizzle.eq(schema.tables.eventId, eventId), drizzle.eq(schema.tables.tableNumber, 1)));
+    assert.equal(table.occupiedSeats, 6);
+  });
+
+  it("keeps nothing from a registration that fails on its table", async () => {
+    await db.insert(schema.tables).values({ eventId, tableNumber: 2, totalSeats: 6, occupiedSeats: 6, price: "200" });
+    const [workshop] = await db.insert(schema.workshops).values({
+      eventId,
+      title: "Rolled back",
+      instructor: "Test",
+      level: "intermediate",
+      description: "Test workshop",
+      date: new Date("2030-03-02T10:00:00Z"),
+      time: "10:00",
+      price: "100",
+      capacity: 10,
+      leaderCapacity: 5,
+      followerCapacity: 5,
+    }).returning();
+
+    await assert.rejects(
+      storage.createRegistrationWithReservations(registration(99, { workshopIds: [workshop.id], selectedTableNumber: 2 })),
+      CapacityError,
+    );
+
+    const [updated] = await db.select().from(schema.workshops).where(drizzle.eq(schema.workshops.id, workshop.id));
+    assert.equal(updated.leadersEnrolled ?? 0, 0);
+    const orphans = await db.select().from(schema.registrations)
+      .where(drizzle.sql`${schema.registrations.workshopIds} @> ${JSON.stringify([workshop.id])}::jsonb`);
+    assert.equal(orphans.length, 0);
+  });
+
+  it("settles a card registration with nothing to pay, promo code or not", async () => {
+    const created = await storage.createRegistrationWithReservations(registration(100, { totalAmount: 0, paymentMethod: "stripe" }));
+
+    assert.equal(created.paymentStatus, "completed");
+    assert.equal(created.holdExpiresAt, null);
+  });
+
+  it("refuses two promo codes of an event that differ only in case, even side by side", async () => {
+    const promo = (code: string) => ({ eventId, code, discountType: "percentage" as const, discountValue: "10" });
+    const results = await Promise.allSettled([storage.createPromoCode(promo("RACE")), storage.createPromoCode(promo("race"))]);
+
+    assert.equal(results.filter((result) => result.status === "fulfilled").length, 1);
+    const rejected = results.find((result) => result.status === "rejected") as PromiseRejectedResult;
+    assert.ok(rejected.reason instanceof DuplicatePromoCodeError, `Unexpected error: ${rejected.reason}`);
+
+    const other = await storage.createPromoCode(promo("OTHER"));
+    await assert.rejects(storage.updatePromoCode(other.id, { code: "Race" }), DuplicatePromoCodeError);
+  });
+
+  it("lists only the event's own active tables", async () => {
+    await db.insert(schema.tables).values([
+      { eventId, tableNumber: 3, price: "200", isActive: false },
+      { eventId: otherEventId, tableNumber: 4, price: "200" },
+    ]);
+
+    const tables = await storage.getTables(eventId);
+    assert.ok(tables.length > 0);
+    for (const table of tables) {
+      assert.equal(table.eventId, eventId, `table ${table.tableNumber} is from another event`);
+      assert.equal(table.isActive, true, `table ${table.tableNumber} is inactive`);
+    }
+  });
+
+  it("won't quote a workshop from another event", async () => {
+    const [workshop] = await db.insert(schema.workshops).values({
+      eventId: otherEventId,
+      title: "Other event",
+      instructor: "Test",
+      level: "intermediate",
+      description: "Test workshop",
+      date: new Date("2030-03-02T12:00:00Z"),
+      time: "12:00",
+      price: "1",
+      capacity: 10,
+      leaderCapacity: 5,
+      followerCapacity: 5,
+    }).returning();
+
+    await assert.rejects(
+      calculateRegistrationTotal({ eventId, packageType: "custom", role: "leader", workshopIds: [workshop.id], milongaIds: [], addons: [] }),
+      SelectionError,
+    );
+  });
+});
@@ -0,0 +1,227 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Response } from "express";
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import type { CheckIn, Registration } from "@shared/schema";
+import { GALA_SESSION_ID, getAdmissionStatus, type CheckInSessionType } from "@shared/checkIn";
+import {
+  ROSTER_TYPES,
+  ROSTER_TYPE_LABELS,
+  countRoster,
+  type Roster,
+  type RosterEntry,
+  type RosterFileFormat,
+  type RosterShareLink,
+  type RosterType,
+} from "@shared/rosters";
+import type { IStorage } from "./storage";
+import { getAccessTokenSecret } from "./registrationAccess";
+import { csvField } from "./registrationExport";
+
+// Class lists, door lists and table lists. Cancelled and expired
+// registrations are left off; each dancer's check-in status is their
+// registration's check-in to the session. Shared links carry the roster and
+// an expiry time, signed like confirmation links, so nothing is stored and
+// a link stops working once it expires.
+
+type RosterStorage = Pick<
+  IStorage,
+  "getWorkshop" | "getMilonga" | "getTable" | "getRegistrations" | "getEventCheckIns"
+>;
+
+export class RosterError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "RosterError";
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDay = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-GB", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+
+interface PersonInfo {
+  firstName?: string;
+  lastName?: string;
+  level?: string;
+  country?: string;
+}
+
+const fullName = (person: PersonInfo | null) =>
+  person ? `${person.firstName || ""} ${person.lastName || ""}`.trim() : "";
+
+/** One line per dancer of the registration: two for a couple. */
+function rosterEntries(registration: Registration, checkIn: CheckIn | undefined): RosterEntry[] {
+  const leader = registration.leaderInfo as PersonInfo | null;
+  const follower = registration.followerInfo as PersonInfo | null;
+  const dancers: Array<{ role: RosterEntry["role"]; person: PersonInfo | null; partner: PersonInfo | null }> =
+    registration.role === "couple"
+      ? [{ role: "leader", person: leader, partner: follower }, { role: "follower", person: follower, partner: leader }]
+      : [{ role: registration.role as RosterEntry["role"], person: leader || follower, partner: null }];
+
+  return dancers.map(({ role, person, partner }) => ({
+    registrationId: registration.id,
+    name: fullName(person) || "Unnamed dancer",
+    role,
+    partner: fullName(partner) || null,
+    level: person?.level || "",
+    country: person?.country || "",
+    checkedInAt: checkIn ? new Date(checkIn.checkedInAt).toISOString() : null,
+  }));
+}
+
+// Leaders first, then followers, each alphabetical
+const byRoleAndName = (a: RosterEntry, b: RosterEntry) =>
+  a.role === b.role ? a.name.localeCompare(b.name) : a.role === "leader" ? -1 : 1;
+
+export async function buildRoster(store: RosterStorage, type: RosterType, id: string): Promise<Roster> {
+  let eventId: string;
+  let title: string;
+  let details: string[];
+  let session: { type: CheckInSessionType; id: string };
+  let booked: (registration: Registration) => boolean;
+
+  if (type === "workshop") {
+    const workshop = await store.getWorkshop(id);
+    if (!workshop) throw new RosterError("Workshop not found", 404);
+    eventId = workshop.eventId;
+    title = workshop.title;
+    details = [`${formatDay(workshop.date)}, ${workshop.time}`, `Instructor: ${workshop.instructor}`, `Level: ${workshop.level}`];
+    session = { type: "workshop", id: workshop.id };
+    booked = (registration) => ((registration.workshopIds as string[] | null) || []).includes(workshop.id);
+  } else if (type === "milonga") {
+    const milonga = await store.getMilonga(id);
+    if (!milonga) throw new RosterError("Milonga not found", 404);
+    eventId = milonga.eventId;
+    title = milonga.name;
+    details = [`${formatDay(milonga.date)}, ${milonga.time}`, milonga.venue];
+    session = { type: "milonga", id: milonga.id };
+    booked = (registration) => ((registration.milongaIds as string[] | null) || []).includes(milonga.id);
+  } else {
+    const table = await store.getTable(id);
+    if (!table) throw new RosterError("Table not found", 404);
+    eventId = table.eventId;
+    title = `Gala dinner · Table ${table.tableNumber}`;
+    details = [`${table.totalSeats} seats${table.isVip ? " · VIP" : ""}`];
+    session = { type: "gala", id: GALA_SESSION_ID };
+    booked = (registration) => registration.selectedTableNumber === table.tableNumber;
+  }
+
+  const [registrations, checkIns] = await Promise.all([
+    store.getRegistrations(eventId),
+    store.getEventCheckIns(eventId),
+  ]);
+  const checkInsByRegistration = new Map(
+    checkIns
+      .filter((checkIn) => checkIn.sessionType === session.type && checkIn.sessionId === session.id)
+      .map((checkIn) => [checkIn.registrationId, checkIn]),
+  );
+  const entries = registrations
+    .filter((registration) => booked(registration) && getAdmissionStatus(registration).status !== "void")
+    .flatMap((registration) => rosterEntries(registration, checkInsByRegistration.get(registration.id)))
+    .sort(byRoleAndName);
+
+  return { type, id, title, details, entries, counts: countRoster(entries) };
+}
+
+const formatCheckIn = (entry: RosterEntry) =>
+  entry.checkedInAt ? new Date(entry.checkedInAt).toISOString().slice(11, 16) : "";
+
+export function renderRosterCsv(roster: Roster): string {
+  const rows = [
+    ["Name", "Role", "Partner", "Level", "Country", "Checked in"],
+    ...roster.entries.map((entry) => [
+      entry.name,
+      entry.role,
+      entry.partner,
+      entry.level,
+      entry.country,
+      entry.checkedInAt ? new Date(entry.checkedInAt) : null,
+    ]),
+  ];
+  return `\uFEFF${rows.map((row) => row.map(csvField).join(",")).join("\r\n")}\r\n`;
+}
+
+/** A printable roster, with a blank column to tick dancers off by hand. */
+export function renderRosterPdf(roster: Roster): Buffer {
+  const doc = new jsPDF();
+  doc.setFontSize(16);
+  doc.text(roster.title, 14, 16);
+  doc.setFontSize(10);
+  let y = 23;
+  for (const line of [ROSTER_TYPE_LABELS[roster.type], ...roster.details]) {
+    doc.text(line, 14, y);
+    y += 5;
+  }
+  const { total, leaders, followers, checkedIn } = roster.counts;
+  doc.text(`${total} dancers: ${leaders} leaders, ${followers} followers · ${checkedIn} checked in`, 14, y + 2);
+
+  autoTable(doc, {
+    head: [["#", "Name", "Role", "Partner", "Level", "Country", "Checked in", "Here"]],
+    body: roster.entries.map((entry, index) => [
+      String(index + 1),
+      entry.name,
+      entry.role,
+      entry.partner || "",
+      entry.level,
+      entry.country,
+      formatCheckIn(entry),
+      "",
+    ]),
+    startY: y + 8,
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [220, 50, 50] },
+    columnStyles: { 0: { cellWidth: 10 }, 7: { cellWidth: 14 } },
+  });
+  doc.setFontSize(8);
+  doc.text(`Generated ${new Date().toISOString().slice(0, 16).replace("T", " ")} UTC`, 14, doc.internal.pageSize.getHeight() - 8);
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+const rosterFilename = (roster: Roster, extension: string) =>
+  `${roster.type}-${roster.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}.${extension}`;
+
+/** Send the roster as a PDF or CSV download. */
+export function sendRosterFile(res: Response, roster: Roster, format: RosterFileFormat) {
+  const file = format === "pdf" ? renderRosterPdf(roster) : Buffer.from(renderRosterCsv(roster));
+  res.setHeader('Content-Type', format === "pdf" ? 'application/pdf' : 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${rosterFilename(roster, format)}"`);
+  res.setHeader('Content-Length', file.length);
+  res.send(file);
+}
+
+const signShare = (type: string, id: string, expires: string) =>
+  createHmac("sha256", getAccessTokenSecret()).update(`roster:${type}:${id}:${expires}`).digest("base64url");
+
+/** A read-only link to the roster that works for `days` days. */
+export function createRosterShareLink(
+  baseUrl: string,
+  type: RosterType,
+  id: string,
+  days: number,
+  now: Date = new Date(),
+): RosterShareLink {
+  const expiresAt = new Date(now.getTime() + days * DAY_MS);
+  const expires = String(Math.floor(expiresAt.getTime() / 1000));
+  const token = `${type}.${id}.${expires}.${signShare(type, id, expires)}`;
+  return { url: `${baseUrl}/roster?token=${encodeURIComponent(token)}`, expiresAt: expiresAt.toISOString() };
+}
+
+/** The roster a shared link's token is for, if it is genuine and unexpired. */
+export function parseRosterShareToken(token: string, now: Date = new Date()): { type: RosterType; id: string } {
+  const [type, id, expires, signature] = token.split(".");
+  if (!type || !id || !expires || !signature || !(ROSTER_TYPES as readonly string[]).includes(type)) {
+    throw new RosterError("This link isn't valid", 404);
+  }
+
+  const expected = Buffer.from(signShare(type, id, expires));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new RosterError("This link isn't valid", 404);
+  }
+  if (Number(expires) * 1000 <= now.getTime()) {
+    throw new RosterError("This link has expired. Ask the organisers for a new one.", 410);
+  }
+  return { type: type as RosterType, id };
+}
@@ -1,7 +1,7 @@
 import { 
   type User, type InsertUser, 
   type AdminUser, type InsertAdminUser, 
-  type Registration, type InsertRegistration, 
+  type Registration, type InsertRegistration, type UpdateRegistration, 
   type Workshop, type InsertWorkshop, 
   type Seat, type InsertSeat, 
   type Table, type InsertTable, 
@@ -10,10 +10,54 @@ import {
   type Addon, type InsertAddon, 
   type Event, type InsertEvent,
   type PricingTier, type InsertPricingTier,
-  type PackageConfiguration, type InsertPackageConfiguration
+  type PackageConfiguration, type InsertPackageConfiguration,
+  type WaitlistEntry, type InsertWaitlistEntry, type WaitlistItemType,
+  type PromoCode, type InsertPromoCode,
+  type OfflinePayment, type InsertOfflinePayment,
+  type PaymentInstalment, type InsertPaymentInstalment,
+  type Invoice, type InsertInvoice,
+  type EmailTemplate, type InsertEmailTemplate,
+  type EmailOutboxEntry, type InsertEmailOutboxEntry,
+  type Broadcast, type InsertBroadcast,
+  type PortalToken, type InsertPortalToken,
+  type CheckIn, type InsertCheckIn,
+  type AuditLogEntry, type InsertAuditLogEntry
 } from "@shared/schema";
+import type { PromoUsage } from "@shared/promoCodes";
+import type { PriceQuote } from "@shared/pricing";
+import type { PaymentSchedule } from "@shared/paymentPlans";
+import type { BroadcastDelivery } from "@shared/broadcasts";
+import type { PortalTokenKind, TopUpPayment } from "@shared/portal";
+import type { RegistrationSearch } from "@shared/registrationSearch";
+import type { AnalyticsInterval, AnalyticsTotals, CountryCount } from "@shared/analytics";
+import type { AuditLogSearch } from "@shared/audit";
 import { randomUUID } from "crypto";
 
+// Delivery state of an outbox email, as updated after each attempt
+export type EmailOutboxUpdate = Partial<Pick<EmailOutboxEntry, 'status' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'sentAt'>>;
+
+// One recipient's rendered copy of a broadcast
+export type BroadcastEmail = Pick<InsertEmailOutboxEntry, 'registrationId' | 'recipient' | 'subject' | 'body'>;
+
+// The bookings a dancer can change from the portal, with the total they
+// now come to
+export type RegistrationSelection = Pick<InsertRegistration, 'workshopIds' | 'milongaIds' | 'selectedTableNumber' | 'addons'> & {
+  totalAmount: number;
+  discountAmount: number;
+};
+
+// What is recorded on a registration when it is cancelled
+export interface RegistrationCancellation {
+  paymentStatus: 'cancelled' | 'refunded' | 'partially_refunded';
+  refundAmount: number;
+  stripeRefundId: string | null;
+  cancelledBy: string;
+  cancellationReason: string | null;
+}
+
+// What registration analytics can be broken down by
+export type RegistrationBreakdown = 'package' | 'role' | 'tier';
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
@@ -31,11 +75,42 @@ export interface IStorage {
   
   // Registration methods
   createRegistration(registration: InsertRegistration): Promise<Registration>;
+  createRegistrationWithReservations(registration: InsertRegistration, priceQuote?: PriceQuote, paymentSchedule?: PaymentSchedule): Promise<Registration>;
   getRegistration(id: string): Promise<Registration | undefined>;
   getRegistrations(eventId?: string): Promise<Registration[]>;
-  updateRegistration(id: string, updates: Partial<InsertRegistration>): Promise<Registration>;
+  searchRegistrations(search: RegistrationSearch): Promise<{ registrations: Registration[]; total: number }>;
+  getRegistrationByPaymentIntentId(paymentIntentId: string): Promise<Registration | undefined>;
+  updateRegistration(id: string, updates: UpdateRegistration): Promise<Registration>;
   updateRegistrationPayment(id: string, paymentStatus: string, paymentIntentId?: string): Promise<Registration>;
+  updateRegistrationStripeCustomer(id: string, stripeCustomerId: string): Promise<Registration>;
+  setRegistrationPaymentIntent(id: string, paymentIntentId: string): Promise<Registration | undefined>;
   deleteRegistration(id: string): Promise<void>;
+
+  // Registration analytics, aggregated in the database
+  getRegistrationTotals(eventId?: string): Promise<AnalyticsTotals>;
+  getRegistrationBreakdown(
+    dimension: RegistrationBreakdown,
+    eventId?: string
+  ): Promise<Array<{ key: string; registrations: number; dancers: number; revenue: number }>>;
+  getDancerCountries(eventId?: string): Promise<CountryCount[]>;
+  getRegistrationTimeline(
+    interval: AnalyticsInterval,
+    eventId?: string
+  ): Promise<Array<{ period: string; registrations: number; revenue: number }>>;
+  getAddonSales(eventId?: string): Promise<Array<{ addonId: string; options: Record<string, string>; quantity: number }>>;
+  getEventRegistrationCurves(): Promise<Array<{ eventId: string; weeksBefore: number; registrations: number }>>;
+  getExpiredHolds(now?: Date): Promise<Registration[]>;
+  releaseRegistrationHold(id: string): Promise<Registration | undefined>;
+  reinstateExpiredRegistration(id: string, paymentIntentId: string): Promise<Registration | undefined>;
+  recordUnplacedPayment(id: string, paymentIntentId: string, amount: number): Promise<Registration | undefined>;
+  recordChargeRefund(id: string, chargeId: string, amount: number): Promise<Registration>;
+  cancelRegistration(id: string, cancellation: RegistrationCancellation): Promise<Registration | undefined>;
+  getRegistrationsByEmail(email: string): Promise<Registration[]>;
+  updateRegistrationSelection(id: string, selection: RegistrationSelection, priceQuote: PriceQuote): Promise<Registration>;
+  recordTopUpPayment(id: string, payment: TopUpPayment): Promise<Registration | undefined>;
+  setTopUpPaymentIntent(id: string, paymentIntentId: string | null): Promise<Registration>;
+  requestRegistrationCancellation(id: string, reason: string | null): Promise<Registration>;
+  rotateRegistrationAccessToken(id: string): Promise<Registration>;
   
   // Workshop methods
   getWorkshops(eventId?: string): Promise<Workshop[]>;
@@ -94,6 +169,7 @@ export interface IStorage {
   
   // Pricing Tiers methods
   getPricingTiersByEvent(eventId: string): Promise<PricingTier[]>;
+  getPricingTier(id: string): Promise<PricingTier | undefined>;
   getActivePricingTier(eventId: string): Promise<PricingTier | undefined>;
   createPricingTier(tier: InsertPricingTier): Promise<PricingTier>;
   updatePricingTier(id: string, updates: Partial<InsertPricingTier>): Promise<PricingTier>;
@@ -102,9 +178,81 @@ export interface IStorage {
   // Package Configuration methods
   getPackageConfigurationsByEvent(eventId: string): Promise<PackageConfiguration[]>;
   getPackageConfiguration(eventId: string, packageType: string): Promise<PackageConfiguration | undefined>;
+  getPackageConfigurationById(id: string): Promise<PackageConfiguration | undefined>;
   createPackageConfiguration(packageConfig: InsertPackageConfiguration): Promise<PackageConfiguration>;
   updatePackageConfiguration(id: string, updates: Partial<InsertPackageConfiguration>): Promise<PackageConfiguration>;
   deletePackageConfiguration(id: string): Promise<void>;
+
+  // Waitlist methods
+  getWaitlistEntries(eventId?: string): Promise<WaitlistEntry[]>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  createWaitlistEntry(eventId: string, entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  getExpiredWaitlistOffers(now?: Date): Promise<WaitlistEntry[]>;
+  cancelWaitlistEntry(id: string): Promise<WaitlistEntry>;
+  promoteWaitlist(itemType: WaitlistItemType, itemId: string): Promise<WaitlistEntry[]>;
+
+  // Promo code methods
+  getPromoCodes(eventId?: string): Promise<PromoCode[]>;
+  getPromoCode(id: string): Promise<PromoCode | undefined>;
+  getPromoCodeByCode(eventId: string, code: string): Promise<PromoCode | undefined>;
+  createPromoCode(promo: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(id: string, updates: Partial<InsertPromoCode>): Promise<PromoCode>;
+  deletePromoCode(id: string): Promise<void>;
+  getPromoCodeUsage(eventId: string, code: string, email?: string): Promise<PromoUsage>;
+
+  // Offline payment methods
+  getOfflinePayments(registrationId: string): Promise<OfflinePayment[]>;
+  recordOfflinePayment(registrationId: string, payment: InsertOfflinePayment, recordedBy: string): Promise<{ payment: OfflinePayment; registration: Registration }>;
+  deleteOfflinePayment(id: string): Promise<{ payment: OfflinePayment; registration: Registration }>;
+  getOutstandingOfflineRegistrations(eventId?: string): Promise<Registration[]>;
+  markPaymentReminderSent(id: string, sentAt: Date): Promise<Registration>;
+
+  // Payment plan methods
+  getPaymentInstalments(registrationId: string): Promise<PaymentInstalment[]>;
+  getPaymentInstalment(id: string): Promise<PaymentInstalment | undefined>;
+  updatePaymentInstalment(id: string, updates: Partial<InsertPaymentInstalment>): Promise<PaymentInstalment>;
+  recordInstalmentPayment(id: string, paymentIntentId: string, paymentMethodId: string | null, paidAt: Date): Promise<Registration | undefined>;
+  getOpenPaymentPlanRegistrations(): Promise<Registration[]>;
+
+  // Invoice methods
+  getInvoices(registrationId: string): Promise<Invoice[]>;
+  getEventInvoices(eventId: string): Promise<Invoice[]>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  issueInvoice(invoice: InsertInvoice): Promise<Invoice>;
+
+  // Email notification methods
+  getEmailTemplates(eventId: string): Promise<EmailTemplate[]>;
+  getEmailTemplate(eventId: string, type: string): Promise<EmailTemplate | undefined>;
+  saveEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
+  deleteEmailTemplate(eventId: string, type: string): Promise<void>;
+  queueEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry | undefined>;
+  claimDueEmails(now: Date, limit: number, leaseMs: number): Promise<EmailOutboxEntry[]>;
+  updateEmailOutboxEntry(id: string, updates: EmailOutboxUpdate): Promise<EmailOutboxEntry>;
+  getEmailOutbox(eventId?: string, status?: string): Promise<EmailOutboxEntry[]>;
+
+  // Broadcast methods
+  createBroadcast(broadcast: InsertBroadcast, emails: BroadcastEmail[]): Promise<Broadcast>;
+  getBroadcasts(eventId?: string): Promise<Array<Broadcast & { delivery: BroadcastDelivery }>>;
+  getBroadcast(id: string): Promise<Broadcast | undefined>;
+  getBroadcastEmails(broadcastId: string): Promise<EmailOutboxEntry[]>;
+
+  // Dancer portal methods
+  createPortalToken(token: InsertPortalToken): Promise<PortalToken>;
+  getLatestPortalToken(email: string, kind: PortalTokenKind): Promise<PortalToken | undefined>;
+  usePortalLoginToken(tokenHash: string, now: Date): Promise<PortalToken | undefined>;
+  getPortalSession(tokenHash: string, now: Date): Promise<PortalToken | undefined>;
+  endPortalSession(tokenHash: string): Promise<void>;
+
+  // Door check-in methods
+  getCheckIns(registrationId: string): Promise<CheckIn[]>;
+  getEventCheckIns(eventId: string): Promise<CheckIn[]>;
+  // An existing check-in for the same registration and session is returned
+  // as a duplicate rather than recorded again
+  createCheckIn(checkIn: InsertCheckIn): Promise<{ checkIn: CheckIn; duplicate: boolean }>;
+
+  // Audit log methods; there is deliberately no way to change or remove an entry
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  searchAuditLog(search: AuditLogSearch): Promise<{ entries: AuditLogEntry[]; total: number }>;
 }
 
 // MemStorage is now replaced by SupabaseStorage
@@ -725,6 +873,27 @@ class MemStorage_DEPRECATED implements IStorage {
       paymentStatus: 'pending',
       paymentMethod: insertRegistration.paymentMethod || null,
       stripePaymentIntentId: null,
+      holdExpiresAt: null,
+      priceQuote: null,
+      cancelledAt: null,
+      cancelledBy: null,
+      cancellationReason: null,
+      refundAmount: '0',
+      stripeRefundId: null,
+      chargeRefunds: {},
+      cancellationRequestedAt: null,
+      cancellationRequestReason: null,
+      topUpPayments: [],
+      topUpPaymentIntentId: null,
+      accessTokenVersion: 1,
+      amountReceived: '0',
+      lastPaymentReminderAt: null,
+      paymentReminderCount: 0,
+      paymentPlan: null,
+      stripeCustomerId: null,
+      stripePaymentMethodId: null,
+      currency: insertRegistration.currency || 'AED',
+      exchangeRate: String(insertRegistration.exchangeRate ?? 1),
       createdAt: new Date(),
     };
     this.registrations.set(id, registration);
@@ -743,7 +912,7 @@ class MemStorage_DEPRECATED implements IStorage {
     return registrations;
   }
 
-  async updateRegistration(id: string, updates: Partial<InsertRegistration>): Promise<Registration> {
+  async updateRegistration(id: string, updates: UpdateRegistration): Promise<Registration> {
     const registration = this.registrations.get(id);
     if (!registration) {
       throw new Error('Registration not found');
@@ -1242,4 +1411,4 @@ class MemStorage_DEPRECATED implements IStorage {
 }
 
 // Export Supabase storage implementation
-export { storage } from './supabaseStorageImpl';
+export { storage, CapacityError, DuplicatePromoCodeError } from './supabaseStorageImpl';
@@ -0,0 +1,363 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import Stripe from "stripe";
+import type { PaymentInstalment, Registration } from "@shared/schema";
+import { constructStripeEvent, handleStripeEvent, StripeWebhookError } from "./stripeWebhook";
+import { CapacityError } from "./storage";
+
+// Stripe events recorded from test mode, replayed against an in-memory
+// store. Signatures are made with a fake signing secret.
+
+const SIGNING_SECRET = "whsec_fixture_secret";
+
+const fixture = (type: string): string =>
+  readFileSync(new URL(`./fixtures/stripe/${type}.json`, import.meta.url), "utf8");
+
+// A recorded event, with any changes a case needs made to its object
+const event = (type: string, changes: Record<string, unknown> = {}): Stripe.Event => {
+  const recorded = JSON.parse(fixture(type));
+  Object.assign(recorded.data.object, changes);
+  return recorded;
+};
+
+const INTENT_ID = "pi_3PqRsT2eZvKYlo2C0HjKlMnO";
+const CHARGE_ID = "ch_3PqRsT2eZvKYlo2C0PqRsTuV";
+
+const registration = (changes: Partial<Registration> = {}): Registration => ({
+  id: "reg_fixture_1",
+  eventId: "event-1",
+  paymentStatus: "pending",
+  paymentMethod: "stripe",
+  stripePaymentIntentId: INTENT_ID,
+  totalAmount: "500.00",
+  amountReceived: "0",
+  refundAmount: "0",
+  chargeRefunds: {},
+  topUpPayments: [],
+  currency: "AED",
+  exchangeRate: "1",
+  cancelledAt: null,
+  ...changes,
+} as Registration);
+
+// The storage the webhook uses, over a map of registrations. `placesFree`
+// decides whether an expired registration can have its places back.
+function createStore(registrations: Registration[], instalments: Partial<PaymentInstalment>[] = []) {
+  const byId = new Map(registrations.map((item) => [item.id, { ...item }]));
+  const instalmentsById = new Map(instalments.map((item) => [item.id!, { ...item }]));
+  const store = {
+    placesFree: true,
+    statusWrites: 0,
+    async getRegistration(id: string) {
+      return byId.get(id);
+    },
+    async getRegistrationByPaymentIntentId(paymentIntentId: string) {
+      return Array.from(byId.values()).find((item) => item.stripePaymentIntentId === paymentIntentId);
+    },
+    async updateRegistrationPayment(id: string, paymentStatus: string, paymentIntentId?: string) {
+      store.statusWrites += 1;
+      const updated = { ...byId.get(id)!, paymentStatus, stripePaymentIntentId: paymentIntentId ?? null };
+      byId.set(id, updated);
+      return updated;
+    },
+    async getPaymentInstalment(id: string) {
+      return instalmentsById.get(id);
+    },
+    async updatePaymentInstalment(id: string, updates: Partial<PaymentInstalment>) {
+      const updated = { ...instalmentsById.get(id)!, ...updates };
+      instalmentsById.set(id, updated);
+      return updated;
+    },
+    async recordInstalmentPayment(id: string, paymentIntentId: string) {
+      const instalment = instalmentsById.get(id)!;
+      if (instalment.status === "paid") return undefined;
+      instalmentsById.set(id, { ...instalment, status: "paid", stripePaymentIntentId: paymentIntentId });
+      const updated = {
+        ...byId.get(instalment.registrationId!)!,
+        paymentStatus: "partially_paid",
+        amountReceived: String(Number(byId.get(instalment.registrationId!)!.amountReceived) + Number(instalment.amount)),
+      };
+      byId.set(updated.id, updated);
+      return updated;
+    },
+    async recordTopUpPayment(id: string, payment: { paymentIntentId: string; amount: number; paidAt: string }) {
+      const current = byId.get(id)!;
+      if ((current.topUpPayments || []).some((topUp) => topUp.paymentIntentId === payment.paymentIntentId)) return undefined;
+      const updated = {
+        ...current,
+        topUpPayments: [...(current.topUpPayments || []), payment],
+        amountReceived: String(Number(current.amountReceived) + payment.amount),
+        paymentStatus: "completed",
+      };
+      byId.set(id, updated);
+      return updated;
+    },
+    async reinstateExpiredRegistration(id: string, paymentIntentId: string) {
+      const current = byId.get(id)!;
+      if (current.paymentStatus !== "expired") return undefined;
+      if (!store.placesFree) throw new CapacityError("Table 3 does not have enough available seats.");
+      const updated = { ...current, paymentStatus: "completed", stripePaymentIntentId: paymentIntentId };
+      byId.set(id, updated);
+      return updated;
+    },
+    async recordUnplacedPayment(id: string, paymentIntentId: string, amount: number) {
+      const updated = { ...byId.get(id)!, stripePaymentIntentId: paymentIntentId, amountReceived: String(amount) };
+      byId.set(id, updated);
+      return updated;
+    },
+    async recordChargeRefund(id: string, chargeId: string, amount: number) {
+      const current = byId.get(id)!;
+      const chargeRefunds = { ...(current.chargeRefunds || {}) };
+      chargeRefunds[chargeId] = Math.max(chargeRefunds[chargeId] ?? 0, amount);
+      const refunded = Object.values(chargeRefunds).reduce((total, value) => total + value, 0);
+      const updated = { ...current, chargeRefunds, refundAmount: String(Math.max(Number(current.refundAmount), refunded)) };
+      byId.set(id, updated);
+      return updated;
+    },
+    current: (id = "reg_fixture_1") => byId.get(id)!,
+    instalment: (id: string) => instalmentsById.get(id)!,
+  };
+  return store;
+}
+
+describe("constructStripeEvent", () => {
+  const payload = fixture("payment_intent.succeeded");
+  const header = (body: string, secret = SIGNING_SECRET) =>
+    Stripe.webhooks.generateTestHeaderString({ payload: body, secret });
+
+  it("accepts a recorded event signed with the secret", () => {
+    const verified = constructStripeEvent(payload, header(payload), SIGNING_SECRET);
+    assert.equal(verified.type, "payment_intent.succeeded");
+  });
+
+  it("rejects an event signed with another secret", () => {
+    assert.throws(
+      () => constructStripeEvent(payload, header(payload, "whsec_someone_else"), SIGNING_SECRET),
+      StripeWebhookError,
+    );
+  });
+
+  it("rejects a body changed after signing", () => {
+    const tampered = payload.replace('"amount_received": 50000', '"amount_received": 90000');
+    assert.throws(() => constructStripeEvent(tampered, header(payload), SIGNING_SECRET), StripeWebhookError);
+  });
+
+  it("rejects a missing signature or secret", () => {
+    assert.throws(() => constructStripeEvent(payload, undefined, SIGNING_SECRET), /Missing Stripe-Signature header/);
+    assert.throws(() => constructStripeEvent(payload, header(payload), ""), /Missing required Stripe secret/);
+  });
+});
+
+describe("handleStripeEvent", () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore([registration()]);
+  });
+
+  it("completes a registration when its payment succeeds", async () => {
+    const result = await handleStripeEvent(event("payment_intent.succeeded"), store);
+    assert.equal(result.changed, true);
+    assert.equal(store.current().paymentStatus, "completed");
+  });
+
+  it("changes nothing when an event is delivered again", async () => {
+    await handleStripeEvent(event("payment_intent.succeeded"), store);
+    const result = await handleStripeEvent(event("payment_intent.succeeded"), store);
+    assert.equal(result.changed, false);
+    assert.equal(store.statusWrites, 1);
+  });
+
+  describe("out of order", () => {
+    it("keeps a paid registration paid when a failure arrives late", async () => {
+      await handleStripeEvent(event("payment_intent.succeeded"), store);
+      const result = await handleStripeEvent(event("payment_intent.payment_failed"), store);
+      assert.equal(result.changed, false);
+      assert.equal(store.current().paymentStatus, "completed");
+    });
+
+    it("completes a registration after an earlier attempt failed", async () => {
+      await handleStripeEvent(event("payment_intent.payment_failed"), store);
+      assert.equal(store.current().paymentStatus, "failed");
+      await handleStripeEvent(event("payment_intent.succeeded"), store);
+      assert.equal(store.current().paymentStatus, "completed");
+    });
+
+    it("doesn't let a partial refund undo a full one", async () => {
+      store = createStore([registration({ paymentStatus: "completed" })]);
+      await handleStripeEvent(event("charge.refunded", { amount_refunded: 50000, refunded: true }), store);
+      await handleStripeEvent(event("charge.refunded"), store);
+      assert.equal(store.current().paymentStatus, "refunded");
+      assert.equal(store.current().refundAmount, "500");
+    });
+
+    it("disputes a partially refunded payment", async () => {
+      store = createStore([registration({ paymentStatus: "partially_refunded" })]);
+      await handleStripeEvent(event("charge.dispute.created"), store);
+      assert.equal(store.current().paymentStatus, "disputed");
+    });
+  });
+
+  describe("partially paid", () => {
+    // A deposit paid on a plan, or a card registration a portal change left
+    // with a balance
+    beforeEach(() => {
+      store = createStore([registration({ paymentStatus: "partially_paid", totalAmount: "600.00", amountReceived: "500" })]);
+    });
+
+    it("records a refund of what was paid", async () => {
+      const result = await handleStripeEvent(event("charge.refunded"), store);
+      assert.equal(result.changed, true);
+      assert.equal(store.current().paymentStatus, "partially_refunded");
+      assert.equal(store.current().refundAmount, "200");
+    });
+
+    it("records a full refund", async () => {
+      await handleStripeEvent(event("charge.refunded", { amount_refunded: 50000, refunded: true }), store);
+      assert.equal(store.current().paymentStatus, "refunded");
+    });
+
+    it("records a dispute", async () => {
+      await handleStripeEvent(event("charge.dispute.created"), store);
+      assert.equal(store.current().paymentStatus, "disputed");
+    });
+
+    it("isn't completed again by a redelivered payment", async () => {
+      const result = await handleStripeEvent(event("payment_intent.succeeded"), store);
+      assert.equal(result.changed, false);
+      assert.equal(store.current().paymentStatus, "partially_paid");
+    });
+  });
+
+  describe("payment checks", () => {
+    it("ignores a payment for less than the total", async () => {
+      const result = await handleStripeEvent(event("payment_intent.succeeded", { amount_received: 49999 }), store);
+      assert.equal(result.changed, false);
+      assert.match(result.reason!, /less than the 50000 aed due/);
+      assert.equal(store.current().paymentStatus, "pending");
+    });
+
+    it("ignores a payment in another currency", async () => {
+      const result = await handleStripeEvent(event("payment_intent.succeeded", { currency: "eur" }), store);
+      assert.equal(result.changed, false);
+      assert.equal(store.current().paymentStatus, "pending");
+    });
+
+    it("charges a registration priced in another currency at its rate", async () => {
+      store = createStore([registration({ currency: "EUR", exchangeRate: "0.25" })]);
+      const result = await handleStripeEvent(event("payment_intent.succeeded", { currency: "eur", amount_received: 12500 }), store);
+      assert.equal(result.changed, true);
+    });
+
+    it("ignores a payment created for another registration", async () => {
+      const result = await handleStripeEvent(
+        event("payment_intent.succeeded", { metadata: { registrationId: "reg_someone_else" } }),
+        store,
+      );
+      assert.equal(result.changed, false);
+      assert.match(result.reason!, /was not created for registration reg_fixture_1/);
+      assert.equal(store.current().paymentStatus, "pending");
+    });
+
+    it("ignores events for a payment intent the registration has replaced", async () => {
+      store = createStore([registration({ stripePaymentIntentId: "pi_newer" })]);
+      const result = await handleStripeEvent(event("payment_intent.succeeded"), store);
+      assert.equal(result.changed, false);
+      assert.equal(store.current().paymentStatus, "pending");
+    });
+  });
+
+  describe("refunds", () => {
+    it("records the amount refunded from the dashboard", async () => {
+      store = createStore([registration({ paymentStatus: "completed" })]);
+      await handleStripeEvent(event("charge.refunded"), store);
+      assert.equal(store.current().paymentStatus, "partially_refunded");
+      assert.equal(store.current().refundAmount, "200");
+      assert.deepEqual(store.current().chargeRefunds, { [CHARGE_ID]: 200 });
+    });
+
+    it("converts the refund back at the registration's rate", async () => {
+      store = createStore([registration({ paymentStatus: "completed", currency: "EUR", exchangeRate: "0.25" })]);
+      await handleStripeEvent(event("charge.refunded", { currency: "eur", amount_refunded: 2500 }), store);
+      assert.equal(store.current().refundAmount, "100");
+    });
+  });
+
+  describe("payments after the hold expired", () => {
+    beforeEach(() => {
+      store = createStore([registration({ paymentStatus: "expired" })]);
+    });
+
+    it("books the places again when they are still free", async () => {
+      const result = await handleStripeEvent(event("payment_intent.succeeded"), store);
+      assert.equal(result.changed, true);
+      assert.equal(store.current().paymentStatus, "completed");
+    });
+
+    it("records the payment for a refund when the places are gone", async () => {
+      store.placesFree = false;
+      const result = await handleStripeEvent(event("payment_intent.succeeded"), store);
+      assert.equal(result.changed, false);
+      assert.match(result.reason!, /cancel the registration to refund it/);
+      assert.equal(store.current().paymentStatus, "expired");
+      assert.equal(store.current().amountReceived, "500");
+    });
+  });
+
+  describe("routing", () => {
+    const instalment = { id: "inst_2", registrationId: "reg_fixture_1", amount: "250.00", status: "pending" };
+
+    it("pays an instalment instead of the registration's main payment", async () => {
+      store = createStore([registration({ paymentStatus: "partially_paid", amountReceived: "250" })], [instalment]);
+      const paid = event("payment_intent.succeeded", {
+        id: "pi_instalment_2",
+        amount: 25000,
+        amount_received: 25000,
+        metadata: { registrationId: "reg_fixture_1", instalmentId: "inst_2" },
+      });
+
+      const result = await handleStripeEvent(paid, store);
+      assert.equal(result.changed, true);
+      assert.equal(store.instalment("inst_2").status, "paid");
+      assert.equal(store.current().amountReceived, "500");
+      assert.equal(store.statusWrites, 0);
+
+      const redelivered = await handleStripeEvent(paid, store);
+      assert.equal(redelivered.changed, false);
+      assert.equal(store.current().amountReceived, "500");
+    });
+
+    it("marks a failed instalment without touching the registration", async () => {
+      store = createStore([registration({ paymentStatus: "partially_paid" })], [instalment]);
+      await handleStripeEvent(
+        event("payment_intent.payment_failed", { id: "pi_instalment_2", metadata: { registrationId: "reg_fixture_1", instalmentId: "inst_2" } }),
+        store,
+      );
+      assert.equal(store.instalment("inst_2").status, "failed");
+      assert.equal(store.instalment("inst_2").failureMessage, "Your card has insufficient funds.");
+      assert.equal(store.current().paymentStatus, "partially_paid");
+    });
+
+    it("adds a portal top-up to the amount received once", async () => {
+      store = createStore([registration({ paymentStatus: "partially_paid", totalAmount: "600.00", amountReceived: "500" })]);
+      const topUp = event("payment_intent.succeeded", {
+        id: "pi_top_up_1",
+        amount: 10000,
+        amount_received: 10000,
+        metadata: { registrationId: "reg_fixture_1", topUpAmount: "100" },
+      });
+
+      assert.equal((await handleStripeEvent(topUp, store)).changed, true);
+      assert.equal((await handleStripeEvent(topUp, store)).changed, false);
+      assert.equal(store.current().amountReceived, "600");
+      assert.deepEqual(store.current().topUpPayments!.map((payment) => payment.paymentIntentId), ["pi_top_up_1"]);
+      assert.equal(store.statusWrites, 0);
+    });
+  });
+
+  it("ignores event types it doesn't handle", async () => {
+    const result = await handleStripeEvent({ ...event("payment_intent.succeeded"), type: "customer.created" } as Stripe.Event, store);
+    assert.equal(result.handled, false);
+  });
+});
@@ -0,0 +1,430 @@
+import Stripe from "stripe";
+import type { Registration } from "@shared/schema";
+import { fromChargeCents, toChargeCents } from "@shared/currency";
+import { CapacityError, type IStorage } from "./storage";
+import { logDebug, logError } from "./logger";
+
+// Stripe webhooks are the only writer of `paymentStatus` for card payments.
+// The browser never reports success itself; it just waits for these events.
+
+type WebhookStorage = Pick<
+  IStorage,
+  | "getRegistration"
+  | "getRegistrationByPaymentIntentId"
+  | "updateRegistrationPayment"
+  | "getPaymentInstalment"
+  | "updatePaymentInstalment"
+  | "recordInstalmentPayment"
+  | "recordTopUpPayment"
+  | "reinstateExpiredRegistration"
+  | "recordUnplacedPayment"
+  | "recordChargeRefund"
+>;
+
+export type StripePaymentStatus =
+  | "pending"
+  | "completed"
+  | "failed"
+  | "refunded"
+  | "partially_refunded"
+  | "disputed"
+  | "partially_paid";
+
+// Statuses a registration may move to a given status from. Anything not listed
+// (including the target status itself) is a no-op, so redelivered or
+// out-of-order events never regress a registration. A partially_paid
+// registration (a deposit paid, or a balance left by a portal change) has
+// been charged, so its charge can still be refunded or disputed.
+const ALLOWED_TRANSITIONS: Record<StripePaymentStatus, StripePaymentStatus[]> = {
+  pending: [],
+  completed: ["pending", "failed"],
+  failed: ["pending"],
+  partially_refunded: ["completed", "partially_paid", "disputed"],
+  refunded: ["completed", "partially_paid", "partially_refunded", "disputed"],
+  disputed: ["completed", "partially_paid", "partially_refunded"],
+  partially_paid: [],
+};
+
+export interface StripeWebhookResult {
+  handled: boolean;
+  registrationId?: string;
+  previousStatus?: string | null;
+  paymentStatus?: string | null;
+  changed: boolean;
+  reason?: string;
+}
+
+export class StripeWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StripeWebhookError";
+  }
+}
+
+/**
+ * Verify the `Stripe-Signature` header against the raw request body.
+ * The secret defaults to STRIPE_WEBHOOK_SECRET but can be passed in so
+ * recorded fixtures can be replayed with a fake signing secret.
+ */
+export function constructStripeEvent(
+  rawBody: Buffer | string | undefined,
+  signature: string | string[] | undefined,
+  secret: string | undefined = process.env.STRIPE_WEBHOOK_SECRET,
+): Stripe.Event {
+  if (!secret) {
+    throw new StripeWebhookError("Missing required Stripe secret: STRIPE_WEBHOOK_SECRET");
+  }
+  if (!rawBody) {
+    throw new StripeWebhookError("Missing raw request body");
+  }
+  if (!signature || Array.isArray(signature)) {
+    throw new StripeWebhookError("Missing Stripe-Signature header");
+  }
+
+  try {
+    return Stripe.webhooks.constructEvent(rawBody, signature, secret);
+  } catch (error: any) {
+    throw new StripeWebhookError("Invalid Stripe signature: " + error.message);
+  }
+}
+
+function getId(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value.id;
+}
+
+function getTargetStatus(event: Stripe.Event): StripePaymentStatus | undefined {
+  switch (event.type) {
+    case "payment_intent.succeeded":
+      return "completed";
+    case "payment_intent.payment_failed":
+      return "failed";
+    case "charge.refunded":
+      return event.data.object.refunded ? "refunded" : "partially_refunded";
+    case "charge.dispute.created":
+      return "disputed";
+    default:
+      return undefined;
+  }
+}
+
+function getPaymentReference(event: Stripe.Event): { paymentIntentId?: string; registrationId?: string } {
+  switch (event.type) {
+    case "payment_intent.succeeded":
+    case "payment_intent.payment_failed": {
+      const intent = event.data.object;
+      return { paymentIntentId: intent.id, registrationId: intent.metadata?.registrationId };
+    }
+    case "charge.refunded": {
+      const charge = event.data.object;
+      return { paymentIntentId: getId(charge.payment_intent), registrationId: charge.metadata?.registrationId };
+    }
+    case "charge.dispute.created": {
+      const dispute = event.data.object;
+      const charge = typeof dispute.charge === "string" ? undefined : dispute.charge;
+      return {
+        paymentIntentId: getId(dispute.payment_intent),
+        registrationId: dispute.metadata?.registrationId || charge?.metadata?.registrationId,
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+async function findRegistration(
+  store: WebhookStorage,
+  paymentIntentId?: string,
+  registrationId?: string,
+): Promise<Registration | undefined> {
+  if (paymentIntentId) {
+    const registration = await store.getRegistrationByPaymentIntentId(paymentIntentId);
+    if (registration) return registration;
+  }
+  if (registrationId) {
+    return store.getRegistration(registrationId);
+  }
+  return undefined;
+}
+
+/**
+ * Why a succeeded payment intent doesn't pay for the registration it was
+ * matched to, if it doesn't: it must have been created for that
+ * registration and have taken its full total, so a cheap intent can't be
+ * passed off as payment for a dearer registration.
+ */
+function getPaymentMismatch(intent: Stripe.PaymentIntent, registration: Registration): string | undefined {
+  if (intent.metadata?.registrationId !== registration.id) {
+    return `Payment intent ${intent.id} was not created for registration ${registration.id}`;
+  }
+  const due = toChargeCents(registration.totalAmount, registration.exchangeRate);
+  if (intent.currency !== registration.currency.toLowerCase() || intent.amount_received < due) {
+    return `Payment intent ${intent.id} received ${intent.amount_received} ${intent.currency}, less than the ${due} ${registration.currency.toLowerCase()} due`;
+  }
+  return undefined;
+}
+
+/**
+ * Apply a payment plan instalment's payment intent outcome. Paying an
+ * instalment moves the registration to partially paid or completed; a
+ * failed instalment is only marked on the instalment, since the
+ * registration keeps what it already paid.
+ */
+async function handleInstalmentEvent(
+  event: Stripe.PaymentIntentSucceededEvent | Stripe.PaymentIntentPaymentFailedEvent,
+  store: WebhookStorage,
+): Promise<StripeWebhookResult> {
+  const intent = event.data.object;
+  const instalment = await store.getPaymentInstalment(intent.metadata.instalmentId);
+  if (!instalment) {
+    return { handled: true, changed: false, reason: `No instalment for payment intent ${intent.id}` };
+  }
+  const registration = await store.getRegistration(instalment.registrationId);
+  const previousStatus = registration?.paymentStatus;
+
+  if (event.type === "payment_intent.succeeded") {
+    const updated = await store.recordInstalmentPayment(instalment.id, intent.id, getId(intent.payment_method) ?? null, new Date());
+    if (!updated) {
+      return {
+        handled: true,
+        registrationId: instalment.registrationId,
+        previousStatus,
+        paymentStatus: previousStatus,
+        changed: false,
+        reason: `Instalment ${instalment.id} is already paid`,
+      };
+    }
+    return {
+      handled: true,
+      registrationId: updated.id,
+      previousStatus,
+      paymentStatus: updated.paymentStatus,
+      changed: true,
+    };
+  }
+
+  if (instalment.status === "paid" || instalment.status === "cancelled") {
+    return {
+      handled: true,
+      registrationId: instalment.registrationId,
+      previousStatus,
+      paymentStatus: previousStatus,
+      changed: false,
+      reason: `Instalment ${instalment.id} is already ${instalment.status}`,
+    };
+  }
+  await store.updatePaymentInstalment(instalment.id, {
+    status: "failed",
+    failureMessage: intent.last_payment_error?.message ?? null,
+  });
+  return {
+    handled: true,
+    registrationId: instalment.registrationId,
+    previousStatus,
+    paymentStatus: previousStatus,
+    changed: false,
+    reason: `Instalment ${instalment.id} payment failed`,
+  };
+}
+
+/**
+ * Apply the outcome of a card payment for a balance a portal change left.
+ * A paid top-up adds to the amount received, which settles the balance;
+ * a failed one changes nothing and the dancer can try again.
+ */
+async function handleTopUpEvent(
+  event: Stripe.PaymentIntentSucceededEvent | Stripe.PaymentIntentPaymentFailedEvent,
+  store: WebhookStorage,
+): Promise<StripeWebhookResult> {
+  const intent = event.data.object;
+  const registration = await store.getRegistration(intent.metadata.registrationId);
+  if (!registration) {
+    return { handled: true, changed: false, reason: `No registration for payment intent ${intent.id}` };
+  }
+  const previousStatus = registration.paymentStatus;
+
+  if (event.type === "payment_intent.payment_failed") {
+    return {
+      handled: true,
+      registrationId: registration.id,
+      previousStatus,
+      paymentStatus: previousStatus,
+      changed: false,
+      reason: `Top-up payment ${intent.id} failed`,
+    };
+  }
+
+  const updated = await store.recordTopUpPayment(registration.id, {
+    paymentIntentId: intent.id,
+    amount: Number(intent.metadata.topUpAmount),
+    paidAt: new Date(event.created * 1000).toISOString(),
+  });
+  if (!updated) {
+    return {
+      handled: true,
+      registrationId: registration.id,
+      previousStatus,
+      paymentStatus: previousStatus,
+      changed: false,
+      reason: `Top-up payment ${intent.id} is already recorded`,
+    };
+  }
+  return {
+    handled: true,
+    registrationId: updated.id,
+    previousStatus,
+    paymentStatus: updated.paymentStatus,
+    changed: true,
+  };
+}
+
+/**
+ * Apply a payment that went through after the registration's hold expired
+ * and its places were released. The places are booked again if they are
+ * still free; if not, the registration stays expired with the amount
+ * received recorded, and cancelling it refunds the payment.
+ */
+async function handleLatePayment(
+  intent: Stripe.PaymentIntent,
+  registration: Registration,
+  store: WebhookStorage,
+): Promise<StripeWebhookResult> {
+  const previousStatus = registration.paymentStatus;
+  try {
+    const reinstated = await store.reinstateExpiredRegistration(registration.id, intent.id);
+    if (reinstated) {
+      return {
+        handled: true,
+        registrationId: reinstated.id,
+        previousStatus,
+        paymentStatus: reinstated.paymentStatus,
+        changed: true,
+      };
+    }
+  } catch (error: any) {
+    if (!(error instanceof CapacityError)) throw error;
+    await store.recordUnplacedPayment(
+      registration.id,
+      intent.id,
+      fromChargeCents(intent.amount_received, registration.exchangeRate),
+    );
+    const reason = `Payment intent ${intent.id} succeeded after registration ${registration.id} expired and its places are gone ` +
+      `(${error.message}); cancel the registration to refund it`;
+    logError(reason);
+    return { handled: true, registrationId: registration.id, previousStatus, paymentStatus: previousStatus, changed: false, reason };
+  }
+  return {
+    handled: true,
+    registrationId: registration.id,
+    previousStatus,
+    paymentStatus: previousStatus,
+    changed: false,
+    reason: `Registration ${registration.id} is no longer expired`,
+  };
+}
+
+/**
+ * Apply a verified Stripe event to the matching registration.
+ * Safe to call repeatedly with the same event.
+ */
+export async function handleStripeEvent(event: Stripe.Event, store: WebhookStorage): Promise<StripeWebhookResult> {
+  if ((event.type === "payment_intent.succeeded" || event.type === "payment_intent.payment_failed") &&
+      event.data.object.metadata?.instalmentId) {
+    return handleInstalmentEvent(event, store);
+  }
+  if ((event.type === "payment_intent.succeeded" || event.type === "payment_intent.payment_failed") &&
+      event.data.object.metadata?.topUpAmount) {
+    return handleTopUpEvent(event, store);
+  }
+
+  const targetStatus = getTargetStatus(event);
+  if (!targetStatus) {
+    return { handled: false, changed: false, reason: `Ignored event type ${event.type}` };
+  }
+
+  const { paymentIntentId, registrationId } = getPaymentReference(event);
+  let registration = await findRegistration(store, paymentIntentId, registrationId);
+  if (!registration) {
+    return {
+      handled: true,
+      changed: false,
+      reason: `No registration for payment intent ${paymentIntentId ?? "unknown"}`,
+    };
+  }
+
+  if (
+    paymentIntentId &&
+    registration.stripePaymentIntentId &&
+    registration.stripePaymentIntentId !== paymentIntentId
+  ) {
+    // A newer payment intent was created for this registration; events for
+    // the old one must not overwrite its status.
+    return {
+      handled: true,
+      registrationId: registration.id,
+      previousStatus: registration.paymentStatus,
+      paymentStatus: registration.paymentStatus,
+      changed: false,
+      reason: `Payment intent ${paymentIntentId} is not the current intent for this registration`,
+    };
+  }
+
+  const mismatch = event.type === "payment_intent.succeeded"
+    ? getPaymentMismatch(event.data.object, registration)
+    : registrationId && registrationId !== registration.id
+      ? `Payment intent ${paymentIntentId} belongs to registration ${registrationId}, not ${registration.id}`
+      : undefined;
+  if (mismatch) {
+    logDebug(mismatch);
+    return {
+      handled: true,
+      registrationId: registration.id,
+      previousStatus: registration.paymentStatus,
+      paymentStatus: registration.paymentStatus,
+      changed: false,
+      reason: mismatch,
+    };
+  }
+
+  // Refunds made in the Stripe dashboard count against what a later
+  // cancellation can refund, whatever the status ends up as
+  if (event.type === "charge.refunded") {
+    const charge = event.data.object;
+    registration = await store.recordChargeRefund(
+      registration.id,
+      charge.id,
+      fromChargeCents(charge.amount_refunded, registration.exchangeRate),
+    );
+  }
+
+  if (event.type === "payment_intent.succeeded" && registration.paymentStatus === "expired") {
+    return handleLatePayment(event.data.object, registration, store);
+  }
+
+  const currentStatus = (registration.paymentStatus || "pending") as StripePaymentStatus;
+  if (!ALLOWED_TRANSITIONS[targetStatus].includes(currentStatus)) {
+    logDebug(`Stripe ${event.type} left registration ${registration.id} at ${currentStatus}`);
+    return {
+      handled: true,
+      registrationId: registration.id,
+      previousStatus: registration.paymentStatus,
+      paymentStatus: registration.paymentStatus,
+      changed: false,
+      reason: `No transition from ${currentStatus} to ${targetStatus}`,
+    };
+  }
+
+  const updated = await store.updateRegistrationPayment(
+    registration.id,
+    targetStatus,
+    paymentIntentId || registration.stripePaymentIntentId || undefined,
+  );
+
+  return {
+    handled: true,
+    registrationId: updated.id,
+    previousStatus: registration.paymentStatus,
+    paymentStatus: updated.paymentStatus,
+    changed: true,
+  };
+}
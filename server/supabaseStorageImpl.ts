@@ -1,7 +1,7 @@
 import { 
   type User, type InsertUser, 
   type AdminUser, type InsertAdminUser, 
-  type Registration, type InsertRegistration, 
+  type Registration, type InsertRegistration, type UpdateRegistration, 
   type Workshop, type InsertWorkshop, 
   type Seat, type InsertSeat, 
   type Table, type InsertTable, 
@@ -11,6 +11,17 @@ import {
   type Event, type InsertEvent,
   type PricingTier, type InsertPricingTier,
   type PackageConfiguration, type InsertPackageConfiguration,
+  type WaitlistEntry, type InsertWaitlistEntry, type WaitlistItemType,
+  type PromoCode, type InsertPromoCode,
+  type OfflinePayment, type InsertOfflinePayment,
+  type PaymentInstalment, type InsertPaymentInstalment,
+  type Invoice, type InsertInvoice,
+  type EmailTemplate, type InsertEmailTemplate,
+  type EmailOutboxEntry, type InsertEmailOutboxEntry,
+  type Broadcast, type InsertBroadcast,
+  type PortalToken, type InsertPortalToken,
+  type CheckIn, type InsertCheckIn,
+  type AuditLogEntry, type InsertAuditLogEntry,
   users as usersTable,
   adminUsers as adminUsersTable,
   registrations as registrationsTable,
@@ -22,14 +33,319 @@ import {
   addons as addonsTable,
   events as eventsTable,
   pricingTiers as pricingTiersTable,
-  packageConfigurations as packageConfigurationsTable
+  packageConfigurations as packageConfigurationsTable,
+  waitlistEntries as waitlistEntriesTable,
+  promoCodes as promoCodesTable,
+  offlinePayments as offlinePaymentsTable,
+  paymentInstalments as paymentInstalmentsTable,
+  invoices as invoicesTable,
+  emailTemplates as emailTemplatesTable,
+  emailOutbox as emailOutboxTable,
+  broadcasts as broadcastsTable,
+  portalTokens as portalTokensTable,
+  checkIns as checkInsTable,
+  auditLog as auditLogTable
 } from '../shared/schema';
+import { checkPromoUsage, normalizePromoCode, PromoCodeError, type PromoUsage } from '../shared/promoCodes';
+import type { PriceQuote } from '../shared/pricing';
+import { getOfflinePaymentStatus, getOutstandingBalance } from '../shared/offlinePayments';
+import type { PaymentSchedule } from '../shared/paymentPlans';
+import { formatInvoiceNumber } from '../shared/invoices';
+import type { BroadcastDelivery } from '../shared/broadcasts';
+import type { PortalTokenKind, TopUpPayment } from '../shared/portal';
+import type { RegistrationSearch } from '../shared/registrationSearch';
+import type { AnalyticsInterval, AnalyticsTotals, CountryCount } from '../shared/analytics';
+import type { AuditLogSearch } from '../shared/audit';
+import { getRoleAvailability, WORKSHOP_UNAVAILABLE_MESSAGES, type DancerRole } from '../shared/workshopAvailability';
 import { db } from "./db";
-import { eq, and, gte, lte, desc, sql } from "drizzle-orm";
-import type { IStorage } from "./storage";
+import { eq, ne, and, or, gt, gte, lt, lte, asc, desc, inArray, notInArray, isNull, isNotNull, sql } from "drizzle-orm";
+import type { BroadcastEmail, EmailOutboxUpdate, IStorage, RegistrationBreakdown, RegistrationCancellation, RegistrationSelection } from "./storage";
 import { sanitizeEventData } from "./eventTypeValidator";
 import { logError, logObject, logDebug } from "./logger";
 
+/**
+ * Thrown when a workshop, milonga, table or seat has no room left for a
+ * registration. The whole registration transaction is rolled back.
+ */
+export class CapacityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CapacityError';
+  }
+}
+
+/**
+ * Thrown when a promo code is created or renamed to a code the event
+ * already has. The unique index on (event_id, lower(code)) catches the
+ * admins racing each other that the routes' own lookup misses.
+ */
+export class DuplicatePromoCodeError extends Error {
+  constructor(code: string) {
+    super(`Promo code ${code} already exists for this event`);
+    this.name = 'DuplicatePromoCodeError';
+  }
+}
+
+const isDuplicatePromoCode = (error: unknown) =>
+  (error as { code?: string; constraint_name?: string })?.code === '23505'
+  && (error as { constraint_name?: string }).constraint_name === 'promo_codes_event_code_idx';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// How long a promoted waitlist entry keeps its place before it passes on.
+const WAITLIST_OFFER_HOURS = Number(process.env.WAITLIST_OFFER_HOURS) || 48;
+
+// How long a card checkout keeps its places while the dancer pays.
+const REGISTRATION_HOLD_MINUTES = Number(process.env.REGISTRATION_HOLD_MINUTES) || 15;
+
+// Registrations in these states, or cancelled ones, no longer occupy any
+// places. Refund statuses alone don't release places: Stripe refunds can be
+// partial goodwill gestures for dancers who still attend.
+const RELEASED_PAYMENT_STATUSES = ['expired', 'cancelled'];
+const holdsPlaces = and(
+  isNull(registrationsTable.cancelledAt),
+  or(
+    isNull(registrationsTable.paymentStatus),
+    notInArray(registrationsTable.paymentStatus, RELEASED_PAYMENT_STATUSES)
+  )
+);
+
+const placesFor = (role: string) => (role === 'couple' ? 2 : 1);
+
+// Give back the gala table seats a registration occupied
+async function releaseTableSeats(tx: Transaction, registration: Registration): Promise<void> {
+  if (registration.selectedTableNumber) {
+    const places = placesFor(registration.role);
+    await tx.update(tablesTable)
+      .set({ occupiedSeats: sql`GREATEST(${tablesTable.occupiedSeats} - ${places}, 0)` })
+      .where(and(
+        eq(tablesTable.tableNumber, registration.selectedTableNumber),
+        eq(tablesTable.eventId, registration.eventId)
+      ));
+  }
+}
+
+/**
+ * Give back the gala table seats and legacy seats a registration occupied.
+ * Workshop and milonga enrollment is recounted from registrations instead.
+ */
+async function releaseSeats(tx: Transaction, registration: Registration): Promise<void> {
+  await releaseTableSeats(tx, registration);
+
+  const seatIds = (registration.seatIds as string[] | null) || [];
+  if (seatIds.length > 0) {
+    await tx.update(seatsTable)
+      .set({ isAvailable: true })
+      .where(inArray(seatsTable.id, seatIds));
+  }
+}
+
+// A released registration's remaining instalments will never be charged
+async function cancelUnpaidInstalments(tx: Transaction, registrationId: string): Promise<void> {
+  await tx.update(paymentInstalmentsTable)
+    .set({ status: 'cancelled' })
+    .where(and(
+      eq(paymentInstalmentsTable.registrationId, registrationId),
+      inArray(paymentInstalmentsTable.status, ['pending', 'failed'])
+    ));
+}
+
+function countRoles(rows: { role: string }[]): { leaders: number; followers: number; places: number } {
+  const counts = { leaders: 0, followers: 0, places: 0 };
+  for (const row of rows) {
+    if (row.role === 'couple' || row.role === 'leader') counts.leaders += 1;
+    if (row.role === 'couple' || row.role === 'follower') counts.followers += 1;
+    counts.places += placesFor(row.role);
+  }
+  return counts;
+}
+
+/**
+ * Places held for an item by unexpired waitlist offers. Offers made to
+ * `claimantEmail` are left out so that dancer can take their own place.
+ */
+async function getHeldPlaces(tx: Transaction, itemType: WaitlistItemType, itemId: string, claimantEmail?: string) {
+  const offers = await tx.select({ role: waitlistEntriesTable.role, email: waitlistEntriesTable.email })
+    .from(waitlistEntriesTable)
+    .where(and(
+      eq(waitlistEntriesTable.itemType, itemType),
+      eq(waitlistEntriesTable.itemId, itemId),
+      eq(waitlistEntriesTable.status, 'offered'),
+      gt(waitlistEntriesTable.offerExpiresAt, new Date())
+    ));
+  return countRoles(offers.filter((offer) => !claimantEmail || offer.email !== claimantEmail));
+}
+
+// Registration analytics: dancers on a registration, what it was booked for
+// after refunds, and what was actually received net of refunds. Card
+// payments don't record amountReceived, so paid-in-full statuses count the
+// whole total
+const dancerCount = sql`case when ${registrationsTable.role} = 'couple' then 2 else 1 end`;
+const bookedAmount = sql`${registrationsTable.totalAmount} - coalesce(${registrationsTable.refundAmount}, 0)`;
+const receivedAmount = sql`case
+  when ${registrationsTable.paymentStatus} in ('completed', 'refunded', 'partially_refunded', 'disputed') then ${registrationsTable.totalAmount}
+  else coalesce(${registrationsTable.amountReceived}, 0)
+end - coalesce(${registrationsTable.refundAmount}, 0)`;
+
+// Email the registration is filed under, for per-email promo code limits.
+const registrationEmail = sql`lower(coalesce(${registrationsTable.leaderInfo}->>'email', ${registrationsTable.followerInfo}->>'email'))`;
+
+async function countPromoUsage(tx: Transaction | typeof db, eventId: string, code: string, email?: string): Promise<PromoUsage> {
+  const [usage] = await tx.select({
+    total: sql<number>`count(*)::int`,
+    byEmail: sql<number>`count(*) filter (where ${registrationEmail} = ${email?.toLowerCase() ?? ''})::int`,
+  })
+    .from(registrationsTable)
+    .where(and(
+      eq(registrationsTable.eventId, eventId),
+      eq(registrationsTable.promoCode, code),
+      holdsPlaces
+    ));
+  return { total: usage?.total ?? 0, byEmail: email ? usage?.byEmail ?? 0 : 0 };
+}
+
+/**
+ * Recompute a registration's amount received and payment status from its
+ * offline payment ledger. The registration row must already be locked.
+ */
+async function applyOfflinePayments(tx: Transaction, registration: Registration): Promise<Registration> {
+  const [ledger] = await tx.select({ total: sql<string>`coalesce(sum(${offlinePaymentsTable.amount}), 0)` })
+    .from(offlinePaymentsTable)
+    .where(eq(offlinePaymentsTable.registrationId, registration.id));
+  const amountReceived = Number(ledger?.total ?? 0);
+
+  const [updated] = await tx.update(registrationsTable)
+    .set({
+      amountReceived: String(amountReceived),
+      paymentStatus: getOfflinePaymentStatus(registration.totalAmount, amountReceived),
+    })
+    .where(eq(registrationsTable.id, registration.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Take a dancer's place in a workshop. The workshop row is locked and its
+ * enrollment recounted from the registrations holding places, plus places
+ * held by other dancers' waitlist offers, before checking capacity and
+ * role balance. Throws CapacityError when there is no room.
+ */
+async function reserveWorkshop(tx: Transaction, workshopId: string, role: string, claimantEmail?: string): Promise<void> {
+  const [workshop] = await tx.select().from(workshopsTable)
+    .where(eq(workshopsTable.id, workshopId))
+    .for('update');
+  if (!workshop) {
+    throw new CapacityError('One or more selected workshops were not found.');
+  }
+
+  const enrolledRegistrations = await tx.select({ role: registrationsTable.role })
+    .from(registrationsTable)
+    .where(and(
+      sql`${registrationsTable.workshopIds} @> ${JSON.stringify([workshopId])}::jsonb`,
+      holdsPlaces
+    ));
+
+  let { leaders: leadersEnrolled, followers: followersEnrolled } = countRoles(enrolledRegistrations);
+  const held = await getHeldPlaces(tx, 'workshop', workshopId, claimantEmail);
+
+  const availability = getRoleAvailability(
+    {
+      ...workshop,
+      leadersEnrolled: leadersEnrolled + held.leaders,
+      followersEnrolled: followersEnrolled + held.followers,
+    },
+    role as DancerRole,
+  );
+  if (!availability.available) {
+    throw new CapacityError(
+      `Workshop "${workshop.title}": ${WORKSHOP_UNAVAILABLE_MESSAGES[availability.reason!]}.`,
+    );
+  }
+  const added = countRoles([{ role }]);
+  leadersEnrolled += added.leaders;
+  followersEnrolled += added.followers;
+
+  await tx.update(workshopsTable)
+    .set({
+      enrolled: leadersEnrolled + followersEnrolled,
+      leadersEnrolled,
+      followersEnrolled,
+    })
+    .where(eq(workshopsTable.id, workshopId));
+}
+
+// Take a dancer's places at a milonga, counted as for workshops
+async function reserveMilonga(tx: Transaction, milongaId: string, role: string, claimantEmail?: string): Promise<void> {
+  const [milonga] = await tx.select().from(milongasTable)
+    .where(eq(milongasTable.id, milongaId))
+    .for('update');
+  if (!milonga) {
+    throw new CapacityError('One or more selected milongas were not found.');
+  }
+
+  const enrolledRegistrations = await tx.select({ role: registrationsTable.role })
+    .from(registrationsTable)
+    .where(and(
+      sql`${registrationsTable.milongaIds} @> ${JSON.stringify([milongaId])}::jsonb`,
+      holdsPlaces
+    ));
+
+  const enrolled = countRoles(enrolledRegistrations).places + placesFor(role);
+  const held = await getHeldPlaces(tx, 'milonga', milongaId, claimantEmail);
+  if (enrolled + held.places > milonga.capacity) {
+    throw new CapacityError(`Milonga "${milonga.name}" is full.`);
+  }
+
+  await tx.update(milongasTable)
+    .set({ enrolled })
+    .where(eq(milongasTable.id, milongaId));
+}
+
+// Take a dancer's seats at a gala table; returns the table's id
+async function reserveTable(
+  tx: Transaction,
+  eventId: string,
+  tableNumber: number,
+  role: string,
+  claimantEmail?: string,
+): Promise<string> {
+  const places = placesFor(role);
+  const [table] = await tx.select().from(tablesTable)
+    .where(and(
+      eq(tablesTable.tableNumber, tableNumber),
+      eq(tablesTable.eventId, eventId),
+      eq(tablesTable.isActive, true)
+    ))
+    .for('update');
+  const held = table ? await getHeldPlaces(tx, 'table', table.id, claimantEmail) : undefined;
+  if (!table || !held || table.occupiedSeats + places + held.places > table.totalSeats) {
+    throw new CapacityError(`Table ${tableNumber} does not have enough available seats.`);
+  }
+
+  await tx.update(tablesTable)
+    .set({ occupiedSeats: table.occupiedSeats + places })
+    .where(eq(tablesTable.id, table.id));
+  return table.id;
+}
+
+// Mark a dancer's waitlist entries (or offers) for items they have now
+// booked as claimed by the registration
+async function claimWaitlistEntries(
+  tx: Transaction,
+  registrationId: string,
+  claimantEmail: string | undefined,
+  itemIds: string[],
+): Promise<void> {
+  if (!claimantEmail || itemIds.length === 0) return;
+  await tx.update(waitlistEntriesTable)
+    .set({ status: 'claimed', registrationId })
+    .where(and(
+      eq(waitlistEntriesTable.email, claimantEmail),
+      inArray(waitlistEntriesTable.itemId, itemIds),
+      inArray(waitlistEntriesTable.status, ['waiting', 'offered'])
+    ));
+}
+
 export class SupabaseStorage implements IStorage {
   // User methods
   async getUser(id: string): Promise<User | undefined> {
@@ -123,6 +439,102 @@ export class SupabaseStorage implements IStorage {
     return created;
   }
 
+  /**
+   * Insert a registration and reserve every place it uses in one transaction.
+   * Workshop and milonga rows are locked (in id order, so concurrent
+   * registrations can't deadlock) and their enrollment is recounted from the
+   * registrations table before checking capacity; the table row is locked and
+   * legacy seats use conditional updates. Places held by other dancers'
+   * waitlist offers count as taken. Any shortfall throws CapacityError and
+   * nothing is written. A promo code's row is locked too and its usage
+   * limits re-checked, so two checkouts can't both take its last use.
+   * The accepted price quote is stored with the registration as a snapshot,
+   * as is the payment plan, whose deposit and instalments are created too.
+   */
+  async createRegistrationWithReservations(
+    registration: InsertRegistration,
+    priceQuote?: PriceQuote,
+    paymentSchedule?: PaymentSchedule,
+  ): Promise<Registration> {
+    const claimantEmail = (registration.leaderInfo?.email || registration.followerInfo?.email)?.toLowerCase();
+
+    return db.transaction(async (tx) => {
+      if (registration.promoCode) {
+        const [promo] = await tx.select().from(promoCodesTable)
+          .where(and(
+            eq(promoCodesTable.eventId, registration.eventId),
+            eq(promoCodesTable.code, registration.promoCode)
+          ))
+          .for('update');
+        if (!promo) {
+          throw new PromoCodeError('This promo code is not valid.');
+        }
+        checkPromoUsage(promo, await countPromoUsage(tx, registration.eventId, promo.code, claimantEmail));
+      }
+
+      const workshopIds = Array.from(new Set(registration.workshopIds || [])).sort();
+      for (const workshopId of workshopIds) {
+        await reserveWorkshop(tx, workshopId, registration.role, claimantEmail);
+      }
+
+      const milongaIds = Array.from(new Set(registration.milongaIds || [])).sort();
+      for (const milongaId of milongaIds) {
+        await reserveMilonga(tx, milongaId, registration.role, claimantEmail);
+      }
+
+      const tableIds: string[] = [];
+      if (registration.selectedTableNumber) {
+        tableIds.push(await reserveTable(tx, registration.eventId, registration.selectedTableNumber, registration.role, claimantEmail));
+      }
+
+      // Legacy per-seat booking
+      for (const seatId of registration.seatIds || []) {
+        const [seat] = await tx.update(seatsTable)
+          .set({ isAvailable: false })
+          .where(and(eq(seatsTable.id, seatId), eq(seatsTable.isAvailable, true)))
+          .returning();
+        if (!seat) {
+          throw new CapacityError('One or more selected seats are no longer available.');
+        }
+      }
+
+      // Nothing to pay (a promo code or tier covering the order, or a
+      // complimentary selection) settles the registration straight away
+      const isFree = Number(registration.totalAmount) === 0;
+      const [created] = await tx.insert(registrationsTable).values({
+        ...registration,
+        totalAmount: String(registration.totalAmount),
+        discountAmount: String(registration.discountAmount ?? 0),
+        exchangeRate: String(registration.exchangeRate ?? 1),
+        priceQuote,
+        paymentPlan: paymentSchedule?.plan ?? null,
+        paymentStatus: isFree ? 'completed' : 'pending',
+        // Card checkouts only keep their places while the dancer pays
+        holdExpiresAt: registration.paymentMethod === 'stripe' && !isFree
+          ? new Date(Date.now() + REGISTRATION_HOLD_MINUTES * 60 * 1000)
+          : null,
+        createdAt: new Date(),
+      }).returning();
+
+      if (paymentSchedule && !isFree) {
+        await tx.insert(paymentInstalmentsTable).values(
+          paymentSchedule.instalments.map((instalment) => ({
+            ...instalment,
+            registrationId: created.id,
+            amount: String(instalment.amount),
+            status: 'pending',
+            createdAt: new Date(),
+          }))
+        );
+      }
+
+      // This registration satisfies any waitlist entries (or offers) the
+      // dancer had for the items they just booked.
+      await claimWaitlistEntries(tx, created.id, claimantEmail, [...workshopIds, ...milongaIds, ...tableIds]);
+      return created;
+    });
+  }
+
   async getRegistration(id: string): Promise<Registration | undefined> {
     const [registration] = await db.select().from(registrationsTable)
       .where(eq(registrationsTable.id, id))
@@ -138,7 +550,199 @@ export class SupabaseStorage implements IStorage {
     return db.select().from(registrationsTable);
   }
 
-  async updateRegistration(id: string, updates: Partial<InsertRegistration>): Promise<Registration> {
+  /**
+   * One page of an event's registrations matching the search, and how many
+   * match in all. jsonb filters use containment (`@>`) so they can use the
+   * GIN indexes on the selection columns.
+   */
+  async searchRegistrations(search: RegistrationSearch): Promise<{ registrations: Registration[]; total: number }> {
+    const r = registrationsTable;
+    const containsAny = (column: typeof r.workshopIds | typeof r.milongaIds | typeof r.addons, values: unknown[]) =>
+      or(...values.map((value) => sql`${column} @> ${JSON.stringify([value])}::jsonb`));
+    const conditions = [
+      search.eventId ? eq(r.eventId, search.eventId) : undefined,
+      search.packageTypes.length > 0 ? inArray(r.packageType, search.packageTypes) : undefined,
+      search.roles.length > 0 ? inArray(r.role, search.roles) : undefined,
+      search.paymentStatuses.length > 0 ? inArray(r.paymentStatus, search.paymentStatuses) : undefined,
+      search.workshopIds.length > 0 ? containsAny(r.workshopIds, search.workshopIds) : undefined,
+      search.milongaIds.length > 0 ? containsAny(r.milongaIds, search.milongaIds) : undefined,
+      search.addonIds.length > 0 ? containsAny(r.addons, search.addonIds.map((id) => ({ id }))) : undefined,
+      search.tableNumbers.length > 0 ? inArray(r.selectedTableNumber, search.tableNumbers) : undefined,
+      search.hasTable === true ? isNotNull(r.selectedTableNumber) : undefined,
+      search.hasTable === false ? isNull(r.selectedTableNumber) : undefined,
+      search.countries.length > 0
+        ? or(
+            inArray(sql`${r.leaderInfo}->>'country'`, search.countries),
+            inArray(sql`${r.followerInfo}->>'country'`, search.countries)
+          )
+        : undefined,
+      search.from ? gte(r.createdAt, search.from) : undefined,
+      // Through the end of the `to` day
+      search.to ? lt(r.createdAt, new Date(search.to.getTime() + 24 * 60 * 60 * 1000)) : undefined,
+      ...(search.q || '').toLowerCase().split(/\s+/).filter(Boolean).map((term) => {
+        const pattern = `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+        return sql`lower(concat_ws(' ',
+          ${r.leaderInfo}->>'firstName', ${r.leaderInfo}->>'lastName', ${r.leaderInfo}->>'email',
+          ${r.followerInfo}->>'firstName', ${r.followerInfo}->>'lastName', ${r.followerInfo}->>'email',
+          upper(left(${r.packageType}, 3)) || '-' || upper(left(${r.id}, 8))
+        )) like ${pattern}`;
+      }),
+    ].filter((condition) => condition !== undefined);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const sortColumn = {
+      createdAt: sql`${r.createdAt}`,
+      name: sql`lower(coalesce(${r.leaderInfo}->>'lastName', ${r.followerInfo}->>'lastName') || ' ' || coalesce(${r.leaderInfo}->>'firstName', ${r.followerInfo}->>'firstName'))`,
+      email: sql`lower(coalesce(${r.leaderInfo}->>'email', ${r.followerInfo}->>'email'))`,
+      totalAmount: sql`${r.totalAmount}`,
+      paymentStatus: sql`${r.paymentStatus}`,
+      packageType: sql`${r.packageType}`,
+    }[search.sort];
+    const direction = search.order === 'asc' ? asc : desc;
+
+    const [registrations, [{ total }]] = await Promise.all([
+      db.select().from(r)
+        .where(where)
+        // Ties, e.g. on package, fall back to newest first so pages are stable
+        .orderBy(direction(sortColumn), desc(r.createdAt), asc(r.id))
+        .limit(search.pageSize)
+        .offset((search.page - 1) * search.pageSize),
+      db.select({ total: sql<number>`count(*)::int` }).from(r).where(where),
+    ]);
+    return { registrations, total };
+  }
+
+  // Registration analytics. Registrations that still hold places are counted;
+  // money received is net of refunds and includes cancellation fees kept
+  async getRegistrationTotals(eventId?: string): Promise<AnalyticsTotals> {
+    const r = registrationsTable;
+    const [totals] = await db.select({
+      registrations: sql<number>`count(*) filter (where ${holdsPlaces})::int`,
+      dancers: sql<number>`coalesce(sum(${dancerCount}) filter (where ${holdsPlaces}), 0)::int`,
+      leaders: sql<number>`count(*) filter (where ${holdsPlaces} and ${r.role} in ('leader', 'couple'))::int`,
+      followers: sql<number>`count(*) filter (where ${holdsPlaces} and ${r.role} in ('follower', 'couple'))::int`,
+      bookedRevenue: sql<string>`coalesce(sum(${bookedAmount}) filter (where ${holdsPlaces}), 0)`,
+      receivedRevenue: sql<string>`coalesce(sum(${receivedAmount}), 0)`,
+      refunded: sql<string>`coalesce(sum(${r.refundAmount}), 0)`,
+      cancelled: sql<number>`count(*) filter (where not ${holdsPlaces})::int`,
+    })
+      .from(r)
+      .where(eventId ? eq(r.eventId, eventId) : undefined);
+    return {
+      ...totals,
+      bookedRevenue: Number(totals.bookedRevenue),
+      receivedRevenue: Number(totals.receivedRevenue),
+      refunded: Number(totals.refunded),
+    };
+  }
+
+  async getRegistrationBreakdown(
+    dimension: RegistrationBreakdown,
+    eventId?: string
+  ): Promise<Array<{ key: string; registrations: number; dancers: number; revenue: number }>> {
+    const r = registrationsTable;
+    const key = {
+      package: sql<string>`${r.packageType}`,
+      role: sql<string>`${r.role}`,
+      tier: sql<string>`coalesce(${r.priceQuote}->>'tierName', '')`,
+    }[dimension];
+    const rows = await db.select({
+      key,
+      registrations: sql<number>`count(*)::int`,
+      dancers: sql<number>`sum(${dancerCount})::int`,
+      revenue: sql<string>`coalesce(sum(${bookedAmount}), 0)`,
+    })
+      .from(r)
+      .where(and(holdsPlaces, eventId ? eq(r.eventId, eventId) : undefined))
+      .groupBy(key)
+      .orderBy(desc(sql`count(*)`));
+    return rows.map((row) => ({ ...row, revenue: Number(row.revenue) }));
+  }
+
+  // Dancers by country; a couple's leader and follower count separately
+  async getDancerCountries(eventId?: string): Promise<CountryCount[]> {
+    const r = registrationsTable;
+    const where = and(holdsPlaces, eventId ? eq(r.eventId, eventId) : undefined);
+    const firstDancer = sql<string>`coalesce(nullif(trim(
+      case when ${r.role} = 'follower' then coalesce(${r.followerInfo}, ${r.leaderInfo}) else coalesce(${r.leaderInfo}, ${r.followerInfo}) end->>'country'
+    ), ''), '')`;
+    const couplesFollower = sql<string>`coalesce(nullif(trim(${r.followerInfo}->>'country'), ''), '')`;
+    const [first, second] = await Promise.all([
+      db.select({ country: firstDancer, dancers: sql<number>`count(*)::int` })
+        .from(r).where(where).groupBy(firstDancer),
+      db.select({ country: couplesFollower, dancers: sql<number>`count(*)::int` })
+        .from(r).where(and(where, eq(r.role, 'couple'))).groupBy(couplesFollower),
+    ]);
+
+    const counts = new Map<string, number>();
+    for (const row of [...first, ...second]) {
+      counts.set(row.country, (counts.get(row.country) || 0) + row.dancers);
+    }
+    return Array.from(counts, ([country, dancers]) => ({ country, dancers }))
+      .sort((a, b) => b.dancers - a.dancers);
+  }
+
+  async getRegistrationTimeline(
+    interval: AnalyticsInterval,
+    eventId?: string
+  ): Promise<Array<{ period: string; registrations: number; revenue: number }>> {
+    const r = registrationsTable;
+    // The interval is one of a fixed few, so it can go into the query as is
+    const period = sql<string>`to_char(date_trunc(${sql.raw(`'${interval}'`)}, ${r.createdAt}), 'YYYY-MM-DD')`;
+    const rows = await db.select({
+      period,
+      registrations: sql<number>`count(*)::int`,
+      revenue: sql<string>`coalesce(sum(${bookedAmount}), 0)`,
+    })
+      .from(r)
+      .where(and(holdsPlaces, isNotNull(r.createdAt), eventId ? eq(r.eventId, eventId) : undefined))
+      .groupBy(period)
+      .orderBy(period);
+    return rows.map((row) => ({ ...row, revenue: Number(row.revenue) }));
+  }
+
+  // Add-on quantities sold, per add-on and combination of options chosen
+  async getAddonSales(eventId?: string): Promise<Array<{ addonId: string; options: Record<string, string>; quantity: number }>> {
+    const r = registrationsTable;
+    const selection = sql`jsonb_array_elements(case when jsonb_typeof(${r.addons}) = 'array' then ${r.addons} else '[]'::jsonb end)`;
+    const addonId = sql<string>`addon->>'id'`;
+    const options = sql<Record<string, string>>`coalesce(addon->'options', '{}'::jsonb)`;
+    const rows = await db.select({
+      addonId,
+      options,
+      quantity: sql<number>`sum(coalesce((addon->>'quantity')::int, 1))::int`,
+    })
+      .from(sql`${r} cross join lateral ${selection} as addon`)
+      .where(and(holdsPlaces, eventId ? eq(r.eventId, eventId) : undefined))
+      .groupBy(addonId, options);
+    return rows;
+  }
+
+  // Registrations per event by week before the event started, for
+  // comparing how each year sold. Anything a year or more ahead counts as
+  // 52 weeks, and anything after the start as week 0
+  async getEventRegistrationCurves(): Promise<Array<{ eventId: string; weeksBefore: number; registrations: number }>> {
+    const r = registrationsTable;
+    const weeksBefore = sql<number>`least(greatest(floor(extract(epoch from (${eventsTable.startDate} - ${r.createdAt})) / 604800), 0), 52)::int`;
+    return db.select({
+      eventId: r.eventId,
+      weeksBefore,
+      registrations: sql<number>`count(*)::int`,
+    })
+      .from(r)
+      .innerJoin(eventsTable, eq(eventsTable.id, r.eventId))
+      .where(and(holdsPlaces, isNotNull(r.createdAt)))
+      .groupBy(r.eventId, weeksBefore);
+  }
+
+  async getRegistrationByPaymentIntentId(paymentIntentId: string): Promise<Registration | undefined> {
+    const [registration] = await db.select().from(registrationsTable)
+      .where(eq(registrationsTable.stripePaymentIntentId, paymentIntentId))
+      .limit(1);
+    return registration;
+  }
+
+  async updateRegistration(id: string, updates: UpdateRegistration): Promise<Registration> {
     const [registration] = await db.update(registrationsTable)
       .set(updates)
       .where(eq(registrationsTable.id, id))
@@ -165,6 +769,31 @@ export class SupabaseStorage implements IStorage {
     return registration;
   }
 
+  // Unpaid registrations only, so the intent that paid a registration is
+  // never replaced; undefined once it has been paid
+  async setRegistrationPaymentIntent(id: string, paymentIntentId: string): Promise<Registration | undefined> {
+    const [registration] = await db.update(registrationsTable)
+      .set({ stripePaymentIntentId: paymentIntentId })
+      .where(and(
+        eq(registrationsTable.id, id),
+        inArray(registrationsTable.paymentStatus, ['pending', 'failed'])
+      ))
+      .returning();
+    return registration;
+  }
+
+  async updateRegistrationStripeCustomer(id: string, stripeCustomerId: string): Promise<Registration> {
+    const [registration] = await db.update(registrationsTable)
+      .set({ stripeCustomerId })
+      .where(eq(registrationsTable.id, id))
+      .returning();
+
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+    return registration;
+  }
+
   async deleteRegistration(id: string): Promise<void> {
     if (!id || typeof id !== 'string' || id.trim() === '') {
       throw new Error('Invalid registration ID');
@@ -182,6 +811,327 @@ export class SupabaseStorage implements IStorage {
     }
   }
 
+  async getExpiredHolds(now: Date = new Date()): Promise<Registration[]> {
+    return db.select().from(registrationsTable)
+      .where(and(
+        inArray(registrationsTable.paymentStatus, ['pending', 'failed']),
+        lt(registrationsTable.holdExpiresAt, now)
+      ));
+  }
+
+  /**
+   * Mark an unpaid registration whose hold has run out as 'expired' and give
+   * back its table seats and legacy seats. Workshop and milonga places free up
+   * on their own because expired registrations are no longer counted.
+   * Returns undefined if the registration was paid (or already released) in
+   * the meantime.
+   */
+  async releaseRegistrationHold(id: string): Promise<Registration | undefined> {
+    return db.transaction(async (tx) => {
+      const [released] = await tx.update(registrationsTable)
+        .set({ paymentStatus: 'expired' })
+        .where(and(
+          eq(registrationsTable.id, id),
+          inArray(registrationsTable.paymentStatus, ['pending', 'failed']),
+          lt(registrationsTable.holdExpiresAt, new Date())
+        ))
+        .returning();
+      if (!released) {
+        return undefined;
+      }
+      await cancelUnpaidInstalments(tx, id);
+      await releaseSeats(tx, released);
+      return released;
+    });
+  }
+
+  /**
+   * Cancel a registration, recording the refund and who cancelled it, and
+   * give back its table seats and legacy seats. Workshop and milonga places
+   * free up on their own because cancelled registrations are no longer
+   * counted. Instalments not yet paid are cancelled with it. Returns
+   * undefined if the registration was already cancelled.
+   */
+  /**
+   * Book an expired registration's places again because its payment went
+   * through after all, and mark it paid. Throws CapacityError, writing
+   * nothing, if any of its places have been taken since. Returns undefined
+   * if it isn't expired.
+   */
+  async reinstateExpiredRegistration(id: string, paymentIntentId: string): Promise<Registration | undefined> {
+    return db.transaction(async (tx) => {
+      const [registration] = await tx.select().from(registrationsTable)
+        .where(and(
+          eq(registrationsTable.id, id),
+          eq(registrationsTable.paymentStatus, 'expired'),
+          isNull(registrationsTable.cancelledAt)
+        ))
+        .for('update');
+      if (!registration) {
+        return undefined;
+      }
+      const leaderInfo = registration.leaderInfo as { email?: string } | null;
+      const followerInfo = registration.followerInfo as { email?: string } | null;
+      const claimantEmail = (leaderInfo?.email || followerInfo?.email)?.toLowerCase();
+
+      const workshopIds = Array.from(new Set((registration.workshopIds as string[] | null) || [])).sort();
+      for (const workshopId of workshopIds) {
+        await reserveWorkshop(tx, workshopId, registration.role, claimantEmail);
+      }
+      const milongaIds = Array.from(new Set((registration.milongaIds as string[] | null) || [])).sort();
+      for (const milongaId of milongaIds) {
+        await reserveMilonga(tx, milongaId, registration.role, claimantEmail);
+      }
+      if (registration.selectedTableNumber) {
+        await reserveTable(tx, registration.eventId, registration.selectedTableNumber, registration.role, claimantEmail);
+      }
+      for (const seatId of (registration.seatIds as string[] | null) || []) {
+        const [seat] = await tx.update(seatsTable)
+          .set({ isAvailable: false })
+          .where(and(eq(seatsTable.id, seatId), eq(seatsTable.isAvailable, true)))
+          .returning();
+        if (!seat) {
+          throw new CapacityError('One or more selected seats are no longer available.');
+        }
+      }
+
+      const [reinstated] = await tx.update(registrationsTable)
+        .set({ paymentStatus: 'completed', stripePaymentIntentId: paymentIntentId, holdExpiresAt: null })
+        .where(eq(registrationsTable.id, id))
+        .returning();
+      return reinstated;
+    });
+  }
+
+  /**
+   * Record a payment taken for an expired registration whose places are
+   * gone. It stays expired, holding nothing; the amount received flags the
+   * money to refund by cancelling it.
+   */
+  async recordUnplacedPayment(id: string, paymentIntentId: string, amount: number): Promise<Registration | undefined> {
+    const [registration] = await db.update(registrationsTable)
+      .set({ stripePaymentIntentId: paymentIntentId, amountReceived: String(amount) })
+      .where(and(
+        eq(registrationsTable.id, id),
+        eq(registrationsTable.paymentStatus, 'expired')
+      ))
+      .returning();
+    return registration;
+  }
+
+  // Keep the largest amount reported for each charge, since Stripe reports
+  // the charge's running total and events can arrive out of order
+  async recordChargeRefund(id: string, chargeId: string, amount: number): Promise<Registration> {
+    return db.transaction(async (tx) => {
+      const [registration] = await tx.select().from(registrationsTable)
+        .where(eq(registrationsTable.id, id))
+        .for('update');
+      if (!registration) {
+        throw new Error('Registration not found');
+      }
+      const chargeRefunds = { ...(registration.chargeRefunds || {}) };
+      chargeRefunds[chargeId] = Math.max(chargeRefunds[chargeId] ?? 0, amount);
+      const refunded = Object.values(chargeRefunds).reduce((total, value) => total + value, 0);
+      const [updated] = await tx.update(registrationsTable)
+        .set({
+          chargeRefunds,
+          refundAmount: String(Math.max(Number(registration.refundAmount || 0), Math.round(refunded * 100) / 100)),
+        })
+        .where(eq(registrationsTable.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async cancelRegistration(id: string, cancellation: RegistrationCancellation): Promise<Registration | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(registrationsTable)
+        .where(eq(registrationsTable.id, id))
+        .for('update');
+      if (!current) {
+        return undefined;
+      }
+      const [cancelled] = await tx.update(registrationsTable)
+        .set({
+          ...cancellation,
+          refundAmount: String(cancellation.refundAmount),
+          cancelledAt: new Date(),
+          holdExpiresAt: null,
+        })
+        .where(and(
+          eq(registrationsTable.id, id),
+          isNull(registrationsTable.cancelledAt)
+        ))
+        .returning();
+      if (!cancelled) {
+        return undefined;
+      }
+      await cancelUnpaidInstalments(tx, id);
+      // An expired registration paid too late has no seats to give back
+      if (!RELEASED_PAYMENT_STATUSES.includes(current.paymentStatus || '')) {
+        await releaseSeats(tx, cancelled);
+      }
+      return cancelled;
+    });
+  }
+
+  // Registrations where the dancer is the leader or the follower, newest first
+  async getRegistrationsByEmail(email: string): Promise<Registration[]> {
+    const normalized = email.trim().toLowerCase();
+    return db.select().from(registrationsTable)
+      .where(or(
+        sql`lower(${registrationsTable.leaderInfo}->>'email') = ${normalized}`,
+        sql`lower(${registrationsTable.followerInfo}->>'email') = ${normalized}`
+      ))
+      .orderBy(desc(registrationsTable.createdAt));
+  }
+
+  /**
+   * Change what a registration books. Places it newly books are reserved
+   * exactly as for a new registration, and the gala table seats it gives up
+   * are released; workshop and milonga places it gives up free up on their
+   * own. Throws CapacityError, writing nothing, if anything is full. The
+   * payment status follows what has been paid against the new total: a
+   * completed registration is taken to have paid its previous total.
+   */
+  async updateRegistrationSelection(
+    id: string,
+    selection: RegistrationSelection,
+    priceQuote: PriceQuote,
+  ): Promise<Registration> {
+    return db.transaction(async (tx) => {
+      const [registration] = await tx.select().from(registrationsTable)
+        .where(eq(registrationsTable.id, id))
+        .for('update');
+      if (!registration) {
+        throw new Error('Registration not found');
+      }
+      const leaderInfo = registration.leaderInfo as { email?: string } | null;
+      const followerInfo = registration.followerInfo as { email?: string } | null;
+      const claimantEmail = (leaderInfo?.email || followerInfo?.email)?.toLowerCase();
+
+      const bookedWorkshopIds = (registration.workshopIds as string[] | null) || [];
+      const workshopIds = Array.from(new Set(selection.workshopIds || [])).sort();
+      for (const workshopId of workshopIds.filter((workshopId) => !bookedWorkshopIds.includes(workshopId))) {
+        await reserveWorkshop(tx, workshopId, registration.role, claimantEmail);
+      }
+
+      const bookedMilongaIds = (registration.milongaIds as string[] | null) || [];
+      const milongaIds = Array.from(new Set(selection.milongaIds || [])).sort();
+      for (const milongaId of milongaIds.filter((milongaId) => !bookedMilongaIds.includes(milongaId))) {
+        await reserveMilonga(tx, milongaId, registration.role, claimantEmail);
+      }
+
+      const tableNumber = selection.selectedTableNumber ?? null;
+      const tableIds: string[] = [];
+      if (tableNumber !== registration.selectedTableNumber) {
+        await releaseTableSeats(tx, registration);
+        if (tableNumber) {
+          tableIds.push(await reserveTable(tx, registration.eventId, tableNumber, registration.role, claimantEmail));
+        }
+      }
+
+      const amountPaid = registration.paymentStatus === 'completed'
+        ? Math.max(Number(registration.totalAmount), Number(registration.amountReceived || 0))
+        : Number(registration.amountReceived || 0);
+      const paymentStatus = getOutstandingBalance(selection.totalAmount, amountPaid) === 0
+        ? 'completed'
+        : amountPaid > 0 ? 'partially_paid' : 'pending';
+
+      const [updated] = await tx.update(registrationsTable)
+        .set({
+          workshopIds,
+          milongaIds,
+          selectedTableNumber: tableNumber,
+          addons: selection.addons || [],
+          totalAmount: String(selection.totalAmount),
+          discountAmount: String(selection.discountAmount),
+          priceQuote,
+          amountReceived: String(amountPaid),
+          paymentStatus,
+        })
+        .where(eq(registrationsTable.id, id))
+        .returning();
+
+      await claimWaitlistEntries(tx, id, claimantEmail, [
+        ...workshopIds.filter((workshopId) => !bookedWorkshopIds.includes(workshopId)),
+        ...milongaIds.filter((milongaId) => !bookedMilongaIds.includes(milongaId)),
+        ...tableIds,
+      ]);
+      return updated;
+    });
+  }
+
+  /**
+   * Add a portal top-up card payment to a registration's amount received,
+   * closing it as the open top-up intent. Returns undefined if that payment
+   * was already recorded.
+   */
+  async recordTopUpPayment(id: string, payment: TopUpPayment): Promise<Registration | undefined> {
+    return db.transaction(async (tx) => {
+      const [registration] = await tx.select().from(registrationsTable)
+        .where(eq(registrationsTable.id, id))
+        .for('update');
+      if (!registration) {
+        throw new Error('Registration not found');
+      }
+      const topUps = registration.topUpPayments || [];
+      if (topUps.some((topUp) => topUp.paymentIntentId === payment.paymentIntentId)) {
+        return undefined;
+      }
+
+      const amountReceived = Math.round((Number(registration.amountReceived || 0) + payment.amount) * 100) / 100;
+      const [updated] = await tx.update(registrationsTable)
+        .set({
+          topUpPayments: [...topUps, payment],
+          ...(registration.topUpPaymentIntentId === payment.paymentIntentId ? { topUpPaymentIntentId: null } : {}),
+          amountReceived: String(amountReceived),
+          ...(registration.cancelledAt ? {} : {
+            paymentStatus: getOfflinePaymentStatus(registration.totalAmount, amountReceived),
+          }),
+        })
+        .where(eq(registrationsTable.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async setTopUpPaymentIntent(id: string, paymentIntentId: string | null): Promise<Registration> {
+    const [registration] = await db.update(registrationsTable)
+      .set({ topUpPaymentIntentId: paymentIntentId })
+      .where(eq(registrationsTable.id, id))
+      .returning();
+
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+    return registration;
+  }
+
+  async requestRegistrationCancellation(id: string, reason: string | null): Promise<Registration> {
+    const [registration] = await db.update(registrationsTable)
+      .set({ cancellationRequestedAt: new Date(), cancellationRequestReason: reason })
+      .where(eq(registrationsTable.id, id))
+      .returning();
+
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+    return registration;
+  }
+
+  async rotateRegistrationAccessToken(id: string): Promise<Registration> {
+    const [registration] = await db.update(registrationsTable)
+      .set({ accessTokenVersion: sql`${registrationsTable.accessTokenVersion} + 1` })
+      .where(eq(registrationsTable.id, id))
+      .returning();
+
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+    return registration;
+  }
+
   // Workshop methods
   async getWorkshops(eventId?: string): Promise<Workshop[]> {
     let workshops: Workshop[];
@@ -194,7 +1144,7 @@ export class SupabaseStorage implements IStorage {
     }
     
     // Calculate dynamic enrollment based on registrations
-    const registrations = await db.select().from(registrationsTable);
+    const registrations = await db.select().from(registrationsTable).where(holdsPlaces);
     
     for (const workshop of workshops) {
       let enrolled = 0;
@@ -346,7 +1296,7 @@ export class SupabaseStorage implements IStorage {
     }
     
     // Calculate dynamic enrollment
-    const registrations = await db.select().from(registrationsTable);
+    const registrations = await db.select().from(registrationsTable).where(holdsPlaces);
     
     for (const milonga of milongas) {
       let enrolled = 0;
@@ -453,13 +1403,11 @@ export class SupabaseStorage implements IStorage {
 
   // Table management methods
   async getTables(eventId?: string): Promise<Table[]> {
-    const query = db.select().from(tablesTable)
-      .where(eq(tablesTable.isActive, true));
-    
-    if (eventId) {
-      return query.where(eq(tablesTable.eventId, eventId));
-    }
-    return query;
+    return db.select().from(tablesTable)
+      .where(and(
+        eq(tablesTable.isActive, true),
+        eventId ? eq(tablesTable.eventId, eventId) : undefined,
+      ));
   }
 
   async getTable(id: string): Promise<Table | undefined> {
@@ -698,6 +1646,13 @@ export class SupabaseStorage implements IStorage {
       .where(eq(pricingTiersTable.eventId, eventId));
   }
 
+  async getPricingTier(id: string): Promise<PricingTier | undefined> {
+    const [tier] = await db.select().from(pricingTiersTable)
+      .where(eq(pricingTiersTable.id, id))
+      .limit(1);
+    return tier;
+  }
+
   async getActivePricingTier(eventId: string): Promise<PricingTier | undefined> {
     const now = new Date();
     const [tier] = await db.select().from(pricingTiersTable)
@@ -744,6 +1699,13 @@ export class SupabaseStorage implements IStorage {
       .orderBy(packageConfigurationsTable.sortOrder);
   }
 
+  async getPackageConfigurationById(id: string): Promise<PackageConfiguration | undefined> {
+    const [config] = await db.select().from(packageConfigurationsTable)
+      .where(eq(packageConfigurationsTable.id, id))
+      .limit(1);
+    return config;
+  }
+
   async getPackageConfiguration(eventId: string, packageType: string): Promise<PackageConfiguration | undefined> {
     const [config] = await db.select().from(packageConfigurationsTable)
       .where(and(
@@ -779,6 +1741,771 @@ export class SupabaseStorage implements IStorage {
   async deletePackageConfiguration(id: string): Promise<void> {
     await db.delete(packageConfigurationsTable).where(eq(packageConfigurationsTable.id, id));
   }
+
+  // Waitlist methods
+  async getWaitlistEntries(eventId?: string): Promise<WaitlistEntry[]> {
+    if (eventId) {
+      return db.select().from(waitlistEntriesTable)
+        .where(eq(waitlistEntriesTable.eventId, eventId))
+        .orderBy(asc(waitlistEntriesTable.createdAt));
+    }
+    return db.select().from(waitlistEntriesTable).orderBy(asc(waitlistEntriesTable.createdAt));
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntriesTable)
+      .where(eq(waitlistEntriesTable.id, id))
+      .limit(1);
+    return entry;
+  }
+
+  async createWaitlistEntry(eventId: string, entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const email = entry.email.trim().toLowerCase();
+
+    // Joining twice keeps the original place in the queue
+    const [existing] = await db.select().from(waitlistEntriesTable)
+      .where(and(
+        eq(waitlistEntriesTable.itemType, entry.itemType),
+        eq(waitlistEntriesTable.itemId, entry.itemId),
+        eq(waitlistEntriesTable.email, email),
+        inArray(waitlistEntriesTable.status, ['waiting', 'offered'])
+      ))
+      .limit(1);
+    if (existing) {
+      return existing;
+    }
+
+    const [created] = await db.insert(waitlistEntriesTable).values({
+      ...entry,
+      eventId,
+      email,
+      status: 'waiting',
+      createdAt: new Date(),
+    }).returning();
+    return created;
+  }
+
+  async getExpiredWaitlistOffers(now: Date = new Date()): Promise<WaitlistEntry[]> {
+    return db.select().from(waitlistEntriesTable)
+      .where(and(
+        eq(waitlistEntriesTable.status, 'offered'),
+        lt(waitlistEntriesTable.offerExpiresAt, now)
+      ));
+  }
+
+  async cancelWaitlistEntry(id: string): Promise<WaitlistEntry> {
+    const [entry] = await db.update(waitlistEntriesTable)
+      .set({ status: 'cancelled' })
+      .where(eq(waitlistEntriesTable.id, id))
+      .returning();
+
+    if (!entry) {
+      throw new Error('Waitlist entry not found');
+    }
+    return entry;
+  }
+
+  /**
+   * Offer freed places on an item to the earliest waiting entries that fit.
+   * Expired offers are released first. The item row is locked, so promotion
+   * and new registrations see the same counts. Entries that don't fit (e.g. a
+   * leader while leaders are full) keep their place in the queue.
+   */
+  async promoteWaitlist(itemType: WaitlistItemType, itemId: string): Promise<WaitlistEntry[]> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      await tx.update(waitlistEntriesTable)
+        .set({ status: 'expired' })
+        .where(and(
+          eq(waitlistEntriesTable.itemType, itemType),
+          eq(waitlistEntriesTable.itemId, itemId),
+          eq(waitlistEntriesTable.status, 'offered'),
+          lte(waitlistEntriesTable.offerExpiresAt, now)
+        ));
+
+      let reserve: (role: string) => boolean;
+
+      if (itemType === 'workshop') {
+        const [workshop] = await tx.select().from(workshopsTable)
+          .where(eq(workshopsTable.id, itemId))
+          .for('update');
+        if (!workshop) {
+          throw new Error('Workshop not found');
+        }
+        const enrolled = countRoles(await tx.select({ role: registrationsTable.role })
+          .from(registrationsTable)
+          .where(and(
+            sql`${registrationsTable.workshopIds} @> ${JSON.stringify([itemId])}::jsonb`,
+            holdsPlaces
+          )));
+        const held = await getHeldPlaces(tx, itemType, itemId);
+        let leadersEnrolled = enrolled.leaders + held.leaders;
+        let followersEnrolled = enrolled.followers + held.followers;
+
+        reserve = (role) => {
+          if (!getRoleAvailability({ ...workshop, leadersEnrolled, followersEnrolled }, role as DancerRole).available) {
+            return false;
+          }
+          if (role !== 'follower') leadersEnrolled += 1;
+          if (role !== 'leader') followersEnrolled += 1;
+          return true;
+        };
+      } else {
+        let used: number;
+        let capacity: number;
+        if (itemType === 'milonga') {
+          const [milonga] = await tx.select().from(milongasTable)
+            .where(eq(milongasTable.id, itemId))
+            .for('update');
+          if (!milonga) {
+            throw new Error('Milonga not found');
+          }
+          const enrolled = countRoles(await tx.select({ role: registrationsTable.role })
+            .from(registrationsTable)
+            .where(and(
+              sql`${registrationsTable.milongaIds} @> ${JSON.stringify([itemId])}::jsonb`,
+              holdsPlaces
+            )));
+          used = enrolled.places;
+          capacity = milonga.capacity;
+        } else {
+          const [table] = await tx.select().from(tablesTable)
+            .where(eq(tablesTable.id, itemId))
+            .for('update');
+          if (!table) {
+            throw new Error('Table not found');
+          }
+          used = table.occupiedSeats;
+          capacity = table.totalSeats;
+        }
+        used += (await getHeldPlaces(tx, itemType, itemId)).places;
+
+        reserve = (role) => {
+          if (used + placesFor(role) > capacity) {
+            return false;
+          }
+          used += placesFor(role);
+          return true;
+        };
+      }
+
+      const waiting = await tx.select().from(waitlistEntriesTable)
+        .where(and(
+          eq(waitlistEntriesTable.itemType, itemType),
+          eq(waitlistEntriesTable.itemId, itemId),
+          eq(waitlistEntriesTable.status, 'waiting')
+        ))
+        .orderBy(asc(waitlistEntriesTable.createdAt));
+
+      const offerExpiresAt = new Date(now.getTime() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000);
+      const promoted: WaitlistEntry[] = [];
+      for (const entry of waiting) {
+        if (!reserve(entry.role)) continue;
+        const [offered] = await tx.update(waitlistEntriesTable)
+          .set({ status: 'offered', offeredAt: now, offerExpiresAt })
+          .where(eq(waitlistEntriesTable.id, entry.id))
+          .returning();
+        promoted.push(offered);
+      }
+      return promoted;
+    });
+  }
+
+  // Promo code methods
+  async getPromoCodes(eventId?: string): Promise<PromoCode[]> {
+    if (eventId) {
+      return db.select().from(promoCodesTable)
+        .where(eq(promoCodesTable.eventId, eventId))
+        .orderBy(asc(promoCodesTable.code));
+    }
+    return db.select().from(promoCodesTable).orderBy(asc(promoCodesTable.code));
+  }
+
+  async getPromoCode(id: string): Promise<PromoCode | undefined> {
+    const [promo] = await db.select().from(promoCodesTable)
+      .where(eq(promoCodesTable.id, id))
+      .limit(1);
+    return promo;
+  }
+
+  async getPromoCodeByCode(eventId: string, code: string): Promise<PromoCode | undefined> {
+    const [promo] = await db.select().from(promoCodesTable)
+      .where(and(
+        eq(promoCodesTable.eventId, eventId),
+        eq(promoCodesTable.code, normalizePromoCode(code))
+      ))
+      .limit(1);
+    return promo;
+  }
+
+  async createPromoCode(promo: InsertPromoCode): Promise<PromoCode> {
+    try {
+      const [created] = await db.insert(promoCodesTable).values({
+        ...promo,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }).returning();
+      return created;
+    } catch (error) {
+      if (isDuplicatePromoCode(error)) throw new DuplicatePromoCodeError(promo.code);
+      throw error;
+    }
+  }
+
+  async updatePromoCode(id: string, updates: Partial<InsertPromoCode>): Promise<PromoCode> {
+    let promo: PromoCode | undefined;
+    try {
+      [promo] = await db.update(promoCodesTable)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(promoCodesTable.id, id))
+        .returning();
+    } catch (error) {
+      if (isDuplicatePromoCode(error)) throw new DuplicatePromoCodeError(updates.code ?? '');
+      throw error;
+    }
+
+    if (!promo) {
+      throw new Error('Promo code not found');
+    }
+    return promo;
+  }
+
+  async deletePromoCode(id: string): Promise<void> {
+    await db.delete(promoCodesTable).where(eq(promoCodesTable.id, id));
+  }
+
+  async getPromoCodeUsage(eventId: string, code: string, email?: string): Promise<PromoUsage> {
+    return countPromoUsage(db, eventId, code, email);
+  }
+
+  // Offline payment methods
+  async getOfflinePayments(registrationId: string): Promise<OfflinePayment[]> {
+    return db.select().from(offlinePaymentsTable)
+      .where(eq(offlinePaymentsTable.registrationId, registrationId))
+      .orderBy(asc(offlinePaymentsTable.receivedAt));
+  }
+
+  /**
+   * Add a payment to the registration's ledger and bring its amount received
+   * and payment status up to date. The registration row is locked so two
+   * admins recording payments at once can't lose one.
+   */
+  async recordOfflinePayment(
+    registrationId: string,
+    payment: InsertOfflinePayment,
+    recordedBy: string,
+  ): Promise<{ payment: OfflinePayment; registration: Registration }> {
+    return db.transaction(async (tx) => {
+      const [registration] = await tx.select().from(registrationsTable)
+        .where(eq(registrationsTable.id, registrationId))
+        .for('update');
+      if (!registration) {
+        throw new Error('Registration not found');
+      }
+      if (registration.paymentMethod !== 'offline') {
+        throw new Error('Only offline registrations take offline payments');
+      }
+      if (registration.cancelledAt) {
+        throw new Error('Registration has been cancelled');
+      }
+
+      const [created] = await tx.insert(offlinePaymentsTable).values({
+        ...payment,
+        registrationId,
+        recordedBy,
+        createdAt: new Date(),
+      }).returning();
+      return { payment: created, registration: await applyOfflinePayments(tx, registration) };
+    });
+  }
+
+  async deleteOfflinePayment(id: string): Promise<{ payment: OfflinePayment; registration: Registration }> {
+    return db.transaction(async (tx) => {
+      const [payment] = await tx.delete(offlinePaymentsTable)
+        .where(eq(offlinePaymentsTable.id, id))
+        .returning();
+      if (!payment) {
+        throw new Error('Offline payment not found');
+      }
+      const [registration] = await tx.select().from(registrationsTable)
+        .where(eq(registrationsTable.id, payment.registrationId))
+        .for('update');
+      if (!registration) {
+        throw new Error('Registration not found');
+      }
+      if (registration.cancelledAt) {
+        throw new Error('Registration has been cancelled');
+      }
+      return { payment, registration: await applyOfflinePayments(tx, registration) };
+    });
+  }
+
+  // Offline registrations that still hold places and have a balance to pay
+  async getOutstandingOfflineRegistrations(eventId?: string): Promise<Registration[]> {
+    return db.select().from(registrationsTable)
+      .where(and(
+        eq(registrationsTable.paymentMethod, 'offline'),
+        inArray(registrationsTable.paymentStatus, ['pending', 'partially_paid']),
+        holdsPlaces,
+        eventId ? eq(registrationsTable.eventId, eventId) : undefined
+      ))
+      .orderBy(asc(registrationsTable.createdAt));
+  }
+
+  async markPaymentReminderSent(id: string, sentAt: Date): Promise<Registration> {
+    const [updated] = await db.update(registrationsTable)
+      .set({
+        lastPaymentReminderAt: sentAt,
+        paymentReminderCount: sql`coalesce(${registrationsTable.paymentReminderCount}, 0) + 1`,
+      })
+      .where(eq(registrationsTable.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Registration not found');
+    }
+    return updated;
+  }
+
+  // Payment plan methods
+  async getPaymentInstalments(registrationId: string): Promise<PaymentInstalment[]> {
+    return db.select().from(paymentInstalmentsTable)
+      .where(eq(paymentInstalmentsTable.registrationId, registrationId))
+      .orderBy(asc(paymentInstalmentsTable.sequence));
+  }
+
+  async getPaymentInstalment(id: string): Promise<PaymentInstalment | undefined> {
+    const [instalment] = await db.select().from(paymentInstalmentsTable)
+      .where(eq(paymentInstalmentsTable.id, id))
+      .limit(1);
+    return instalment;
+  }
+
+  async updatePaymentInstalment(id: string, updates: Partial<InsertPaymentInstalment>): Promise<PaymentInstalment> {
+    const [updated] = await db.update(paymentInstalmentsTable)
+      .set(updates)
+      .where(eq(paymentInstalmentsTable.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Payment instalment not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Mark an instalment paid and bring the registration's amount received and
+   * payment status up to date: partially paid until the last instalment,
+   * then completed. The card it was paid with is saved for the instalments
+   * still to come. Cancelled registrations keep their status. Returns
+   * undefined if the payment was already recorded.
+   */
+  async recordInstalmentPayment(
+    id: string,
+    paymentIntentId: string,
+    paymentMethodId: string | null,
+    paidAt: Date,
+  ): Promise<Registration | undefined> {
+    return db.transaction(async (tx) => {
+      const [instalment] = await tx.select().from(paymentInstalmentsTable)
+        .where(eq(paymentInstalmentsTable.id, id));
+      if (!instalment) {
+        throw new Error('Payment instalment not found');
+      }
+      const [registration] = await tx.select().from(registrationsTable)
+        .where(eq(registrationsTable.id, instalment.registrationId))
+        .for('update');
+      if (!registration) {
+        throw new Error('Registration not found');
+      }
+
+      const [paid] = await tx.update(paymentInstalmentsTable)
+        .set({ status: 'paid', paidAt, stripePaymentIntentId: paymentIntentId, failureMessage: null })
+        .where(and(
+          eq(paymentInstalmentsTable.id, id),
+          ne(paymentInstalmentsTable.status, 'paid')
+        ))
+        .returning();
+      if (!paid) {
+        return undefined;
+      }
+
+      const [ledger] = await tx.select({ total: sql<string>`coalesce(sum(${paymentInstalmentsTable.amount}), 0)` })
+        .from(paymentInstalmentsTable)
+        .where(and(
+          eq(paymentInstalmentsTable.registrationId, registration.id),
+          eq(paymentInstalmentsTable.status, 'paid')
+        ));
+      const amountReceived = Number(ledger?.total ?? 0);
+
+      const [updated] = await tx.update(registrationsTable)
+        .set({
+          amountReceived: String(amountReceived),
+          ...(registration.cancelledAt ? {} : {
+            paymentStatus: getOutstandingBalance(registration.totalAmount, amountReceived) > 0 ? 'partially_paid' : 'completed',
+            holdExpiresAt: null,
+          }),
+          ...(paymentMethodId ? { stripePaymentMethodId: paymentMethodId } : {}),
+        })
+        .where(eq(registrationsTable.id, registration.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Registrations on a payment plan that paid their deposit but not the rest
+  async getOpenPaymentPlanRegistrations(): Promise<Registration[]> {
+    return db.select().from(registrationsTable)
+      .where(and(
+        isNotNull(registrationsTable.paymentPlan),
+        eq(registrationsTable.paymentStatus, 'partially_paid'),
+        holdsPlaces
+      ))
+      .orderBy(asc(registrationsTable.createdAt));
+  }
+
+  // Invoice methods
+  async getInvoices(registrationId: string): Promise<Invoice[]> {
+    return db.select().from(invoicesTable)
+      .where(eq(invoicesTable.registrationId, registrationId))
+      .orderBy(asc(invoicesTable.issuedAt));
+  }
+
+  async getEventInvoices(eventId: string): Promise<Invoice[]> {
+    return db.select().from(invoicesTable)
+      .where(eq(invoicesTable.eventId, eventId))
+      .orderBy(asc(invoicesTable.documentType), asc(invoicesTable.sequence));
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoicesTable).where(eq(invoicesTable.id, id));
+    return invoice;
+  }
+
+  /**
+   * Issue an invoice or credit note under the next number in its event's
+   * series. The event row is locked so concurrent issues can't share a
+   * number, and a registration only ever gets one document of each type:
+   * if it already has one, that is returned instead.
+   */
+  async issueInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    return db.transaction(async (tx) => {
+      const [event] = await tx.select().from(eventsTable)
+        .where(eq(eventsTable.id, invoice.eventId))
+        .for('update');
+      if (!event) {
+        throw new Error('Event not found');
+      }
+
+      const [existing] = await tx.select().from(invoicesTable)
+        .where(and(
+          eq(invoicesTable.registrationId, invoice.registrationId),
+          eq(invoicesTable.documentType, invoice.documentType)
+        ));
+      if (existing) return existing;
+
+      const [{ last }] = await tx.select({ last: sql<number>`coalesce(max(${invoicesTable.sequence}), 0)` })
+        .from(invoicesTable)
+        .where(and(
+          eq(invoicesTable.eventId, invoice.eventId),
+          eq(invoicesTable.documentType, invoice.documentType)
+        ));
+      const sequence = Number(last) + 1;
+
+      const [created] = await tx.insert(invoicesTable).values({
+        ...invoice,
+        sequence,
+        number: formatInvoiceNumber(event.invoicePrefix || String(event.year), invoice.documentType, sequence),
+        createdAt: new Date(),
+      }).returning();
+      return created;
+    });
+  }
+
+  // Email notification methods
+  async getEmailTemplates(eventId: string): Promise<EmailTemplate[]> {
+    return db.select().from(emailTemplatesTable)
+      .where(eq(emailTemplatesTable.eventId, eventId));
+  }
+
+  async getEmailTemplate(eventId: string, type: string): Promise<EmailTemplate | undefined> {
+    const [template] = await db.select().from(emailTemplatesTable)
+      .where(and(
+        eq(emailTemplatesTable.eventId, eventId),
+        eq(emailTemplatesTable.type, type)
+      ));
+    return template;
+  }
+
+  // Create or replace an event's override of one notification type
+  async saveEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(emailTemplatesTable)
+        .where(and(
+          eq(emailTemplatesTable.eventId, template.eventId),
+          eq(emailTemplatesTable.type, template.type)
+        ))
+        .for('update');
+      if (existing) {
+        const [updated] = await tx.update(emailTemplatesTable)
+          .set({ ...template, updatedAt: new Date() })
+          .where(eq(emailTemplatesTable.id, existing.id))
+          .returning();
+        return updated;
+      }
+      const [created] = await tx.insert(emailTemplatesTable)
+        .values({ ...template, updatedAt: new Date() })
+        .returning();
+      return created;
+    });
+  }
+
+  async deleteEmailTemplate(eventId: string, type: string): Promise<void> {
+    await db.delete(emailTemplatesTable)
+      .where(and(
+        eq(emailTemplatesTable.eventId, eventId),
+        eq(emailTemplatesTable.type, type)
+      ));
+  }
+
+  // Returns undefined when an email with the same dedupe key was already queued
+  async queueEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry | undefined> {
+    const [queued] = await db.insert(emailOutboxTable)
+      .values({ ...email, createdAt: new Date() })
+      .onConflictDoNothing({ target: emailOutboxTable.dedupeKey })
+      .returning();
+    return queued;
+  }
+
+  /**
+   * Take the pending emails that are due, oldest first, and push their next
+   * attempt back by `leaseMs` so another server running the outbox at the
+   * same time skips them. Each claim counts as an attempt.
+   */
+  async claimDueEmails(now: Date, limit: number, leaseMs: number): Promise<EmailOutboxEntry[]> {
+    return db.transaction(async (tx) => {
+      const due = await tx.select({ id: emailOutboxTable.id }).from(emailOutboxTable)
+        .where(and(
+          eq(emailOutboxTable.status, 'pending'),
+          lte(emailOutboxTable.nextAttemptAt, now)
+        ))
+        .orderBy(asc(emailOutboxTable.nextAttemptAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return tx.update(emailOutboxTable)
+        .set({
+          attempts: sql`${emailOutboxTable.attempts} + 1`,
+          nextAttemptAt: new Date(now.getTime() + leaseMs),
+        })
+        .where(inArray(emailOutboxTable.id, due.map((email) => email.id)))
+        .returning();
+    });
+  }
+
+  async updateEmailOutboxEntry(id: string, updates: EmailOutboxUpdate): Promise<EmailOutboxEntry> {
+    const [updated] = await db.update(emailOutboxTable)
+      .set(updates)
+      .where(eq(emailOutboxTable.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Email not found');
+    }
+    return updated;
+  }
+
+  // The most recent outbox emails, newest first
+  async getEmailOutbox(eventId?: string, status?: string): Promise<EmailOutboxEntry[]> {
+    const conditions = [
+      eventId ? eq(emailOutboxTable.eventId, eventId) : undefined,
+      status ? eq(emailOutboxTable.status, status) : undefined,
+    ];
+    return db.select().from(emailOutboxTable)
+      .where(and(...conditions))
+      .orderBy(desc(emailOutboxTable.createdAt))
+      .limit(200);
+  }
+
+  // Broadcast methods
+
+  // Record a broadcast and queue every recipient's copy together
+  async createBroadcast(broadcast: InsertBroadcast, emails: BroadcastEmail[]): Promise<Broadcast> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(broadcastsTable)
+        .values({ ...broadcast, recipientCount: emails.length, createdAt: new Date() })
+        .returning();
+      const now = new Date();
+      // Inserted in batches to stay well inside Postgres' parameter limit
+      for (let i = 0; i < emails.length; i += 500) {
+        await tx.insert(emailOutboxTable).values(emails.slice(i, i + 500).map((email) => ({
+          ...email,
+          eventId: broadcast.eventId,
+          broadcastId: created.id,
+          type: 'broadcast',
+          nextAttemptAt: now,
+          createdAt: now,
+        })));
+      }
+      return created;
+    });
+  }
+
+  // Broadcasts newest first, with how many of their emails are sent so far
+  async getBroadcasts(eventId?: string): Promise<Array<Broadcast & { delivery: BroadcastDelivery }>> {
+    const broadcasts = await db.select().from(broadcastsTable)
+      .where(eventId ? eq(broadcastsTable.eventId, eventId) : undefined)
+      .orderBy(desc(broadcastsTable.createdAt));
+    if (broadcasts.length === 0) return [];
+
+    const counts = await db.select({
+      broadcastId: emailOutboxTable.broadcastId,
+      status: emailOutboxTable.status,
+      count: sql<number>`count(*)`,
+    })
+      .from(emailOutboxTable)
+      .where(inArray(emailOutboxTable.broadcastId, broadcasts.map((broadcast) => broadcast.id)))
+      .groupBy(emailOutboxTable.broadcastId, emailOutboxTable.status);
+
+    return broadcasts.map((broadcast) => {
+      const delivery: BroadcastDelivery = { pending: 0, sent: 0, failed: 0 };
+      for (const row of counts.filter((candidate) => candidate.broadcastId === broadcast.id)) {
+        delivery[row.status as keyof BroadcastDelivery] = Number(row.count);
+      }
+      return { ...broadcast, delivery };
+    });
+  }
+
+  async getBroadcast(id: string): Promise<Broadcast | undefined> {
+    const [broadcast] = await db.select().from(broadcastsTable).where(eq(broadcastsTable.id, id));
+    return broadcast;
+  }
+
+  async getBroadcastEmails(broadcastId: string): Promise<EmailOutboxEntry[]> {
+    return db.select().from(emailOutboxTable)
+      .where(eq(emailOutboxTable.broadcastId, broadcastId))
+      .orderBy(asc(emailOutboxTable.recipient));
+  }
+
+  // Dancer portal methods
+  async createPortalToken(token: InsertPortalToken): Promise<PortalToken> {
+    const [created] = await db.insert(portalTokensTable).values({
+      ...token,
+      email: token.email.trim().toLowerCase(),
+      createdAt: new Date(),
+    }).returning();
+    return created;
+  }
+
+  async getLatestPortalToken(email: string, kind: PortalTokenKind): Promise<PortalToken | undefined> {
+    const [token] = await db.select().from(portalTokensTable)
+      .where(and(
+        eq(portalTokensTable.email, email.trim().toLowerCase()),
+        eq(portalTokensTable.kind, kind)
+      ))
+      .orderBy(desc(portalTokensTable.createdAt))
+      .limit(1);
+    return token;
+  }
+
+  // Spend a sign-in link; undefined if it is unknown, used or expired
+  async usePortalLoginToken(tokenHash: string, now: Date): Promise<PortalToken | undefined> {
+    const [token] = await db.update(portalTokensTable)
+      .set({ usedAt: now })
+      .where(and(
+        eq(portalTokensTable.tokenHash, tokenHash),
+        eq(portalTokensTable.kind, 'login'),
+        isNull(portalTokensTable.usedAt),
+        gt(portalTokensTable.expiresAt, now)
+      ))
+      .returning();
+    return token;
+  }
+
+  async getPortalSession(tokenHash: string, now: Date): Promise<PortalToken | undefined> {
+    const [session] = await db.select().from(portalTokensTable)
+      .where(and(
+        eq(portalTokensTable.tokenHash, tokenHash),
+        eq(portalTokensTable.kind, 'session'),
+        isNull(portalTokensTable.usedAt),
+        gt(portalTokensTable.expiresAt, now)
+      ));
+    return session;
+  }
+
+  async endPortalSession(tokenHash: string): Promise<void> {
+    await db.update(portalTokensTable)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(portalTokensTable.tokenHash, tokenHash),
+        eq(portalTokensTable.kind, 'session')
+      ));
+  }
+
+  // Door check-in methods
+  async getCheckIns(registrationId: string): Promise<CheckIn[]> {
+    return db.select().from(checkInsTable)
+      .where(eq(checkInsTable.registrationId, registrationId))
+      .orderBy(asc(checkInsTable.checkedInAt));
+  }
+
+  async getEventCheckIns(eventId: string): Promise<CheckIn[]> {
+    return db.select().from(checkInsTable)
+      .where(eq(checkInsTable.eventId, eventId))
+      .orderBy(asc(checkInsTable.checkedInAt));
+  }
+
+  async createCheckIn(checkIn: InsertCheckIn): Promise<{ checkIn: CheckIn; duplicate: boolean }> {
+    const [created] = await db.insert(checkInsTable).values({
+      ...checkIn,
+      createdAt: new Date(),
+    })
+      .onConflictDoNothing({ target: checkInsTable.checkInKey })
+      .returning();
+    if (created) return { checkIn: created, duplicate: false };
+
+    const [existing] = await db.select().from(checkInsTable)
+      .where(eq(checkInsTable.checkInKey, checkIn.checkInKey));
+    if (!existing) {
+      throw new Error('Check-in not found');
+    }
+    return { checkIn: existing, duplicate: true };
+  }
+
+  // Audit log; entries are only ever inserted
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [created] = await db.insert(auditLogTable).values({
+      ...entry,
+      createdAt: new Date(),
+    }).returning();
+    return created;
+  }
+
+  // Newest first
+  async searchAuditLog(search: AuditLogSearch): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const a = auditLogTable;
+    const actorPattern = search.actor
+      ? `%${search.actor.toLowerCase().replace(/[\\%_]/g, (c) => `\\${c}`)}%`
+      : undefined;
+    const conditions = [
+      search.entityType ? eq(a.entityType, search.entityType) : undefined,
+      search.entityId ? eq(a.entityId, search.entityId) : undefined,
+      search.action ? eq(a.action, search.action) : undefined,
+      actorPattern ? sql`lower(${a.actorEmail}) like ${actorPattern}` : undefined,
+      search.from ? gte(a.createdAt, search.from) : undefined,
+      // Through the end of the `to` day
+      search.to ? lt(a.createdAt, new Date(search.to.getTime() + 24 * 60 * 60 * 1000)) : undefined,
+    ].filter((condition) => condition !== undefined);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [entries, [{ total }]] = await Promise.all([
+      db.select().from(a)
+        .where(where)
+        .orderBy(desc(a.createdAt), desc(a.id))
+        .limit(search.pageSize)
+        .offset((search.page - 1) * search.pageSize),
+      db.select({ total: sql<number>`count(*)::int` }).from(a).where(where),
+    ]);
+    return { entries, total };
+  }
 }
 
 export const storage = new SupabaseStorage();
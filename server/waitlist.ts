@@ -0,0 +1,134 @@
+import type { Registration, WaitlistEntry, WaitlistItemType } from "@shared/schema";
+import { getRoleAvailability, type DancerRole } from "@shared/workshopAvailability";
+import type { IStorage } from "./storage";
+import { notifyWaitlistOffer, type NotificationStorage } from "./notifications";
+import { logError, logObject } from "./logger";
+
+type WaitlistStorage = Pick<IStorage, "getWorkshops" | "getMilongas" | "getTables" | "promoteWaitlist"> & NotificationStorage;
+
+export type WaitlistEntryWithPosition = WaitlistEntry & { position: number | null };
+
+/**
+ * Look up the event a waitlist item belongs to and whether a dancer of the
+ * given role could still book it directly. Returns undefined for unknown items.
+ */
+export async function resolveWaitlistItem(
+  store: WaitlistStorage,
+  itemType: WaitlistItemType,
+  itemId: string,
+  role: DancerRole,
+): Promise<{ eventId: string; available: boolean } | undefined> {
+  const places = role === "couple" ? 2 : 1;
+
+  if (itemType === "workshop") {
+    const workshop = (await store.getWorkshops()).find((w) => w.id === itemId);
+    return workshop && { eventId: workshop.eventId, available: getRoleAvailability(workshop, role).available };
+  }
+  if (itemType === "milonga") {
+    const milonga = (await store.getMilongas()).find((m) => m.id === itemId);
+    return milonga && { eventId: milonga.eventId, available: (milonga.enrolled || 0) + places <= milonga.capacity };
+  }
+  const table = (await store.getTables()).find((t) => t.id === itemId);
+  return table && { eventId: table.eventId, available: table.occupiedSeats + places <= table.totalSeats };
+}
+
+// How a waitlist item is named to dancers, e.g. "Table 12"
+async function getWaitlistItemName(
+  store: Pick<WaitlistStorage, "getWorkshops" | "getMilongas" | "getTables">,
+  itemType: WaitlistItemType,
+  itemId: string,
+): Promise<string> {
+  if (itemType === "workshop") {
+    return (await store.getWorkshops()).find((w) => w.id === itemId)?.title ?? "a workshop";
+  }
+  if (itemType === "milonga") {
+    return (await store.getMilongas()).find((m) => m.id === itemId)?.name ?? "a milonga";
+  }
+  const table = (await store.getTables()).find((t) => t.id === itemId);
+  return table ? `Table ${table.tableNumber} at the gala dinner` : "a gala dinner table";
+}
+
+/**
+ * Offer an item's free places to the earliest fitting waitlist entries and
+ * email each dancer their offer.
+ */
+export async function offerWaitlistPlaces(
+  store: WaitlistStorage,
+  itemType: WaitlistItemType,
+  itemId: string,
+): Promise<WaitlistEntry[]> {
+  const promoted = await store.promoteWaitlist(itemType, itemId);
+  if (promoted.length > 0) {
+    const itemName = await getWaitlistItemName(store, itemType, itemId);
+    for (const entry of promoted) {
+      await notifyWaitlistOffer(store, entry, itemName);
+    }
+  }
+  return promoted;
+}
+
+/**
+ * 1-based position among the entries still waiting for the same item.
+ * Workshops queue leaders and followers separately, since a free leader
+ * place can't go to a follower. Entries no longer waiting have no position.
+ */
+export function getQueuePosition(entries: WaitlistEntry[], entry: WaitlistEntry): number | null {
+  if (entry.status !== "waiting") return null;
+
+  const ahead = entries.filter((other) =>
+    other.status === "waiting" &&
+    other.itemType === entry.itemType &&
+    other.itemId === entry.itemId &&
+    (entry.itemType !== "workshop" || other.role === entry.role) &&
+    other.createdAt && entry.createdAt &&
+    new Date(other.createdAt) < new Date(entry.createdAt)
+  );
+  return ahead.length + 1;
+}
+
+export function withQueuePositions(entries: WaitlistEntry[]): WaitlistEntryWithPosition[] {
+  return entries.map((entry) => ({ ...entry, position: getQueuePosition(entries, entry) }));
+}
+
+/**
+ * Offer the places a registration just released to the waitlists of every
+ * workshop, milonga and gala table it held. Failures are logged rather than
+ * thrown: the registration change itself has already happened.
+ */
+export async function promoteWaitlistsForRegistration(
+  registration: Registration,
+  store: WaitlistStorage,
+): Promise<WaitlistEntry[]> {
+  const items: { itemType: WaitlistItemType; itemId: string }[] = [
+    ...((registration.workshopIds as string[] | null) || []).map((itemId) => ({ itemType: "workshop" as const, itemId })),
+    ...((registration.milongaIds as string[] | null) || []).map((itemId) => ({ itemType: "milonga" as const, itemId })),
+  ];
+
+  if (registration.selectedTableNumber) {
+    const tables = await store.getTables(registration.eventId);
+    const table = tables.find((t) => t.tableNumber === registration.selectedTableNumber);
+    if (table) {
+      items.push({ itemType: "table", itemId: table.id });
+    }
+  }
+
+  const promoted: WaitlistEntry[] = [];
+  for (const { itemType, itemId } of items) {
+    try {
+      promoted.push(...await offerWaitlistPlaces(store, itemType, itemId));
+    } catch (error: any) {
+      logError(`Waitlist promotion failed for ${itemType} ${itemId}: ${error.message}`);
+    }
+  }
+
+  if (promoted.length > 0) {
+    logObject("INFO", "Waitlist offers made", promoted.map((entry) => ({
+      id: entry.id,
+      itemType: entry.itemType,
+      itemId: entry.itemId,
+      email: entry.email,
+      offerExpiresAt: entry.offerExpiresAt,
+    })));
+  }
+  return promoted;
+}
@@ -0,0 +1,110 @@
+import { z } from "zod";
+
+// Registration and revenue analytics for the admin dashboard. Everything is
+// aggregated in the database; the browser only draws the charts. Cancelled,
+// expired and refunded registrations are left out of the counts and booked
+// revenue, but refunds are reported on their own. Amounts are in the event's
+// base currency.
+
+export const ANALYTICS_INTERVALS = ["day", "week", "month"] as const;
+export type AnalyticsInterval = typeof ANALYTICS_INTERVALS[number];
+
+export const ANALYTICS_INTERVAL_LABELS: Record<AnalyticsInterval, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+export const analyticsQuerySchema = z.object({
+  eventId: z.string().optional(),
+  interval: z.enum(ANALYTICS_INTERVALS).default("day"),
+});
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+export interface AnalyticsTotals {
+  registrations: number;
+  // A couple is two dancers
+  dancers: number;
+  leaders: number;
+  followers: number;
+  bookedRevenue: number;
+  receivedRevenue: number;
+  refunded: number;
+  cancelled: number;
+}
+
+export interface AnalyticsBucket {
+  key: string;
+  label: string;
+  registrations: number;
+  dancers: number;
+  revenue: number;
+}
+
+export interface CountryCount {
+  country: string;
+  dancers: number;
+}
+
+export interface AnalyticsOverview {
+  eventId: string;
+  baseCurrency: string;
+  totals: AnalyticsTotals;
+  packages: AnalyticsBucket[];
+  roles: AnalyticsBucket[];
+  countries: CountryCount[];
+  // Pricing tiers the event has, including any nobody bought at, and
+  // registrations at the standard price
+  tiers: AnalyticsBucket[];
+}
+
+export interface TimelinePoint {
+  // Start of the day, week or month, as YYYY-MM-DD
+  period: string;
+  registrations: number;
+  revenue: number;
+  cumulativeRegistrations: number;
+  cumulativeRevenue: number;
+}
+
+export interface AddonSale {
+  addonId: string;
+  name: string;
+  // The size, colour and so on chosen, e.g. "Size: M"; empty when the add-on has none
+  option: string;
+  quantity: number;
+  revenue: number;
+}
+
+export interface WorkshopFill {
+  workshopId: string;
+  title: string;
+  date: string;
+  capacity: number;
+  enrolled: number;
+  leaders: number;
+  leaderCapacity: number;
+  followers: number;
+  followerCapacity: number;
+  // Share of capacity taken, 0-100
+  fillRate: number;
+}
+
+export interface EventComparison {
+  eventId: string;
+  name: string;
+  year: number;
+  isCurrent: boolean;
+  baseCurrency: string;
+  registrations: number;
+  dancers: number;
+  bookedRevenue: number;
+  receivedRevenue: number;
+  // Registrations so far by each week before the event starts, so years can
+  // be compared at the same point in their sales
+  weeklyCumulative: Array<{ weeksBefore: number; registrations: number }>;
+}
+
+// Label for registrations that weren't bought at any pricing tier
+export const STANDARD_PRICE_LABEL = "Standard price";
@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+// Audit log of admin actions. Every change an admin makes to registrations,
+// the catalogue, seating, events, pricing, emails, the waitlist or admin
+// users is recorded with who made it and the fields it changed, before and
+// after. Entries are only ever added, never edited or removed.
+
+export const AUDIT_ENTITY_TYPES = [
+  "registration",
+  "workshop",
+  "milonga",
+  "addon",
+  "table",
+  "event",
+  "pricing_tier",
+  "package_configuration",
+  "promo_code",
+  "admin_user",
+  "seat",
+  "seating_layout",
+  "layout_settings",
+  "email_template",
+  "email",
+  "broadcast",
+  "waitlist_entry",
+] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  registration: "Registration",
+  workshop: "Workshop",
+  milonga: "Milonga",
+  addon: "Add-on",
+  table: "Gala table",
+  event: "Event",
+  pricing_tier: "Pricing tier",
+  package_configuration: "Package configuration",
+  promo_code: "Promo code",
+  admin_user: "Admin user",
+  seat: "Seat",
+  seating_layout: "Seating layout",
+  layout_settings: "Layout settings",
+  email_template: "Email template",
+  email: "Email",
+  broadcast: "Broadcast",
+  waitlist_entry: "Waitlist entry",
+};
+
+export const AUDIT_ACTIONS = [
+  "create",
+  "update",
+  "delete",
+  "cancel",
+  "record_payment",
+  "remove_payment",
+  "rotate_link",
+  "set_current",
+  "deactivate",
+  "send",
+  "send_payment_reminder",
+  "retry",
+  "offer_place",
+  "check_in",
+  "issue_invoices",
+  "share",
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  cancel: "Cancelled",
+  record_payment: "Recorded payment",
+  remove_payment: "Removed payment",
+  rotate_link: "Replaced confirmation link",
+  set_current: "Set as current",
+  deactivate: "Deactivated",
+  send: "Sent",
+  send_payment_reminder: "Sent payment reminder",
+  retry: "Retried",
+  offer_place: "Offered a place",
+  check_in: "Checked in",
+  issue_invoices: "Issued invoices",
+  share: "Shared",
+};
+
+// A field's value before and after; null when the entity didn't exist
+// before or doesn't after
+const auditChangeSchema = z.object({
+  before: z.unknown(),
+  after: z.unknown(),
+});
+
+export const auditChangesSchema = z.record(auditChangeSchema);
+
+export type AuditChange = z.infer<typeof auditChangeSchema>;
+export type AuditChanges = z.infer<typeof auditChangesSchema>;
+
+// Never written to the log
+const REDACTED_FIELDS = new Set(["password"]);
+
+// Bookkeeping fields that change on every save
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+const normalise = (value: unknown) => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+
+/**
+ * The fields that differ between two versions of an entity. Pass null for
+ * `before` on creation and for `after` on deletion to record every field.
+ */
+export function diffAuditValues(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const previous = normalise(before?.[field]);
+    const next = normalise(after?.[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: previous === null ? null : "[redacted]", after: next === null ? null : "[redacted]" }
+      : { before: previous, after: next };
+  }
+  return changes;
+}
+
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+export const auditLogSearchSchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().trim().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  // Part of the admin's email
+  actor: z.string().trim().optional(),
+  // On or after `from` and before the end of the day `to`
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(AUDIT_LOG_PAGE_SIZE),
+});
+
+export type AuditLogSearch = z.infer<typeof auditLogSearchSchema>;
+
+export interface AuditLogPage<T> {
+  entries: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
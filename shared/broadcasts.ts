@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { getPersonMergeFields, type MergeFields } from "./notifications";
+
+// Broadcasts: announcements emailed to every attendee whose registration
+// matches a set of filters, e.g. everyone booked into the Saturday advanced
+// workshop or seated at gala table 5. A registration must match every
+// filter given, and any one value within a filter. Both dancers of a couple
+// are emailed, and each address only once.
+
+export const PAYMENT_STATUSES = [
+  "pending",
+  "partially_paid",
+  "completed",
+  "failed",
+  "refunded",
+  "partially_refunded",
+  "disputed",
+  "expired",
+  "cancelled",
+] as const;
+
+export const PAYMENT_STATUS_LABELS: Record<typeof PAYMENT_STATUSES[number], string> = {
+  pending: "Pending",
+  partially_paid: "Partially paid",
+  completed: "Paid",
+  failed: "Failed",
+  refunded: "Refunded",
+  partially_refunded: "Partially refunded",
+  disputed: "Disputed",
+  expired: "Expired",
+  cancelled: "Cancelled",
+};
+
+// Statuses of registrations that no longer hold any places
+const RELEASED_PAYMENT_STATUSES = ["expired", "cancelled"];
+
+export const broadcastAudienceSchema = z.object({
+  packageTypes: z.array(z.string()).default([]),
+  roles: z.array(z.enum(["leader", "follower", "couple"])).default([]),
+  workshopIds: z.array(z.string()).default([]),
+  milongaIds: z.array(z.string()).default([]),
+  tableNumbers: z.array(z.number().int()).default([]),
+  // Empty means every registration still holding its places
+  paymentStatuses: z.array(z.enum(PAYMENT_STATUSES)).default([]),
+  // Matches the leader's or the follower's country
+  countries: z.array(z.string()).default([]),
+});
+
+export type BroadcastAudience = z.infer<typeof broadcastAudienceSchema>;
+
+export const EMPTY_AUDIENCE: BroadcastAudience = {
+  packageTypes: [],
+  roles: [],
+  workshopIds: [],
+  milongaIds: [],
+  tableNumbers: [],
+  paymentStatuses: [],
+  countries: [],
+};
+
+interface AudienceRegistration {
+  id: string;
+  packageType: string;
+  role: string;
+  workshopIds: unknown;
+  milongaIds: unknown;
+  selectedTableNumber: number | null;
+  paymentStatus: string | null;
+  cancelledAt: Date | string | null;
+  leaderInfo: unknown;
+  followerInfo: unknown;
+}
+
+// How a broadcast's emails are getting on, from the outbox
+export interface BroadcastDelivery {
+  pending: number;
+  sent: number;
+  failed: number;
+}
+
+export interface BroadcastRecipient {
+  registrationId: string;
+  email: string;
+  name: string;
+  // The recipient's own first name and email, plus both dancers' details
+  fields: MergeFields;
+}
+
+const overlaps = (selected: string[], booked: unknown) =>
+  selected.length === 0 || ((booked as string[] | null) || []).some((id) => selected.includes(id));
+
+const countryOf = (info: unknown) => (info as { country?: string } | null)?.country?.trim().toLowerCase();
+
+export function matchesAudience(registration: AudienceRegistration, audience: BroadcastAudience): boolean {
+  const status = registration.paymentStatus || "pending";
+  if (audience.paymentStatuses.length === 0) {
+    if (registration.cancelledAt || RELEASED_PAYMENT_STATUSES.includes(status)) return false;
+  } else if (!(audience.paymentStatuses as readonly string[]).includes(status)) {
+    return false;
+  }
+
+  if (audience.packageTypes.length > 0 && !audience.packageTypes.includes(registration.packageType)) return false;
+  if (audience.roles.length > 0 && !(audience.roles as string[]).includes(registration.role)) return false;
+  if (!overlaps(audience.workshopIds, registration.workshopIds)) return false;
+  if (!overlaps(audience.milongaIds, registration.milongaIds)) return false;
+  if (audience.tableNumbers.length > 0 &&
+      (registration.selectedTableNumber == null || !audience.tableNumbers.includes(registration.selectedTableNumber))) {
+    return false;
+  }
+  if (audience.countries.length > 0) {
+    const countries = audience.countries.map((country) => country.trim().toLowerCase());
+    const dancerCountries = [countryOf(registration.leaderInfo), countryOf(registration.followerInfo)];
+    if (!dancerCountries.some((country) => country && countries.includes(country))) return false;
+  }
+  return true;
+}
+
+/**
+ * Everyone a broadcast to `audience` reaches: the leader and follower of
+ * each matching registration, skipping dancers without an email address
+ * and addresses already reached through an earlier registration.
+ */
+export function getBroadcastRecipients(
+  registrations: AudienceRegistration[],
+  audience: BroadcastAudience,
+): BroadcastRecipient[] {
+  const recipients: BroadcastRecipient[] = [];
+  const seen = new Set<string>();
+
+  for (const registration of registrations.filter((candidate) => matchesAudience(candidate, audience))) {
+    const fields = getPersonMergeFields(registration);
+    for (const person of ["leader", "follower"] as const) {
+      const email = fields[`${person}.email`]?.trim();
+      if (!email || seen.has(email.toLowerCase())) continue;
+      seen.add(email.toLowerCase());
+      recipients.push({
+        registrationId: registration.id,
+        email,
+        name: [fields[`${person}.firstName`], fields[`${person}.lastName`]].filter(Boolean).join(" "),
+        fields: { ...fields, firstName: fields[`${person}.firstName`] || "dancer", email },
+      });
+    }
+  }
+  return recipients;
+}
@@ -0,0 +1,116 @@
+import { getOutstandingBalance } from "./offlinePayments";
+
+// Door check-in. Staff pick the session they're admitting to (a workshop, a
+// milonga or the gala dinner), scan the QR code on the dancer's
+// confirmation page or look them up by name, and check them in. Each dancer
+// is checked in to each session at most once; scanning them again shows
+// when they were first admitted.
+
+export const CHECK_IN_SESSION_TYPES = ["workshop", "milonga", "gala"] as const;
+export type CheckInSessionType = typeof CHECK_IN_SESSION_TYPES[number];
+
+export const CHECK_IN_SESSION_LABELS: Record<CheckInSessionType, string> = {
+  workshop: "Workshop",
+  milonga: "Milonga",
+  gala: "Gala dinner",
+};
+
+// The gala dinner is a single session; dancers are booked into it by
+// choosing a table
+export const GALA_SESSION_ID = "gala";
+
+export interface CheckInSession {
+  type: CheckInSessionType;
+  id: string;
+  label: string;
+  date: string | null;
+  time: string | null;
+}
+
+interface SessionCatalog {
+  workshops: Array<{ id: string; title: string; instructor: string; date: Date | string; time: string }>;
+  milongas: Array<{ id: string; name: string; date: string; time: string }>;
+  // Whether the event has gala tables to book
+  hasGala: boolean;
+}
+
+interface CheckInRegistration {
+  workshopIds: unknown;
+  milongaIds: unknown;
+  selectedTableNumber: number | null;
+  totalAmount: string | number;
+  amountReceived: string | number | null;
+  paymentStatus: string | null;
+  cancelledAt: Date | string | null;
+}
+
+export const checkInKey = (registrationId: string, type: CheckInSessionType, sessionId: string) =>
+  `${registrationId}:${type}:${sessionId}`;
+
+/** Every session of an event that staff can check dancers in to. */
+export function getEventSessions(catalog: SessionCatalog): CheckInSession[] {
+  return [
+    ...catalog.workshops.map((workshop) => ({
+      type: "workshop" as const,
+      id: workshop.id,
+      label: `${workshop.title} (${workshop.instructor})`,
+      date: new Date(workshop.date).toISOString(),
+      time: workshop.time,
+    })),
+    ...catalog.milongas.map((milonga) => ({
+      type: "milonga" as const,
+      id: milonga.id,
+      label: milonga.name,
+      date: milonga.date,
+      time: milonga.time,
+    })),
+    ...(catalog.hasGala
+      ? [{ type: "gala" as const, id: GALA_SESSION_ID, label: CHECK_IN_SESSION_LABELS.gala, date: null, time: null }]
+      : []),
+  ];
+}
+
+/** The sessions a registration is booked into. */
+export function getEntitledSessions(registration: CheckInRegistration, sessions: CheckInSession[]): CheckInSession[] {
+  const workshopIds = (registration.workshopIds as string[] | null) || [];
+  const milongaIds = (registration.milongaIds as string[] | null) || [];
+  return sessions.filter((session) =>
+    (session.type === "workshop" && workshopIds.includes(session.id)) ||
+    (session.type === "milonga" && milongaIds.includes(session.id)) ||
+    (session.type === "gala" && !!registration.selectedTableNumber),
+  );
+}
+
+export type AdmissionStatus = "paid" | "balance_due" | "unpaid" | "void";
+
+/**
+ * Whether a registration should be let in: paid in full, paid in part,
+ * not paid at all, or void (cancelled, expired or refunded) and not to be
+ * admitted.
+ */
+export function getAdmissionStatus(registration: CheckInRegistration): { status: AdmissionStatus; label: string } {
+  const status = registration.paymentStatus || "pending";
+  if (registration.cancelledAt || status === "cancelled" || status === "expired" || status === "refunded") {
+    return { status: "void", label: registration.cancelledAt || status === "cancelled" ? "Cancelled" : status === "expired" ? "Expired" : "Refunded" };
+  }
+  if (status === "completed" || getOutstandingBalance(registration.totalAmount, registration.amountReceived) <= 0) {
+    return { status: "paid", label: "Paid" };
+  }
+  if (status === "partially_paid" || Number(registration.amountReceived) > 0) {
+    return { status: "balance_due", label: "Balance due" };
+  }
+  return { status: "unpaid", label: "Not paid" };
+}
+
+/**
+ * The access token in a scanned QR code, which holds the dancer's
+ * confirmation link; anything else scanned or typed is returned as is.
+ */
+export function parseScannedCode(text: string): string {
+  const trimmed = text.trim();
+  try {
+    return new URL(trimmed).searchParams.get("token") || trimmed;
+  } catch {
+    return trimmed;
+  }
+}
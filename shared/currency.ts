@@ -0,0 +1,102 @@
+import { z } from "zod";
+
+// Multi-currency pricing: every event is priced in its base currency, and
+// can list other currencies with admin-maintained exchange rates so visitors
+// see prices in the currency they know. Currencies marked for settlement can
+// also be charged in; anything else is shown converted but charged in the
+// base currency. Registrations keep the currency and rate they were charged
+// at, so later rate changes never touch them.
+
+export const DEFAULT_BASE_CURRENCY = "AED";
+
+export const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, "Currency must be a three-letter ISO code, e.g. EUR");
+
+export const exchangeRateSchema = z.object({
+  code: currencyCodeSchema,
+  // Units of this currency per one unit of the base currency
+  rate: z.number().positive("Exchange rate must be greater than zero"),
+  // Whether dancers can be charged in this currency
+  settlement: z.boolean().default(false),
+});
+
+export const exchangeRatesSchema = z.array(exchangeRateSchema).refine(
+  (rates) => new Set(rates.map((rate) => rate.code)).size === rates.length,
+  "Each currency can only be listed once",
+);
+
+export type ExchangeRate = z.infer<typeof exchangeRateSchema>;
+
+// The currency a registration is charged in and the rate it was charged at
+export interface CurrencySnapshot {
+  currency: string;
+  rate: number;
+}
+
+interface EventCurrencies {
+  baseCurrency?: string | null;
+  currencies?: ExchangeRate[] | null;
+}
+
+/**
+ * Every currency an event can be shown in, the base currency first at a rate
+ * of one. The base currency is always a settlement currency.
+ */
+export function getCurrencyOptions(event: EventCurrencies | null | undefined): ExchangeRate[] {
+  const base = event?.baseCurrency || DEFAULT_BASE_CURRENCY;
+  const others = (event?.currencies ?? []).filter((rate) => rate.code !== base);
+  return [{ code: base, rate: 1, settlement: true }, ...others];
+}
+
+/**
+ * The currency and rate to charge a dancer who chose `code`: the chosen
+ * currency when the event settles in it, otherwise the base currency.
+ */
+export function resolveSettlement(event: EventCurrencies | null | undefined, code?: string | null): CurrencySnapshot {
+  const [base, ...others] = getCurrencyOptions(event);
+  const chosen = others.find((rate) => rate.code === code && rate.settlement);
+  return chosen ? { currency: chosen.code, rate: chosen.rate } : { currency: base.code, rate: 1 };
+}
+
+/** `amount` in the base currency converted at `rate`, rounded to the cent. */
+export function convertAmount(amount: number | string, rate: number | string): number {
+  return Math.round(Number(amount) * Number(rate) * 100) / 100;
+}
+
+/**
+ * `amount` in the base currency as the smallest unit of the charge
+ * currency, for Stripe charges and refunds.
+ */
+export function toChargeCents(amount: number | string, rate: number | string = 1): number {
+  return Math.round(Number(amount) * Number(rate) * 100);
+}
+
+/** The inverse of toChargeCents: `cents` of the charge currency in the base currency. */
+export function fromChargeCents(cents: number, rate: number | string = 1): number {
+  return Math.round(cents / Number(rate)) / 100;
+}
+
+/** `amount`, already in `currency`, formatted for display, e.g. "€1,250.00". */
+export function formatMoney(amount: number | string, currency: string = DEFAULT_BASE_CURRENCY): string {
+  const value = Number(amount) || 0;
+  try {
+    return new Intl.NumberFormat("en", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  } catch {
+    return `${currency} ${value.toLocaleString()}`;
+  }
+}
+
+/**
+ * `amount` in the base currency as charged to a registration, converted at
+ * the rate it was fixed at, e.g. an instalment of a dancer paying in EUR.
+ */
+export function formatChargedAmount(
+  amount: number | string,
+  charge: { currency: string; exchangeRate: number | string },
+): string {
+  return formatMoney(convertAmount(amount, charge.exchangeRate), charge.currency);
+}
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { PACKAGE_LABELS, type PriceQuote } from "./pricing";
+
+// Tax invoices and credit notes. Each registration gets one invoice, built
+// from the price quote it accepted, and a credit note for any refund. Prices
+// include VAT, which is worked out per line at the event's rate. Numbers run
+// sequentially per event and document type, e.g. 2026-INV-0001, and every
+// document is stored as issued so it can be re-rendered identically.
+
+export const INVOICE_DOCUMENT_TYPES = ["invoice", "credit_note"] as const;
+export type InvoiceDocumentType = typeof INVOICE_DOCUMENT_TYPES[number];
+
+export const INVOICE_DOCUMENT_LABELS: Record<InvoiceDocumentType, string> = {
+  invoice: "Tax Invoice",
+  credit_note: "Tax Credit Note",
+};
+
+const NUMBER_CODES: Record<InvoiceDocumentType, string> = {
+  invoice: "INV",
+  credit_note: "CN",
+};
+
+export const invoiceLineSchema = z.object({
+  description: z.string(),
+  quantity: z.number(),
+  amount: z.number(), // Including VAT; negative for discounts
+  net: z.number(),
+  vat: z.number(),
+});
+
+export type InvoiceLine = z.infer<typeof invoiceLineSchema>;
+
+export interface InvoiceTotals {
+  lines: InvoiceLine[];
+  subtotal: number; // Excluding VAT
+  vatAmount: number;
+  total: number;
+}
+
+// Registrations are invoiced once they are paid for or owe a bank transfer;
+// card checkouts still in progress and expired holds are not
+const INVOICEABLE_STATUSES = ["completed", "partially_paid", "refunded", "partially_refunded", "disputed"];
+
+export function isInvoiceable(registration: {
+  paymentStatus: string | null;
+  paymentMethod: string | null;
+  cancelledAt: Date | string | null;
+}): boolean {
+  if (INVOICEABLE_STATUSES.includes(registration.paymentStatus || "")) return true;
+  return registration.paymentMethod === "offline" && registration.paymentStatus === "pending" && !registration.cancelledAt;
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+/** The VAT included in a gross amount at `ratePercent`, and what is left. */
+export function splitVat(gross: number, ratePercent: number): { net: number; vat: number } {
+  const vat = roundCurrency(gross * ratePercent / (100 + ratePercent));
+  return { net: roundCurrency(gross - vat), vat };
+}
+
+/**
+ * The lines to invoice for a registration: its accepted quote, or a single
+ * package line for registrations made before quotes were stored. Items the
+ * package includes are listed at zero so the invoice shows everything booked.
+ */
+export function getInvoiceLineItems(registration: {
+  priceQuote: PriceQuote | null;
+  packageType: string;
+  totalAmount: string | number;
+}): Array<{ description: string; quantity: number; amount: number }> {
+  if (!registration.priceQuote) {
+    return [{
+      description: PACKAGE_LABELS[registration.packageType] || registration.packageType,
+      quantity: 1,
+      amount: Number(registration.totalAmount) || 0,
+    }];
+  }
+  return registration.priceQuote.lineItems.map((line) => ({
+    description: line.included ? `${line.label} (included)` : line.label,
+    quantity: line.quantity,
+    amount: line.amount,
+  }));
+}
+
+/**
+ * The lines of a cancelled registration's credit note: its refund, and any
+ * part of the invoice that was never collected and no longer will be (the
+ * unpaid balance of a bank transfer or payment plan). Empty when nothing is
+ * credited, e.g. a paid registration cancelled without a refund.
+ */
+export function getCreditNoteLineItems(registration: {
+  cancelledAt: Date | string | null;
+  totalAmount: string | number;
+  amountReceived: string | number | null;
+  refundAmount: string | number | null;
+  paymentMethod: string | null;
+  paymentPlan: unknown;
+}): Array<{ description: string; quantity: number; amount: number }> {
+  if (!registration.cancelledAt) return [];
+  const total = Number(registration.totalAmount) || 0;
+  // Card checkouts are only invoiced once paid in full
+  const collected = registration.paymentPlan || registration.paymentMethod === "offline"
+    ? Number(registration.amountReceived) || 0
+    : total;
+  const refund = Math.min(Number(registration.refundAmount) || 0, collected);
+  const uncollected = roundCurrency(Math.max(0, total - collected));
+
+  const lines = [];
+  if (refund > 0) lines.push({ description: "Refund on cancellation", quantity: 1, amount: refund });
+  if (uncollected > 0) lines.push({ description: "Unpaid balance cancelled", quantity: 1, amount: uncollected });
+  return lines;
+}
+
+/** Split each line's VAT out and total the document. */
+export function calculateInvoiceTotals(
+  items: Array<{ description: string; quantity: number; amount: number }>,
+  vatRate: number,
+): InvoiceTotals {
+  const lines = items.map((item) => ({ ...item, ...splitVat(item.amount, vatRate) }));
+  return {
+    lines,
+    subtotal: roundCurrency(lines.reduce((sum, line) => sum + line.net, 0)),
+    vatAmount: roundCurrency(lines.reduce((sum, line) => sum + line.vat, 0)),
+    total: roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+}
+
+/** e.g. formatInvoiceNumber("2026", "credit_note", 7) is "2026-CN-0007". */
+export function formatInvoiceNumber(prefix: string, documentType: InvoiceDocumentType, sequence: number): string {
+  return `${prefix}-${NUMBER_CODES[documentType]}-${String(sequence).padStart(4, "0")}`;
+}
@@ -0,0 +1,219 @@
+// Transactional emails to dancers. Every notification type has a built-in
+// template that admins can override (or switch off) per event. Templates are
+// plain text with {{field}} placeholders, filled from the registration's
+// leaderInfo/followerInfo, the event and whatever triggered the email.
+// Rendered emails go into an outbox and are delivered, and retried, from there.
+
+export const NOTIFICATION_TYPES = [
+  "registration_received",
+  "payment_confirmed",
+  "payment_failed",
+  "waitlist_promoted",
+  "registration_cancelled",
+  "event_reminder",
+  "portal_login",
+] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  registration_received: "Registration received",
+  payment_confirmed: "Payment confirmed",
+  payment_failed: "Payment failed",
+  waitlist_promoted: "Waitlist place offered",
+  registration_cancelled: "Registration cancelled",
+  event_reminder: "Event reminder",
+  portal_login: "Sign-in link",
+};
+
+// Everything the outbox sends: notifications and admin broadcasts
+export const EMAIL_TYPES = [...NOTIFICATION_TYPES, "broadcast"] as const;
+export type EmailType = typeof EMAIL_TYPES[number];
+
+export const EMAIL_TYPE_LABELS: Record<EmailType, string> = {
+  ...NOTIFICATION_TYPE_LABELS,
+  broadcast: "Broadcast",
+};
+
+export const EMAIL_OUTBOX_STATUSES = ["pending", "sent", "failed"] as const;
+export type EmailOutboxStatus = typeof EMAIL_OUTBOX_STATUSES[number];
+
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<NotificationType, EmailTemplateContent> = {
+  registration_received: {
+    subject: "We've received your registration for {{eventName}}",
+    body: [
+      "Dear {{firstName}},",
+      "",
+      "Thank you for registering for {{eventName}}. Your registration code is {{registrationCode}}.",
+      "",
+      "Package: {{packageName}}",
+      "Total: {{totalAmount}}",
+      "",
+      "You can check your registration and payment status at any time: {{registrationLink}}",
+      "",
+      "See you on the dance floor!",
+    ].join("\n"),
+  },
+  payment_confirmed: {
+    subject: "Payment received for {{eventName}}",
+    body: [
+      "Dear {{firstName}},",
+      "",
+      "We've received your payment of {{amount}} for registration {{registrationCode}}.",
+      "Balance remaining: {{balance}}",
+      "",
+      "Your registration: {{registrationLink}}",
+    ].join("\n"),
+  },
+  payment_failed: {
+    subject: "Your payment for {{eventName}} didn't go through",
+    body: [
+      "Dear {{firstName}},",
+      "",
+      "We couldn't take your payment of {{amount}} for registration {{registrationCode}}.",
+      "Reason: {{failureReason}}",
+      "",
+      "Please try again from your registration page, or reply to this email for help: {{registrationLink}}",
+    ].join("\n"),
+  },
+  waitlist_promoted: {
+    subject: "A place is waiting for you at {{eventName}}",
+    body: [
+      "Dear {{firstName}},",
+      "",
+      "Good news: a place has opened up for {{itemName}} and we're holding it for you until {{offerExpiresAt}}.",
+      "Register with this email address ({{email}}) before then to claim it; after that it goes to the next dancer in the queue.",
+    ].join("\n"),
+  },
+  registration_cancelled: {
+    subject: "Your registration for {{eventName}} has been cancelled",
+    body: [
+      "Dear {{firstName}},",
+      "",
+      "Your registration {{registrationCode}} has been cancelled.",
+      "Reason: {{cancellationReason}}",
+      "Refund: {{refundAmount}}",
+      "",
+      "Refunds to a card usually take 5-10 working days to appear. Reply to this email if you think this is a mistake.",
+    ].join("\n"),
+  },
+  event_reminder: {
+    subject: "{{eventName}} starts on {{eventStartDate}}",
+    body: [
+      "Dear {{firstName}},",
+      "",
+      "{{eventName}} is almost here! We look forward to seeing you at {{venue}} from {{eventStartDate}}.",
+      "",
+      "Your registration code is {{registrationCode}}; please have it ready at the door.",
+      "Balance remaining: {{balance}}",
+      "",
+      "Your registration: {{registrationLink}}",
+    ].join("\n"),
+  },
+  portal_login: {
+    subject: "Your sign-in link for {{eventName}}",
+    body: [
+      "Dear {{firstName}},",
+      "",
+      "Use this link to view and manage your registration: {{portalLink}}",
+      "",
+      "The link works once and expires at {{portalLinkExpiresAt}}. If you didn't ask to sign in, you can ignore this email.",
+    ].join("\n"),
+  },
+};
+
+const PERSON_FIELDS = [
+  ["firstName", "first name", "Ana"],
+  ["lastName", "last name", "Díaz"],
+  ["email", "email", "ana@example.com"],
+  ["phone", "phone number", "+971 50 123 4567"],
+  ["country", "country", "Argentina"],
+  ["level", "dance level", "Advanced"],
+] as const;
+
+export interface MergeField {
+  field: string;
+  description: string;
+  example: string;
+}
+
+// Placeholders templates can use. Fields that don't apply to an email (e.g.
+// follower details on a leader's registration) are left empty.
+export const MERGE_FIELDS: MergeField[] = [
+  { field: "firstName", description: "First name of the dancer the email is sent to", example: "Ana" },
+  { field: "email", description: "Address the email is sent to", example: "ana@example.com" },
+  ...(["leader", "follower"] as const).flatMap((person) =>
+    PERSON_FIELDS.map(([key, label, example]) => ({
+      field: `${person}.${key}`,
+      description: `The ${person}'s ${label}`,
+      example: person === "leader" ? example : "",
+    })),
+  ),
+  { field: "registrationCode", description: "Code shown on the confirmation page", example: "FUL-1A2B3C4D" },
+  { field: "packageName", description: "Package booked", example: "Premium Package" },
+  { field: "totalAmount", description: "Registration total", example: "AED 1,450" },
+  { field: "balance", description: "Amount still to pay", example: "AED 0" },
+  { field: "amount", description: "Amount of the payment the email is about", example: "AED 1,450" },
+  { field: "failureReason", description: "Why a payment failed", example: "Your card was declined." },
+  { field: "refundAmount", description: "Amount refunded on cancellation", example: "AED 725" },
+  { field: "cancellationReason", description: "Why the registration was cancelled", example: "Cancelled at the dancer's request" },
+  { field: "itemName", description: "Workshop, milonga or gala table offered from the waitlist", example: "Milonga de Gala" },
+  { field: "offerExpiresAt", description: "When a waitlist offer lapses", example: "14 March 2026, 18:00" },
+  { field: "eventName", description: "Event name", example: "Dubai Tango Festival 2026" },
+  { field: "eventStartDate", description: "First day of the event", example: "18 March 2026" },
+  { field: "eventEndDate", description: "Last day of the event", example: "22 March 2026" },
+  { field: "venue", description: "Event venue", example: "Dubai Marina" },
+  { field: "registrationLink", description: "Link to the dancer's registration page", example: "https://tango.example.com/confirmation?id=..." },
+  { field: "portalLink", description: "One-time link to sign in and manage registrations", example: "https://tango.example.com/my-registration?token=..." },
+  { field: "portalLinkExpiresAt", description: "When the sign-in link lapses", example: "14 March 2026, 18:30" },
+];
+
+export type MergeFields = Record<string, string>;
+
+export const SAMPLE_MERGE_FIELDS: MergeFields = Object.fromEntries(
+  MERGE_FIELDS.map(({ field, example }) => [field, example]),
+);
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/** Fill a template's {{field}} placeholders; unknown or missing fields render empty. */
+export function renderTemplate(template: string, fields: MergeFields): string {
+  return template.replace(PLACEHOLDER, (_, field: string) => fields[field] ?? "");
+}
+
+/** Placeholders in a template that aren't merge fields, e.g. typos. */
+export function getUnknownMergeFields(template: string): string[] {
+  const known = new Set(MERGE_FIELDS.map(({ field }) => field));
+  const unknown = Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]).filter((field) => !known.has(field));
+  return Array.from(new Set(unknown));
+}
+
+/**
+ * The personal merge fields of a registration: `leader.firstName` and so on
+ * from leaderInfo/followerInfo, plus the first name and email of whoever
+ * the email goes to (the leader, or the follower when there is no leader).
+ */
+export function getPersonMergeFields(registration: {
+  leaderInfo: unknown;
+  followerInfo: unknown;
+}): MergeFields {
+  const fields: MergeFields = {};
+  const people = {
+    leader: registration.leaderInfo as Record<string, unknown> | null,
+    follower: registration.followerInfo as Record<string, unknown> | null,
+  };
+  for (const [person, info] of Object.entries(people)) {
+    for (const [key] of PERSON_FIELDS) {
+      const value = info?.[key];
+      fields[`${person}.${key}`] = typeof value === "string" ? value : "";
+    }
+  }
+  const contact = people.leader?.email ? "leader" : "follower";
+  fields.firstName = fields[`${contact}.firstName`] || "dancer";
+  fields.email = fields[`${contact}.email`];
+  return fields;
+}
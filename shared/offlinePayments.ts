@@ -0,0 +1,54 @@
+// Offline payments (bank transfer, cash, card at the registration desk) are
+// recorded by admins in a ledger per registration. The registration's
+// payment status follows the ledger: partially paid until the balance is
+// settled, then completed.
+
+export const OFFLINE_PAYMENT_METHODS = ["bank_transfer", "cash", "card_at_desk"] as const;
+export type OfflinePaymentMethod = typeof OFFLINE_PAYMENT_METHODS[number];
+
+export const OFFLINE_PAYMENT_METHOD_LABELS: Record<OfflinePaymentMethod, string> = {
+  bank_transfer: "Bank transfer",
+  cash: "Cash",
+  card_at_desk: "Card at desk",
+};
+
+// Offline registrations are due this many days after registering, and
+// reminded again every this many days until paid
+export const DEFAULT_PAYMENT_DUE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getOutstandingBalance(totalAmount: string | number, amountReceived: string | number | null): number {
+  return Math.max(0, Math.round((Number(totalAmount) - Number(amountReceived || 0)) * 100) / 100);
+}
+
+/**
+ * The payment status an offline registration has once `amountReceived` of
+ * its total has been recorded.
+ */
+export function getOfflinePaymentStatus(
+  totalAmount: string | number,
+  amountReceived: number,
+): "pending" | "partially_paid" | "completed" {
+  if (amountReceived <= 0) return "pending";
+  return getOutstandingBalance(totalAmount, amountReceived) > 0 ? "partially_paid" : "completed";
+}
+
+export function getDaysOutstanding(createdAt: Date | string | null, now: Date = new Date()): number {
+  if (!createdAt) return 0;
+  return Math.max(0, Math.floor((now.getTime() - new Date(createdAt).getTime()) / DAY_MS));
+}
+
+/**
+ * Whether a reminder is due: the registration is past its due date and
+ * hasn't been reminded within the last `dueDays` days.
+ */
+export function isReminderDue(
+  registration: { createdAt: Date | string | null; lastPaymentReminderAt: Date | string | null },
+  now: Date = new Date(),
+  dueDays: number = DEFAULT_PAYMENT_DUE_DAYS,
+): boolean {
+  if (getDaysOutstanding(registration.createdAt, now) < dueDays) return false;
+  return !registration.lastPaymentReminderAt ||
+    getDaysOutstanding(registration.lastPaymentReminderAt, now) >= dueDays;
+}
@@ -0,0 +1,87 @@
+import { z } from "zod";
+
+// Per-package payment plans: a deposit paid at checkout and the rest in
+// scheduled instalments charged to the card saved with the deposit, e.g.
+// 30% now, 35% on 1 February, 35% on 1 April. Registrations whose final
+// instalment stays unpaid can be cancelled automatically.
+
+export const paymentPlanInstalmentSchema = z.object({
+  dueDate: z.string().refine((value) => !isNaN(Date.parse(value)), "Instalment due date must be a valid date"),
+  percent: z.number().positive().max(100),
+});
+
+export const paymentPlanSchema = z.object({
+  depositPercent: z.number().positive().max(100),
+  instalments: z.array(paymentPlanInstalmentSchema).min(1, "Add at least one instalment after the deposit"),
+  // Days after the final instalment is due before an unpaid registration is
+  // cancelled; null leaves it to the organisers
+  autoCancelAfterDays: z.number().int().min(0).nullable().default(null),
+}).refine(
+  (plan) => Math.abs(plan.depositPercent + plan.instalments.reduce((sum, i) => sum + i.percent, 0) - 100) < 0.001,
+  "The deposit and instalments must add up to 100%",
+);
+
+export type PaymentPlanInstalment = z.infer<typeof paymentPlanInstalmentSchema>;
+export type PaymentPlan = z.infer<typeof paymentPlanSchema>;
+
+export const INSTALMENT_STATUSES = ["pending", "paid", "failed", "cancelled"] as const;
+export type InstalmentStatus = typeof INSTALMENT_STATUSES[number];
+
+export interface ScheduledInstalment {
+  sequence: number; // 0 is the deposit
+  label: string;
+  amount: number;
+  dueDate: Date;
+}
+
+// The plan a registration signed up to, with its amounts worked out
+export interface PaymentSchedule {
+  plan: PaymentPlan;
+  instalments: ScheduledInstalment[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const byDueDate = (a: PaymentPlanInstalment, b: PaymentPlanInstalment) =>
+  Date.parse(a.dueDate) - Date.parse(b.dueDate);
+
+/**
+ * Whether the plan can still be offered at `now`: once every instalment
+ * date has passed there is nothing left to spread the payment over.
+ */
+export function isPaymentPlanAvailable(plan: PaymentPlan | null | undefined, now: Date = new Date()): plan is PaymentPlan {
+  return !!plan && plan.instalments.some((instalment) => Date.parse(instalment.dueDate) > now.getTime());
+}
+
+/**
+ * Split `total` into the deposit and instalments of `plan`. Instalments
+ * whose date has already passed are folded into the deposit, and the final
+ * instalment takes any rounding so the amounts always add up to the total.
+ */
+export function buildInstalmentSchedule(plan: PaymentPlan, total: number, now: Date = new Date()): ScheduledInstalment[] {
+  const upcoming = [...plan.instalments]
+    .sort(byDueDate)
+    .filter((instalment) => Date.parse(instalment.dueDate) > now.getTime());
+  const depositPercent = 100 - upcoming.reduce((sum, instalment) => sum + instalment.percent, 0);
+
+  const totalCents = Math.round(total * 100);
+  const shares = [depositPercent, ...upcoming.map((instalment) => instalment.percent)];
+  const cents = shares.map((percent) => Math.round(totalCents * percent / 100));
+  cents[cents.length - 1] += totalCents - cents.reduce((sum, amount) => sum + amount, 0);
+
+  return cents.map((amount, sequence) => ({
+    sequence,
+    label: sequence === 0 ? "Deposit" : `Instalment ${sequence} of ${upcoming.length}`,
+    amount: amount / 100,
+    dueDate: sequence === 0 ? now : new Date(upcoming[sequence - 1].dueDate),
+  }));
+}
+
+/**
+ * When a registration whose final instalment (due `finalDueDate`) is still
+ * unpaid gets cancelled, or null if the plan never auto-cancels.
+ */
+export function getAutoCancelDate(plan: PaymentPlan | null | undefined, finalDueDate: Date | string): Date | null {
+  if (!plan || plan.autoCancelAfterDays === null || plan.autoCancelAfterDays === undefined) return null;
+  return new Date(new Date(finalDueDate).getTime() + plan.autoCancelAfterDays * DAY_MS);
+}
@@ -0,0 +1,79 @@
+// Admin permission model shared by the API (route guards) and the admin UI
+// (hiding actions). An admin's effective permissions are the defaults for
+// their role, with the `permissions` jsonb column applied on top as explicit
+// grants (true) or revocations (false).
+
+export const ADMIN_ROLES = ["admin", "manager", "staff"] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const ADMIN_PERMISSIONS = [
+  "registrations.read",
+  "registrations.write",
+  "registrations.delete",
+  "registrations.refund",
+  "payments.write",
+  "catalog.write",
+  "seating.write",
+  "pricing.write",
+  "events.read",
+  "events.write",
+  "broadcasts.send",
+  "users.manage",
+  "checkin.scan",
+  "audit.read",
+] as const;
+export type AdminPermission = typeof ADMIN_PERMISSIONS[number];
+
+export type PermissionOverrides = Partial<Record<AdminPermission, boolean>>;
+
+export const PERMISSION_LABELS: Record<AdminPermission, { label: string; description: string }> = {
+  "registrations.read": { label: "View registrations", description: "See attendee details and export registration data" },
+  "registrations.write": { label: "Edit registrations", description: "Create registrations and change selections" },
+  "registrations.delete": { label: "Delete registrations", description: "Remove registrations and release their places" },
+  "registrations.refund": { label: "Refund registrations", description: "Cancel registrations and issue refunds" },
+  "payments.write": { label: "Record payments", description: "Mark offline payments as received" },
+  "catalog.write": { label: "Manage catalogue", description: "Create and edit workshops, milongas and add-ons" },
+  "seating.write": { label: "Manage seating", description: "Edit gala tables, seats and the layout image" },
+  "pricing.write": { label: "Manage pricing", description: "Edit pricing tiers, package configurations and promo codes" },
+  "events.read": { label: "View events", description: "See the event list and switch between years" },
+  "events.write": { label: "Manage events", description: "Create, edit and switch the current event" },
+  "broadcasts.send": { label: "Send broadcasts", description: "Email announcements to groups of attendees" },
+  "users.manage": { label: "Manage admin users", description: "Invite admins and change their roles and permissions" },
+  "checkin.scan": { label: "Door check-in", description: "Scan tickets and check attendees in" },
+  "audit.read": { label: "View audit log", description: "See which admin changed what, and when" },
+};
+
+export const ROLE_DEFAULT_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  admin: ADMIN_PERMISSIONS,
+  manager: ADMIN_PERMISSIONS.filter((permission) => permission !== "users.manage" && permission !== "audit.read"),
+  staff: ["registrations.read", "events.read", "checkin.scan"],
+};
+
+const isAdminRole = (role: unknown): role is AdminRole =>
+  typeof role === "string" && (ADMIN_ROLES as readonly string[]).includes(role);
+
+/**
+ * Resolve the effective permission list for a role and its overrides.
+ * Unknown roles get no defaults; unknown override keys are ignored.
+ */
+export function resolvePermissions(role: unknown, overrides?: unknown): AdminPermission[] {
+  const granted = new Set<AdminPermission>(isAdminRole(role) ? ROLE_DEFAULT_PERMISSIONS[role] : []);
+
+  if (overrides && typeof overrides === "object" && !Array.isArray(overrides)) {
+    for (const [permission, allowed] of Object.entries(overrides as Record<string, unknown>)) {
+      if (!(ADMIN_PERMISSIONS as readonly string[]).includes(permission)) continue;
+      if (allowed === true) granted.add(permission as AdminPermission);
+      if (allowed === false) granted.delete(permission as AdminPermission);
+    }
+  }
+
+  return ADMIN_PERMISSIONS.filter((permission) => granted.has(permission));
+}
+
+export function hasPermission(
+  admin: { role: unknown; permissions?: unknown } | null | undefined,
+  permission: AdminPermission,
+): boolean {
+  if (!admin) return false;
+  return resolvePermissions(admin.role, admin.permissions).includes(permission);
+}
@@ -0,0 +1,41 @@
+// The dancer portal: dancers sign in with a one-time link emailed to the
+// address on their registration and can then update their details, change
+// what they booked, pay any balance the change leaves and ask for their
+// registration to be cancelled. Changes go through the same validation,
+// capacity checks and pricing as a new registration.
+
+export const PORTAL_TOKEN_KINDS = ["login", "session"] as const;
+export type PortalTokenKind = typeof PORTAL_TOKEN_KINDS[number];
+
+// A card payment made from the portal for a balance left by a change
+export interface TopUpPayment {
+  paymentIntentId: string;
+  amount: number; // In the event's base currency
+  paidAt: string;
+}
+
+interface PortalRegistration {
+  paymentMethod: string | null;
+  paymentStatus: string | null;
+  paymentPlan: unknown;
+  cancelledAt: Date | string | null;
+}
+
+/**
+ * Why the dancer can't change a registration's bookings from the portal, or
+ * undefined when they can. Card checkouts must be paid first, and payment
+ * plans are only changed by the organisers since their schedule is fixed.
+ */
+export function getSelectionLock(registration: PortalRegistration): string | undefined {
+  const status = registration.paymentStatus || "pending";
+  if (registration.cancelledAt || status === "cancelled") return "This registration has been cancelled.";
+  if (status === "expired") return "This registration expired unpaid.";
+  if (status === "refunded" || status === "partially_refunded" || status === "disputed") {
+    return "This registration has a refund or dispute on it. Please contact us to change it.";
+  }
+  if (registration.paymentPlan) return "Registrations on a payment plan can only be changed by the organisers.";
+  if (registration.paymentMethod === "stripe" && (status === "pending" || status === "failed")) {
+    return "Please complete your payment before changing your registration.";
+  }
+  return undefined;
+}
@@ -0,0 +1,287 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { quoteRegistration, type PricingInput, type PricingPackageConfig, type PricingSelection, type PricingTierRules } from "./pricing";
+import { PromoCodeError, type PromoCodeRules } from "./promoCodes";
+
+const NOW = new Date("2030-02-01T12:00:00Z");
+const PAST = "2030-01-15";
+const FUTURE = "2030-03-01";
+
+const EVENT = {
+  fullPackageStandardPrice: "500",
+  fullPackageEarlyBirdPrice: "400",
+  fullPackageEarlyBirdEndDate: PAST,
+  eveningPackageStandardPrice: "200",
+  premiumAccommodation4NightsSinglePrice: "1500",
+  premiumAccommodation4NightsDoublePrice: "2400",
+  premiumAccommodation4NightsEarlyBirdSinglePrice: "1300",
+  premiumAccommodation4NightsEarlyBirdDoublePrice: "2100",
+  premiumAccommodation4NightsEarlyBirdEndDate: PAST,
+};
+
+const WORKSHOPS = Array.from({ length: 7 }, (_, index) => ({ id: `w${index + 1}`, title: `Workshop ${index + 1}`, price: "100" }));
+
+const CATALOG: PricingInput["catalog"] = {
+  workshops: WORKSHOPS,
+  milongas: [{ id: "m1", name: "Friday milonga", price: "50", earlyBirdPrice: "40", earlyBirdEndDate: FUTURE }],
+  tables: [{ id: "t1", tableNumber: 1, price: "150", earlyBirdPrice: null, earlyBirdEndDate: null }],
+  addons: [{ id: "a1", name: "T-shirt", price: "25" }],
+};
+
+const CONFIG: PricingPackageConfig = {
+  name: "Configured package",
+  basePrice: "600",
+  coupleMultiplier: "1.8",
+  includedWorkshops: 2,
+  includedMilongas: true,
+  includedGalaDinner: false,
+  workshopOveragePrice: "80",
+  customWorkshopPricing: null,
+};
+
+const tier = (overrides: Partial<PricingTierRules>): PricingTierRules => ({
+  name: "Tier",
+  startDate: new Date("2030-01-01"),
+  endDate: new Date("2030-12-31"),
+  discountPercentage: "0",
+  discountAmount: "0",
+  isActive: true,
+  priority: 0,
+  ...overrides,
+});
+
+const promo = (overrides: Partial<PromoCodeRules>): NonNullable<PricingInput["promo"]> => ({
+  rules: {
+    code: "TANGO",
+    discountType: "percentage",
+    discountValue: 20,
+    isActive: true,
+    validFrom: null,
+    validUntil: null,
+    maxUses: null,
+    maxUsesPerEmail: null,
+    packageTypes: [],
+    roles: [],
+    ...overrides,
+  },
+  usage: { total: 0, byEmail: 0 },
+});
+
+const quote = (selection: PricingSelection, overrides: Partial<PricingInput> = {}) =>
+  quoteRegistration({ event: EVENT as PricingInput["event"], catalog: CATALOG, selection, now: NOW, ...overrides });
+
+const workshopIds = (count: number) => WORKSHOPS.slice(0, count).map((workshop) => workshop.id);
+
+interface QuoteCase {
+  name: string;
+  selection: PricingSelection;
+  overrides?: Partial<PricingInput>;
+  subtotal: number;
+  total: number;
+}
+
+describe("quoteRegistration", () => {
+  const packageCases: QuoteCase[] = [
+    { name: "full pass at the standard price once early bird has ended", selection: { packageType: "full", role: "leader" }, subtotal: 500, total: 500 },
+    {
+      name: "full pass at the early-bird price",
+      selection: { packageType: "full", role: "leader" },
+      overrides: { event: { ...EVENT, fullPackageEarlyBirdEndDate: FUTURE } },
+      subtotal: 400,
+      total: 400,
+    },
+    {
+      name: "24-hour price beating early bird",
+      selection: { packageType: "full", role: "leader" },
+      overrides: {
+        event: {
+          ...EVENT,
+          fullPackageEarlyBirdEndDate: FUTURE,
+          fullPackage24HourPrice: "300",
+          fullPackage24HourStartDate: "2030-01-31",
+          fullPackage24HourEndDate: "2030-02-02",
+        },
+      },
+      subtotal: 300,
+      total: 300,
+    },
+    { name: "full pass for a couple", selection: { packageType: "full", role: "couple" }, subtotal: 1000, total: 1000 },
+    { name: "evening pass", selection: { packageType: "evening", role: "follower" }, subtotal: 200, total: 200 },
+    { name: "accommodation priced per single room", selection: { packageType: "premium-accommodation-4nights", role: "leader" }, subtotal: 1500, total: 1500 },
+    { name: "accommodation priced per double room", selection: { packageType: "premium-accommodation-4nights", role: "couple" }, subtotal: 2400, total: 2400 },
+    {
+      name: "package configuration with a couple multiplier",
+      selection: { packageType: "full", role: "couple" },
+      overrides: { packageConfig: CONFIG },
+      subtotal: 1080,
+      total: 1080,
+    },
+  ];
+
+  const workshopCases: QuoteCase[] = [
+    { name: "custom workshops at the workshop price", selection: { packageType: "custom", role: "leader", workshopIds: workshopIds(2) }, subtotal: 200, total: 200 },
+    { name: "custom workshops for a couple", selection: { packageType: "custom", role: "couple", workshopIds: workshopIds(2) }, subtotal: 400, total: 400 },
+    {
+      name: "event-wide workshop price over the workshop's own",
+      selection: { packageType: "custom", role: "leader", workshopIds: workshopIds(2) },
+      overrides: { event: { ...EVENT, workshopStandardPrice: "120" } },
+      subtotal: 240,
+      total: 240,
+    },
+    { name: "full pass covering its first six workshops", selection: { packageType: "full", role: "leader", workshopIds: workshopIds(7) }, subtotal: 600, total: 600 },
+    {
+      name: "configured overage price past the included workshops",
+      selection: { packageType: "full", role: "leader", workshopIds: workshopIds(3) },
+      overrides: { packageConfig: CONFIG },
+      subtotal: 680,
+      total: 680,
+    },
+    {
+      name: "bundle price split over the workshops and rounded per line",
+      selection: { packageType: "custom", role: "leader", workshopIds: workshopIds(3) },
+      overrides: { packageConfig: { ...CONFIG, basePrice: "0", includedWorkshops: 0, customWorkshopPricing: { 3: "250" } } },
+      subtotal: 249.99,
+      total: 249.99,
+    },
+  ];
+
+  const extrasCases: QuoteCase[] = [
+    { name: "milonga at its early-bird price", selection: { packageType: "custom", role: "leader", milongaIds: ["m1"] }, subtotal: 40, total: 40 },
+    { name: "milonga included in a pass", selection: { packageType: "evening", role: "leader", milongaIds: ["m1"] }, subtotal: 200, total: 200 },
+    { name: "gala seat surcharge", selection: { packageType: "custom", role: "leader", selectedTableNumber: 1 }, subtotal: 150, total: 150 },
+    { name: "gala seats for a couple", selection: { packageType: "custom", role: "couple", selectedTableNumber: 1 }, subtotal: 300, total: 300 },
+    { name: "gala seat included in a pass", selection: { packageType: "evening", role: "leader", selectedTableNumber: 1 }, subtotal: 200, total: 200 },
+    {
+      name: "gala seat charged when the configuration leaves it out",
+      selection: { packageType: "full", role: "leader", selectedTableNumber: 1 },
+      overrides: { packageConfig: CONFIG },
+      subtotal: 750,
+      total: 750,
+    },
+    { name: "unknown table number ignored", selection: { packageType: "custom", role: "leader", selectedTableNumber: 9 }, subtotal: 0, total: 0 },
+    { name: "add-ons by quantity", selection: { packageType: "custom", role: "leader", addons: [{ id: "a1", quantity: 3 }] }, subtotal: 75, total: 75 },
+  ];
+
+  const discountCases: QuoteCase[] = [
+    {
+      name: "tier percentage and amount off",
+      selection: { packageType: "full", role: "leader" },
+      overrides: { tiers: [tier({ discountPercentage: "10", discountAmount: "20" })] },
+      subtotal: 500,
+      total: 430,
+    },
+    {
+      name: "highest-priority live tier",
+      selection: { packageType: "full", role: "leader" },
+      overrides: {
+        tiers: [
+          tier({ name: "Low", discountPercentage: "50", priority: 1 }),
+          tier({ name: "High", discountPercentage: "10", priority: 2 }),
+          tier({ name: "Inactive", discountPercentage: "90", priority: 3, isActive: false }),
+          tier({ name: "Over", discountPercentage: "90", priority: 4, endDate: new Date("2030-01-31") }),
+        ],
+      },
+      subtotal: 500,
+      total: 450,
+    },
+    {
+      name: "tier discount capped at the subtotal",
+      selection: { packageType: "evening", role: "leader" },
+      overrides: { tiers: [tier({ discountAmount: "250" })] },
+      subtotal: 200,
+      total: 0,
+    },
+    {
+      name: "tier percentage rounded to cents",
+      selection: { packageType: "custom", role: "leader", workshopIds: workshopIds(1) },
+      overrides: { tiers: [tier({ discountPercentage: "33.333" })] },
+      subtotal: 100,
+      total: 66.67,
+    },
+    {
+      name: "promo percentage on the total after the tier",
+      selection: { packageType: "full", role: "leader" },
+      overrides: { tiers: [tier({ discountPercentage: "10" })], promo: promo({}) },
+      subtotal: 500,
+      total: 360,
+    },
+    {
+      name: "promo fixed amount capped at the subtotal",
+      selection: { packageType: "evening", role: "leader" },
+      overrides: { promo: promo({ discountType: "fixed_amount", discountValue: 500 }) },
+      subtotal: 200,
+      total: 0,
+    },
+    {
+      name: "promo free workshop among the charged ones",
+      selection: { packageType: "full", role: "leader", workshopIds: workshopIds(7) },
+      overrides: { promo: promo({ discountType: "free_workshop", discountValue: 1 }) },
+      subtotal: 600,
+      total: 500,
+    },
+    {
+      name: "promo free gala seat",
+      selection: { packageType: "custom", role: "couple", selectedTableNumber: 1 },
+      overrides: { promo: promo({ discountType: "free_gala_seat", discountValue: 1 }) },
+      subtotal: 300,
+      total: 150,
+    },
+  ];
+
+  for (const [group, cases] of [
+    ["packages", packageCases],
+    ["workshops", workshopCases],
+    ["milongas, gala seats and add-ons", extrasCases],
+    ["discounts", discountCases],
+  ] as const) {
+    describe(group, () => {
+      for (const { name, selection, overrides, subtotal, total } of cases) {
+        it(name, () => {
+          const result = quote(selection, overrides);
+          assert.equal(result.subtotal, subtotal);
+          assert.equal(result.total, total);
+          assert.equal(
+            Math.round(result.lineItems.reduce((sum, line) => sum + line.amount, 0) * 100) / 100,
+            Math.max(0, total),
+            "line items don't add up to the total",
+          );
+        });
+      }
+    });
+  }
+
+  it("lists included items at 0", () => {
+    const result = quote({ packageType: "evening", role: "leader", milongaIds: ["m1"], selectedTableNumber: 1 });
+    const included = result.lineItems.filter((line) => line.included);
+    assert.deepEqual(included.map((line) => [line.kind, line.amount]), [["milonga", 0], ["gala_seat", 0]]);
+  });
+
+  it("keeps add-on options on their line", () => {
+    const result = quote({ packageType: "custom", role: "leader", addons: [{ id: "a1", quantity: 1, options: { size: "M" } }] });
+    assert.deepEqual(result.lineItems[0].options, { size: "M" });
+  });
+
+  it("names the tier and promo code that applied", () => {
+    const result = quote(
+      { packageType: "full", role: "leader" },
+      { tiers: [tier({ name: "Early", discountPercentage: "10" })], promo: promo({}) },
+    );
+    assert.equal(result.tierName, "Early");
+    assert.equal(result.promoCode, "TANGO");
+    assert.deepEqual(result.lineItems.map((line) => line.kind), ["package", "tier_discount", "promo_discount"]);
+  });
+
+  it("rejects a promo code the package doesn't allow", () => {
+    assert.throws(
+      () => quote({ packageType: "evening", role: "leader" }, { promo: promo({ packageTypes: ["full"] }) }),
+      PromoCodeError,
+    );
+  });
+
+  it("rejects a free workshop code when no workshop is charged", () => {
+    assert.throws(
+      () => quote({ packageType: "full", role: "leader", workshopIds: workshopIds(2) }, { promo: promo({ discountType: "free_workshop", discountValue: 1 }) }),
+      PromoCodeError,
+    );
+  });
+});
@@ -0,0 +1,400 @@
+// Registration pricing. quoteRegistration is the single source of truth for
+// what a selection costs: the checkout uses it to display the breakdown and
+// the server uses it to compute every total it stores. It is pure - all
+// catalog data and the clock are passed in.
+
+import type { Addon, Event, Milonga, PackageConfiguration, PricingTier, Table, Workshop } from "./schema";
+import { evaluatePromoCode, type PromoCodeRules, type PromoUsage } from "./promoCodes";
+
+// Defaults used when an event has no package configuration for a package
+export const WORKSHOP_INCLUDED_PACKAGES = new Set([
+  "full",
+  "premium-accommodation-4nights",
+  "premium-accommodation-3nights",
+]);
+export const GALA_INCLUDED_PACKAGES = new Set([
+  "full",
+  "premium-accommodation-4nights",
+  "premium-accommodation-3nights",
+  "evening",
+]);
+export const INCLUDED_WORKSHOP_LIMIT = 6;
+
+export const PACKAGE_LABELS: Record<string, string> = {
+  full: "Premium Package",
+  evening: "Evening Package",
+  custom: "Create Your Own Package",
+  "premium-accommodation-4nights": "Premium Package + 4 Nights Accommodation",
+  "premium-accommodation-3nights": "Premium Package + 3 Nights Accommodation",
+};
+
+export type QuoteLineKind =
+  | "package"
+  | "workshop"
+  | "milonga"
+  | "gala_seat"
+  | "addon"
+  | "tier_discount"
+  | "promo_discount";
+
+export interface QuoteLineItem {
+  kind: QuoteLineKind;
+  label: string;
+  itemId?: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Negative for discounts, 0 for items the package includes
+  included?: boolean;
+  options?: Record<string, string>;
+}
+
+export interface PriceQuote {
+  lineItems: QuoteLineItem[];
+  subtotal: number; // Before tier and promo discounts
+  tierDiscount: number;
+  promoDiscount: number;
+  total: number;
+  tierName: string | null;
+  promoCode: string | null;
+  pricedAt: string;
+}
+
+export interface PricingSelection {
+  packageType?: string | null;
+  role?: string | null;
+  workshopIds?: string[] | null;
+  milongaIds?: string[] | null;
+  selectedTableNumber?: number | null;
+  addons?: Array<{ id: string; quantity: number; options?: Record<string, string> }> | null;
+}
+
+export interface PricingCatalog {
+  workshops: Pick<Workshop, "id" | "title" | "price">[];
+  milongas: Pick<Milonga, "id" | "name" | "price" | "earlyBirdPrice" | "earlyBirdEndDate">[];
+  tables: Pick<Table, "id" | "tableNumber" | "price" | "earlyBirdPrice" | "earlyBirdEndDate">[];
+  addons: Pick<Addon, "id" | "name" | "price">[];
+}
+
+export type PricingPackageConfig = Pick<
+  PackageConfiguration,
+  | "name"
+  | "basePrice"
+  | "coupleMultiplier"
+  | "includedWorkshops"
+  | "includedMilongas"
+  | "includedGalaDinner"
+  | "workshopOveragePrice"
+  | "customWorkshopPricing"
+>;
+
+export type PricingTierRules = Pick<
+  PricingTier,
+  "name" | "startDate" | "endDate" | "discountPercentage" | "discountAmount" | "isActive" | "priority"
+>;
+
+export interface PricingInput {
+  event?: Partial<Event> | null;
+  // The event's active configuration for the selected package; overrides
+  // the event's package prices and the default inclusions
+  packageConfig?: PricingPackageConfig | null;
+  tiers?: PricingTierRules[];
+  catalog: PricingCatalog;
+  selection: PricingSelection;
+  promo?: { rules: PromoCodeRules; usage: PromoUsage } | null;
+  now: Date;
+}
+
+const toNumber = (value: unknown) => {
+  if (!value) return 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Deadlines are inclusive: a price ending today is still available today
+const isOnOrAfter = (value: Date | string | null | undefined, now: Date) =>
+  !!value && new Date(value).getTime() >= now.getTime();
+
+const isWithinRange = (start: Date | string | null | undefined, end: Date | string | null | undefined, now: Date) =>
+  !!start && !!end && now >= new Date(start) && now <= new Date(end);
+
+type PassPriceFields = {
+  standard: unknown;
+  earlyBird: unknown;
+  earlyBirdEnd: string | null | undefined;
+  flash: unknown;
+  flashStart: string | null | undefined;
+  flashEnd: string | null | undefined;
+};
+
+// A 24-hour deal beats early bird, which beats the standard price
+function getPassPrice(prices: PassPriceFields, now: Date): number {
+  if (toNumber(prices.flash) > 0 && isWithinRange(prices.flashStart, prices.flashEnd, now)) {
+    return toNumber(prices.flash);
+  }
+  if (toNumber(prices.earlyBird) > 0 && isOnOrAfter(prices.earlyBirdEnd, now)) {
+    return toNumber(prices.earlyBird);
+  }
+  return toNumber(prices.standard);
+}
+
+function getAccommodationPrice(event: Partial<Event>, nights: 3 | 4, isSingleOccupancy: boolean, now: Date): number {
+  const prices = nights === 4
+    ? {
+        earlyBirdEnd: event.premiumAccommodation4NightsEarlyBirdEndDate,
+        earlyBirdSingle: event.premiumAccommodation4NightsEarlyBirdSinglePrice,
+        earlyBirdDouble: event.premiumAccommodation4NightsEarlyBirdDoublePrice,
+        single: event.premiumAccommodation4NightsSinglePrice,
+        double: event.premiumAccommodation4NightsDoublePrice,
+      }
+    : {
+        earlyBirdEnd: event.premiumAccommodation3NightsEarlyBirdEndDate,
+        earlyBirdSingle: event.premiumAccommodation3NightsEarlyBirdSinglePrice,
+        earlyBirdDouble: event.premiumAccommodation3NightsEarlyBirdDoublePrice,
+        single: event.premiumAccommodation3NightsSinglePrice,
+        double: event.premiumAccommodation3NightsDoublePrice,
+      };
+
+  if (isOnOrAfter(prices.earlyBirdEnd, now)) {
+    return toNumber(isSingleOccupancy ? prices.earlyBirdSingle : prices.earlyBirdDouble);
+  }
+  return toNumber(isSingleOccupancy ? prices.single : prices.double);
+}
+
+/**
+ * The package price for the whole registration. Full and evening passes are
+ * priced per dancer; accommodation packages are priced per room.
+ */
+function getPackagePrice(
+  event: Partial<Event> | null | undefined,
+  config: PricingPackageConfig | null | undefined,
+  packageType: string | null | undefined,
+  role: string | null | undefined,
+  now: Date,
+): number {
+  const isCouple = role === "couple";
+  if (config) {
+    return toNumber(config.basePrice) * (isCouple ? toNumber(config.coupleMultiplier ?? 2) : 1);
+  }
+  if (!event) return 0;
+
+  const dancers = isCouple ? 2 : 1;
+  switch (packageType) {
+    case "full":
+      return getPassPrice({
+        standard: event.fullPackageStandardPrice,
+        earlyBird: event.fullPackageEarlyBirdPrice,
+        earlyBirdEnd: event.fullPackageEarlyBirdEndDate,
+        flash: event.fullPackage24HourPrice,
+        flashStart: event.fullPackage24HourStartDate,
+        flashEnd: event.fullPackage24HourEndDate,
+      }, now) * dancers;
+    case "evening":
+      return getPassPrice({
+        standard: event.eveningPackageStandardPrice,
+        earlyBird: event.eveningPackageEarlyBirdPrice,
+        earlyBirdEnd: event.eveningPackageEarlyBirdEndDate,
+        flash: event.eveningPackage24HourPrice,
+        flashStart: event.eveningPackage24HourStartDate,
+        flashEnd: event.eveningPackage24HourEndDate,
+      }, now) * dancers;
+    case "premium-accommodation-4nights":
+      return getAccommodationPrice(event, 4, !isCouple, now);
+    case "premium-accommodation-3nights":
+      return getAccommodationPrice(event, 3, !isCouple, now);
+    default:
+      return 0;
+  }
+}
+
+/** Per-dancer price of a workshop; event-wide workshop prices override the workshop's own. */
+export function getWorkshopUnitPrice(
+  workshop: Pick<Workshop, "price">,
+  event: Partial<Event> | null | undefined,
+  now: Date,
+): number {
+  const earlyBirdPrice = toNumber(event?.workshopEarlyBirdPrice);
+  if (earlyBirdPrice > 0 && isOnOrAfter(event?.workshopEarlyBirdEndDate, now)) {
+    return earlyBirdPrice;
+  }
+  const standardPrice = toNumber(event?.workshopStandardPrice);
+  if (standardPrice > 0) {
+    return standardPrice;
+  }
+  return toNumber(workshop.price);
+}
+
+/** Per-dancer price of a milonga or gala seat, honouring its early-bird price. */
+export function getEarlyBirdAwarePrice(
+  item: { price: unknown; earlyBirdPrice?: unknown; earlyBirdEndDate?: Date | string | null },
+  now: Date,
+): number {
+  const earlyBirdPrice = toNumber(item.earlyBirdPrice);
+  if (earlyBirdPrice > 0 && isOnOrAfter(item.earlyBirdEndDate, now)) {
+    return earlyBirdPrice;
+  }
+  return toNumber(item.price);
+}
+
+/** The live tier with the highest priority, as getActivePricingTier picks it. */
+function getActiveTier(tiers: PricingTierRules[], now: Date): PricingTierRules | undefined {
+  return tiers
+    .filter((tier) => tier.isActive !== false && isWithinRange(tier.startDate, tier.endDate, now))
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))[0];
+}
+
+/**
+ * Price a registration selection as an itemised quote. Items the package
+ * includes are listed at 0. The active pricing tier discounts the whole
+ * order, then the promo code (if any) is evaluated against what is left;
+ * an unusable code throws PromoCodeError.
+ */
+export function quoteRegistration(input: PricingInput): PriceQuote {
+  const { event, packageConfig: config, catalog, selection, now } = input;
+  const packageType = selection.packageType ?? "";
+  const dancers = selection.role === "couple" ? 2 : 1;
+  const lineItems: QuoteLineItem[] = [];
+
+  const addLine = (line: Omit<QuoteLineItem, "amount">) => {
+    const amount = line.included ? 0 : roundCurrency(line.unitPrice * line.quantity);
+    lineItems.push({ ...line, unitPrice: roundCurrency(line.unitPrice), amount });
+    return amount;
+  };
+
+  const packagePrice = getPackagePrice(event, config, packageType, selection.role, now);
+  if (packageType && (packageType !== "custom" || packagePrice > 0)) {
+    addLine({
+      kind: "package",
+      label: config?.name || PACKAGE_LABELS[packageType] || packageType,
+      quantity: 1,
+      unitPrice: packagePrice,
+    });
+  }
+
+  // Workshops: the first ones selected are covered by the package, the rest
+  // are charged at the overage price, a bundle price, or the workshop price
+  const includedWorkshops = config
+    ? config.includedWorkshops ?? 0
+    : WORKSHOP_INCLUDED_PACKAGES.has(packageType) ? INCLUDED_WORKSHOP_LIMIT : 0;
+  const workshops = (selection.workshopIds || [])
+    .map((id) => catalog.workshops.find((workshop) => workshop.id === id))
+    .filter((workshop): workshop is PricingCatalog["workshops"][number] => !!workshop);
+  const chargedWorkshopCount = Math.max(0, workshops.length - includedWorkshops);
+  const bundlePrice = config
+    ? toNumber((config.customWorkshopPricing as Record<string, unknown> | null)?.[String(workshops.length)])
+    : 0;
+  const overagePrice = config ? toNumber(config.workshopOveragePrice) : 0;
+
+  const chargedWorkshopPrices: number[] = [];
+  workshops.forEach((workshop, index) => {
+    const included = index < includedWorkshops;
+    const unitPrice = bundlePrice > 0 && chargedWorkshopCount > 0
+      ? bundlePrice / chargedWorkshopCount
+      : overagePrice > 0 ? overagePrice : getWorkshopUnitPrice(workshop, event, now);
+    const amount = addLine({
+      kind: "workshop",
+      label: workshop.title,
+      itemId: workshop.id,
+      quantity: dancers,
+      unitPrice,
+      included,
+    });
+    if (!included) chargedWorkshopPrices.push(amount);
+  });
+
+  const milongasIncluded = config ? !!config.includedMilongas : packageType !== "custom";
+  for (const id of selection.milongaIds || []) {
+    const milonga = catalog.milongas.find((item) => item.id === id);
+    if (!milonga) continue;
+    addLine({
+      kind: "milonga",
+      label: milonga.name,
+      itemId: milonga.id,
+      quantity: dancers,
+      unitPrice: getEarlyBirdAwarePrice(milonga, now),
+      included: milongasIncluded,
+    });
+  }
+
+  const chargedGalaSeatPrices: number[] = [];
+  const table = selection.selectedTableNumber
+    ? catalog.tables.find((item) => item.tableNumber === selection.selectedTableNumber)
+    : undefined;
+  if (table) {
+    const included = config ? !!config.includedGalaDinner : GALA_INCLUDED_PACKAGES.has(packageType);
+    const seatPrice = getEarlyBirdAwarePrice(table, now);
+    addLine({
+      kind: "gala_seat",
+      label: `Gala dinner - Table ${table.tableNumber}`,
+      itemId: table.id,
+      quantity: dancers,
+      unitPrice: seatPrice,
+      included,
+    });
+    if (!included) {
+      for (let seat = 0; seat < dancers; seat++) chargedGalaSeatPrices.push(seatPrice);
+    }
+  }
+
+  for (const selected of selection.addons || []) {
+    const addon = catalog.addons.find((item) => item.id === selected.id);
+    if (!addon) continue;
+    addLine({
+      kind: "addon",
+      label: addon.name,
+      itemId: addon.id,
+      quantity: selected.quantity,
+      unitPrice: toNumber(addon.price),
+      ...(selected.options && Object.keys(selected.options).length > 0 ? { options: selected.options } : {}),
+    });
+  }
+
+  const subtotal = roundCurrency(lineItems.reduce((sum, line) => sum + line.amount, 0));
+
+  let tierDiscount = 0;
+  const tier = getActiveTier(input.tiers || [], now);
+  if (tier) {
+    const percentageOff = subtotal * Math.min(toNumber(tier.discountPercentage), 100) / 100;
+    tierDiscount = roundCurrency(Math.min(subtotal, percentageOff + toNumber(tier.discountAmount)));
+    if (tierDiscount > 0) {
+      lineItems.push({ kind: "tier_discount", label: tier.name, quantity: 1, unitPrice: -tierDiscount, amount: -tierDiscount });
+    }
+  }
+
+  let promoDiscount = 0;
+  if (input.promo) {
+    promoDiscount = evaluatePromoCode(
+      input.promo.rules,
+      {
+        packageType,
+        role: selection.role ?? "",
+        subtotal: roundCurrency(subtotal - tierDiscount),
+        chargedWorkshopPrices,
+        chargedGalaSeatPrices,
+      },
+      input.promo.usage,
+      now,
+    );
+    if (promoDiscount > 0) {
+      lineItems.push({
+        kind: "promo_discount",
+        label: `Promo code ${input.promo.rules.code}`,
+        quantity: 1,
+        unitPrice: -promoDiscount,
+        amount: -promoDiscount,
+      });
+    }
+  }
+
+  return {
+    lineItems,
+    subtotal,
+    tierDiscount,
+    promoDiscount,
+    total: roundCurrency(Math.max(0, subtotal - tierDiscount - promoDiscount)),
+    tierName: tier && tierDiscount > 0 ? tier.name : null,
+    promoCode: input.promo ? input.promo.rules.code : null,
+    pricedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,130 @@
+// Promo code rules. The server applies them inside the registration total so
+// the discount can't be tampered with; usage counts come from the
+// registrations table, which keeps evaluation a pure function.
+
+export const PROMO_DISCOUNT_TYPES = ["percentage", "fixed_amount", "free_workshop", "free_gala_seat"] as const;
+export type PromoDiscountType = typeof PROMO_DISCOUNT_TYPES[number];
+
+export const PROMO_DISCOUNT_TYPE_LABELS: Record<PromoDiscountType, string> = {
+  percentage: "Percentage off",
+  fixed_amount: "Fixed amount off",
+  free_workshop: "Free workshop(s)",
+  free_gala_seat: "Free gala seat(s)",
+};
+
+export interface PromoCodeRules {
+  code: string;
+  discountType: string;
+  // Percent for 'percentage', AED for 'fixed_amount', number of free items otherwise
+  discountValue: string | number | null;
+  isActive: boolean | null;
+  validFrom: Date | string | null;
+  validUntil: Date | string | null;
+  maxUses: number | null;
+  maxUsesPerEmail: number | null;
+  packageTypes: unknown; // string[]; empty allows every package
+  roles: unknown; // string[]; empty allows every role
+}
+
+export interface PromoOrder {
+  packageType: string;
+  role: string;
+  subtotal: number;
+  // What the dancer pays for each workshop and each gala seat not already
+  // included in their package
+  chargedWorkshopPrices: number[];
+  chargedGalaSeatPrices: number[];
+}
+
+export interface PromoUsage {
+  total: number;
+  byEmail: number;
+}
+
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromoCodeError";
+  }
+}
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+const asList = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+
+const sumLargest = (prices: number[], count: number) =>
+  [...prices].sort((a, b) => b - a).slice(0, count).reduce((total, price) => total + price, 0);
+
+/**
+ * Throw if the code has run out of uses overall or for this email. Also
+ * re-checked inside the registration transaction to close the race between
+ * two last uses.
+ */
+export function checkPromoUsage(promo: Pick<PromoCodeRules, "maxUses" | "maxUsesPerEmail">, usage: PromoUsage): void {
+  if (promo.maxUses && usage.total >= promo.maxUses) {
+    throw new PromoCodeError("This promo code has reached its usage limit.");
+  }
+  if (promo.maxUsesPerEmail && usage.byEmail >= promo.maxUsesPerEmail) {
+    throw new PromoCodeError("You have already used this promo code.");
+  }
+}
+
+/**
+ * The discount a promo code gives on an order, never more than the subtotal.
+ * Throws PromoCodeError with a customer-facing message when the code can't
+ * be used for this order.
+ */
+export function evaluatePromoCode(
+  promo: PromoCodeRules,
+  order: PromoOrder,
+  usage: PromoUsage,
+  now: Date = new Date(),
+): number {
+  if (!promo.isActive) {
+    throw new PromoCodeError("This promo code is no longer active.");
+  }
+  if (promo.validFrom && now < new Date(promo.validFrom)) {
+    throw new PromoCodeError("This promo code is not valid yet.");
+  }
+  if (promo.validUntil && now > new Date(promo.validUntil)) {
+    throw new PromoCodeError("This promo code has expired.");
+  }
+
+  const packageTypes = asList(promo.packageTypes);
+  if (packageTypes.length > 0 && !packageTypes.includes(order.packageType)) {
+    throw new PromoCodeError("This promo code is not valid for the selected package.");
+  }
+  const roles = asList(promo.roles);
+  if (roles.length > 0 && !roles.includes(order.role)) {
+    throw new PromoCodeError(`This promo code is not valid for ${order.role} registrations.`);
+  }
+
+  checkPromoUsage(promo, usage);
+
+  const value = Number(promo.discountValue) || 0;
+  let discount: number;
+  switch (promo.discountType) {
+    case "percentage":
+      discount = order.subtotal * Math.min(value, 100) / 100;
+      break;
+    case "fixed_amount":
+      discount = value;
+      break;
+    case "free_workshop":
+      if (order.chargedWorkshopPrices.length === 0) {
+        throw new PromoCodeError("This promo code gives a free workshop, but no paid workshops are selected.");
+      }
+      discount = sumLargest(order.chargedWorkshopPrices, Math.max(1, value));
+      break;
+    case "free_gala_seat":
+      if (order.chargedGalaSeatPrices.length === 0) {
+        throw new PromoCodeError("This promo code gives a free gala seat, but no paid gala seat is selected.");
+      }
+      discount = sumLargest(order.chargedGalaSeatPrices, Math.max(1, value));
+      break;
+    default:
+      throw new PromoCodeError("This promo code is not valid.");
+  }
+
+  return Math.round(Math.min(discount, order.subtotal) * 100) / 100;
+}
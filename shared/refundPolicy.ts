@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+// Per-event refund policy for cancellations: a list of deadlines, each with
+// the share of the amount paid that is refunded when cancelling before it,
+// e.g. 100% before 1 March, 50% before 1 April, nothing after.
+
+export const refundPolicyRuleSchema = z.object({
+  before: z.string().refine((value) => !isNaN(Date.parse(value)), "Refund deadline must be a valid date"),
+  percent: z.number().min(0).max(100),
+});
+
+export const refundPolicySchema = z.array(refundPolicyRuleSchema);
+
+export type RefundPolicyRule = z.infer<typeof refundPolicyRuleSchema>;
+export type RefundPolicy = RefundPolicyRule[];
+
+export interface RefundCalculation {
+  amountPaid: number;
+  percent: number;
+  amount: number;
+  // The deadline that applied, or null when none did
+  rule: RefundPolicyRule | null;
+}
+
+/**
+ * The refund due when a registration is cancelled at `now`. The earliest
+ * deadline still in the future applies; once every deadline has passed
+ * nothing is refunded. Events without a policy refund in full.
+ */
+export function calculateRefund(
+  policy: RefundPolicy | null | undefined,
+  amountPaid: number,
+  now: Date = new Date(),
+): RefundCalculation {
+  if (!policy || policy.length === 0) {
+    return { amountPaid, percent: 100, amount: amountPaid, rule: null };
+  }
+
+  const rule = [...policy]
+    .sort((a, b) => Date.parse(a.before) - Date.parse(b.before))
+    .find((candidate) => now.getTime() < Date.parse(candidate.before)) ?? null;
+  const percent = rule ? rule.percent : 0;
+
+  return {
+    amountPaid,
+    percent,
+    amount: Math.round(amountPaid * percent) / 100,
+    rule,
+  };
+}
@@ -0,0 +1,77 @@
+import type { Registration } from "./schema";
+
+// Confirmation pages and QR codes are reached with a signed access token
+// rather than the registration's id, and show a redacted view of the
+// registration: enough for the dancer and the check-in desk, but no phone
+// numbers, full email addresses or payment references.
+
+// Registration fields the public view passes through unchanged
+export const PUBLIC_REGISTRATION_FIELDS = [
+  "eventId",
+  "packageType",
+  "role",
+  "workshopIds",
+  "seatIds",
+  "milongaIds",
+  "selectedTableNumber",
+  "addons",
+  "totalAmount",
+  "discountAmount",
+  "promoCode",
+  "priceQuote",
+  "paymentMethod",
+  "paymentStatus",
+  "amountReceived",
+  "paymentPlan",
+  "holdExpiresAt",
+  "cancelledAt",
+  "refundAmount",
+  "cancellationRequestedAt",
+  "currency",
+  "exchangeRate",
+  "createdAt",
+] as const;
+
+export interface PublicPersonInfo {
+  firstName: string;
+  lastName: string;
+  email: string; // Masked, e.g. "m•••@example.com"
+  level: string;
+}
+
+export type PublicRegistration = Pick<Registration, typeof PUBLIC_REGISTRATION_FIELDS[number]> & {
+  code: string;
+  leaderInfo: PublicPersonInfo | null;
+  followerInfo: PublicPersonInfo | null;
+};
+
+/** Keep the first letter of the mailbox and the whole domain. */
+export function maskEmail(email: string): string {
+  const at = email.lastIndexOf("@");
+  if (at < 1) return "•••";
+  return `${email[0]}•••${email.slice(at)}`;
+}
+
+function toPublicPerson(info: unknown): PublicPersonInfo | null {
+  const person = info as Record<string, string | undefined> | null;
+  if (!person) return null;
+  return {
+    firstName: person.firstName || "",
+    lastName: person.lastName || "",
+    email: person.email ? maskEmail(person.email) : "",
+    level: person.level || "",
+  };
+}
+
+/** The redacted view of a registration shown on its confirmation page. */
+export function toPublicRegistration(registration: Registration, code: string): PublicRegistration {
+  const view = Object.fromEntries(
+    PUBLIC_REGISTRATION_FIELDS.map((field) => [field, registration[field]]),
+  ) as Pick<Registration, typeof PUBLIC_REGISTRATION_FIELDS[number]>;
+  return {
+    ...view,
+    code,
+    leaderInfo: toPublicPerson(registration.leaderInfo),
+    followerInfo: toPublicPerson(registration.followerInfo),
+  };
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { registrationSearchSchema } from "./registrationSearch";
+
+// Registration exports, generated on the server from the same filters as
+// the admin registrations search. Admins choose the columns; dancers' details
+// are flattened into a column per field for the leader and the follower.
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+  pdf: "PDF",
+};
+
+const PERSON_FIELDS = {
+  firstName: "First name",
+  lastName: "Last name",
+  email: "Email",
+  phone: "Phone",
+  country: "Country",
+  level: "Level",
+} as const;
+
+export type ExportPersonField = keyof typeof PERSON_FIELDS;
+
+const personColumns = <P extends "leader" | "follower">(person: P, group: string) =>
+  (Object.keys(PERSON_FIELDS) as ExportPersonField[]).map((field) => ({
+    key: `${person}.${field}` as `${P}.${ExportPersonField}`,
+    label: `${group} ${PERSON_FIELDS[field].toLowerCase()}`,
+    group,
+  }));
+
+export const EXPORT_COLUMNS = [
+  { key: "code", label: "Registration code", group: "Registration" },
+  { key: "createdAt", label: "Registered", group: "Registration" },
+  { key: "packageType", label: "Package", group: "Registration" },
+  { key: "role", label: "Role", group: "Registration" },
+  { key: "names", label: "Name(s)", group: "Registration" },
+  ...personColumns("leader", "Leader"),
+  ...personColumns("follower", "Follower"),
+  { key: "workshops", label: "Workshops", group: "Selection" },
+  { key: "workshopCount", label: "Workshop count", group: "Selection" },
+  { key: "milongas", label: "Milongas", group: "Selection" },
+  { key: "tableNumber", label: "Gala table", group: "Selection" },
+  { key: "addons", label: "Add-ons", group: "Selection" },
+  { key: "totalAmount", label: "Total", group: "Payment" },
+  { key: "discountAmount", label: "Discount", group: "Payment" },
+  { key: "promoCode", label: "Promo code", group: "Payment" },
+  { key: "amountReceived", label: "Received", group: "Payment" },
+  { key: "balanceDue", label: "Balance due", group: "Payment" },
+  { key: "paymentMethod", label: "Payment method", group: "Payment" },
+  { key: "paymentStatus", label: "Payment status", group: "Payment" },
+  { key: "currency", label: "Charged currency", group: "Payment" },
+  { key: "cancelledAt", label: "Cancelled", group: "Cancellation" },
+  { key: "refundAmount", label: "Refunded", group: "Cancellation" },
+  { key: "cancellationRequestedAt", label: "Cancellation requested", group: "Cancellation" },
+] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number]["key"];
+
+export const EXPORT_COLUMN_KEYS = EXPORT_COLUMNS.map((column) => column.key) as [ExportColumn, ...ExportColumn[]];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  "code",
+  "names",
+  "leader.email",
+  "leader.phone",
+  "packageType",
+  "role",
+  "workshops",
+  "milongas",
+  "tableNumber",
+  "addons",
+  "totalAmount",
+  "paymentStatus",
+  "createdAt",
+];
+
+export const registrationExportSchema = registrationSearchSchema
+  .omit({ page: true, pageSize: true })
+  .extend({
+    format: z.enum(EXPORT_FORMATS).default("csv"),
+    columns: z.preprocess(
+      (value) => (typeof value === "string" ? value.split(",") : value),
+      z.array(z.enum(EXPORT_COLUMN_KEYS)).min(1, "Choose at least one column"),
+    ).default(DEFAULT_EXPORT_COLUMNS),
+  });
+
+export type RegistrationExport = z.infer<typeof registrationExportSchema>;
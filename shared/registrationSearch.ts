@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { PAYMENT_STATUSES } from "./broadcasts";
+
+// Search, filtering and paging of the admin registrations list, done in SQL.
+// Filters combine like broadcast audiences: a registration must match every
+// filter given, and any one value within a filter. List filters can be
+// repeated in the query string (`?workshopIds=a&workshopIds=b`) or given
+// comma-separated.
+
+export const REGISTRATION_SORT_FIELDS = ["createdAt", "name", "email", "totalAmount", "paymentStatus", "packageType"] as const;
+export type RegistrationSortField = typeof REGISTRATION_SORT_FIELDS[number];
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 200;
+
+const toList = (value: unknown) => {
+  const values = typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : [];
+  return values
+    .map((entry) => (typeof entry === "string" ? entry.trim() : entry))
+    .filter((entry) => entry !== "");
+};
+
+const list = <T extends z.ZodTypeAny>(item: T) => z.preprocess(toList, z.array(item));
+
+const flag = z.preprocess(
+  (value) => (value === "true" ? true : value === "false" ? false : value),
+  z.boolean().optional(),
+);
+
+export const registrationSearchSchema = z.object({
+  eventId: z.string().optional(),
+  packageTypes: list(z.string()),
+  roles: list(z.enum(["leader", "follower", "couple"])),
+  paymentStatuses: list(z.enum(PAYMENT_STATUSES)),
+  workshopIds: list(z.string()),
+  milongaIds: list(z.string()),
+  tableNumbers: list(z.coerce.number().int()),
+  // Whether the registration has a gala table at all
+  hasTable: flag,
+  addonIds: list(z.string()),
+  // Matches the leader's or the follower's country
+  countries: list(z.string()),
+  // Registered on or after `from` and before the end of the day `to`
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Every word must appear in a dancer's name or email, or the registration code
+  q: z.string().trim().optional(),
+  sort: z.enum(REGISTRATION_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+export type RegistrationSearch = z.infer<typeof registrationSearchSchema>;
+export type RegistrationSearchInput = z.input<typeof registrationSearchSchema>;
+
+export interface RegistrationPage<T> {
+  registrations: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+/**
+ * The query string for a search (or an export, which takes the same
+ * filters), leaving out anything left at its default.
+ */
+export function toRegistrationSearchParams(search: Record<string, unknown>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(search)) {
+    if (value === undefined || value === null || value === "") continue;
+    if (Array.isArray(value)) {
+      value.forEach((entry) => params.append(key, String(entry)));
+    } else if (value instanceof Date) {
+      params.set(key, value.toISOString());
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  return params;
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+// Rosters: who is booked into a workshop (a class list), a milonga (a door
+// list) or a gala table, one line per dancer, so a couple counts as a
+// leader and a follower. Admins can share one with an instructor through a
+// read-only link that expires.
+
+export const ROSTER_TYPES = ["workshop", "milonga", "table"] as const;
+export type RosterType = typeof ROSTER_TYPES[number];
+
+export const ROSTER_TYPE_LABELS: Record<RosterType, string> = {
+  workshop: "Class list",
+  milonga: "Door list",
+  table: "Table list",
+};
+
+export const ROSTER_FILE_FORMATS = ["pdf", "csv"] as const;
+export type RosterFileFormat = typeof ROSTER_FILE_FORMATS[number];
+
+// How long a shared roster link can be made to last
+export const ROSTER_SHARE_DAYS = [1, 3, 7, 14, 30] as const;
+export const DEFAULT_ROSTER_SHARE_DAYS = 7;
+
+export const rosterShareSchema = z.object({
+  days: z.coerce.number().int().refine(
+    (days) => (ROSTER_SHARE_DAYS as readonly number[]).includes(days),
+    "Choose how long the link should last",
+  ).default(DEFAULT_ROSTER_SHARE_DAYS),
+});
+
+export interface RosterEntry {
+  registrationId: string;
+  name: string;
+  role: "leader" | "follower";
+  // The other dancer of a couple registration
+  partner: string | null;
+  level: string;
+  country: string;
+  checkedInAt: string | null;
+}
+
+export interface Roster {
+  type: RosterType;
+  id: string;
+  title: string;
+  // When and where, and who teaches it
+  details: string[];
+  entries: RosterEntry[];
+  counts: {
+    total: number;
+    leaders: number;
+    followers: number;
+    checkedIn: number;
+  };
+}
+
+export interface RosterShareLink {
+  url: string;
+  expiresAt: string;
+}
+
+export function countRoster(entries: RosterEntry[]): Roster["counts"] {
+  return {
+    total: entries.length,
+    leaders: entries.filter((entry) => entry.role === "leader").length,
+    followers: entries.filter((entry) => entry.role === "follower").length,
+    checkedIn: entries.filter((entry) => entry.checkedInAt).length,
+  };
+}
@@ -1,7 +1,20 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, jsonb, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, jsonb, boolean, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ADMIN_ROLES, ADMIN_PERMISSIONS } from "./permissions";
+import { PROMO_DISCOUNT_TYPES, normalizePromoCode } from "./promoCodes";
+import type { PriceQuote } from "./pricing";
+import { refundPolicySchema, type RefundPolicy } from "./refundPolicy";
+import { OFFLINE_PAYMENT_METHODS } from "./offlinePayments";
+import { paymentPlanSchema, INSTALMENT_STATUSES, type PaymentPlan } from "./paymentPlans";
+import { currencyCodeSchema, exchangeRatesSchema, type ExchangeRate } from "./currency";
+import { INVOICE_DOCUMENT_TYPES, invoiceLineSchema, type InvoiceLine } from "./invoices";
+import { NOTIFICATION_TYPES, EMAIL_TYPES, EMAIL_OUTBOX_STATUSES } from "./notifications";
+import { broadcastAudienceSchema, type BroadcastAudience } from "./broadcasts";
+import { PORTAL_TOKEN_KINDS, type TopUpPayment } from "./portal";
+import { CHECK_IN_SESSION_TYPES } from "./checkIn";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, auditChangesSchema, type AuditChanges } from "./audit";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -22,11 +35,55 @@ export const registrations = pgTable("registrations", {
   selectedTableNumber: integer("selected_table_number"),
   addons: jsonb("addons").default([]),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  promoCode: text("promo_code"), // Code applied at checkout, if any
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default('0'), // Promo discount already taken off totalAmount
+  priceQuote: jsonb("price_quote").$type<PriceQuote>(), // Itemised quote the customer accepted; unaffected by later price changes
   paymentMethod: text("payment_method"), // 'stripe', 'offline'
-  paymentStatus: text("payment_status").default('pending'), // 'pending', 'completed', 'failed'
+  paymentStatus: text("payment_status").default('pending'), // 'pending', 'partially_paid', 'completed', 'failed', 'refunded', 'partially_refunded', 'disputed', 'expired', 'cancelled'
+  amountReceived: decimal("amount_received", { precision: 10, scale: 2 }).default('0'), // Sum of recorded offline payments or paid instalments
+  lastPaymentReminderAt: timestamp("last_payment_reminder_at"),
+  paymentReminderCount: integer("payment_reminder_count").default(0),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
+  // Payment plan the dancer chose at checkout; null when paying in full
+  paymentPlan: jsonb("payment_plan").$type<PaymentPlan>(),
+  stripeCustomerId: text("stripe_customer_id"),
+  stripePaymentMethodId: text("stripe_payment_method_id"), // Card saved with the deposit for later instalments
+  holdExpiresAt: timestamp("hold_expires_at"), // Unpaid card checkouts release their places after this
+  // Cancellation; a cancelled registration no longer holds any places
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: text("cancelled_by"), // Email of the admin who cancelled
+  cancellationReason: text("cancellation_reason"),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).default('0'),
+  stripeRefundId: text("stripe_refund_id"), // Comma-separated when refunded across instalments or top-ups
+  // Amount refunded on each Stripe charge, by charge id, as Stripe reports
+  // it; refundAmount never falls below their sum
+  chargeRefunds: jsonb("charge_refunds").$type<Record<string, number>>().default({}),
+  // Cancellation the dancer asked for from the portal, for an admin to action
+  cancellationRequestedAt: timestamp("cancellation_requested_at"),
+  cancellationRequestReason: text("cancellation_request_reason"),
+  // Balances left by portal changes and paid by card; included in amountReceived
+  topUpPayments: jsonb("top_up_payments").$type<TopUpPayment[]>().default([]),
+  // The unpaid top-up payment intent, reused while the balance is unchanged
+  // so the dancer never has two open payments for it
+  topUpPaymentIntentId: varchar("top_up_payment_intent_id"),
+  // Part of the signed token in confirmation links and QR codes; bumping it
+  // invalidates every link issued so far
+  accessTokenVersion: integer("access_token_version").notNull().default(1),
+  // Amounts above are in the event's base currency; card payments are
+  // charged in this currency at this rate, fixed when registering
+  currency: varchar("currency", { length: 3 }).notNull().default('AED'),
+  exchangeRate: decimal("exchange_rate", { precision: 12, scale: 6 }).notNull().default('1'),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // For the admin registrations search
+  index("registrations_event_created_idx").on(table.eventId, table.createdAt),
+  index("registrations_payment_status_idx").on(table.eventId, table.paymentStatus),
+  index("registrations_workshop_ids_idx").using("gin", table.workshopIds),
+  index("registrations_milonga_ids_idx").using("gin", table.milongaIds),
+  index("registrations_addons_idx").using("gin", table.addons),
+  index("registrations_leader_email_idx").on(sql`lower(${table.leaderInfo}->>'email')`),
+  index("registrations_follower_email_idx").on(sql`lower(${table.followerInfo}->>'email')`),
+]);
 
 export const workshops = pgTable("workshops", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -46,6 +103,7 @@ export const workshops = pgTable("workshops", {
   followerCapacity: integer("follower_capacity").notNull(), // Maximum followers
   leadersEnrolled: integer("leaders_enrolled").default(0), // Current leaders enrolled
   followersEnrolled: integer("followers_enrolled").default(0), // Current followers enrolled
+  imbalanceTolerance: integer("imbalance_tolerance"), // Max leader/follower difference for solo dancers; null = no balancing
 });
 
 // New simplified table system
@@ -165,6 +223,20 @@ export const events = pgTable("events", {
   premiumAccommodation3NightsEarlyBirdSinglePrice: decimal("premium_accommodation_3nights_early_bird_single_price", { precision: 10, scale: 2 }).default('0'),
   premiumAccommodation3NightsEarlyBirdDoublePrice: decimal("premium_accommodation_3nights_early_bird_double_price", { precision: 10, scale: 2 }).default('0'),
   premiumAccommodation3NightsEarlyBirdEndDate: text("premium_accommodation_3nights_early_bird_end_date"),
+
+  // Cancellation refund deadlines; empty refunds in full
+  refundPolicy: jsonb("refund_policy").$type<RefundPolicy>().default([]),
+
+  // Prices are set in the base currency; other currencies are converted at
+  // the listed rates
+  baseCurrency: varchar("base_currency", { length: 3 }).notNull().default('AED'),
+  currencies: jsonb("currencies").$type<ExchangeRate[]>().default([]),
+
+  // Tax invoices; prices include VAT at this rate
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).default('0'), // Percent, e.g. 5.00
+  taxRegistrationNumber: text("tax_registration_number"), // TRN shown on invoices
+  invoiceIssuer: text("invoice_issuer"), // Legal name and address of the seller, one line each
+  invoicePrefix: text("invoice_prefix"), // Invoice numbers start with this; the event year when empty
   
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
@@ -200,12 +272,192 @@ export const packageConfigurations = pgTable("package_configurations", {
   includedGalaDinner: boolean("included_gala_dinner").default(false),
   workshopOveragePrice: decimal("workshop_overage_price", { precision: 10, scale: 2 }).default('0'),
   customWorkshopPricing: jsonb("custom_workshop_pricing").default({}), // { "4": 580, "6": 820 }
+  paymentPlan: jsonb("payment_plan").$type<PaymentPlan>(), // Deposit and instalments dancers may choose; null = pay in full
   isActive: boolean("is_active").default(true),
   sortOrder: integer("sort_order").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+// Waitlist for sold-out workshops, milongas and gala tables. Entries are
+// queued per item and role; when places free up the earliest fitting entries
+// are offered a time-limited hold that only their email can claim.
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  itemType: text("item_type").notNull(), // 'workshop', 'milonga', 'table'
+  itemId: varchar("item_id").notNull(), // Workshop, milonga or table id
+  role: text("role").notNull(), // 'leader', 'follower', 'couple'
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone"),
+  status: text("status").notNull().default('waiting'), // 'waiting', 'offered', 'claimed', 'expired', 'cancelled'
+  offeredAt: timestamp("offered_at"),
+  offerExpiresAt: timestamp("offer_expires_at"),
+  registrationId: varchar("registration_id"), // Registration that claimed the offer
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Discount codes for teachers, volunteers and partner festivals
+export const promoCodes = pgTable("promo_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  code: varchar("code", { length: 50 }).notNull(), // Stored upper-case
+  description: text("description"),
+  discountType: text("discount_type").notNull(), // 'percentage', 'fixed_amount', 'free_workshop', 'free_gala_seat'
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default('0'), // Percent, AED, or number of free items
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  maxUses: integer("max_uses"), // null = unlimited
+  maxUsesPerEmail: integer("max_uses_per_email"), // null = unlimited
+  packageTypes: jsonb("package_types").default([]), // Empty = every package
+  roles: jsonb("roles").default([]), // Empty = every role
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => [
+  // One code per event, whatever its case; see migrations/0000_promo_codes_unique_code.sql.
+  // Both keys are expressions: drizzle-kit can't read back an index that
+  // mixes a plain column with an expression, and push fails once it exists
+  uniqueIndex("promo_codes_event_code_idx").on(sql`(${table.eventId}::text)`, sql`lower(${table.code})`),
+]);
+
+// Ledger of offline payments received against a registration
+export const offlinePayments = pgTable("offline_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  registrationId: varchar("registration_id").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  method: text("method").notNull(), // 'bank_transfer', 'cash', 'card_at_desk'
+  reference: text("reference"), // Bank reference, receipt number, etc.
+  receivedAt: timestamp("received_at").notNull(),
+  recordedBy: text("recorded_by").notNull(), // Email of the admin who recorded it
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Deposit and scheduled instalments of a registration on a payment plan
+export const paymentInstalments = pgTable("payment_instalments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  registrationId: varchar("registration_id").notNull(),
+  sequence: integer("sequence").notNull(), // 0 is the deposit
+  label: text("label").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  status: text("status").notNull().default('pending'), // 'pending', 'paid', 'failed', 'cancelled'
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  paidAt: timestamp("paid_at"),
+  attemptCount: integer("attempt_count").default(0), // Automatic off-session charges tried
+  lastAttemptAt: timestamp("last_attempt_at"),
+  failureMessage: text("failure_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Tax invoices and credit notes, stored exactly as issued
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  registrationId: varchar("registration_id").notNull(),
+  documentType: text("document_type").notNull(), // 'invoice', 'credit_note'
+  sequence: integer("sequence").notNull(), // Runs per event and document type
+  number: text("number").notNull(),
+  invoiceId: varchar("invoice_id"), // The invoice a credit note reverses
+  issuedAt: timestamp("issued_at").notNull(),
+  issuer: text("issuer"),
+  taxRegistrationNumber: text("tax_registration_number"),
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  lineItems: jsonb("line_items").$type<InvoiceLine[]>().notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(), // Excluding VAT
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Admin overrides of the built-in notification emails, one per event and type
+export const emailTemplates = pgTable("email_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  type: text("type").notNull(), // NotificationType
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  enabled: boolean("enabled").notNull().default(true), // Switched off types aren't sent at all
+  updatedBy: text("updated_by"), // Email of the admin who last edited it
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// Emails waiting to be delivered, and the record of those already sent
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id"),
+  registrationId: varchar("registration_id"),
+  type: text("type").notNull(), // NotificationType, or 'broadcast'
+  broadcastId: varchar("broadcast_id"),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  status: text("status").notNull().default('pending'), // 'pending', 'sent', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  dedupeKey: text("dedupe_key").unique(), // The same notification is only ever queued once
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Announcements emailed to the attendees matching an audience's filters;
+// each recipient's email and its delivery status live in the outbox
+export const broadcasts = pgTable("broadcasts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  audience: jsonb("audience").$type<BroadcastAudience>().notNull(),
+  recipientCount: integer("recipient_count").notNull(),
+  createdBy: text("created_by").notNull(), // Email of the admin who sent it
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-time sign-in links to the dancer portal and the sessions they open.
+// Only a hash of each token is stored.
+export const portalTokens = pgTable("portal_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(), // Lowercased; the portal shows every registration filed under it
+  kind: text("kind").notNull(), // PortalTokenKind
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Login links work once; sessions end here on sign out
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Door check-ins, one per registration and session
+export const checkIns = pgTable("check_ins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  registrationId: varchar("registration_id").notNull(),
+  sessionType: text("session_type").notNull(), // CheckInSessionType
+  sessionId: text("session_id").notNull(), // Workshop or milonga id, or 'gala'
+  checkInKey: text("check_in_key").notNull().unique(), // registrationId:sessionType:sessionId
+  checkedInAt: timestamp("checked_in_at").notNull(),
+  checkedInBy: text("checked_in_by").notNull(), // Email of the admin at the door
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Append-only record of admin actions; see shared/audit.ts
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id"), // Event the entity belongs to; null for events, admin users and seating settings
+  actorId: text("actor_id").notNull(), // Admin user id
+  actorEmail: text("actor_email").notNull(),
+  action: text("action").notNull(), // AuditAction
+  entityType: text("entity_type").notNull(), // AuditEntityType
+  entityId: text("entity_id").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull().default({}), // Changed fields, before and after
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_log_entity_idx").on(table.entityType, table.entityId, table.createdAt),
+  index("audit_log_created_idx").on(table.createdAt),
+]);
+
 // Personal info schemas
 const personalInfoSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
@@ -232,8 +484,64 @@ export const insertRegistrationSchema = createInsertSchema(registrations, {
     options: z.record(z.string()).optional(),
   })).default([]),
   totalAmount: z.number().min(0),
+  promoCode: z.string().trim().transform(normalizePromoCode).optional(),
+  discountAmount: z.number().min(0).optional(),
   paymentMethod: z.enum(["stripe", "offline"]).optional(),
-}).omit({ id: true, createdAt: true });
+  currency: currencyCodeSchema.optional(),
+  exchangeRate: z.number().positive().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  holdExpiresAt: true,
+  priceQuote: true,
+  // Payment state is only ever set by the server and Stripe webhooks
+  paymentStatus: true,
+  stripePaymentIntentId: true,
+  cancelledAt: true,
+  cancelledBy: true,
+  cancellationReason: true,
+  refundAmount: true,
+  stripeRefundId: true,
+  chargeRefunds: true,
+  amountReceived: true,
+  lastPaymentReminderAt: true,
+  paymentReminderCount: true,
+  paymentPlan: true,
+  stripeCustomerId: true,
+  stripePaymentMethodId: true,
+  cancellationRequestedAt: true,
+  cancellationRequestReason: true,
+  topUpPayments: true,
+  topUpPaymentIntentId: true,
+  accessTokenVersion: true,
+});
+
+// Registration fields that change what is owed: an admin needs payments.write
+// as well as registrations.write to edit them
+export const REGISTRATION_PAYMENT_FIELDS = ["totalAmount", "discountAmount", "promoCode", "paymentMethod", "currency", "exchangeRate"] as const;
+
+// What an admin may change on an existing registration. Unknown keys are
+// rejected, so payment state can only move through the payment routes and
+// Stripe webhooks.
+export const updateRegistrationSchema = insertRegistrationSchema.pick({
+  packageType: true,
+  role: true,
+  leaderInfo: true,
+  followerInfo: true,
+  workshopIds: true,
+  seatIds: true,
+  milongaIds: true,
+  addons: true,
+  totalAmount: true,
+  discountAmount: true,
+  promoCode: true,
+  paymentMethod: true,
+  currency: true,
+  exchangeRate: true,
+}).extend({
+  // null takes the registration off its gala table
+  selectedTableNumber: z.number().int().positive().nullable(),
+}).partial().strict();
 
 // New schema for tables
 export const insertTableSchema = createInsertSchema(tables, {
@@ -257,15 +565,50 @@ export const insertEventSchema = createInsertSchema(events, {
   endDate: z.date(),
   registrationOpenDate: z.date(),
   registrationCloseDate: z.date(),
+  refundPolicy: refundPolicySchema.optional(),
+  baseCurrency: currencyCodeSchema.optional(),
+  currencies: exchangeRatesSchema.optional(),
+  vatRate: z.coerce.number().min(0).max(100).transform(String).optional(),
 }).omit({
   id: true,
   createdAt: true,
   updatedAt: true
 });
 
+// The event's package and workshop prices, which admins who manage pricing
+// may change without being able to edit the rest of the event
+export const eventPricingSchema = insertEventSchema.pick({
+  workshopStandardPrice: true,
+  workshopEarlyBirdPrice: true,
+  workshopEarlyBirdEndDate: true,
+  fullPackageStandardPrice: true,
+  fullPackageEarlyBirdPrice: true,
+  fullPackageEarlyBirdEndDate: true,
+  fullPackage24HourPrice: true,
+  fullPackage24HourStartDate: true,
+  fullPackage24HourEndDate: true,
+  eveningPackageStandardPrice: true,
+  eveningPackageEarlyBirdPrice: true,
+  eveningPackageEarlyBirdEndDate: true,
+  eveningPackage24HourPrice: true,
+  eveningPackage24HourStartDate: true,
+  eveningPackage24HourEndDate: true,
+  premiumAccommodation4NightsSinglePrice: true,
+  premiumAccommodation4NightsDoublePrice: true,
+  premiumAccommodation4NightsEarlyBirdSinglePrice: true,
+  premiumAccommodation4NightsEarlyBirdDoublePrice: true,
+  premiumAccommodation4NightsEarlyBirdEndDate: true,
+  premiumAccommodation3NightsSinglePrice: true,
+  premiumAccommodation3NightsDoublePrice: true,
+  premiumAccommodation3NightsEarlyBirdSinglePrice: true,
+  premiumAccommodation3NightsEarlyBirdDoublePrice: true,
+  premiumAccommodation3NightsEarlyBirdEndDate: true,
+}).partial();
+
 // Export types
 export type Registration = typeof registrations.$inferSelect;
 export type InsertRegistration = z.infer<typeof insertRegistrationSchema>;
+export type UpdateRegistration = z.infer<typeof updateRegistrationSchema>;
 export type Workshop = typeof workshops.$inferSelect;
 export type InsertWorkshop = z.infer<typeof insertWorkshopSchema>;
 export type Seat = typeof seats.$inferSelect;
@@ -319,8 +662,9 @@ export const insertAddonSchema = createInsertSchema(addons, {
 
 export const insertAdminUserSchema = createInsertSchema(adminUsers, {
   email: z.string().email("Invalid email address"),
-  role: z.enum(["admin", "manager", "staff"]),
-  permissions: z.record(z.boolean()).default({}),
+  role: z.enum(ADMIN_ROLES),
+  // Overrides on top of the role defaults, see shared/permissions.ts
+  permissions: z.record(z.enum(ADMIN_PERMISSIONS), z.boolean()).default({}),
 }).omit({ 
   id: true, 
   createdAt: true, 
@@ -351,12 +695,135 @@ export const insertPackageConfigurationSchema = createInsertSchema(packageConfig
   coupleMultiplier: z.number().min(1),
   includedWorkshops: z.number().min(0),
   workshopOveragePrice: z.number().min(0),
+  paymentPlan: paymentPlanSchema.nullable().optional(),
 }).omit({
   id: true,
   createdAt: true,
   updatedAt: true
 });
 
+export const WAITLIST_ITEM_TYPES = ["workshop", "milonga", "table"] as const;
+export const WAITLIST_STATUSES = ["waiting", "offered", "claimed", "expired", "cancelled"] as const;
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries, {
+  itemType: z.enum(WAITLIST_ITEM_TYPES),
+  itemId: z.string().min(1, "Item is required"),
+  role: z.enum(["leader", "follower", "couple"]),
+  name: z.string().min(1, "Name is required"),
+  email: z.string().email("Invalid email address"),
+}).omit({
+  id: true,
+  eventId: true,
+  status: true,
+  offeredAt: true,
+  offerExpiresAt: true,
+  registrationId: true,
+  createdAt: true
+});
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes, {
+  eventId: z.string().min(1, "Event ID is required"),
+  code: z.string().trim().min(1, "Code is required").max(50).transform(normalizePromoCode),
+  discountType: z.enum(PROMO_DISCOUNT_TYPES),
+  discountValue: z.coerce.number().min(0).transform(String),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  maxUsesPerEmail: z.number().int().min(1).nullable().optional(),
+  packageTypes: z.array(z.enum(["full", "evening", "custom", "premium-accommodation-4nights", "premium-accommodation-3nights"])).default([]),
+  roles: z.array(z.enum(["leader", "follower", "couple"])).default([]),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertOfflinePaymentSchema = createInsertSchema(offlinePayments, {
+  amount: z.coerce.number().positive("Amount must be greater than 0").transform(String),
+  method: z.enum(OFFLINE_PAYMENT_METHODS),
+  reference: z.string().trim().nullable().optional(),
+  receivedAt: z.coerce.date(),
+  notes: z.string().trim().nullable().optional(),
+}).omit({
+  id: true,
+  registrationId: true,
+  recordedBy: true,
+  createdAt: true
+});
+
+export const insertPaymentInstalmentSchema = createInsertSchema(paymentInstalments, {
+  status: z.enum(INSTALMENT_STATUSES),
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+// Numbers are assigned by storage when the document is issued
+export const insertInvoiceSchema = createInsertSchema(invoices, {
+  documentType: z.enum(INVOICE_DOCUMENT_TYPES),
+  lineItems: z.array(invoiceLineSchema),
+}).omit({
+  id: true,
+  sequence: true,
+  number: true,
+  createdAt: true
+});
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates, {
+  type: z.enum(NOTIFICATION_TYPES),
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  body: z.string().trim().min(1, "Body is required"),
+}).omit({
+  id: true,
+  updatedAt: true
+});
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox, {
+  type: z.enum(EMAIL_TYPES),
+  status: z.enum(EMAIL_OUTBOX_STATUSES),
+}).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true
+});
+
+export const insertBroadcastSchema = createInsertSchema(broadcasts, {
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  body: z.string().trim().min(1, "Message is required"),
+  audience: broadcastAudienceSchema,
+}).omit({
+  id: true,
+  recipientCount: true,
+  createdAt: true
+});
+
+export const insertPortalTokenSchema = createInsertSchema(portalTokens, {
+  kind: z.enum(PORTAL_TOKEN_KINDS),
+}).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true
+});
+
+export const insertCheckInSchema = createInsertSchema(checkIns, {
+  sessionType: z.enum(CHECK_IN_SESSION_TYPES),
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertAuditLogEntrySchema = createInsertSchema(auditLog, {
+  action: z.enum(AUDIT_ACTIONS),
+  entityType: z.enum(AUDIT_ENTITY_TYPES),
+  changes: auditChangesSchema,
+}).omit({
+  id: true,
+  createdAt: true
+});
+
 export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -364,6 +831,29 @@ export type PricingTier = typeof pricingTiers.$inferSelect;
 export type InsertPricingTier = z.infer<typeof insertPricingTierSchema>;
 export type PackageConfiguration = typeof packageConfigurations.$inferSelect;
 export type InsertPackageConfiguration = z.infer<typeof insertPackageConfigurationSchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistItemType = typeof WAITLIST_ITEM_TYPES[number];
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type OfflinePayment = typeof offlinePayments.$inferSelect;
+export type InsertOfflinePayment = z.infer<typeof insertOfflinePaymentSchema>;
+export type PaymentInstalment = typeof paymentInstalments.$inferSelect;
+export type InsertPaymentInstalment = z.infer<typeof insertPaymentInstalmentSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxEntry = z.infer<typeof insertEmailOutboxSchema>;
+export type Broadcast = typeof broadcasts.$inferSelect;
+export type InsertBroadcast = z.infer<typeof insertBroadcastSchema>;
+export type PortalToken = typeof portalTokens.$inferSelect;
+export type InsertPortalToken = z.infer<typeof insertPortalTokenSchema>;
+export type CheckIn = typeof checkIns.$inferSelect;
+export type InsertCheckIn = z.infer<typeof insertCheckInSchema>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogEntrySchema>;
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
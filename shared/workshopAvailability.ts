@@ -0,0 +1,94 @@
+// Leader/follower balancing rules for workshops, shared by the registration
+// API (enforcement) and the workshop selection step (messaging).
+
+export type DancerRole = "leader" | "follower" | "couple";
+
+export interface WorkshopRoleCounts {
+  capacity: number;
+  leaderCapacity: number;
+  followerCapacity: number;
+  leadersEnrolled?: number | null;
+  followersEnrolled?: number | null;
+  // Max number of leaders over followers (or vice versa) a workshop may run
+  // ahead by, at least 1; null disables balancing beyond the per-role
+  // capacities.
+  imbalanceTolerance?: number | null;
+}
+
+export type WorkshopUnavailableReason =
+  | "full"
+  | "leaders_full"
+  | "followers_full"
+  | "too_many_leaders"
+  | "too_many_followers";
+
+export interface RoleAvailability {
+  available: boolean;
+  reason?: WorkshopUnavailableReason;
+}
+
+export const WORKSHOP_UNAVAILABLE_MESSAGES: Record<WorkshopUnavailableReason, string> = {
+  full: "Workshop full",
+  leaders_full: "Leaders full — followers still available",
+  followers_full: "Followers full — leaders still available",
+  too_many_leaders: "Waiting for more followers — followers still available",
+  too_many_followers: "Waiting for more leaders — leaders still available",
+};
+
+/**
+ * Whether a registration of the given role can join a workshop with the
+ * given enrollment. Couples take one leader and one follower place, so they
+ * never make the balance worse, and a solo dancer may always join the role
+ * that's behind.
+ */
+export function getRoleAvailability(workshop: WorkshopRoleCounts, role: DancerRole): RoleAvailability {
+  const leaders = workshop.leadersEnrolled || 0;
+  const followers = workshop.followersEnrolled || 0;
+  const addLeaders = role === "follower" ? 0 : 1;
+  const addFollowers = role === "leader" ? 0 : 1;
+
+  if (leaders + followers + addLeaders + addFollowers > workshop.capacity) {
+    return { available: false, reason: "full" };
+  }
+  if (addLeaders > 0 && leaders + addLeaders > workshop.leaderCapacity) {
+    return { available: false, reason: "leaders_full" };
+  }
+  if (addFollowers > 0 && followers + addFollowers > workshop.followerCapacity) {
+    return { available: false, reason: "followers_full" };
+  }
+
+  if (role !== "couple" && workshop.imbalanceTolerance !== null && workshop.imbalanceTolerance !== undefined) {
+    // One solo dancer always unbalances by one, so anything lower would
+    // turn every solo dancer away
+    const tolerance = Math.max(workshop.imbalanceTolerance, 1);
+    const imbalance = (leaders + addLeaders) - (followers + addFollowers);
+    if (imbalance > tolerance && addLeaders > 0) {
+      return { available: false, reason: "too_many_leaders" };
+    }
+    if (-imbalance > tolerance && addFollowers > 0) {
+      return { available: false, reason: "too_many_followers" };
+    }
+  }
+
+  return { available: true };
+}
+
+/**
+ * Summary line for a workshop card, e.g. "Leaders full — followers still
+ * available". Returns undefined while every role can still join.
+ */
+export function getWorkshopAvailabilityNote(workshop: WorkshopRoleCounts): string | undefined {
+  const leader = getRoleAvailability(workshop, "leader");
+  const follower = getRoleAvailability(workshop, "follower");
+
+  if (!leader.available && !follower.available) {
+    return WORKSHOP_UNAVAILABLE_MESSAGES.full;
+  }
+  if (!leader.available) {
+    return WORKSHOP_UNAVAILABLE_MESSAGES[leader.reason === "too_many_leaders" ? "too_many_leaders" : "leaders_full"];
+  }
+  if (!follower.available) {
+    return WORKSHOP_UNAVAILABLE_MESSAGES[follower.reason === "too_many_followers" ? "too_many_followers" : "followers_full"];
+  }
+  return undefined;
+}